@@ -0,0 +1,237 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { ApplicabilityPredicate, ApplicabilityPredicateSchema, PlaybookBullet } from "./types.js";
+import { fileExists } from "./utils.js";
+import { findProjectRoot, getWorkspaceProfile, normalizeLanguage, WorkspaceProfile } from "./workspace-profile.js";
+
+// -----------------------------------------------------------------------------
+// Applicability predicates (`bullet.appliesWhen`)
+// -----------------------------------------------------------------------------
+//
+// A workspace probe answers predicate questions lazily and caches each answer,
+// so evaluating a whole playbook reads package.json and .git/HEAD at most once.
+// Everything is resolved from the project root: the nearest ancestor of the
+// workspace containing `.git`, or the workspace itself outside a repository.
+// Languages and frameworks come from the workspace profile, which also turns a
+// `language`/`framework` bullet scope into an implicit predicate.
+
+const OS_ALIASES: Record<string, string> = { macos: "darwin", mac: "darwin", osx: "darwin", windows: "win32", win: "win32" };
+
+const DEPENDENCY_SECTIONS = ["dependencies", "devDependencies", "peerDependencies", "optionalDependencies"];
+
+const PREFIXES: Record<string, ApplicabilityPredicate["type"]> = {
+  file: "file",
+  dep: "dependency",
+  dependency: "dependency",
+  lang: "language",
+  language: "language",
+  framework: "framework",
+  fw: "framework",
+  branch: "branch",
+  os: "os",
+};
+
+export interface PredicateResult {
+  predicate: ApplicabilityPredicate;
+  description: string;
+  passed: boolean;
+  /** What the workspace actually had, e.g. the current branch. */
+  observed?: string;
+  /** True for the predicate implied by a `language`/`framework` scope. */
+  fromScope?: boolean;
+}
+
+export interface ApplicabilityResult {
+  applies: boolean;
+  results: PredicateResult[];
+}
+
+export interface WorkspaceProbe {
+  root: string;
+  fileExists(relativePath: string): Promise<boolean>;
+  dependencies(): Promise<Set<string>>;
+  languages(): Promise<Set<string>>;
+  frameworks(): Promise<Set<string>>;
+  profile(): Promise<WorkspaceProfile>;
+  branch(): Promise<string | null>;
+  platform: string;
+}
+
+async function readGitBranch(root: string): Promise<string | null> {
+  try {
+    let gitDir = path.join(root, ".git");
+    const stat = await fs.stat(gitDir);
+    if (stat.isFile()) {
+      // Worktrees and submodules: `.git` is a file pointing at the real git dir
+      const pointer = (await fs.readFile(gitDir, "utf-8")).match(/^gitdir:\s*(.+)$/m);
+      if (!pointer) return null;
+      gitDir = path.resolve(root, pointer[1].trim());
+    }
+    const head = (await fs.readFile(path.join(gitDir, "HEAD"), "utf-8")).trim();
+    const ref = head.match(/^ref:\s*refs\/heads\/(.+)$/);
+    return ref ? ref[1] : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Build a caching probe for the project containing `workspace`. */
+export async function createWorkspaceProbe(workspace: string, platform: string = process.platform): Promise<WorkspaceProbe> {
+  const root = await findProjectRoot(workspace);
+  const files = new Map<string, Promise<boolean>>();
+  let deps: Promise<Set<string>> | null = null;
+  let branch: Promise<string | null> | null = null;
+
+  const probe: WorkspaceProbe = {
+    root,
+    platform,
+    fileExists(relativePath) {
+      const key = relativePath.replace(/^\.\//, "");
+      if (!files.has(key)) files.set(key, fileExists(path.resolve(root, key)));
+      return files.get(key)!;
+    },
+    dependencies() {
+      deps ??= (async () => {
+        try {
+          const pkg = JSON.parse(await fs.readFile(path.join(root, "package.json"), "utf-8"));
+          return new Set(DEPENDENCY_SECTIONS.flatMap((section) => Object.keys(pkg?.[section] ?? {})));
+        } catch {
+          return new Set<string>();
+        }
+      })();
+      return deps;
+    },
+    profile() {
+      return getWorkspaceProfile(root);
+    },
+    async languages() {
+      return new Set((await probe.profile()).languages.map((l) => l.name));
+    },
+    async frameworks() {
+      return new Set((await probe.profile()).frameworks.map((f) => f.name));
+    },
+    branch() {
+      branch ??= readGitBranch(root);
+      return branch;
+    },
+  };
+  return probe;
+}
+
+function globToRegExp(glob: string): RegExp {
+  const escaped = glob.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".");
+  return new RegExp(`^${escaped}$`);
+}
+
+export function describePredicate(p: ApplicabilityPredicate): string {
+  const not = p.negate ? "not " : "";
+  switch (p.type) {
+    case "file":
+      return `file ${p.path} ${p.negate ? "does not exist" : "exists"}`;
+    case "dependency":
+      return `package.json ${p.negate ? "does not depend" : "depends"} on ${p.name}`;
+    case "language":
+      return `language is ${not}${normalizeLanguage(p.language)}`;
+    case "framework":
+      return `framework is ${not}${p.name.toLowerCase()}`;
+    case "branch":
+      return `git branch ${p.negate ? "does not match" : "matches"} ${p.pattern}`;
+    case "os":
+      return `OS is ${not}${p.os}`;
+  }
+}
+
+async function checkPredicate(p: ApplicabilityPredicate, probe: WorkspaceProbe): Promise<{ holds: boolean; observed?: string }> {
+  switch (p.type) {
+    case "file":
+      return { holds: await probe.fileExists(p.path) };
+    case "dependency":
+      return { holds: (await probe.dependencies()).has(p.name) };
+    case "language": {
+      const detected = await probe.languages();
+      return {
+        holds: detected.has(normalizeLanguage(p.language)),
+        observed: detected.size > 0 ? [...detected].sort().join(", ") : "none detected",
+      };
+    }
+    case "framework": {
+      const detected = await probe.frameworks();
+      return {
+        holds: detected.has(p.name.toLowerCase()),
+        observed: detected.size > 0 ? [...detected].sort().join(", ") : "none detected",
+      };
+    }
+    case "branch": {
+      const current = await probe.branch();
+      return { holds: current !== null && globToRegExp(p.pattern).test(current), observed: current ?? "no branch" };
+    }
+    case "os": {
+      const wanted = p.os.trim().toLowerCase();
+      return { holds: (OS_ALIASES[wanted] ?? wanted) === probe.platform, observed: probe.platform };
+    }
+  }
+}
+
+/** The predicate a `language`/`framework` scope with a scopeKey implies, if any. */
+export function scopePredicate(bullet: Partial<Pick<PlaybookBullet, "scope" | "scopeKey">>): ApplicabilityPredicate | null {
+  const key = bullet.scopeKey?.trim();
+  if (!key) return null;
+  if (bullet.scope === "language") return { type: "language", language: key };
+  if (bullet.scope === "framework") return { type: "framework", name: key };
+  return null;
+}
+
+/**
+ * Evaluate every predicate of `bullet`, starting with the one implied by its
+ * scope; bullets without predicates always apply.
+ */
+export async function evaluateApplicability(
+  bullet: Partial<Pick<PlaybookBullet, "appliesWhen" | "scope" | "scopeKey">>,
+  probe: WorkspaceProbe
+): Promise<ApplicabilityResult> {
+  const results: PredicateResult[] = [];
+  const implied = scopePredicate(bullet);
+  const predicates = [...(implied ? [implied] : []), ...(bullet.appliesWhen ?? [])];
+  for (const [index, predicate] of predicates.entries()) {
+    const { holds, observed } = await checkPredicate(predicate, probe);
+    results.push({
+      predicate,
+      description: describePredicate(predicate),
+      passed: predicate.negate ? !holds : holds,
+      ...(observed !== undefined ? { observed } : {}),
+      ...(implied && index === 0 ? { fromScope: true } : {}),
+    });
+  }
+  return { applies: results.every((r) => r.passed), results };
+}
+
+/** Keep the bullets whose predicates (explicit or scope-implied) all hold in the probed workspace. */
+export async function filterApplicableBullets<T extends PlaybookBullet>(bullets: T[], probe: WorkspaceProbe): Promise<T[]> {
+  const kept: T[] = [];
+  for (const bullet of bullets) {
+    const unconditional = !bullet.appliesWhen?.length && !scopePredicate(bullet);
+    if (unconditional || (await evaluateApplicability(bullet, probe)).applies) kept.push(bullet);
+  }
+  return kept;
+}
+
+/**
+ * Parse the CLI shorthand `<kind>:<value>`, with a leading `!` to negate:
+ * `file:bun.lock`, `dep:react`, `lang:rust`, `framework:django`,
+ * `branch:release/*`, `os:macos`.
+ * Returns null when the kind is unknown or the value is empty.
+ */
+export function parseApplicabilityPredicate(raw: string): ApplicabilityPredicate | null {
+  let text = raw.trim();
+  const negate = text.startsWith("!");
+  if (negate) text = text.slice(1).trim();
+  const idx = text.indexOf(":");
+  if (idx <= 0) return null;
+  const type = PREFIXES[text.slice(0, idx).trim().toLowerCase()];
+  const value = text.slice(idx + 1).trim();
+  if (!type || !value) return null;
+
+  const field = { file: "path", dependency: "name", language: "language", framework: "name", branch: "pattern", os: "os" }[type];
+  const parsed = ApplicabilityPredicateSchema.safeParse({ type, [field]: value, ...(negate ? { negate: true } : {}) });
+  return parsed.success ? parsed.data : null;
+}
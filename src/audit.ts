@@ -67,7 +67,8 @@ export async function scanSessionsForViolations(
           AuditOutputSchema,
           prompt,
           config,
-          io
+          io,
+          "audit"
         );
 
         for (const res of result.results) {
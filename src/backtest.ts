@@ -0,0 +1,381 @@
+import { BulletMaturity, Config, FeedbackEvent, Playbook, PlaybookBullet } from "./types.js";
+import {
+  checkForDemotion,
+  checkForPromotion,
+  getDecayedCounts,
+  getEffectiveScore,
+  resolveScoringStrategy,
+} from "./scoring.js";
+import { OutcomeRecord, scoreImplicitFeedback } from "./outcome.js";
+import { UsageEvent } from "./tracking.js";
+import { generateFeedbackEventId, jaccardSimilaritySets, tokenize } from "./utils.js";
+
+// -----------------------------------------------------------------------------
+// Backtest
+// -----------------------------------------------------------------------------
+//
+// Replays recorded feedback against two configs (the current one and a
+// candidate) and reports where their outcomes differ. Each bullet starts as a
+// candidate at its creation time; after every feedback event, in time order,
+// the same checks reflection runs (harmful-feedback pruning, checkForPromotion,
+// checkForDemotion) are evaluated as of that event. Final scores and context
+// ranks are computed as of now. Nothing is written.
+
+export type ReplayedState = BulletMaturity | "pruned";
+
+export interface BacktestTransition {
+  at: string;
+  from: ReplayedState;
+  to: ReplayedState;
+}
+
+export interface BulletReplay {
+  id: string;
+  maturity: BulletMaturity;
+  pruned: boolean;
+  prunedAt: string | null;
+  score: number;
+  /** Position among non-pruned bullets by effective score (1 = best); null when pruned. */
+  rank: number | null;
+  /** Within config.maxBulletsInContext of the top. */
+  surfaced: boolean;
+  transitions: BacktestTransition[];
+}
+
+export type BacktestChangeKind = "promoted" | "demoted" | "pruned" | "restored" | "surfaced" | "hidden" | "reranked";
+
+export interface BacktestBulletChange {
+  id: string;
+  content: string;
+  changes: BacktestChangeKind[];
+  current: Omit<BulletReplay, "id" | "transitions">;
+  candidate: Omit<BulletReplay, "id" | "transitions">;
+  candidateTransitions: BacktestTransition[];
+}
+
+export interface BacktestReport {
+  configDiff: Array<{ key: string; current: unknown; candidate: unknown }>;
+  inputs: {
+    bullets: number;
+    feedbackEvents: number;
+    /** Events derived from the outcomes log that were not already stored on a bullet. */
+    outcomeEvents: number;
+    /** bullet_marked usage events that were not already stored on a bullet. */
+    usageEvents: number;
+  };
+  summary: Record<BacktestChangeKind, number>;
+  changes: BacktestBulletChange[];
+  dedup: {
+    threshold: { current: number; candidate: number };
+    /** Active pairs the candidate threshold would treat as duplicates but the current one does not. */
+    added: Array<{ a: string; b: string; similarity: number }>;
+    /** Active pairs the current threshold treats as duplicates but the candidate would not. */
+    removed: Array<{ a: string; b: string; similarity: number }>;
+  };
+}
+
+export interface BacktestInputs {
+  playbook: Playbook;
+  outcomes: OutcomeRecord[];
+  usageEvents: UsageEvent[];
+  now?: Date;
+}
+
+const MATURITY_ORDER: Record<BulletMaturity, number> = {
+  deprecated: 0,
+  candidate: 1,
+  established: 2,
+  proven: 3,
+};
+
+/** A usage event counts as already stored if the bullet has a same-typed event this close in time. */
+const USAGE_MATCH_WINDOW_MS = 60_000;
+
+const DEDUP_SCAN_LIMIT = 2000;
+
+/**
+ * Per-bullet feedback timelines: stored events, plus events the outcome log
+ * and usage log imply but that never reached the playbook (e.g. outcomes
+ * recorded without `outcome-apply`).
+ */
+export function collectReplayEvents(
+  bullets: PlaybookBullet[],
+  outcomes: OutcomeRecord[],
+  usageEvents: UsageEvent[]
+): { timelines: Map<string, FeedbackEvent[]>; outcomeEvents: number; usageEvents: number; feedbackEvents: number } {
+  const timelines = new Map<string, FeedbackEvent[]>();
+  let feedbackEvents = 0;
+  for (const bullet of bullets) {
+    const events = [...(bullet.feedbackEvents || [])];
+    feedbackEvents += events.length;
+    timelines.set(bullet.id, events);
+  }
+
+  let outcomeEvents = 0;
+  for (const outcome of outcomes) {
+    if (!outcome.rulesUsed || outcome.rulesUsed.length === 0) continue;
+    const scored = scoreImplicitFeedback(outcome);
+    if (!scored) continue;
+
+    for (const ruleId of outcome.rulesUsed) {
+      const events = timelines.get(ruleId);
+      if (!events) continue;
+      // Same id and duplicate check as applyOutcomeFeedback, so applied outcomes are not counted twice
+      const id = generateFeedbackEventId(`${outcome.sessionId}:${outcome.recordedAt}:${ruleId}:${scored.type}`);
+      const applied = events.some(
+        (e) =>
+          e.id === id ||
+          (e.type === scored.type && e.sessionPath === outcome.sessionId && e.timestamp === outcome.recordedAt)
+      );
+      if (applied) continue;
+      events.push({
+        id,
+        type: scored.type,
+        timestamp: outcome.recordedAt,
+        sessionPath: outcome.sessionId,
+        context: scored.context,
+        decayedValue: scored.decayedValue,
+      });
+      outcomeEvents++;
+    }
+  }
+
+  let usageCount = 0;
+  for (const usage of usageEvents) {
+    if (usage.event !== "bullet_marked") continue;
+    const events = timelines.get(usage.data.bulletId);
+    if (!events) continue;
+    const ts = new Date(usage.timestamp).getTime();
+    if (!Number.isFinite(ts)) continue;
+    const stored = events.some(
+      (e) =>
+        e.type === usage.data.feedback &&
+        Math.abs(new Date(e.timestamp).getTime() - ts) <= USAGE_MATCH_WINDOW_MS
+    );
+    if (stored) continue;
+    events.push({
+      type: usage.data.feedback,
+      timestamp: usage.timestamp,
+      ...(usage.data.sessionPath ? { sessionPath: usage.data.sessionPath } : {}),
+    });
+    usageCount++;
+  }
+
+  for (const events of timelines.values()) {
+    events.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  }
+
+  return { timelines, outcomeEvents, usageEvents: usageCount, feedbackEvents };
+}
+
+/** The harmful-feedback prune condition reflection applies before promotions (see curate). */
+function wouldPrune(bullet: PlaybookBullet, config: Config, now: Date): boolean {
+  if (bullet.pinned || bullet.kind === "anti_pattern") return false;
+  const { decayedHarmful, decayedHelpful } = getDecayedCounts(bullet, config, now);
+  const pruneThreshold = config.pruneHarmfulThreshold ?? 3;
+  const epsilon = 0.01;
+  return decayedHarmful >= pruneThreshold - epsilon && decayedHarmful > decayedHelpful * 2;
+}
+
+/** Replay one bullet's lifecycle under `config`. Score and rank are filled in by rankReplays. */
+export function replayBullet(
+  bullet: PlaybookBullet,
+  events: FeedbackEvent[],
+  config: Config,
+  now: Date = new Date()
+): BulletReplay {
+  let maturity: BulletMaturity = bullet.pinned ? bullet.maturity : "candidate";
+  const transitions: BacktestTransition[] = [];
+  let prunedAt: string | null = null;
+
+  const evaluate = (at: Date, upTo: number): boolean => {
+    const sim: PlaybookBullet = {
+      ...bullet,
+      maturity,
+      deprecated: false,
+      feedbackEvents: events.slice(0, upTo),
+    };
+    const timestamp = at.toISOString();
+
+    if (wouldPrune(sim, config, at)) {
+      transitions.push({ at: timestamp, from: maturity, to: "pruned" });
+      prunedAt = timestamp;
+      return false;
+    }
+
+    const promoted = checkForPromotion(sim, config, at);
+    if (promoted !== maturity) {
+      transitions.push({ at: timestamp, from: maturity, to: promoted });
+      maturity = promoted;
+      sim.maturity = promoted;
+    }
+
+    const demoted = checkForDemotion(sim, config, at);
+    if (demoted === "auto-deprecate") {
+      transitions.push({ at: timestamp, from: maturity, to: "pruned" });
+      prunedAt = timestamp;
+      return false;
+    }
+    if (demoted !== maturity) {
+      transitions.push({ at: timestamp, from: maturity, to: demoted });
+      maturity = demoted;
+    }
+    return true;
+  };
+
+  let alive = true;
+  for (let i = 0; i < events.length && alive; i++) {
+    const at = new Date(events[i].timestamp);
+    if (!Number.isFinite(at.getTime()) || at > now) continue;
+    alive = evaluate(at, i + 1);
+  }
+  // Decay keeps working after the last event, so evaluate once more as of now
+  if (alive) alive = evaluate(now, events.length);
+
+  const score = alive
+    ? getEffectiveScore({ ...bullet, maturity, feedbackEvents: events }, config, resolveScoringStrategy(config), now)
+    : 0;
+
+  return {
+    id: bullet.id,
+    maturity: alive ? maturity : "deprecated",
+    pruned: !alive,
+    prunedAt,
+    score: Number(score.toFixed(2)),
+    rank: null,
+    surfaced: false,
+    transitions,
+  };
+}
+
+function rankReplays(replays: BulletReplay[], config: Config): void {
+  const limit = config.maxBulletsInContext ?? 50;
+  const ranked = replays
+    .filter((r) => !r.pruned)
+    .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id));
+  ranked.forEach((r, i) => {
+    r.rank = i + 1;
+    r.surfaced = i < limit;
+  });
+}
+
+function replayAll(
+  bullets: PlaybookBullet[],
+  timelines: Map<string, FeedbackEvent[]>,
+  config: Config,
+  now: Date
+): Map<string, BulletReplay> {
+  const replays = bullets.map((b) => replayBullet(b, timelines.get(b.id) ?? [], config, now));
+  rankReplays(replays, config);
+  return new Map(replays.map((r) => [r.id, r]));
+}
+
+function classifyChanges(current: BulletReplay, candidate: BulletReplay): BacktestChangeKind[] {
+  const changes: BacktestChangeKind[] = [];
+  if (candidate.pruned && !current.pruned) changes.push("pruned");
+  if (!candidate.pruned && current.pruned) changes.push("restored");
+  if (!candidate.pruned && !current.pruned) {
+    const delta = MATURITY_ORDER[candidate.maturity] - MATURITY_ORDER[current.maturity];
+    if (delta > 0) changes.push("promoted");
+    if (delta < 0) changes.push("demoted");
+  }
+  if (candidate.surfaced && !current.surfaced) changes.push("surfaced");
+  if (!candidate.surfaced && current.surfaced) changes.push("hidden");
+  if (changes.length === 0 && candidate.rank !== current.rank) changes.push("reranked");
+  return changes;
+}
+
+function flattenConfig(value: unknown, prefix = "", out: Record<string, unknown> = {}): Record<string, unknown> {
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      flattenConfig(child, prefix ? `${prefix}.${key}` : key, out);
+    }
+  } else if (prefix) {
+    out[prefix] = value;
+  }
+  return out;
+}
+
+/** Dotted config keys whose values differ between two configs. */
+export function diffConfigs(current: Config, candidate: Config): BacktestReport["configDiff"] {
+  const a = flattenConfig(current);
+  const b = flattenConfig(candidate);
+  const keys = [...new Set([...Object.keys(a), ...Object.keys(b)])].sort();
+  return keys
+    .filter((key) => JSON.stringify(a[key]) !== JSON.stringify(b[key]))
+    .map((key) => ({ key, current: a[key] ?? null, candidate: b[key] ?? null }));
+}
+
+function diffDedup(bullets: PlaybookBullet[], current: number, candidate: number): BacktestReport["dedup"] {
+  const added: BacktestReport["dedup"]["added"] = [];
+  const removed: BacktestReport["dedup"]["removed"] = [];
+  const result = { threshold: { current, candidate }, added, removed };
+  if (current === candidate) return result;
+
+  const tokenized = bullets.slice(0, DEDUP_SCAN_LIMIT).map((b) => ({ id: b.id, tokens: new Set(tokenize(b.content)) }));
+  for (let i = 0; i < tokenized.length; i++) {
+    for (let j = i + 1; j < tokenized.length; j++) {
+      const similarity = jaccardSimilaritySets(tokenized[i].tokens, tokenized[j].tokens);
+      const before = similarity >= current;
+      const after = similarity >= candidate;
+      if (before === after) continue;
+      const pair = { a: tokenized[i].id, b: tokenized[j].id, similarity: Number(similarity.toFixed(2)) };
+      (after ? added : removed).push(pair);
+    }
+  }
+  return result;
+}
+
+/** Replay recorded feedback under both configs and report where they disagree. */
+export function runBacktest(inputs: BacktestInputs, current: Config, candidate: Config): BacktestReport {
+  const now = inputs.now ?? new Date();
+  // Deprecated bullets without feedback were retired by hand; replaying would resurrect them
+  const bullets = inputs.playbook.bullets.filter((b) => !b.deprecated || (b.feedbackEvents || []).length > 0);
+  const collected = collectReplayEvents(bullets, inputs.outcomes, inputs.usageEvents);
+
+  const before = replayAll(bullets, collected.timelines, current, now);
+  const after = replayAll(bullets, collected.timelines, candidate, now);
+
+  const summary: Record<BacktestChangeKind, number> = {
+    promoted: 0,
+    demoted: 0,
+    pruned: 0,
+    restored: 0,
+    surfaced: 0,
+    hidden: 0,
+    reranked: 0,
+  };
+  const changes: BacktestBulletChange[] = [];
+  for (const bullet of bullets) {
+    const a = before.get(bullet.id)!;
+    const b = after.get(bullet.id)!;
+    const kinds = classifyChanges(a, b);
+    if (kinds.length === 0) continue;
+    for (const kind of kinds) summary[kind]++;
+    const { id: _a, transitions: _ta, ...currentState } = a;
+    const { id: _b, transitions, ...candidateState } = b;
+    changes.push({
+      id: bullet.id,
+      content: bullet.content,
+      changes: kinds,
+      current: currentState,
+      candidate: candidateState,
+      candidateTransitions: transitions,
+    });
+  }
+
+  const active = inputs.playbook.bullets.filter((b) => !b.deprecated);
+
+  return {
+    configDiff: diffConfigs(current, candidate),
+    inputs: {
+      bullets: bullets.length,
+      feedbackEvents: collected.feedbackEvents,
+      outcomeEvents: collected.outcomeEvents,
+      usageEvents: collected.usageEvents,
+    },
+    summary,
+    changes,
+    dedup: diffDedup(active, current.dedupSimilarityThreshold, candidate.dedupSimilarityThreshold),
+  };
+}
@@ -0,0 +1,273 @@
+import { BulletRelation, BulletRelationType, PlaybookBullet, ScoredBullet } from "./types.js";
+import { now, truncate } from "./utils.js";
+
+// -----------------------------------------------------------------------------
+// Typed relationships between bullets
+// -----------------------------------------------------------------------------
+//
+// Edges are stored on the source bullet (`bullet.relations`). `replacedBy` on a
+// deprecated bullet is read as an implicit `supersedes` edge from the
+// replacement, so older playbooks get a graph without being rewritten.
+// `conflicts-with` is symmetric: it is stored once and reported in both
+// directions.
+
+export interface BulletEdge {
+  from: string;
+  to: string;
+  type: BulletRelationType;
+  reason?: string;
+  /** True for edges derived from `replacedBy` rather than stored relations. */
+  derived?: boolean;
+}
+
+export interface BulletNeighbourhood {
+  center: string;
+  depth: number;
+  nodes: PlaybookBullet[];
+  edges: BulletEdge[];
+}
+
+/** Labels for the direction an edge is read in, from the source's side and the target's side. */
+const OUTGOING_LABELS: Record<BulletRelationType, string> = {
+  supersedes: "supersedes",
+  refines: "refines",
+  "conflicts-with": "conflicts with",
+  generalizes: "generalizes",
+  requires: "requires",
+};
+
+const INCOMING_LABELS: Record<BulletRelationType, string> = {
+  supersedes: "superseded by",
+  refines: "refined by",
+  "conflicts-with": "conflicts with",
+  generalizes: "generalized by",
+  requires: "required by",
+};
+
+function hasEdge(bullet: PlaybookBullet, type: BulletRelationType, target: string): boolean {
+  return (bullet.relations ?? []).some((r) => r.type === type && r.target === target);
+}
+
+/**
+ * Add a relation to `bullet` unless it already exists (for `conflicts-with`,
+ * in either direction when `other` is given). Returns whether it was added.
+ */
+export function addBulletRelation(
+  bullet: PlaybookBullet,
+  relation: Omit<BulletRelation, "createdAt">,
+  other?: PlaybookBullet
+): boolean {
+  if (relation.target === bullet.id) return false;
+  if (hasEdge(bullet, relation.type, relation.target)) return false;
+  if (relation.type === "conflicts-with" && other && hasEdge(other, "conflicts-with", bullet.id)) return false;
+
+  bullet.relations = [
+    ...(bullet.relations ?? []),
+    {
+      type: relation.type,
+      target: relation.target,
+      ...(relation.reason ? { reason: relation.reason } : {}),
+      createdAt: now(),
+    },
+  ];
+  return true;
+}
+
+/** Remove a relation from `bullet`. Returns whether one was removed. */
+export function removeBulletRelation(bullet: PlaybookBullet, type: BulletRelationType, target: string): boolean {
+  const before = bullet.relations ?? [];
+  const after = before.filter((r) => !(r.type === type && r.target === target));
+  if (after.length === before.length) return false;
+  bullet.relations = after.length > 0 ? after : undefined;
+  return true;
+}
+
+/** Every edge in the playbook: stored relations plus `replacedBy` links. */
+export function collectBulletEdges(bullets: PlaybookBullet[]): BulletEdge[] {
+  const edges: BulletEdge[] = [];
+  const seen = new Set<string>();
+  const push = (edge: BulletEdge) => {
+    const key = `${edge.from}|${edge.type}|${edge.to}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    edges.push(edge);
+  };
+
+  for (const bullet of bullets) {
+    for (const r of bullet.relations ?? []) {
+      push({ from: bullet.id, to: r.target, type: r.type, ...(r.reason ? { reason: r.reason } : {}) });
+    }
+  }
+  for (const bullet of bullets) {
+    if (bullet.replacedBy && bullet.replacedBy !== bullet.id) {
+      push({ from: bullet.replacedBy, to: bullet.id, type: "supersedes", derived: true });
+    }
+  }
+  return edges;
+}
+
+/**
+ * Bullets within `depth` hops of `centerId`, following edges in both
+ * directions, plus the edges among them. Edges to bullets missing from the
+ * playbook are kept; their targets simply have no node.
+ */
+export function getBulletNeighbourhood(bullets: PlaybookBullet[], centerId: string, depth = 1): BulletNeighbourhood {
+  const byId = new Map(bullets.map((b) => [b.id, b]));
+  const edges = collectBulletEdges(bullets);
+
+  const reached = new Set<string>([centerId]);
+  let frontier = [centerId];
+  for (let hop = 0; hop < depth && frontier.length > 0; hop++) {
+    const next: string[] = [];
+    for (const edge of edges) {
+      for (const [here, there] of [[edge.from, edge.to], [edge.to, edge.from]]) {
+        if (frontier.includes(here) && !reached.has(there)) {
+          reached.add(there);
+          next.push(there);
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  return {
+    center: centerId,
+    depth,
+    nodes: [...reached].map((id) => byId.get(id)).filter((b): b is PlaybookBullet => b !== undefined),
+    edges: edges.filter((e) => reached.has(e.from) && reached.has(e.to)),
+  };
+}
+
+function nodeStatus(bullet: PlaybookBullet | undefined): string {
+  if (!bullet) return "missing";
+  if (bullet.deprecated || bullet.state === "retired" || bullet.maturity === "deprecated") return "deprecated";
+  return bullet.maturity;
+}
+
+/** One line per edge touching the center, then edges between other neighbours. */
+export function formatNeighbourhoodText(graph: BulletNeighbourhood): string[] {
+  const byId = new Map(graph.nodes.map((b) => [b.id, b]));
+  const describe = (id: string) => {
+    const bullet = byId.get(id);
+    const preview = bullet ? truncate(bullet.content.trim().replace(/\s+/g, " "), 60) : "";
+    return `${id} [${nodeStatus(bullet)}]${preview ? ` ${preview}` : ""}`;
+  };
+
+  const lines = [describe(graph.center)];
+  const direct = graph.edges.filter((e) => e.from === graph.center || e.to === graph.center);
+  const indirect = graph.edges.filter((e) => e.from !== graph.center && e.to !== graph.center);
+
+  for (const edge of direct) {
+    const outgoing = edge.from === graph.center;
+    const label = outgoing ? OUTGOING_LABELS[edge.type] : INCOMING_LABELS[edge.type];
+    const other = outgoing ? edge.to : edge.from;
+    lines.push(`  ${label.padEnd(14)} ${describe(other)}${edge.derived ? " (replacedBy)" : ""}`);
+  }
+  for (const edge of indirect) {
+    lines.push(`  ${edge.from} ${OUTGOING_LABELS[edge.type]} ${edge.to}`);
+  }
+  return lines;
+}
+
+function dotEscape(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+}
+
+function dotQuote(value: string): string {
+  return `"${dotEscape(value)}"`;
+}
+
+/** Graphviz DOT for the neighbourhood; `conflicts-with` edges are undirected and dashed. */
+export function formatNeighbourhoodDot(graph: BulletNeighbourhood): string {
+  const lines = ["digraph playbook {", "  rankdir=LR;", "  node [shape=box, fontsize=10];"];
+  const ids = new Set([...graph.nodes.map((b) => b.id), ...graph.edges.flatMap((e) => [e.from, e.to])]);
+  const byId = new Map(graph.nodes.map((b) => [b.id, b]));
+
+  for (const id of ids) {
+    const bullet = byId.get(id);
+    const status = nodeStatus(bullet);
+    const preview = bullet ? truncate(bullet.content.trim().replace(/\s+/g, " "), 40) : "";
+    const attrs = [`label="${dotEscape(id)}${preview ? `\\n${dotEscape(preview)}` : ""}"`];
+    if (id === graph.center) attrs.push("penwidth=2");
+    if (status === "deprecated" || status === "missing") attrs.push("style=dashed", "fontcolor=gray40");
+    lines.push(`  ${dotQuote(id)} [${attrs.join(", ")}];`);
+  }
+  for (const edge of graph.edges) {
+    const attrs = [`label=${dotQuote(edge.type)}`];
+    if (edge.type === "conflicts-with") attrs.push("dir=none", "style=dashed", "color=red");
+    if (edge.derived) attrs.push("style=dotted");
+    lines.push(`  ${dotQuote(edge.from)} -> ${dotQuote(edge.to)} [${attrs.join(", ")}];`);
+  }
+  lines.push("}");
+  return lines.join("\n");
+}
+
+// --- Context selection ---
+
+export interface RelationAdjustment {
+  bullets: ScoredBullet[];
+  /** Selected bullets replaced or dropped because an active bullet supersedes them. */
+  superseded: Array<{ id: string; supersededBy: string }>;
+  /** Companions added because a selected bullet requires them. */
+  added: string[];
+  /** Pairs in the final selection joined by a `conflicts-with` edge. */
+  conflicts: BulletEdge[];
+}
+
+/**
+ * Adjust a context selection using the relation graph:
+ * - a selected bullet superseded by an active bullet in `pool` is replaced by
+ *   its successor (or dropped if the successor is already selected);
+ * - bullets a selected bullet `requires` are pulled in right after it, even
+ *   if they ranked too low to be selected on their own;
+ * - `conflicts-with` pairs that both made it are reported.
+ *
+ * `pool` is every active bullet that may appear in context (already scored).
+ */
+export function applyBulletRelations(selected: ScoredBullet[], pool: ScoredBullet[]): RelationAdjustment {
+  const byId = new Map(pool.map((b) => [b.id, b]));
+  const edges = collectBulletEdges(pool).filter((e) => byId.has(e.from) && byId.has(e.to));
+
+  const supersededBy = new Map<string, string>();
+  const requires = new Map<string, string[]>();
+  for (const edge of edges) {
+    if (edge.type === "supersedes" && !supersededBy.has(edge.to)) supersededBy.set(edge.to, edge.from);
+    if (edge.type === "requires") requires.set(edge.from, [...(requires.get(edge.from) ?? []), edge.to]);
+  }
+
+  // Follow supersedes chains to the newest active bullet (guarding against cycles)
+  const successor = (id: string): string => {
+    const visited = new Set([id]);
+    let current = id;
+    while (supersededBy.has(current) && !visited.has(supersededBy.get(current)!)) {
+      current = supersededBy.get(current)!;
+      visited.add(current);
+    }
+    return current;
+  };
+
+  const selectedIds = new Set(selected.map((b) => successor(b.id)));
+  const output: ScoredBullet[] = [];
+  const included = new Set<string>();
+  const superseded: RelationAdjustment["superseded"] = [];
+  const added: string[] = [];
+
+  const include = (bullet: ScoredBullet, requiredBy?: string) => {
+    const id = successor(bullet.id);
+    if (id !== bullet.id) superseded.push({ id: bullet.id, supersededBy: id });
+    if (included.has(id)) return;
+    included.add(id);
+    const chosen = id === bullet.id ? bullet : byId.get(id)!;
+    output.push(requiredBy ? { ...chosen, requiredBy } : chosen);
+    if (requiredBy) added.push(id);
+    for (const companion of requires.get(id) ?? []) {
+      // Companions that were selected anyway keep their own rank
+      if (!selectedIds.has(successor(companion))) include(byId.get(companion)!, id);
+    }
+  };
+
+  for (const bullet of selected) include(bullet);
+
+  const conflicts = edges.filter((e) => e.type === "conflicts-with" && included.has(e.from) && included.has(e.to));
+  return { bullets: output, superseded, added, conflicts };
+}
@@ -1,6 +1,6 @@
 #!/usr/bin/env bun
 import { Command } from "commander";
-import { categorizeError, getCliName, getVersion, reportError } from "./utils.js";
+import { categorizeError, getCliName, getVersion, reportError, setupGracefulShutdown } from "./utils.js";
 import { ErrorCode } from "./types.js";
 import { initCommand } from "./commands/init.js";
 import { contextCommand } from "./commands/context.js";
@@ -12,7 +12,7 @@ import { reflectCommand } from "./commands/reflect.js";
 import { validateCommand } from "./commands/validate.js";
 import { forgetCommand } from "./commands/forget.js";
 import { auditCommand } from "./commands/audit.js";
-import { projectCommand } from "./commands/project.js";
+import { projectCommand, projectProfileCommand } from "./commands/project.js";
 import { serveCommand } from "./commands/serve.js";
 import { outcomeCommand, applyOutcomeLogCommand } from "./commands/outcome.js";
 import { usageCommand } from "./commands/usage.js";
@@ -27,19 +27,19 @@ import { similarCommand } from "./commands/similar.js";
 import { onboardCommand } from "./commands/onboard.js";
 import { guardCommand } from "./commands/guard.js";
 import { traumaCommand } from "./commands/trauma.js";
+import { teamCommand } from "./commands/team.js";
+import { scoringCommand } from "./commands/scoring.js";
+import { backtestCommand } from "./commands/backtest.js";
+import { diarySearchCommand } from "./commands/diary.js";
+import { daemonCommand } from "./commands/daemon.js";
+import { watchCommand } from "./commands/watch.js";
+import { reviewCommand } from "./commands/review.js";
+import { tuiCommand } from "./commands/tui.js";
 import { infoCommand } from "./info.js";
 import { examplesCommand } from "./examples.js";
 
-import { releaseAllLocks } from "./lock.js";
-
-// Global signal handlers for cleanup
-async function gracefulExit(signal: string) {
-  await releaseAllLocks();
-  process.exit(128 + (signal === "SIGINT" ? 2 : 15));
-}
-
-process.on("SIGINT", () => gracefulExit("SIGINT"));
-process.on("SIGTERM", () => gracefulExit("SIGTERM"));
+// Global signal handlers: run onShutdown handlers, release locks, then exit
+setupGracefulShutdown();
 
 export function createProgram(argv: string[] = process.argv): Command {
   applyGlobalEnvFromArgv(argv);
@@ -57,6 +57,7 @@ export function createProgram(argv: string[] = process.argv): Command {
     if (!/^-?(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?$/.test(raw)) return Number.NaN;
     return Number.parseFloat(raw);
   };
+  const collect = (value: string, previous: string[] = []): string[] => [...previous, value];
 
   program
     .name(getCliName())
@@ -99,6 +100,8 @@ program.command("context")
   .option("--top <n>", "DEPRECATED: use --limit", toInt)
   .option("--history <n>", "Number of history snippets", toInt)
   .option("--days <n>", "Lookback days for history", toInt)
+  .option("--max-tokens <n>", "Pack rules, pitfalls, history and warnings into ~N tokens (reports what was dropped)", toInt)
+  .option("--diversity <0-1>", "Re-rank with MMR so near-duplicate rules give way to other categories (default: config contextDiversity)", toFloat)
   .option("--format <markdown|json|toon>", "Force output format (overrides --json). TOON provides token-efficient output.")
   .option("--stats", "Show token statistics on stderr (JSON vs TOON)")
   .option("--log-context", "Log context usage for implicit feedback")
@@ -110,6 +113,8 @@ program.command("context")
       "context \"refactor utils\" --workspace . --json",
       "context \"write tests\" --format markdown",
       "context \"summarize prior decisions\" --format toon --stats",
+      "context \"migrate the db schema\" --max-tokens 1500 --json",
+      "context \"add integration tests\" --diversity 0.4 --json",
     ])
   )
   .action(async (task: string, opts: any) => await contextCommand(task, opts));
@@ -134,6 +139,31 @@ program.command("similar")
   )
   .action(async (query: string, opts: any) => await similarCommand(query, opts));
 
+// --- Diary ---
+const diary = program.command("diary")
+  .description("Work with saved session diaries")
+  .addHelpText("after", () =>
+    formatCommandExamples([
+      "diary search \"flaky integration tests\" --json",
+      "diary search \"database migration\" --agent claude --status failure --days 30",
+      "diary search \"auth\" --workspace . --tag security --since 2025-06-01 --json",
+    ])
+  );
+
+diary.command("search")
+  .description("Hybrid keyword + semantic search over diary learnings, decisions, challenges and accomplishments")
+  .argument("<query>", "What to look for")
+  .option("--agent <name>", "Only diaries from this agent")
+  .option("--workspace <path>", "Only diaries from this workspace")
+  .option("--tag <tag>", "Only diaries with this tag (repeatable; all must match)", collect)
+  .option("--since <date>", "Only diaries on or after this date")
+  .option("--until <date>", "Only diaries on or before this date")
+  .option("--days <n>", "Only diaries from the last N days", toInt)
+  .option("--status <status>", "success | failure | mixed")
+  .option("--limit <n>", "Number of results (default: 10)", toInt)
+  .option("-j, --json", "Output JSON")
+  .action(async (query: string, opts: any) => await diarySearchCommand(query, opts));
+
 // --- Mark ---
 program.command("mark")
   .description("Record helpful/harmful feedback for a rule")
@@ -162,6 +192,9 @@ const playbook = program.command("playbook")
       "playbook get b-abc123 --json",
       "playbook export --json > playbook.json",
       "playbook import playbook.json --replace --json",
+      "playbook log",
+      "playbook revert 12 --dry-run",
+      "playbook graph b-abc123 --format dot",
     ])
   );
 
@@ -190,12 +223,18 @@ playbook.command("add")
   .option("--session <path>", "Session path to track in onboarding progress")
   .option("--check", "Show validation results before adding")
   .option("--strict", "With --check, fail on warnings instead of adding")
+  .option("--repo", "Add to the repo-level playbook (.cass/playbook.yaml) instead of global")
+  .option("--team <name>", "Add to a shared team playbook (see 'cm team') instead of global")
+  .option("--override <id:mode>", "With --repo or --team, override a lower-layer rule (mode: shadow, suppress, extend)")
+  .option("--applies-when <predicate>", "Only apply the rule where this holds: file:<path>, dep:<pkg>, lang:<name>, framework:<name>, branch:<glob>, os:<name>; prefix with ! to negate (repeatable)", collect)
   .option("-j, --json", "Output JSON")
   .addHelpText("after", () =>
     formatCommandExamples([
       "playbook add \"Always validate user input\" --category security --json",
       "playbook add --file rules.json --check --json",
       "playbook add --file - --json",
+      "playbook add \"Use pnpm in this repo\" --repo --override b-abc123:shadow",
+      "playbook add \"Use bun test, not jest\" --applies-when file:bun.lock",
     ])
   )
   .action(async (content: string | undefined, opts: any) => {
@@ -270,6 +309,96 @@ playbook.command("import")
   )
   .action(async (file: string, opts: any) => await playbookCommand("import", [file], opts));
 
+playbook.command("log")
+  .description("Show the revision history of the playbook")
+  .option("--repo", "Show history of the repo-level playbook instead of global")
+  .option("--limit <n>", "Number of revisions to show (default: 20)", toInt)
+  .option("-j, --json", "Output JSON")
+  .addHelpText("after", () =>
+    formatCommandExamples([
+      "playbook log",
+      "playbook log --limit 50 --json",
+      "playbook log --repo",
+    ])
+  )
+  .action(async (opts: any) => await playbookCommand("log", [], opts));
+
+playbook.command("diff")
+  .description("Show the bullet changes made by a revision")
+  .argument("<rev>", "Revision number (from `playbook log`)")
+  .option("--repo", "Use the repo-level playbook history instead of global")
+  .option("-j, --json", "Output JSON")
+  .addHelpText("after", () =>
+    formatCommandExamples([
+      "playbook diff 12",
+      "playbook diff 12 --json",
+      "playbook diff 3 --repo",
+    ])
+  )
+  .action(async (rev: string, opts: any) => await playbookCommand("diff", [rev], opts));
+
+playbook.command("revert")
+  .description("Roll back the bullet changes made by a revision")
+  .argument("<rev>", "Revision number (from `playbook log`)")
+  .option("--repo", "Use the repo-level playbook history instead of global")
+  .option("--force", "Also revert bullets that changed again after the revision")
+  .option("--dry-run", "Preview what would be reverted without making changes")
+  .option("-j, --json", "Output JSON")
+  .addHelpText("after", () =>
+    formatCommandExamples([
+      "playbook revert 12 --dry-run",
+      "playbook revert 12 --json",
+      "playbook revert 12 --force",
+    ])
+  )
+  .action(async (rev: string, opts: any) => await playbookCommand("revert", [rev], opts));
+
+playbook.command("reconcile")
+  .description("Merge a divergent copy of the playbook (feedback events are unioned, counts recomputed)")
+  .argument("<file>", "The other playbook YAML (e.g. from another machine or worktree)")
+  .option("--repo", "Reconcile into the repo-level playbook instead of global")
+  .option("--dry-run", "Preview what would change without writing")
+  .option("-j, --json", "Output JSON")
+  .addHelpText("after", () =>
+    formatCommandExamples([
+      "playbook reconcile ~/backup/laptop-playbook.yaml",
+      "playbook reconcile ../other-worktree/.cass/playbook.yaml --repo --dry-run --json",
+    ])
+  )
+  .action(async (file: string, opts: any) => await playbookCommand("reconcile", [file], opts));
+
+playbook.command("graph")
+  .description("Show a bullet's relations (supersedes, refines, conflicts-with, generalizes, requires)")
+  .argument("<id>", "Bullet ID at the center of the graph")
+  .option("--format <format>", "Output format: text|dot|json (default: text)")
+  .option("--depth <n>", "How many hops to follow (default: 1, max: 5)", toInt)
+  .option("-j, --json", "Output JSON (same as --format json)")
+  .addHelpText("after", () =>
+    formatCommandExamples([
+      "playbook graph b-abc123",
+      "playbook graph b-abc123 --depth 2 --format dot | dot -Tsvg > graph.svg",
+      "playbook graph b-abc123 --json",
+    ])
+  )
+  .action(async (id: string, opts: any) => await playbookCommand("graph", [id], opts));
+
+playbook.command("link")
+  .description("Add (or with --remove, delete) a typed relation between two bullets")
+  .argument("<fromId>", "Bullet the relation is stored on")
+  .argument("<type>", "supersedes|refines|conflicts-with|generalizes|requires")
+  .argument("<toId>", "Related bullet")
+  .option("--remove", "Remove the relation instead of adding it")
+  .option("--reason <text>", "Why the bullets are related")
+  .option("-j, --json", "Output JSON")
+  .addHelpText("after", () =>
+    formatCommandExamples([
+      "playbook link b-migrations requires b-backup-first",
+      "playbook link b-new supersedes b-old --reason \"Tooling changed\" --json",
+      "playbook link b-new supersedes b-old --remove",
+    ])
+  )
+  .action(async (from: string, type: string, to: string, opts: any) => await playbookCommand("link", [from, type, to], opts));
+
 // --- Common Aliases (top-level shortcuts) ---
 program.command("ls")
   .description("Alias for `cm playbook list`")
@@ -361,6 +490,38 @@ program.command("top")
   )
   .action(async (count: number, opts: any) => await topCommand(count, opts));
 
+// --- Scoring ---
+const scoring = program.command("scoring")
+  .description("Inspect scoring strategies (set scoring.strategy in config)")
+  .addHelpText("after", () =>
+    formatCommandExamples([
+      "scoring compare",
+      "scoring compare --limit 50 --json",
+    ])
+  );
+
+scoring.command("compare")
+  .description("Rank active bullets under every scoring strategy side by side")
+  .option("--limit <n>", "Number of bullets to show (default: 20)", toInt)
+  .option("-j, --json", "Output JSON")
+  .action(async (opts: any) => await scoringCommand("compare", opts));
+
+// --- Backtest ---
+program.command("backtest")
+  .description("Replay recorded feedback against a candidate config and show what would change")
+  .option("--set <key=value>", "Candidate config override (repeatable; dotted keys, JSON values)", collect)
+  .option("--config <file>", "Candidate config overrides from a JSON or YAML file")
+  .option("--limit <n>", "Number of changed rules to show (default: 20)", toInt)
+  .option("-j, --json", "Output JSON")
+  .addHelpText("after", () =>
+    formatCommandExamples([
+      "backtest --set scoring.harmfulMultiplier=2",
+      "backtest --set scoring.decayHalfLifeDays=30 --set pruneHarmfulThreshold=5 --json",
+      "backtest --config candidate.yaml",
+    ])
+  )
+  .action(async (opts: any) => await backtestCommand(opts));
+
 // --- Stale ---
 program.command("stale")
   .description("Find bullets without recent feedback")
@@ -381,12 +542,14 @@ program.command("why")
   .description("Show bullet origin evidence and reasoning")
   .argument("<bulletId>", "ID of the bullet to explain")
   .option("--verbose", "Show full details including all sessions")
+  .option("--workspace <path>", "Evaluate the rule's applicability predicates against this workspace (default: cwd)")
   .option("-j, --json", "Output JSON")
   .addHelpText("after", () =>
     formatCommandExamples([
       "why b-abc123",
       "why b-abc123 --json",
       "why b-abc --json",
+      "why b-abc123 --workspace ~/src/other-repo",
     ])
   )
   .action(async (id: string, opts: any) => await whyCommand(id, opts));
@@ -472,6 +635,7 @@ program.command("reflect")
   .option("--days <n>", "Lookback days", toInt)
   .option("--max-sessions <n>", "Max sessions to process", toInt)
   .option("--dry-run", "Show proposed changes without applying")
+  .option("--estimate", "Estimate LLM cost per stage against the budget without calling an LLM")
   .option("--workspace <path>", "Filter by workspace")
   .option("-j, --json", "Output JSON")
   .option("--session <path>", "Process specific session file")
@@ -480,6 +644,7 @@ program.command("reflect")
       "reflect --days 7 --json",
       "reflect --session /path/to/session.jsonl --json",
       "reflect --dry-run --json",
+      "reflect --estimate --max-sessions 20",
     ])
   )
   .action(async (opts: any) => await reflectCommand(opts));
@@ -518,7 +683,7 @@ program.command("audit")
   .action(async (opts: any) => await auditCommand(opts));
 
 // --- Project ---
-program.command("project")
+const project = program.command("project")
   .description("Export playbook for project documentation")
   .option("--format <fmt>", "Output format: agents.md, claude.md, raw, yaml, json", "agents.md")
   .option("--output <path>", "Write to file instead of stdout")
@@ -533,10 +698,24 @@ program.command("project")
       "project --format claude.md --output CLAUDE.md",
       "project --format raw > playbook.json",
       "project --format agents.md --json",
+      "project profile --json",
     ])
   )
   .action(async (opts: any) => await projectCommand(opts));
 
+project.command("profile")
+  .description("Show the languages, frameworks and package managers detected for a workspace")
+  .option("--workspace <path>", "Workspace to profile (default: current directory)")
+  .option("-j, --json", "Output JSON")
+  .addHelpText("after", () =>
+    formatCommandExamples([
+      "project profile",
+      "project profile --workspace ~/code/api --json",
+    ])
+  )
+  // `project` defines -j too and claims it when parsing, so read merged options
+  .action(async (_opts: any, cmd: Command) => await projectProfileCommand(cmd.optsWithGlobals()));
+
 // --- Starters ---
 program.command("starters")
   .description("List available starter playbooks")
@@ -563,7 +742,118 @@ program.command("quickstart")
   )
   .action(async (opts: any) => await quickstartCommand(opts));
 
+// --- Daemon ---
+const daemon = program.command("daemon")
+  .description("Reflect on new sessions in the background on a schedule")
+  .addHelpText("after", () =>
+    formatCommandExamples([
+      "daemon start",
+      "daemon status --json",
+      "daemon stop",
+      "daemon run --once",
+    ])
+  );
+
+daemon.command("start")
+  .description("Start the reflection daemon in the background")
+  .option("-j, --json", "Output JSON")
+  .action(async (opts: any) => await daemonCommand("start", opts));
+
+daemon.command("stop")
+  .description("Stop the reflection daemon")
+  .option("-j, --json", "Output JSON")
+  .action(async (opts: any) => await daemonCommand("stop", opts));
+
+daemon.command("status")
+  .description("Show whether the daemon is running, its last run and next run")
+  .option("-j, --json", "Output JSON")
+  .action(async (opts: any) => await daemonCommand("status", opts));
+
+daemon.command("run")
+  .description("Run the daemon loop in the foreground (what start launches)")
+  .option("--once", "Run a single cycle now and exit")
+  .option("-j, --json", "Output JSON")
+  .action(async (opts: any) => await daemonCommand("run", opts));
+
+// --- Watch ---
+program.command("watch")
+  .description("Write diaries, outcomes and trauma candidates as agent sessions finish")
+  .option("--dir <path>", "Also watch this session directory (repeatable)", collect)
+  .option("--idle-minutes <n>", "Treat a session as finished after this many quiet minutes", toInt)
+  .option("--interval <seconds>", "Seconds between polls", toInt)
+  .option("--llm", "Write LLM diaries (budget permitting) instead of heuristic ones")
+  .option("--once", "Poll once and exit")
+  .option("-j, --json", "Output JSON")
+  .addHelpText("after", () =>
+    formatCommandExamples([
+      "watch",
+      "watch --idle-minutes 5 --llm",
+      "watch --dir ~/agent-logs --once --json",
+    ])
+  )
+  .action(async (opts: any) => await watchCommand(opts));
+
+// --- Review ---
+const review = program.command("review")
+  .description("Approve, edit or reject reflection deltas queued by curation.requireApproval")
+  .addHelpText("after", () =>
+    formatCommandExamples([
+      "review list",
+      "review show r-1a2b3c4d5e",
+      "review edit r-1a2b3c4d5e --content \"Run migrations before seeding test data\"",
+      "review approve r-1a2b3c4d5e r-6f7a8b9c0d",
+      "review reject r-6f7a8b9c0d --reason \"too project-specific\"",
+      "review approve --all --json",
+    ])
+  );
+
+review.command("list")
+  .description("List queued deltas with their validator verdict and evidence")
+  .option("--status <status>", "pending | approved | rejected | all (default: pending)")
+  .option("-j, --json", "Output JSON")
+  .action(async (opts: any) => await reviewCommand("list", [], opts));
+
+review.command("show")
+  .description("Show one queued delta in full")
+  .argument("<id>", "Review item id")
+  .option("-j, --json", "Output JSON")
+  .action(async (id: string, opts: any) => await reviewCommand("show", [id], opts));
+
+review.command("approve")
+  .description("Curate queued deltas into the playbook")
+  .argument("[ids...]", "Review item ids")
+  .option("--all", "Approve every pending item")
+  .option("--reason <text>", "Note recorded with the decision")
+  .option("-j, --json", "Output JSON")
+  .action(async (ids: string[], opts: any) => await reviewCommand("approve", ids, opts));
+
+review.command("reject")
+  .description("Reject queued deltas and block their content from future reflection")
+  .argument("<ids...>", "Review item ids")
+  .option("--reason <text>", "Why the delta was rejected")
+  .option("-j, --json", "Output JSON")
+  .action(async (ids: string[], opts: any) => await reviewCommand("reject", ids, opts));
+
+review.command("edit")
+  .description("Change a queued delta's content or category before approving it")
+  .argument("<id>", "Review item id")
+  .option("--content <text>", "New rule text")
+  .option("--category <name>", "New category (new rules only)")
+  .option("-j, --json", "Output JSON")
+  .action(async (id: string, opts: any) => await reviewCommand("edit", [id], opts));
+
+// --- TUI ---
+program.command("tui")
+  .description("Full-screen playbook triage: browse by score, inspect, mark, pin, edit, merge")
+  .addHelpText("after", () =>
+    formatCommandExamples([
+      "tui",
+    ])
+  )
+  .action(async () => await tuiCommand());
+
 // --- Privacy ---
+
 const privacy = program.command("privacy")
   .description("Privacy controls (cross-agent enrichment)")
   .addHelpText("after", () =>
@@ -639,19 +929,23 @@ privacy.command("deny")
   )
   .action(async (agent: string, opts: any) => await privacyCommand("deny", [agent], opts));
 
-// --- Serve (HTTP-only MCP surface) ---
+// --- Serve (MCP over HTTP or stdio) ---
 program.command("serve")
-  .description("Run HTTP MCP server for agent integration")
+  .description("Run the MCP server for agent integration (HTTP, or stdio with --stdio)")
   .option("--port <n>", "Port to listen on", toInt, 8765)
   .option("--host <host>", "Host to bind", "127.0.0.1")
+  .option("--dashboard", "Also serve a read-only web dashboard at /dashboard")
+  .option("--stdio", "Speak newline-delimited JSON-RPC on stdin/stdout instead of HTTP")
   .addHelpText("after", () =>
     formatCommandExamples([
       "serve",
       "serve --host 127.0.0.1 --port 8765",
       "serve --host 0.0.0.0 --port 3001",
+      "serve --dashboard",
+      "serve --stdio",
     ])
   )
-  .action(async (opts: any) => await serveCommand({ port: opts.port, host: opts.host }));
+  .action(async (opts: any) => await serveCommand({ port: opts.port, host: opts.host, dashboard: opts.dashboard, stdio: opts.stdio }));
 
 // --- Outcome ---
 program.command("outcome")
@@ -876,6 +1170,43 @@ trauma.command("import")
   .option("-j, --json", "Output JSON")
   .action(async (file: string, opts: any) => await traumaCommand("import", [file], opts));
 
+// --- Team (Shared Playbook Layer) ---
+const team = program.command("team")
+  .description("Sync a shared team playbook layer through a git remote")
+  .addHelpText("after", () =>
+    formatCommandExamples([
+      "team add-remote platform git@github.com:acme/cass-playbook.git",
+      "team pull",
+      "team push platform",
+      "team status --json",
+    ])
+  );
+
+team.command("add-remote")
+  .description("Clone a team playbook repository into ~/.cass-memory/teams/<name>")
+  .argument("<name>", "Team name (letters, digits, '.', '_', '-')")
+  .argument("<url>", "Git URL (any URL git clone accepts, including local bare repos)")
+  .option("-j, --json", "Output JSON")
+  .action(async (name: string, url: string, opts: any) => await teamCommand("add-remote", [name, url], opts));
+
+team.command("pull")
+  .description("Fetch and merge remote changes (feedback from both sides is kept)")
+  .argument("[name]", "Team name (default: all teams)")
+  .option("-j, --json", "Output JSON")
+  .action(async (name: string | undefined, opts: any) => await teamCommand("pull", name ? [name] : [], opts));
+
+team.command("push")
+  .description("Commit local team playbook changes, pull, then push")
+  .argument("[name]", "Team name (default: all teams)")
+  .option("-j, --json", "Output JSON")
+  .action(async (name: string | undefined, opts: any) => await teamCommand("push", name ? [name] : [], opts));
+
+team.command("status")
+  .description("Show sync state of team playbooks")
+  .argument("[name]", "Team name (default: all teams)")
+  .option("-j, --json", "Output JSON")
+  .action(async (name: string | undefined, opts: any) => await teamCommand("status", name ? [name] : [], opts));
+
 program.showSuggestionAfterError(true);
 if (!hasJsonFlag(argv)) {
   program.showHelpAfterError("(add --help for additional information)");
@@ -905,10 +1236,13 @@ export function hasJsonFlag(argv: string[] = process.argv): boolean {
     "context",
     "ctx",
     "similar",
+    "diary",
     "mark",
     "playbook",
     "stats",
     "top",
+    "scoring",
+    "backtest",
     "stale",
     "why",
     "undo",
@@ -1,7 +1,7 @@
 import { loadConfig } from "../config.js";
 import { loadMergedPlaybook, getActiveBullets } from "../playbook.js";
 import { scanSessionsForViolations } from "../audit.js";
-import { scanForTraumas } from "../trauma.js";
+import { loadTraumaCandidates, mergeTraumaCandidates, scanForTraumas } from "../trauma.js";
 import { AuditResult, ErrorCode } from "../types.js";
 import { cassTimeline, type CassRunner } from "../cass.js";
 import { getAvailableProviders, type LLMIO } from "../llm.js";
@@ -39,7 +39,11 @@ export async function auditCommand(
         console.log(chalk.bold.red(`\n${iconPrefix("warning")}Project Hot Stove: Scanning for past catastrophes...`));
       }
       
-      const candidates = await scanForTraumas(config, days, deps.cassRunner);
+      // Include what `cm watch` flagged as sessions finished
+      const candidates = mergeTraumaCandidates(
+        await scanForTraumas(config, days, deps.cassRunner),
+        await loadTraumaCandidates(days)
+      );
       
       if (flags.json) {
         printJsonResult(command, { candidates }, { startedAtMs });
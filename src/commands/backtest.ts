@@ -0,0 +1,207 @@
+/**
+ * backtest command - Replay recorded feedback against a candidate config
+ *
+ * Answers "what would have happened" before changing scoring or curation
+ * settings: which rules would have been promoted, demoted, pruned or
+ * surfaced differently. Read-only.
+ */
+import fs from "node:fs/promises";
+import chalk from "chalk";
+import yaml from "yaml";
+import { loadConfig } from "../config.js";
+import { loadMergedPlaybook } from "../playbook.js";
+import { loadOutcomes } from "../outcome.js";
+import { loadUsageEvents } from "../tracking.js";
+import { runBacktest, type BacktestReport } from "../backtest.js";
+import { ErrorCode, type Config } from "../types.js";
+import {
+  expandPath,
+  fileExists,
+  getCliName,
+  printJsonResult,
+  reportError,
+  truncate,
+  validatePositiveInt,
+} from "../utils.js";
+import { formatRule, getOutputStyle, iconPrefix } from "../output.js";
+
+export interface BacktestFlags {
+  set?: string[];
+  config?: string;
+  limit?: number;
+  json?: boolean;
+}
+
+/** Outcomes are read from the end of the log; backtests want all of it. */
+const OUTCOME_REPLAY_LIMIT = 100_000;
+
+/** `scoring.harmfulMultiplier=2` → `{ scoring: { harmfulMultiplier: 2 } }`. Values are JSON when they parse. */
+export function parseSetArg(arg: string, into: Record<string, any> = {}): Record<string, any> {
+  const eq = arg.indexOf("=");
+  if (eq <= 0) {
+    throw new Error(`Invalid --set "${arg}": expected key=value`);
+  }
+  const keys = arg.slice(0, eq).trim().split(".").filter(Boolean);
+  const raw = arg.slice(eq + 1).trim();
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    value = raw;
+  }
+
+  let target = into;
+  for (const key of keys.slice(0, -1)) {
+    if (!target[key] || typeof target[key] !== "object") target[key] = {};
+    target = target[key];
+  }
+  target[keys[keys.length - 1]] = value;
+  return into;
+}
+
+async function loadOverrideFile(filePath: string): Promise<Record<string, any>> {
+  const content = await fs.readFile(expandPath(filePath), "utf-8");
+  const parsed = filePath.endsWith(".json") ? JSON.parse(content) : yaml.parse(content);
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error(`${filePath} must contain a config object`);
+  }
+  return parsed;
+}
+
+export async function backtestCommand(flags: BacktestFlags = {}): Promise<void> {
+  const startedAtMs = Date.now();
+  const command = "backtest";
+  const cli = getCliName();
+  const usage = `Usage: ${cli} backtest --set <key=value> [--set ...] [--config <file>] [--json]`;
+
+  const limitCheck = validatePositiveInt(flags.limit, "limit", { min: 1, allowUndefined: true });
+  if (!limitCheck.ok) {
+    reportError(limitCheck.message, {
+      code: ErrorCode.INVALID_INPUT,
+      details: limitCheck.details,
+      hint: usage,
+      json: flags.json,
+      command,
+      startedAtMs,
+    });
+    return;
+  }
+
+  const sets = flags.set ?? [];
+  if (sets.length === 0 && !flags.config) {
+    reportError("No candidate config given", {
+      code: ErrorCode.MISSING_REQUIRED,
+      hint: `${usage}\nExample: ${cli} backtest --set scoring.harmfulMultiplier=2 --set pruneHarmfulThreshold=5`,
+      json: flags.json,
+      command,
+      startedAtMs,
+    });
+    return;
+  }
+
+  if (flags.config && !(await fileExists(expandPath(flags.config)))) {
+    reportError(`Config file not found: ${flags.config}`, {
+      code: ErrorCode.FILE_NOT_FOUND,
+      hint: usage,
+      json: flags.json,
+      command,
+      startedAtMs,
+    });
+    return;
+  }
+
+  let current: Config;
+  let candidate: Config;
+  try {
+    const overrides = flags.config ? await loadOverrideFile(flags.config) : {};
+    for (const arg of sets) parseSetArg(arg, overrides);
+    current = await loadConfig();
+    candidate = await loadConfig(overrides as Partial<Config>);
+  } catch (err: any) {
+    reportError(err instanceof Error ? err : String(err), {
+      code: ErrorCode.CONFIG_INVALID,
+      hint: usage,
+      json: flags.json,
+      command,
+      startedAtMs,
+    });
+    return;
+  }
+
+  const playbook = await loadMergedPlaybook(current);
+  const outcomes = await loadOutcomes(current, OUTCOME_REPLAY_LIMIT);
+  const usageEvents = await loadUsageEvents({ eventType: "bullet_marked" });
+  const report = runBacktest({ playbook, outcomes, usageEvents }, current, candidate);
+
+  const limit = limitCheck.value ?? 20;
+  if (flags.json) {
+    printJsonResult(command, { ...report, changes: report.changes.slice(0, limit), totalChanges: report.changes.length }, { startedAtMs });
+    return;
+  }
+
+  printBacktest(report, limit);
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? "(unset)" : JSON.stringify(value);
+}
+
+function printBacktest(report: BacktestReport, limit: number): void {
+  const style = getOutputStyle();
+  const maxWidth = Math.min(style.width, 84);
+  const divider = chalk.dim(formatRule("─", { maxWidth }));
+
+  console.log(chalk.bold("BACKTEST"));
+  console.log(divider);
+  console.log(
+    chalk.dim(
+      `Replayed ${report.inputs.feedbackEvents} stored feedback events, ` +
+        `${report.inputs.outcomeEvents} from outcomes and ${report.inputs.usageEvents} from usage ` +
+        `across ${report.inputs.bullets} rules`
+    )
+  );
+  console.log("");
+
+  console.log(chalk.bold("Config diff"));
+  if (report.configDiff.length === 0) {
+    console.log(chalk.dim("  (candidate is identical to the current config)"));
+  }
+  for (const d of report.configDiff) {
+    console.log(`  ${d.key}: ${chalk.red(formatValue(d.current))} → ${chalk.green(formatValue(d.candidate))}`);
+  }
+  console.log("");
+
+  const s = report.summary;
+  console.log(chalk.bold("Summary"));
+  console.log(
+    `  ${s.promoted} promoted • ${s.demoted} demoted • ${s.pruned} pruned • ${s.restored} restored • ` +
+      `${s.surfaced} surfaced • ${s.hidden} hidden • ${s.reranked} reranked`
+  );
+  console.log("");
+
+  if (report.changes.length === 0) {
+    console.log(chalk.green(`${iconPrefix("check")}No rule would have ended up differently.`));
+  } else {
+    console.log(chalk.bold(`Changed rules (${report.changes.length})`));
+    console.log(divider);
+    for (const c of report.changes.slice(0, limit)) {
+      const describe = (state: BacktestReport["changes"][number]["current"]) =>
+        state.pruned ? "pruned" : `${state.maturity}, score ${state.score.toFixed(1)}, #${state.rank}`;
+      console.log(`${chalk.bold(`[${c.id}]`)} ${chalk.yellow(c.changes.join(", "))}`);
+      console.log(chalk.dim(`  current:   ${describe(c.current)}`));
+      console.log(chalk.dim(`  candidate: ${describe(c.candidate)}`));
+      console.log(chalk.gray(`  ${truncate(c.content.replace(/\s+/g, " "), maxWidth - 4)}`));
+    }
+    if (report.changes.length > limit) {
+      console.log(chalk.dim(`… ${report.changes.length - limit} more (use --limit)`));
+    }
+  }
+
+  const { dedup } = report;
+  if (dedup.added.length > 0 || dedup.removed.length > 0) {
+    console.log("");
+    console.log(chalk.bold(`Duplicate detection (${dedup.threshold.current} → ${dedup.threshold.candidate})`));
+    for (const p of dedup.added) console.log(`  ${chalk.yellow("+")} ${p.a} ~ ${p.b} (${p.similarity})`);
+    for (const p of dedup.removed) console.log(`  ${chalk.dim("-")} ${p.a} ~ ${p.b} (${p.similarity})`);
+  }
+}
@@ -23,17 +23,24 @@ import {
   validateNonEmptyString,
   validateOneOf,
   validatePositiveInt,
+  validateUnitInterval,
   ensureDir,
   expandPath,
   resolveRepoDir,
   resolveGlobalDir,
   fileExists,
-  atomicWrite
+  atomicWrite,
+  RULE_CITATION_GUIDE
 } from "../utils.js";
 import { withLock } from "../lock.js";
 import { getEffectiveScore } from "../scoring.js";
+import { packContextToBudget, type ContextBudgetFormat } from "../context-budget.js";
+import { rerankForDiversity } from "../diversity.js";
+import { applyBulletRelations, type BulletEdge } from "../bullet-graph.js";
+import { createWorkspaceProbe, filterApplicableBullets } from "../applicability.js";
 import { ContextResult, ScoredBullet, Config, CassSearchHit, PlaybookBullet, ErrorCode } from "../types.js";
-import { cosineSimilarity, embedText, loadOrComputeEmbeddingsForBullets } from "../semantic.js";
+import { cosineSimilarity, embedText, loadOrComputeEmbeddingsForBullets, rankBulletsByEmbedding } from "../semantic.js";
+import { VECTOR_INDEX_MIN_ENTRIES } from "../vector-index.js";
 import chalk from "chalk";
 import { agentIconPrefix, formatRule, formatTipPrefix, getOutputStyle, iconPrefix, wrapText } from "../output.js";
 import { createProgress, type ProgressReporter } from "../progress.js";
@@ -158,7 +165,7 @@ export function buildContextResult(
     snippet: truncateWithIndicator(h.snippet.trim().replace(/\n/g, " "), 300)
   }));
 
-  return {
+  const result: ContextResult = {
     task,
     relevantBullets,
     antiPatterns: transformedAntiPatterns,
@@ -166,6 +173,10 @@ export function buildContextResult(
     deprecatedWarnings: warnings,
     suggestedCassQueries: suggestedQueries
   };
+  if (relevantBullets.length > 0 || transformedAntiPatterns.length > 0) {
+    result.citationProtocol = RULE_CITATION_GUIDE;
+  }
+  return result;
 }
 
 function isSafeCassHistoryKeyword(token: string): boolean {
@@ -212,6 +223,10 @@ export interface ContextFlags {
   stats?: boolean;
   logContext?: boolean;
   session?: string;
+  /** Pack the output into this many (estimated) tokens instead of relying on count limits alone. */
+  maxTokens?: number;
+  /** MMR diversity in [0, 1]; overrides config.contextDiversity. */
+  diversity?: number;
 }
 
 export interface ContextComputation {
@@ -236,6 +251,9 @@ export type ContextProgressEvent =
   }
   | { phase: "cass_search"; kind: "start" | "done"; message: string };
 
+/** How many nearest neighbours get a semantic score when the vector index is used. */
+const SEMANTIC_CANDIDATES = 200;
+
 function clamp01(value: number): number {
   if (!Number.isFinite(value)) return 0;
   if (value < 0) return 0;
@@ -342,6 +360,16 @@ export async function scoreBulletsEnhanced(
     }
   }
 
+  // Large playbooks: only the nearest neighbours from the vector index get a
+  // semantic score. The rest are scored as if they had no embedding (semantic
+  // weight 0), so a strong keyword match outside the candidates keeps its full
+  // keyword score.
+  let nearest: Map<string, number> | null = null;
+  if (queryEmbedding && queryEmbedding.length > 0 && bullets.length >= VECTOR_INDEX_MIN_ENTRIES) {
+    const matches = await rankBulletsByEmbedding(queryEmbedding, bullets, SEMANTIC_CANDIDATES, { model: embeddingModel });
+    nearest = new Map(matches.map((m) => [m.bullet.id, m.similarity]));
+  }
+
   const scored: ScoredBullet[] = bullets.map((b) => {
     const keywordScore = scoreBulletRelevance(b.content, b.tags, keywords);
 
@@ -352,12 +380,15 @@ export async function scoreBulletsEnhanced(
       Array.isArray(b.embedding) &&
       b.embedding.length > 0;
 
-    const semanticSimilarity = hasSemantic
-      ? Math.max(0, cosineSimilarity(queryEmbedding!, b.embedding!))
-      : 0;
+    const semanticSimilarity = !hasSemantic
+      ? 0
+      : nearest
+        ? Math.max(0, nearest.get(b.id) ?? 0)
+        : Math.max(0, cosineSimilarity(queryEmbedding!, b.embedding!));
     const semanticScore = semanticSimilarity * 10;
 
-    const w = hasSemantic ? semanticWeight : 0;
+    const outsideCandidates = nearest !== null && !nearest.has(b.id);
+    const w = hasSemantic && !outsideCandidates ? semanticWeight : 0;
     const relevanceScore = keywordScore * (1 - w) + semanticScore * w;
     const effectiveScore = getEffectiveScore(b, config);
     const finalScore = relevanceScore * Math.max(0.1, effectiveScore);
@@ -385,7 +416,11 @@ export async function scoreBulletsEnhanced(
 export async function generateContextResult(
   task: string,
   flags: ContextFlags,
-  options: { onProgress?: (event: ContextProgressEvent) => void } = {}
+  options: {
+    onProgress?: (event: ContextProgressEvent) => void;
+    /** Included in the result (and in budget packing) when the caller matched a trauma. */
+    traumaWarning?: ContextResult["traumaWarning"];
+  } = {}
 ): Promise<ContextComputation> {
   const config = await loadConfig();
 
@@ -399,7 +434,7 @@ export async function generateContextResult(
   // absolute paths stored on bullets.
   const effectiveWorkspace = resolveWorkspaceFilter(flags.workspace);
 
-  const activeBullets = getActiveBullets(playbook).filter((b) => {
+  const inScope = getActiveBullets(playbook).filter((b) => {
     // Always include global rules
     if (b.scope !== "workspace") return true;
 
@@ -409,6 +444,11 @@ export async function generateContextResult(
     if (!effectiveWorkspace || !b.workspace) return false;
     return resolveWorkspaceFilter(b.workspace) === effectiveWorkspace;
   });
+  // Drop rules whose `appliesWhen` predicates, or language/framework scope, don't hold in this workspace
+  const activeBullets = await filterApplicableBullets(
+    inScope,
+    await createWorkspaceProbe(effectiveWorkspace ?? process.cwd())
+  );
 
   const scoringMeta: ScoreBulletsMeta = { semanticMode: "keyword" };
   const scoredBullets = await scoreBulletsEnhanced(activeBullets, task, keywords, config, {
@@ -434,12 +474,19 @@ export async function generateContextResult(
   // scoredBullets is already sorted by finalScore with relevanceScore tie-breaker
   // Filter by relevanceScore against config.minRelevanceScore (not finalScore > 0)
   // so that the configured threshold is actually respected
-  const topBullets = scoredBullets
-    .filter(b => (b.relevanceScore ?? 0) >= minRelevance)
-    .slice(0, maxBullets);
-
-  const rules = topBullets.filter(b => !b.isNegative && b.kind !== "anti_pattern");
-  const antiPatterns = topBullets.filter(b => b.isNegative || b.kind === "anti_pattern");
+  const relevant = scoredBullets.filter(b => (b.relevanceScore ?? 0) >= minRelevance);
+  const diversity = flags.diversity ?? config.contextDiversity ?? 0;
+  const topBullets = diversity > 0
+    ? rerankForDiversity(relevant, {
+      diversity,
+      limit: maxBullets,
+      useEmbeddings: scoringMeta.semanticMode === "semantic",
+    })
+    : relevant.slice(0, maxBullets);
+  const related = applyBulletRelations(topBullets, scoredBullets);
+
+  const rules = related.bullets.filter(b => !b.isNegative && b.kind !== "anti_pattern");
+  const antiPatterns = related.bullets.filter(b => b.isNegative || b.kind === "anti_pattern");
 
   let cassHits: CassSearchHit[] = [];
   let degraded: ContextResult["degraded"] | undefined;
@@ -463,6 +510,7 @@ export async function generateContextResult(
   const warnings: string[] = [];
   const historyWarnings = checkDeprecatedPatterns(cassHits, playbook.deprecatedPatterns);
   warnings.push(...historyWarnings);
+  warnings.push(...related.conflicts.map(formatConflictWarning));
 
   for (const pattern of playbook.deprecatedPatterns) {
     // Use safeDeprecatedPatternMatcher for ReDoS-safe regex matching
@@ -488,13 +536,17 @@ export async function generateContextResult(
     warnings,
     suggestedQueries,
     {
-      maxBullets: flags.limit ?? flags.top ?? config.maxBulletsInContext,
+      // Required companions ride along on top of the limit
+      maxBullets: maxBullets + related.added.length,
       maxHistory: flags.history ?? config.maxHistoryInContext,
     }
   );
   if (degraded) {
     result.degraded = degraded;
   }
+  if (related.superseded.length > 0) {
+    result.supersededBullets = related.superseded;
+  }
 
   // Surface which mode actually ran + why we degraded (if applicable).
   // This makes silent semantic-search fallback visible to agents consuming
@@ -503,6 +555,21 @@ export async function generateContextResult(
   if (scoringMeta.semanticError) {
     result.semanticError = scoringMeta.semanticError;
   }
+  if (options.traumaWarning) {
+    result.traumaWarning = options.traumaWarning;
+  }
+
+  let computation: ContextComputation = {
+    result,
+    rules,
+    antiPatterns,
+    cassHits,
+    warnings,
+    suggestedQueries,
+  };
+  if (flags.maxTokens !== undefined) {
+    computation = packContextToBudget(computation, flags.maxTokens, getBudgetFormat(flags));
+  }
 
   const shouldLog =
     flags.logContext ||
@@ -512,14 +579,25 @@ export async function generateContextResult(
   if (shouldLog) {
     await appendContextLog({
       task,
-      ruleIds: rules.map((r) => r.id),
-      antiPatternIds: antiPatterns.map((r) => r.id),
+      ruleIds: computation.rules.map((r) => r.id),
+      antiPatternIds: computation.antiPatterns.map((r) => r.id),
       workspace: flags.workspace,
       session: flags.session,
     });
   }
 
-  return { result, rules, antiPatterns, cassHits, warnings, suggestedQueries };
+  return computation;
+}
+
+function formatConflictWarning(edge: BulletEdge): string {
+  return `Rules ${edge.from} and ${edge.to} may conflict${edge.reason ? ` (${edge.reason})` : ""}`;
+}
+
+/** Output format the budget is measured in; plain terminal output is costed like markdown. */
+function getBudgetFormat(flags: ContextFlags): ContextBudgetFormat {
+  if (isToonOutput(flags)) return "toon";
+  if (isJsonOutput(flags)) return "json";
+  return "markdown";
 }
 
 async function appendContextLog(entry: {
@@ -568,7 +646,7 @@ async function appendContextLog(entry: {
 export async function contextWithoutCass(
   task: string,
   config: Config,
-  options: { workspace?: string; maxBullets?: number; reason?: string } = {}
+  options: { workspace?: string; maxBullets?: number; diversity?: number; reason?: string } = {}
 ): Promise<ContextResult> {
   const { workspace, maxBullets, reason } = options;
 
@@ -582,11 +660,15 @@ export async function contextWithoutCass(
     // so workspace-scoped rules surface in the cass-unavailable fallback too.
     const effectiveWorkspace = resolveWorkspaceFilter(workspace);
 
-    const activeBullets = getActiveBullets(playbook).filter((b) => {
+    const inScope = getActiveBullets(playbook).filter((b) => {
       if (b.scope !== "workspace") return true;
       if (!effectiveWorkspace || !b.workspace) return false;
       return resolveWorkspaceFilter(b.workspace) === effectiveWorkspace;
     });
+    const activeBullets = await filterApplicableBullets(
+      inScope,
+      await createWorkspaceProbe(effectiveWorkspace ?? process.cwd())
+    );
 
     const scoredBullets: ScoredBullet[] = activeBullets.map(b => {
       const relevance = scoreBulletRelevance(b.content, b.tags, keywords);
@@ -603,14 +685,19 @@ export async function contextWithoutCass(
 
     scoredBullets.sort((a, b) => (b.finalScore || 0) - (a.finalScore || 0));
 
-    const topBullets = scoredBullets
-      .filter(b => (b.relevanceScore ?? 0) >= config.minRelevanceScore)
-      .slice(0, maxBullets ?? config.maxBulletsInContext);
+    const relevant = scoredBullets.filter(b => (b.relevanceScore ?? 0) >= config.minRelevanceScore);
+    const limit = maxBullets ?? config.maxBulletsInContext;
+    const diversity = options.diversity ?? config.contextDiversity ?? 0;
+    const topBullets = diversity > 0
+      ? rerankForDiversity(relevant, { diversity, limit, useEmbeddings: false })
+      : relevant.slice(0, limit);
+    const related = applyBulletRelations(topBullets, scoredBullets);
 
-    const rules = topBullets.filter(b => !b.isNegative && b.kind !== "anti_pattern");
-    const antiPatterns = topBullets.filter(b => b.isNegative || b.kind === "anti_pattern");
+    const rules = related.bullets.filter(b => !b.isNegative && b.kind !== "anti_pattern");
+    const antiPatterns = related.bullets.filter(b => b.isNegative || b.kind === "anti_pattern");
 
     const warnings: string[] = ["Context generated without historical data (cass unavailable)"];
+    warnings.push(...related.conflicts.map(formatConflictWarning));
     for (const pattern of playbook.deprecatedPatterns) {
       // Use safeDeprecatedPatternMatcher for ReDoS-safe regex matching
       const matches = safeDeprecatedPatternMatcher(pattern.pattern);
@@ -772,6 +859,34 @@ export async function contextCommand(
     return;
   }
 
+  const maxTokensCheck = validatePositiveInt(flags.maxTokens, "maxTokens", { min: 1, allowUndefined: true });
+  if (!maxTokensCheck.ok) {
+    reportError(maxTokensCheck.message, {
+      code: ErrorCode.INVALID_INPUT,
+      details: maxTokensCheck.details,
+      hint: `Example: ${cli} context \"<task>\" --max-tokens 2000 --json`,
+      json: wantsJsonForErrors,
+      format: flags.format,
+      command,
+      startedAtMs,
+    });
+    return;
+  }
+
+  const diversityCheck = validateUnitInterval(flags.diversity, "diversity", { allowUndefined: true });
+  if (!diversityCheck.ok) {
+    reportError(diversityCheck.message, {
+      code: ErrorCode.INVALID_INPUT,
+      details: diversityCheck.details,
+      hint: `Example: ${cli} context \"<task>\" --diversity 0.3 --json`,
+      json: wantsJsonForErrors,
+      format: flags.format,
+      command,
+      startedAtMs,
+    });
+    return;
+  }
+
   const formatCheck = validateOneOf(flags.format, "format", ["json", "markdown", "toon"] as const, {
     allowUndefined: true,
     caseInsensitive: true,
@@ -825,6 +940,7 @@ export async function contextCommand(
     ...(formatCheck.value !== undefined ? { format: formatCheck.value } : {}),
     ...(workspaceCheck.value !== undefined ? { workspace: workspaceCheck.value } : {}),
     ...(sessionCheck.value !== undefined ? { session: sessionCheck.value } : {}),
+    ...(maxTokensCheck.value !== undefined ? { maxTokens: maxTokensCheck.value } : {}),
   };
 
   const wantsJson = isJsonOutput(normalizedFlags);
@@ -836,6 +952,7 @@ export async function contextCommand(
 
   try {
     const { result, rules, antiPatterns, cassHits, warnings, suggestedQueries } = await generateContextResult(normalizedTask, normalizedFlags, {
+      traumaWarning,
       onProgress: (event) => {
         if (event.phase === "semantic_embeddings") {
           if (event.total <= 0) return;
@@ -876,11 +993,6 @@ export async function contextCommand(
       },
     });
 
-    // Merge trauma warning
-    if (traumaWarning) {
-      result.traumaWarning = traumaWarning;
-    }
-
   if (wantsJson || wantsToon) {
     printStructuredResult(command, result, normalizedFlags, { startedAtMs });
     return;
@@ -900,7 +1012,8 @@ export async function contextCommand(
       for (const b of rules) {
         const relevance = Number.isFinite(b.relevanceScore) ? b.relevanceScore.toFixed(1) : "n/a";
         const confidence = Number.isFinite(b.effectiveScore) ? b.effectiveScore.toFixed(1) : "n/a";
-        console.log(`- **${b.id}** (${b.category}/${b.kind}, relevance ${relevance}, confidence ${confidence}): ${b.content.trim()}`);
+        const requiredBy = b.requiredBy ? `, required by ${b.requiredBy}` : "";
+        console.log(`- **${b.id}** (${b.category}/${b.kind}, relevance ${relevance}, confidence ${confidence}${requiredBy}): ${b.content.trim()}`);
       }
       console.log("");
     }
@@ -919,7 +1032,8 @@ export async function contextCommand(
     if (cassHits.length === 0) {
       console.log(`(No relevant history found)\n`);
     } else {
-      const shown = Math.min(cassHits.length, 3);
+      // A token budget already decided how much history fits
+      const shown = result.budget ? cassHits.length : Math.min(cassHits.length, 3);
       for (const h of cassHits.slice(0, shown)) {
         const agent = h.agent || "unknown";
         const host = h.origin?.kind === "remote" && h.origin.host ? ` (${h.origin.host})` : "";
@@ -943,6 +1057,17 @@ export async function contextCommand(
       for (const q of suggestedQueries) console.log(`- ${q}`);
       console.log("");
     }
+
+    if (result.citationProtocol) {
+      console.log(`## Citing rules\n`);
+      console.log(`${result.citationProtocol}\n`);
+    }
+
+    if (result.budget && result.budget.dropped.length > 0) {
+      console.log(`## Dropped to fit ${result.budget.maxTokens} tokens (${result.budget.dropped.length})\n`);
+      for (const d of result.budget.dropped) console.log(`- ${d.kind} ${d.id}: ${d.reason}`);
+      console.log("");
+    }
     return;
   }
 
@@ -990,7 +1115,8 @@ export async function contextCommand(
       const relevance = Number.isFinite(b.relevanceScore) ? b.relevanceScore.toFixed(1) : "n/a";
       const confidence = Number.isFinite(b.effectiveScore) ? b.effectiveScore.toFixed(1) : "n/a";
       const maturity = b.maturity ? ` • ${b.maturity}` : "";
-      console.log(chalk.bold(`[${b.id}]`) + chalk.dim(` ${b.category}/${b.kind} • relevance ${relevance} • confidence ${confidence}${maturity}`));
+      const requiredBy = b.requiredBy ? ` • required by ${b.requiredBy}` : "";
+      console.log(chalk.bold(`[${b.id}]`) + chalk.dim(` ${b.category}/${b.kind} • relevance ${relevance} • confidence ${confidence}${maturity}${requiredBy}`));
       for (const line of wrapText(b.content, contentWidth)) {
         console.log(`  ${line}`);
       }
@@ -1067,6 +1193,18 @@ export async function contextCommand(
     console.log(divider);
     suggestedQueries.forEach((q) => console.log(`- ${q}`));
   }
+
+  if (result.citationProtocol) {
+    console.log("");
+    console.log(chalk.dim(result.citationProtocol));
+  }
+
+  if (result.budget) {
+    const { maxTokens, usedTokens, dropped } = result.budget;
+    console.log("");
+    console.log(chalk.dim(`Token budget: ~${usedTokens}/${maxTokens} used • ${dropped.length} item(s) dropped`));
+    for (const d of dropped) console.log(chalk.dim(`  - ${d.kind} ${d.id}: ${d.reason}`));
+  }
   } catch (err: any) {
     const message = err?.message || String(err);
     embeddingsProgressRef.current?.fail(message);
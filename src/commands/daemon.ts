@@ -0,0 +1,152 @@
+import chalk from "chalk";
+import {
+  getDaemonStatus,
+  markDaemonStopped,
+  runDaemonLoop,
+  startDaemon,
+  stopDaemon,
+  summarizeDaemonRun,
+  type DaemonStatus,
+} from "../daemon.js";
+import { ErrorCode } from "../types.js";
+import { getCliName, onShutdown, printJsonResult, reportError } from "../utils.js";
+import { formatKv, icon } from "../output.js";
+
+/** How long `daemon run` waits for a cycle in progress on shutdown; below stopDaemon's 10s wait. */
+const SHUTDOWN_GRACE_MS = 5_000;
+
+function statusLine(status: DaemonStatus): string {
+  if (status.running) return chalk.green(`running (pid ${status.pid})`);
+  if (status.stale) return chalk.yellow(`not running (pid ${status.pid} exited without stopping)`);
+  return "stopped";
+}
+
+function printStatus(status: DaemonStatus): void {
+  const rows = [
+    { key: "Status", value: statusLine(status) },
+    ...(status.startedAt ? [{ key: "Started", value: status.startedAt }] : []),
+    {
+      key: "Last run",
+      value: status.lastRun ? `${status.lastRun.at} — ${summarizeDaemonRun(status.lastRun)}` : "never",
+    },
+    ...(status.running && status.nextRunAt ? [{ key: "Next run", value: status.nextRunAt }] : []),
+    ...(status.consecutiveFailures > 0
+      ? [{ key: "Failures", value: chalk.yellow(`${status.consecutiveFailures} in a row (backing off)`) }]
+      : []),
+    { key: "Runs", value: String(status.runs) },
+    { key: "Log", value: status.logPath },
+  ];
+  console.log(chalk.bold("REFLECTION DAEMON"));
+  console.log(formatKv(rows, { indent: "  " }));
+}
+
+export async function daemonCommand(
+  action: "start" | "stop" | "status" | "run",
+  flags: { json?: boolean; once?: boolean } = {}
+): Promise<void> {
+  const startedAtMs = Date.now();
+  const command = `daemon:${action}`;
+  const cli = getCliName();
+
+  try {
+    switch (action) {
+      case "start": {
+        const result = await startDaemon();
+        if (flags.json) {
+          printJsonResult(command, result, { startedAtMs });
+        } else if (result.started) {
+          console.log(chalk.green(`${icon("success")} Reflection daemon started (pid ${result.pid})`));
+          console.log(chalk.dim(`  Log: ${result.logPath}`));
+          console.log(chalk.dim(`  Check on it with: ${cli} daemon status`));
+        } else {
+          console.log(`Reflection daemon already running (pid ${result.pid})`);
+        }
+        return;
+      }
+
+      case "stop": {
+        const result = await stopDaemon();
+        if (!result.stopped) {
+          reportError(`Daemon (pid ${result.pid}) did not exit after SIGTERM`, {
+            code: ErrorCode.INTERNAL_ERROR,
+            details: result,
+            hint: `Check the process and re-run: ${cli} daemon stop`,
+            json: flags.json,
+            command,
+            startedAtMs,
+          });
+          return;
+        }
+        if (flags.json) {
+          printJsonResult(command, result, { startedAtMs });
+        } else if (result.wasRunning) {
+          console.log(chalk.green(`${icon("success")} Reflection daemon stopped (pid ${result.pid})`));
+        } else {
+          console.log("Reflection daemon is not running");
+        }
+        return;
+      }
+
+      case "status": {
+        const status = await getDaemonStatus();
+        if (flags.json) {
+          printJsonResult(command, status, { startedAtMs });
+        } else {
+          printStatus(status);
+        }
+        return;
+      }
+
+      case "run": {
+        // Foreground loop (what `start` launches); output goes to the daemon log
+        const current = await getDaemonStatus();
+        if (current.running && current.pid !== process.pid) {
+          reportError(`Reflection daemon already running (pid ${current.pid})`, {
+            code: ErrorCode.ALREADY_EXISTS,
+            details: { pid: current.pid },
+            hint: `Stop it first: ${cli} daemon stop`,
+            json: flags.json,
+            command,
+            startedAtMs,
+          });
+          return;
+        }
+        // SIGTERM (`cm daemon stop`) or SIGINT ends the loop, which records
+        // itself as stopped; a reflection cycle in progress gets a grace period
+        // to finish and is abandoned after it.
+        const controller = new AbortController();
+        const loop = runDaemonLoop({
+          signal: controller.signal,
+          maxCycles: flags.once ? 1 : undefined,
+          runNow: flags.once,
+          onRun: (run, next) => {
+            const line = `[${run.at}] ${summarizeDaemonRun(run)}; next run ${next.nextRunAt}`;
+            if (!flags.json) console.log(line);
+          },
+        });
+        const removeShutdownHandler = onShutdown(async () => {
+          controller.abort();
+          const finished = await Promise.race([
+            loop.then(() => true, () => true),
+            new Promise<boolean>((resolve) => setTimeout(() => resolve(false), SHUTDOWN_GRACE_MS).unref()),
+          ]);
+          if (!finished) await markDaemonStopped();
+        });
+        try {
+          const state = await loop;
+          if (flags.json) printJsonResult(command, state, { startedAtMs });
+        } finally {
+          removeShutdownHandler();
+        }
+        return;
+      }
+    }
+  } catch (err: any) {
+    reportError(err instanceof Error ? err : String(err), {
+      code: ErrorCode.INTERNAL_ERROR,
+      json: flags.json,
+      command,
+      startedAtMs,
+    });
+  }
+}
@@ -2,14 +2,31 @@
 // Diary generation command - Generate a structured diary from a coding session
 
 import { loadConfig, getSanitizeConfig } from "../config.js";
-import { generateDiary, generateDiaryFromContent, formatRawSession } from "../diary.js";
+import {
+  generateDiary,
+  generateDiaryFromContent,
+  formatRawSession,
+  loadAllDiaries,
+  searchDiaries,
+  type DiarySearchFilters,
+  type DiarySearchHit,
+} from "../diary.js";
 import { sanitize, compileExtraPatterns } from "../sanitize.js";
-import { expandPath, printJsonResult, reportError } from "../utils.js";
+import {
+  expandPath,
+  getCliName,
+  printJsonResult,
+  reportError,
+  truncate,
+  validateNonEmptyString,
+  validateOneOf,
+  validatePositiveInt,
+} from "../utils.js";
 import { ErrorCode } from "../types.js";
 import path from "node:path";
 import fs from "node:fs/promises";
 import chalk from "chalk";
-import { iconPrefix } from "../output.js";
+import { formatRule, getOutputStyle, iconPrefix, wrapText } from "../output.js";
 
 export interface DiaryCommandOptions {
   /** Output format: json or human-readable */
@@ -199,3 +216,141 @@ export async function handleDiaryOutput(
     console.log(chalk.dim(`\n${iconPrefix("folder")}Saved to: ${savedPath}`));
   }
 }
+
+// --- Search ---
+
+export interface DiarySearchFlags {
+  agent?: string;
+  workspace?: string;
+  tag?: string[];
+  since?: string;
+  until?: string;
+  days?: number;
+  status?: string;
+  limit?: number;
+  json?: boolean;
+}
+
+/** Diaries scanned by `diary search` (most recent first). */
+const DIARY_SEARCH_SCAN_LIMIT = 10_000;
+
+function toSearchResult(hit: DiarySearchHit) {
+  const { diary } = hit;
+  return {
+    id: diary.id,
+    timestamp: diary.timestamp,
+    agent: diary.agent,
+    workspace: diary.workspace,
+    status: diary.status,
+    tags: diary.tags,
+    sessionPath: diary.sessionPath,
+    score: Number(hit.score.toFixed(3)),
+    keywordScore: Number(hit.keywordScore.toFixed(3)),
+    ...(hit.semanticScore !== undefined ? { semanticScore: Number(hit.semanticScore.toFixed(3)) } : {}),
+    matches: hit.matches,
+  };
+}
+
+export type DiarySearchResultItem = ReturnType<typeof toSearchResult>;
+
+/**
+ * Search saved diaries; shared by `cm diary search` and the memory_search MCP tool.
+ */
+export async function generateDiarySearchResults(
+  query: string,
+  options: { limit?: number; filters?: DiarySearchFilters; config?: import("../types.js").Config } = {}
+): Promise<{ query: string; mode: "semantic" | "keyword"; searched: number; results: DiarySearchResultItem[] }> {
+  const config = options.config ?? await loadConfig();
+  const diaries = await loadAllDiaries(config.diaryDir, DIARY_SEARCH_SCAN_LIMIT);
+  const result = await searchDiaries(query, diaries, config, { limit: options.limit, filters: options.filters });
+  return { query, mode: result.mode, searched: result.searched, results: result.hits.map(toSearchResult) };
+}
+
+export async function diarySearchCommand(query: string, flags: DiarySearchFlags = {}): Promise<void> {
+  const startedAtMs = Date.now();
+  const command = "diary search";
+  const cli = getCliName();
+  const fail = (message: string, details?: unknown, hint?: string): void => {
+    reportError(message, {
+      code: ErrorCode.INVALID_INPUT,
+      details,
+      hint: hint ?? `Example: ${cli} diary search "flaky tests" --agent claude --days 30 --json`,
+      json: flags.json,
+      command,
+      startedAtMs,
+    });
+  };
+
+  const queryCheck = validateNonEmptyString(query, "query");
+  if (!queryCheck.ok) return fail(queryCheck.message, queryCheck.details);
+  const limitCheck = validatePositiveInt(flags.limit, "limit", { min: 1, allowUndefined: true });
+  if (!limitCheck.ok) return fail(limitCheck.message, limitCheck.details);
+  const daysCheck = validatePositiveInt(flags.days, "days", { min: 1, allowUndefined: true });
+  if (!daysCheck.ok) return fail(daysCheck.message, daysCheck.details);
+  const statusCheck = validateOneOf(flags.status, "status", ["success", "failure", "mixed"] as const, {
+    allowUndefined: true,
+    caseInsensitive: true,
+  });
+  if (!statusCheck.ok) return fail(statusCheck.message, statusCheck.details, "Valid statuses: success, failure, mixed");
+
+  const dates: { since?: string; until?: string } = {};
+  for (const key of ["since", "until"] as const) {
+    const raw = flags[key];
+    if (raw === undefined) continue;
+    const at = Date.parse(raw);
+    if (!Number.isFinite(at)) {
+      return fail(`${key} must be a date (e.g. 2025-06-01 or an ISO timestamp).`, { field: key, received: raw });
+    }
+    dates[key] = new Date(at).toISOString();
+  }
+  if (daysCheck.value !== undefined) {
+    const cutoff = new Date(Date.now() - daysCheck.value * 86_400_000).toISOString();
+    if (!dates.since || cutoff > dates.since) dates.since = cutoff;
+  }
+
+  const filters: DiarySearchFilters = {
+    agent: flags.agent?.trim() || undefined,
+    workspace: flags.workspace?.trim() || undefined,
+    tags: (flags.tag ?? []).map((t) => t.trim()).filter(Boolean),
+    status: statusCheck.value,
+    ...dates,
+  };
+
+  const limit = limitCheck.value ?? 10;
+  const result = await generateDiarySearchResults(queryCheck.value, { limit, filters });
+
+  if (flags.json) {
+    printJsonResult(command, { ...result, total: result.results.length }, { startedAtMs });
+    return;
+  }
+
+  const style = getOutputStyle();
+  const maxWidth = Math.min(style.width, 84);
+  const divider = chalk.dim(formatRule("─", { maxWidth }));
+
+  console.log(chalk.bold("DIARY SEARCH"));
+  console.log(divider);
+  console.log(chalk.dim(`Query: ${result.query} • ${result.mode} • ${result.searched} diaries searched`));
+  console.log("");
+
+  if (result.results.length === 0) {
+    console.log(chalk.gray("No matching diary entries."));
+    return;
+  }
+
+  result.results.forEach((r, i) => {
+    const statusColor = r.status === "success" ? chalk.green : r.status === "failure" ? chalk.red : chalk.yellow;
+    console.log(
+      chalk.bold(`${i + 1}. ${r.id}`) +
+        chalk.dim(` • ${r.timestamp.slice(0, 10)} • ${r.agent} • `) +
+        statusColor(r.status) +
+        chalk.dim(` • score ${r.score.toFixed(2)}`)
+    );
+    if (r.workspace) console.log(chalk.dim(`   ${truncate(r.workspace, maxWidth - 3)}`));
+    for (const m of r.matches) {
+      const lines = wrapText(`${m.field}: ${m.text}`, Math.max(24, maxWidth - 5));
+      lines.forEach((line, j) => console.log(`   ${j === 0 ? "•" : " "} ${line}`));
+    }
+    console.log("");
+  });
+}
@@ -19,11 +19,23 @@ import {
   isToonOutput,
   validateOneOf
 } from "../utils.js";
-import { isLLMAvailable, getAvailableProviders, validateApiKey, resolveOllamaBaseUrl, resolveCliCommand } from "../llm.js";
+import {
+  isLLMAvailable,
+  getAvailableProviders,
+  getProviderEnvVar,
+  validateApiKey,
+  resolveOllamaBaseUrl,
+  resolveCliCommand,
+  resolveModelRoute,
+} from "../llm.js";
 import { SECRET_PATTERNS, compileExtraPatterns } from "../sanitize.js";
-import { loadPlaybook, savePlaybook, createEmptyPlaybook } from "../playbook.js";
+import { loadPlaybook, savePlaybook, createEmptyPlaybook, loadMergedPlaybook, getActiveBullets } from "../playbook.js";
+import { loadAllDiaries } from "../diary.js";
+import { DEFAULT_EMBEDDING_MODEL, loadOrComputeEmbeddingsForBullets, rebuildVectorIndex } from "../semantic.js";
+import { getDaemonStatus, summarizeDaemonRun } from "../daemon.js";
+import { VECTOR_INDEX_MIN_ENTRIES, getVectorIndexPath, loadVectorIndex } from "../vector-index.js";
 import { withLock } from "../lock.js";
-import { Config, Playbook, ErrorCode } from "../types.js";
+import { Config, Playbook, ErrorCode, LLM_OPERATIONS } from "../types.js";
 import { loadTraumas } from "../trauma.js";
 import chalk from "chalk";
 import path from "node:path";
@@ -111,6 +123,9 @@ type FixPlan = {
   wouldSkip: Array<{ id: string; reason: string }>;
 };
 
+/** Diaries re-embedded by a vector index rebuild (most recent first). */
+const VECTOR_INDEX_DIARY_LIMIT = 10_000;
+
 type JsonFileValidation = { valid: true } | { valid: false; error: string };
 
 async function validateJsonFile(filePath: string): Promise<JsonFileValidation> {
@@ -280,6 +295,18 @@ function buildRecommendedActions(params: {
     });
   }
 
+  for (const routeCheck of params.checks) {
+    if (routeCheck.category !== "LLM Configuration" || !routeCheck.item.startsWith("Route: ")) continue;
+    if (routeCheck.status !== "warn") continue;
+    const { operation, envVar } = routeCheck.details as { operation: string; envVar: string };
+    actions.push({
+      label: `Set ${envVar} for modelRoutes.${operation}`,
+      command: `export ${envVar}="..."`,
+      reason: "The route's provider has no key, so its calls fall back to another provider's default model.",
+      urgency: "medium",
+    });
+  }
+
   const repoCheck = params.checks.find(
     (c) => c.category === "Repo .cass/ Structure" && c.item === "Structure"
   );
@@ -443,6 +470,30 @@ async function computeDoctorChecks(
     details: { configuredProvider: config.provider, availableProviders },
   });
 
+  // Per-operation model routes: a route on another provider needs that
+  // provider's key (or Ollama URL / AWS credentials), otherwise its calls
+  // silently auto-fallback.
+  for (const operation of LLM_OPERATIONS) {
+    if (!config.modelRoutes?.[operation]) continue;
+    const routed = resolveModelRoute(config, operation);
+    const provider = routed.provider;
+    const target = `${provider}/${routed.model}`;
+    const keyAvailable =
+      provider === "cli"
+        ? !!resolveCliCommand(config.cliCommand)
+        : !!routed.apiKey || isLLMAvailable(provider);
+
+    checks.push({
+      category: "LLM Configuration",
+      item: `Route: ${operation}`,
+      status: keyAvailable ? "pass" : "warn",
+      message: keyAvailable
+        ? `${target} (ready)`
+        : `${target}: ${getProviderEnvVar(provider)} is not set, so ${operation} calls will auto-fallback`,
+      details: { operation, provider, model: routed.model, keyAvailable, envVar: getProviderEnvVar(provider) },
+    });
+  }
+
   // 4) Repo-level .cass/ structure (if in a git repo)
   const cassDir = await resolveRepoDir();
   if (cassDir) {
@@ -614,6 +665,43 @@ async function computeDoctorChecks(
     }
   }
 
+  // 7) Background reflection daemon
+  try {
+    const daemon = await getDaemonStatus();
+    const lastRun = daemon.lastRun ? `; last run ${daemon.lastRun.at}: ${summarizeDaemonRun(daemon.lastRun)}` : "";
+    let status: CheckStatus = "pass";
+    let message: string;
+    if (daemon.running) {
+      message = `Running (pid ${daemon.pid})${lastRun}${daemon.nextRunAt ? `; next run ${daemon.nextRunAt}` : ""}`;
+      if (daemon.consecutiveFailures > 0) {
+        status = "warn";
+        message += ` — ${daemon.consecutiveFailures} failed run(s) in a row, backing off (see ${daemon.logPath})`;
+      }
+    } else if (daemon.stale) {
+      status = "warn";
+      message = `Not running: pid ${daemon.pid} exited without stopping${lastRun}. Restart with '${getCliName()} daemon start'`;
+    } else if (config.autoReflect) {
+      status = "warn";
+      message = `autoReflect is enabled but the daemon is not running. Start it with '${getCliName()} daemon start'`;
+    } else {
+      message = `Not running (optional: '${getCliName()} daemon start')${lastRun}`;
+    }
+    checks.push({
+      category: "Reflection Daemon",
+      item: "Status",
+      status,
+      message,
+      details: daemon,
+    });
+  } catch (e) {
+    checks.push({
+      category: "Reflection Daemon",
+      item: "Status",
+      status: "warn",
+      message: `Failed to read daemon state: ${e instanceof Error ? e.message : String(e)}`,
+    });
+  }
+
   return checks;
 }
 
@@ -1017,7 +1105,7 @@ function createMissingPlaybookFix(playbookPath: string): FixableIssue {
     fix: async () => {
       await withLock(playbookPath, async () => {
         const emptyPlaybook: Playbook = createEmptyPlaybook();
-        await savePlaybook(emptyPlaybook, playbookPath);
+        await savePlaybook(emptyPlaybook, playbookPath, { command: "doctor --fix" });
       });
     },
   };
@@ -1043,7 +1131,7 @@ function createPlaybookSchemaMigrationFix(playbookPath: string, scope: "global"
         const playbook = await loadPlaybook(expanded);
         if ((playbook.schema_version ?? 2) >= 2) return;
         playbook.schema_version = 2;
-        await savePlaybook(playbook, expanded);
+        await savePlaybook(playbook, expanded, { command: "doctor --fix" });
       });
     },
   };
@@ -1131,6 +1219,49 @@ function createMissingBlockedLogFix(blockedPath: string): FixableIssue {
   };
 }
 
+/**
+ * Create fix that rebuilds the vector index from the playbook, the embedding
+ * cache and the diaries.
+ */
+function createRebuildVectorIndexFix(indexPath: string, reason: string): FixableIssue {
+  return {
+    id: "rebuild-vector-index",
+    description: `Rebuild vector index (${reason}): ${indexPath}`,
+    category: "storage",
+    severity: "warn",
+    safety: "safe",
+    fix: async () => {
+      const config = await loadConfig();
+      const model = config.embeddingModel?.trim() || DEFAULT_EMBEDDING_MODEL;
+      const bullets = getActiveBullets(await loadMergedPlaybook(config));
+      await loadOrComputeEmbeddingsForBullets(bullets, { model });
+      const diaries = await loadAllDiaries(config.diaryDir, VECTOR_INDEX_DIARY_LIMIT);
+      await rebuildVectorIndex(bullets, diaries, { model });
+    },
+  };
+}
+
+/** Why the vector index needs a rebuild, or null when it is fine (or not wanted). */
+async function diagnoseVectorIndex(config: Config): Promise<string | null> {
+  const model = config.embeddingModel?.trim();
+  if (!model || model === "none") return null;
+
+  const indexPath = getVectorIndexPath();
+  if (!(await fileExists(indexPath))) {
+    if (!config.semanticSearchEnabled) return null;
+    const active = getActiveBullets(await loadMergedPlaybook(config)).length;
+    return active >= VECTOR_INDEX_MIN_ENTRIES ? `missing for ${active} rules` : null;
+  }
+
+  const stored = await loadVectorIndex({ indexPath });
+  if (!stored) return "unreadable or outdated format";
+  if (stored.model !== model) return `built for ${stored.model}, config uses ${model}`;
+
+  const activeIds = new Set(getActiveBullets(await loadMergedPlaybook(config)).map((b) => b.id));
+  const orphaned = Object.values(stored.entries).filter((e) => e.kind === "bullet" && !activeIds.has(e.ref)).length;
+  return orphaned > 0 ? `${orphaned} entries for removed or inactive rules` : null;
+}
+
 /**
  * Detect fixable issues from health checks.
  */
@@ -1202,6 +1333,16 @@ export async function detectFixableIssues(options: { configLoadError?: unknown }
     }
   }
 
+  // Check the vector index (derived from playbook + embeddings + diaries)
+  if (globalDirExists && !options.configLoadError) {
+    try {
+      const reason = await diagnoseVectorIndex(await loadConfig());
+      if (reason) issues.push(createRebuildVectorIndexFix(getVectorIndexPath(), reason));
+    } catch {
+      // Config or playbook problems are reported by their own checks
+    }
+  }
+
   return issues;
 }
 
@@ -353,7 +353,7 @@ async function seedStarter(
   return await withLock(playbookPath, async () => {
     const playbook = await loadPlaybook(playbookPath);
     const { added, skipped } = applyStarter(playbook, starter, { preferExisting: true });
-    await savePlaybook(playbook, playbookPath);
+    await savePlaybook(playbook, playbookPath, { command: `init --starter ${starterName}` });
     return { added, skipped, name: starterName };
   });
 }
@@ -1,9 +1,10 @@
 import { loadConfig } from "../config.js";
 import { loadPlaybook, savePlaybook, findBullet } from "../playbook.js";
 import { getEffectiveScore, calculateMaturityState } from "../scoring.js";
-import { now, expandPath, resolveRepoDir, fileExists, printJsonResult, reportError } from "../utils.js";
+import { now, expandPath, resolveRepoDir, fileExists, printJsonResult, reportError, generateFeedbackEventId, getOriginId } from "../utils.js";
 import { HarmfulReason, HarmfulReasonEnum, FeedbackEvent, ErrorCode } from "../types.js";
 import { withLock } from "../lock.js";
+import { listTeams, getTeamPlaybookPath } from "../team.js";
 import chalk from "chalk";
 import { icon } from "../output.js";
 import path from "node:path";
@@ -64,6 +65,8 @@ export async function recordFeedback(
       }
 
       const event: FeedbackEvent = { 
+        id: generateFeedbackEventId(),
+        origin: getOriginId(),
         type, 
         timestamp: now(), 
         sessionPath: flags.session, 
@@ -92,7 +95,14 @@ export async function recordFeedback(
           targetBullet.deprecationReason = targetBullet.deprecationReason || "Automatically deprecated due to harmful feedback ratio";
       }
 
-      await savePlaybook(targetPlaybook, saveTarget);
+      await savePlaybook(targetPlaybook, saveTarget, {
+        command: "mark",
+        deltas: [
+          type === "helpful"
+            ? { type, bulletId, sourceSession: flags.session, context }
+            : { type, bulletId, sourceSession: flags.session, reason, context },
+        ],
+      });
       
       const score = getEffectiveScore(targetBullet, config);
       const state = targetBullet.maturity;
@@ -107,12 +117,25 @@ export async function recordFeedback(
     }
   }
 
+  // Team layers sit between repo and global, so they are searched in that order too
+  const teamPaths: string[] = [];
+  for (const name of await listTeams()) {
+    const teamPath = getTeamPlaybookPath(name);
+    if (!(await fileExists(teamPath))) continue;
+    teamPaths.push(teamPath);
+    const teamResult = await tryRecordInPlaybook(teamPath);
+    if (teamResult.found) {
+      return { type, score: teamResult.score!, state: teamResult.state! };
+    }
+  }
+
   const globalResult = await tryRecordInPlaybook(globalPath);
   if (globalResult.found) {
     return { type, score: globalResult.score!, state: globalResult.state! };
   }
 
-  const locations = repoPath && repoPlaybookExists ? `${repoPath} or ${globalPath}` : globalPath;
+  const searched = [...(repoPath && repoPlaybookExists ? [repoPath] : []), ...teamPaths, globalPath];
+  const locations = searched.join(" or ");
   throw new Error(`Bullet ${bulletId} not found in ${locations}.`);
 }
 
@@ -43,7 +43,9 @@ import {
   type RuleCategory,
 } from "../gap-analysis.js";
 import { findSimilarBulletsSemantic } from "../semantic.js";
+import { findDiaryBySession } from "../diary.js";
 import { ProcessedLog, getProcessedLogPath } from "../tracking.js";
+import { getWorkspaceProfile } from "../workspace-profile.js";
 import path from "node:path";
 import fs from "node:fs/promises";
 
@@ -299,6 +301,40 @@ async function exportSessionForAgent(sessionPath: string): Promise<string | null
   }
 }
 
+/** How much of a session file is searched for its recorded working directory. */
+const SESSION_CWD_SCAN_BYTES = 64 * 1024;
+
+/**
+ * The project a session worked in: its diary's workspace, else the `cwd` the
+ * agent recorded at the start of the session file (Claude Code and Codex both
+ * do). Null when neither is known or the directory no longer exists.
+ */
+async function resolveSessionWorkspace(sessionPath: string, diaryDir: string): Promise<string | null> {
+  const candidates: string[] = [];
+  const diary = await findDiaryBySession(sessionPath, diaryDir);
+  if (diary?.workspace) candidates.push(diary.workspace);
+
+  try {
+    const handle = await fs.open(expandPath(sessionPath), "r");
+    try {
+      const buffer = Buffer.alloc(SESSION_CWD_SCAN_BYTES);
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+      const match = buffer.toString("utf-8", 0, bytesRead).match(/"cwd"\s*:\s*"((?:[^"\\]|\\.)+)"/);
+      if (match) candidates.push(JSON.parse(`"${match[1]}"`));
+    } finally {
+      await handle.close();
+    }
+  } catch {
+    // Not a readable local file (or not JSON); no recorded cwd
+  }
+
+  for (const candidate of candidates) {
+    const dir = expandPath(candidate);
+    if (await fs.stat(dir).then((st) => st.isDirectory()).catch(() => false)) return dir;
+  }
+  return null;
+}
+
 /**
  * Generate a suggested focus message based on gaps and detected topics
  */
@@ -920,6 +956,17 @@ export async function onboardCommand(
       const sessionDir = path.dirname(readCheck.value);
       const workspaceName = path.basename(sessionDir);
 
+      // Languages/frameworks of the session's project, so extracted rules can
+      // be scoped to them; the cwd only stands in when that project is unknown
+      const profileRoot =
+        options.workspace ?? (await resolveSessionWorkspace(readCheck.value, config.diaryDir)) ?? process.cwd();
+      const profile = await getWorkspaceProfile(profileRoot);
+      const workspaceProfile = {
+        root: profile.root,
+        languages: profile.languages.map((l) => l.name),
+        frameworks: profile.frameworks.map((f) => f.name),
+      };
+
       const templateOutput = {
         metadata: {
           path: readCheck.value,
@@ -928,6 +975,7 @@ export async function onboardCommand(
           workspaceName,
           messageCount,
           topicHints,
+          workspaceProfile,
         },
         context: {
           relatedRules,
@@ -938,7 +986,12 @@ export async function onboardCommand(
           suggestedFocus,
         },
         extractionFormat: {
-          schema: { content: "string", category: "string" },
+          schema: {
+            content: "string",
+            category: "string",
+            scope: "language | framework (optional)",
+            scopeKey: "string (optional; defaults from workspaceProfile)",
+          },
           categories: [...RULE_CATEGORIES],
           examples: EXAMPLE_RULES,
         },
@@ -960,6 +1013,12 @@ export async function onboardCommand(
         if (topicHints.length > 0) {
           console.log(`  Topics: ${topicHints.join(", ")}`);
         }
+        if (workspaceProfile.languages.length > 0) {
+          console.log(`  Languages: ${workspaceProfile.languages.join(", ")}`);
+        }
+        if (workspaceProfile.frameworks.length > 0) {
+          console.log(`  Frameworks: ${workspaceProfile.frameworks.join(", ")}`);
+        }
         console.log("");
 
         // Context
@@ -995,6 +1054,7 @@ export async function onboardCommand(
         console.log(chalk.dim("After analyzing, add rules using:"));
         console.log(chalk.cyan(`  ${cli} playbook add "Your rule" --category "category"`));
         console.log(chalk.dim(`Or batch add via: ${cli} playbook add --file rules.json`));
+        console.log(chalk.dim(`Language/framework-specific rules: add "scope": "language" or "framework" to the JSON entry`));
       }
       return;
     }
@@ -1,9 +1,9 @@
 import { loadConfig } from "../config.js";
-import { loadMergedPlaybook, addBullet, deprecateBullet, savePlaybook, findBullet, getActiveBullets, loadPlaybook } from "../playbook.js";
-import { fileExists, now, resolveRepoDir, truncate, confirmDangerousAction, getCliName, isJsonOutput, isToonOutput, printStructuredResult, printJsonResult, reportError, validateOneOf, expandPath } from "../utils.js";
+import { loadMergedPlaybook, loadMergedPlaybookWithReport, mergeReportHasIssues, type MergeReport, addBullet, deprecateBullet, savePlaybook, findBullet, getActiveBullets, loadPlaybook } from "../playbook.js";
+import { fileExists, now, resolveRepoDir, truncate, confirmDangerousAction, getCliName, isJsonOutput, isToonOutput, printStructuredResult, printJsonResult, reportError, validateOneOf, validatePositiveInt, expandPath } from "../utils.js";
 import { withLock } from "../lock.js";
 import { getEffectiveScore, getDecayedCounts } from "../scoring.js";
-import { PlaybookBullet, Playbook, PlaybookSchema, PlaybookBulletSchema, ErrorCode } from "../types.js";
+import { PlaybookBullet, Playbook, PlaybookSchema, PlaybookBulletSchema, PlaybookDelta, ErrorCode, BulletOverride, BulletOverrideModeEnum, BulletRelationTypeEnum, Config, ApplicabilityPredicate, ApplicabilityPredicateSchema } from "../types.js";
 import { validateRule, formatValidationResult, hasIssues, type ValidationResult } from "../rule-validation.js";
 import { readFile, mkdir } from "node:fs/promises";
 import path from "node:path";
@@ -12,6 +12,12 @@ import yaml from "yaml";
 import { z } from "zod";
 import { formatKv, formatRule, formatTipPrefix, getOutputStyle, iconPrefix, icon, wrapText } from "../output.js";
 import { createProgress, type ProgressReporter } from "../progress.js";
+import { teamExists, listTeams, getTeamPlaybookPath } from "../team.js";
+import { reconcilePlaybooks } from "../reconcile.js";
+import { loadRevisions, getRevisionDiff, planRevert, applyRevertPlan, type PlaybookDiff } from "../history.js";
+import { describePredicate, parseApplicabilityPredicate } from "../applicability.js";
+import { getWorkspaceProfile, inferScopeKey, type WorkspaceProfile } from "../workspace-profile.js";
+import { addBulletRelation, formatNeighbourhoodDot, formatNeighbourhoodText, getBulletNeighbourhood, removeBulletRelation } from "../bullet-graph.js";
 
 // Helper function to format a bullet for detailed display
 function formatBulletDetails(bullet: PlaybookBullet, effectiveScore: number, decayedCounts: { decayedHelpful: number; decayedHarmful: number }): string {
@@ -26,7 +32,7 @@ function formatBulletDetails(bullet: PlaybookBullet, effectiveScore: number, dec
   const category = bullet.category || "uncategorized";
   const maturity = bullet.maturity || "candidate";
   const kind = bullet.kind || "workflow_rule";
-  const scope = bullet.scope || "global";
+  const scope = bullet.scopeKey ? `${bullet.scope || "global"}:${bullet.scopeKey}` : bullet.scope || "global";
   const state = bullet.state || "active";
 
   const createdAt = bullet.createdAt || "";
@@ -106,6 +112,24 @@ function formatBulletDetails(bullet: PlaybookBullet, effectiveScore: number, dec
     lines.push(`  ${bullet.tags.join(", ")}`);
   }
 
+  if (bullet.appliesWhen && bullet.appliesWhen.length > 0) {
+    lines.push("");
+    lines.push(chalk.bold("Applies when"));
+    lines.push(divider);
+    for (const predicate of bullet.appliesWhen) {
+      lines.push(`  - ${describePredicate(predicate)}`);
+    }
+  }
+
+  if (bullet.relations && bullet.relations.length > 0) {
+    lines.push("");
+    lines.push(chalk.bold(`Relations (${bullet.relations.length})`));
+    lines.push(divider);
+    for (const relation of bullet.relations) {
+      lines.push(`  - ${relation.type} ${relation.target}`);
+    }
+  }
+
   if (bullet.deprecated) {
     lines.push("");
     lines.push(chalk.red.bold("Status: DEPRECATED"));
@@ -172,6 +196,10 @@ function detectFormat(content: string, filePath?: string): "yaml" | "json" {
 const BatchRuleSchema = z.object({
   content: z.string().min(1),
   category: z.string().optional(),
+  appliesWhen: z.array(ApplicabilityPredicateSchema).optional(),
+  /** Narrow the rule to a language or framework; a missing scopeKey is filled from the workspace profile. */
+  scope: z.enum(["language", "framework"]).optional(),
+  scopeKey: z.string().min(1).optional(),
 });
 
 type BatchRule = z.infer<typeof BatchRuleSchema>;
@@ -254,6 +282,7 @@ async function handleBatchAdd(
   await withLock(targetPath, async () => {
     const { loadPlaybook } = await import("../playbook.js");
     const playbook = await loadPlaybook(targetPath);
+    let profile: WorkspaceProfile | undefined;
 
     for (let i = 0; i < rules.length; i++) {
       const raw = rules[i];
@@ -293,14 +322,22 @@ async function handleBatchAdd(
         }
       }
 
+      let scopeKey = rule.scopeKey;
+      if (rule.scope && !scopeKey) {
+        profile ??= await getWorkspaceProfile(process.cwd());
+        scopeKey = inferScopeKey({ ...rule, scope: rule.scope }, profile);
+      }
+
       try {
         const bullet = addBullet(
           playbook,
           {
             content: rule.content,
             category,
-            scope,
+            scope: rule.scope ?? scope,
+            scopeKey,
             kind: "workflow_rule",
+            appliesWhen: rule.appliesWhen,
           },
           "manual-cli",
           config.scoring.decayHalfLifeDays
@@ -323,7 +360,15 @@ async function handleBatchAdd(
 
     // Save if any were added
     if (result.added.length > 0) {
-      await savePlaybook(playbook, targetPath);
+      await savePlaybook(playbook, targetPath, {
+        command: "playbook add --file",
+        deltas: result.added.map((r): PlaybookDelta => ({
+          type: "add",
+          bullet: { id: r.id, content: r.content, category: r.category, scope },
+          reason: "Added via CLI batch",
+          sourceSession: "manual-cli",
+        })),
+      });
     }
   });
 
@@ -333,13 +378,355 @@ async function handleBatchAdd(
   return result;
 }
 
+function formatDiffLines(diff: PlaybookDiff): string[] {
+  const lines: string[] = [];
+  for (const b of diff.added) {
+    lines.push(chalk.green(`+ [${b.id}] ${truncate(b.content.trim().replace(/\s+/g, " "), 80)}`));
+  }
+  for (const b of diff.removed) {
+    lines.push(chalk.red(`- [${b.id}] ${truncate(b.content.trim().replace(/\s+/g, " "), 80)}`));
+  }
+  for (const m of diff.modified) {
+    lines.push(chalk.yellow(`~ [${m.id}] ${m.fields.join(", ")}`));
+    if (m.fields.includes("content")) {
+      lines.push(chalk.red(`    - ${truncate(m.before.content.trim().replace(/\s+/g, " "), 76)}`));
+      lines.push(chalk.green(`    + ${truncate(m.after.content.trim().replace(/\s+/g, " "), 76)}`));
+    }
+  }
+  return lines;
+}
+
+async function resolveHistoryTarget(
+  config: Awaited<ReturnType<typeof loadConfig>>,
+  repo: boolean | undefined
+): Promise<string | null> {
+  if (!repo) return expandPath(config.playbookPath);
+  const repoDir = await resolveRepoDir();
+  return repoDir ? path.join(repoDir, "playbook.yaml") : null;
+}
+
+function parseRevisionArg(raw: string | undefined): number | null {
+  const trimmed = String(raw ?? "").trim().replace(/^r/i, "");
+  if (!/^\d+$/.test(trimmed)) return null;
+  const rev = Number.parseInt(trimmed, 10);
+  return rev > 0 ? rev : null;
+}
+
+function parseOverrideArg(raw: string): BulletOverride | null {
+  const idx = raw.lastIndexOf(":");
+  if (idx <= 0) return null;
+  const bulletId = raw.slice(0, idx).trim();
+  const mode = BulletOverrideModeEnum.safeParse(raw.slice(idx + 1).trim().toLowerCase());
+  if (!bulletId || !mode.success) return null;
+  return { bulletId, mode: mode.data };
+}
+
+function describeAddTarget(flags: { repo?: boolean; team?: string }): string {
+  if (flags.team) return `team:${flags.team}`;
+  return flags.repo ? "repo" : "global";
+}
+
+/** Resolve `--team <name>` to the team playbook path, reporting an error (and returning null) if unusable. */
+async function resolveTeamAddTarget(
+  flags: { repo?: boolean; team?: string; json?: boolean },
+  command: string,
+  startedAtMs: number
+): Promise<string | null> {
+  const name = String(flags.team ?? "").trim();
+  if (flags.repo) {
+    reportError("Use either --repo or --team, not both", {
+      code: ErrorCode.INVALID_INPUT,
+      json: flags.json,
+      command,
+      startedAtMs,
+    });
+    return null;
+  }
+  if (!name || !(await teamExists(name))) {
+    reportError(`Team not found: ${name || "(empty)"}`, {
+      code: ErrorCode.CONFIG_INVALID,
+      hint: `Run '${getCliName()} team add-remote <name> <git-url>' first, or see '${getCliName()} team status'`,
+      json: flags.json,
+      command,
+      startedAtMs,
+    });
+    return null;
+  }
+  return getTeamPlaybookPath(name);
+}
+
+function formatMergeReportSummary(report: MergeReport): string {
+  const parts: string[] = [];
+  if (report.contradictions.length > 0) parts.push(`${report.contradictions.length} contradiction(s)`);
+  if (report.nearDuplicates.length > 0) parts.push(`${report.nearDuplicates.length} near-duplicate(s)`);
+  if (report.unresolvedOverrides.length > 0) parts.push(`${report.unresolvedOverrides.length} unresolved override(s)`);
+  return `Global/repo merge: ${parts.join(", ")}. See 'playbook list --json' (mergeReport) for details.`;
+}
+
+async function handleGraph(
+  id: string | undefined,
+  flags: { json?: boolean; format?: string; depth?: number },
+  config: Config,
+  command: string,
+  startedAtMs: number
+): Promise<void> {
+  const formatCheck = validateOneOf(flags.format, "format", ["text", "dot", "json"] as const, {
+    allowUndefined: true,
+    caseInsensitive: true,
+  });
+  const format = formatCheck.ok && formatCheck.value ? formatCheck.value : flags.json ? "json" : "text";
+  const json = format === "json";
+
+  if (!id) {
+    reportError("Bullet ID required for graph", {
+      code: ErrorCode.MISSING_REQUIRED,
+      details: { missing: "bulletId", usage: "cm playbook graph <bulletId> [--format text|dot|json]" },
+      json,
+      command,
+      startedAtMs,
+    });
+    return;
+  }
+  if (!formatCheck.ok) {
+    reportError(formatCheck.message, {
+      code: ErrorCode.INVALID_INPUT,
+      details: formatCheck.details,
+      hint: "Valid formats: text, dot, json",
+      json,
+      command,
+      startedAtMs,
+    });
+    return;
+  }
+  const depthCheck = validatePositiveInt(flags.depth, "depth", { min: 1, max: 5, allowUndefined: true });
+  if (!depthCheck.ok) {
+    reportError(depthCheck.message, {
+      code: ErrorCode.INVALID_INPUT,
+      details: depthCheck.details,
+      json,
+      command,
+      startedAtMs,
+    });
+    return;
+  }
+
+  const playbook = await loadMergedPlaybook(config);
+  if (!findBullet(playbook, id)) {
+    const similar = findSimilarIds(playbook.bullets || [], id);
+    reportError(`Bullet '${id}' not found`, {
+      code: ErrorCode.BULLET_NOT_FOUND,
+      hint: similar.length > 0 ? `Did you mean: ${similar.join(", ")}?` : undefined,
+      details: { bulletId: id, suggestions: similar.length > 0 ? similar : undefined },
+      json,
+      command,
+      startedAtMs,
+    });
+    return;
+  }
+
+  const graph = getBulletNeighbourhood(playbook.bullets, id, depthCheck.value ?? 1);
+
+  if (format === "json") {
+    printJsonResult(
+      command,
+      {
+        bulletId: id,
+        depth: graph.depth,
+        nodes: graph.nodes.map((b) => ({
+          id: b.id,
+          content: b.content,
+          category: b.category,
+          kind: b.kind,
+          maturity: b.maturity,
+          deprecated: Boolean(b.deprecated),
+        })),
+        edges: graph.edges,
+      },
+      { startedAtMs }
+    );
+    return;
+  }
+
+  if (format === "dot") {
+    console.log(formatNeighbourhoodDot(graph));
+    return;
+  }
+
+  const [head, ...rest] = formatNeighbourhoodText(graph);
+  console.log(chalk.bold(head));
+  if (rest.length === 0) {
+    console.log(chalk.dim("  (No relations)"));
+    console.log(chalk.gray(`${formatTipPrefix()}Add one with '${getCliName()} playbook link ${id} requires <otherId>'.`));
+    return;
+  }
+  for (const line of rest) console.log(line);
+}
+
+export interface AddRuleInput {
+  content: string;
+  category: string;
+  scope: "global" | "workspace";
+  override?: BulletOverride;
+  appliesWhen?: ApplicabilityPredicate[];
+  /** Run validateRule against the target playbook */
+  check?: boolean;
+  /** Refuse the rule when validation reports issues (implies nothing without `check`) */
+  strict?: boolean;
+  /** Provenance recorded on the bullet and in the history log */
+  sourceSession?: string;
+  reason?: string;
+}
+
+/**
+ * Add one rule to the playbook at `targetPath` under its lock. Returns no
+ * bullet when strict validation rejects it.
+ */
+export async function addRule(
+  config: Config,
+  targetPath: string,
+  input: AddRuleInput
+): Promise<{ bullet?: PlaybookBullet; validation?: ValidationResult }> {
+  const sourceSession = input.sourceSession ?? "manual-cli";
+  return withLock(targetPath, async () => {
+    const playbook = await loadPlaybook(targetPath);
+
+    let validation: ValidationResult | undefined;
+    if (input.check) {
+      validation = await validateRule(input.content, input.category, playbook);
+      if (input.strict && hasIssues(validation)) return { validation };
+    }
+
+    const bullet = addBullet(
+      playbook,
+      {
+        content: input.content,
+        category: input.category,
+        scope: input.scope,
+        kind: "workflow_rule",
+        override: input.override,
+        appliesWhen: input.appliesWhen ?? [],
+      },
+      sourceSession,
+      config.scoring.decayHalfLifeDays
+    );
+
+    await savePlaybook(playbook, targetPath, {
+      command: "playbook add",
+      deltas: [{
+        type: "add",
+        bullet: { id: bullet.id, content: input.content, category: input.category, scope: input.scope },
+        reason: input.reason ?? "Added via CLI",
+        sourceSession,
+      }],
+    });
+
+    return { bullet, validation };
+  });
+}
+
+/** Resolve which playbook file holds a bullet: the repo playbook, then team layers, then global. */
+export async function resolveBulletPlaybookPath(config: Config, id: string): Promise<string | null> {
+  const repoDir = await resolveRepoDir();
+  const repoPath = repoDir ? path.join(repoDir, "playbook.yaml") : null;
+  if (repoPath && (await fileExists(repoPath)) && findBullet(await loadPlaybook(repoPath), id)) {
+    return repoPath;
+  }
+  for (const name of await listTeams()) {
+    const teamPath = getTeamPlaybookPath(name);
+    if ((await fileExists(teamPath)) && findBullet(await loadPlaybook(teamPath), id)) return teamPath;
+  }
+  return findBullet(await loadPlaybook(config.playbookPath), id) ? config.playbookPath : null;
+}
+
+async function handleLink(
+  args: string[],
+  flags: { json?: boolean; remove?: boolean; reason?: string },
+  config: Config,
+  command: string,
+  startedAtMs: number
+): Promise<void> {
+  const [from, rawType, to] = args;
+  if (!from || !rawType || !to) {
+    reportError("Source bullet, relation type and target bullet are required", {
+      code: ErrorCode.MISSING_REQUIRED,
+      details: { usage: "cm playbook link <fromId> <type> <toId> [--remove]" },
+      json: flags.json,
+      command,
+      startedAtMs,
+    });
+    return;
+  }
+  const typeCheck = validateOneOf(rawType, "type", BulletRelationTypeEnum.options, { caseInsensitive: true });
+  if (!typeCheck.ok) {
+    reportError(typeCheck.message, {
+      code: ErrorCode.INVALID_INPUT,
+      details: typeCheck.details,
+      hint: `Valid types: ${BulletRelationTypeEnum.options.join(", ")}`,
+      json: flags.json,
+      command,
+      startedAtMs,
+    });
+    return;
+  }
+  const type = typeCheck.value;
+  if (from === to) {
+    reportError("A bullet cannot be related to itself", {
+      code: ErrorCode.INVALID_INPUT,
+      details: { from, to },
+      json: flags.json,
+      command,
+      startedAtMs,
+    });
+    return;
+  }
+
+  const merged = await loadMergedPlaybook(config);
+  const savePath = await resolveBulletPlaybookPath(config, from);
+  const missing = !savePath ? from : !flags.remove && !findBullet(merged, to) ? to : null;
+  if (!savePath || missing) {
+    reportError(`Bullet ${missing} not found`, {
+      code: ErrorCode.BULLET_NOT_FOUND,
+      details: { bulletId: missing },
+      json: flags.json,
+      command,
+      startedAtMs,
+    });
+    return;
+  }
+
+  const changed = await withLock(savePath, async () => {
+    const playbook = await loadPlaybook(savePath);
+    const bullet = findBullet(playbook, from);
+    if (!bullet) return false;
+    const didChange = flags.remove
+      ? removeBulletRelation(bullet, type, to)
+      : addBulletRelation(bullet, { type, target: to, reason: flags.reason }, findBullet(merged, to));
+    if (didChange) {
+      bullet.updatedAt = now();
+      await savePlaybook(playbook, savePath, { command: flags.remove ? "playbook link --remove" : "playbook link" });
+    }
+    return didChange;
+  });
+
+  const outcome = !changed ? "unchanged" : flags.remove ? "removed" : "added";
+  if (flags.json) {
+    printJsonResult(command, { from, type, to, action: outcome, path: savePath }, { startedAtMs });
+    return;
+  }
+  if (!changed) {
+    console.log(chalk.yellow(flags.remove ? `No ${type} relation from ${from} to ${to}` : `${from} already ${type} ${to}`));
+    return;
+  }
+  console.log(chalk.green(`${icon("success")} ${flags.remove ? "Removed" : "Added"}: ${from} ${type} ${to}`));
+}
+
 export async function playbookCommand(
-  action: "list" | "add" | "remove" | "get" | "export" | "import",
+  action: "list" | "add" | "remove" | "get" | "export" | "import" | "log" | "diff" | "revert" | "reconcile" | "graph" | "link",
   args: string[],
   flags: {
     category?: string;
     json?: boolean;
-    format?: "json" | "toon";
+    format?: "json" | "toon" | "text" | "dot";
     stats?: boolean;
     hard?: boolean;
     yes?: boolean;
@@ -353,12 +740,242 @@ export async function playbookCommand(
     check?: boolean;
     strict?: boolean;
     repo?: boolean;
+    limit?: number;
+    force?: boolean;
+    override?: string;
+    team?: string;
+    depth?: number;
+    remove?: boolean;
+    appliesWhen?: string[];
   }
 ) {
   const startedAtMs = Date.now();
   const command = `playbook:${action}`;
   const config = await loadConfig();
 
+  if (action === "log" || action === "diff" || action === "revert") {
+    const targetPath = await resolveHistoryTarget(config, flags.repo);
+    if (!targetPath) {
+      reportError("Not in a git repository. Cannot read repo playbook history.", {
+        code: ErrorCode.CONFIG_INVALID,
+        hint: "Run inside a git repo or omit --repo",
+        json: flags.json,
+        command,
+        startedAtMs,
+      });
+      return;
+    }
+    const target = flags.repo ? "repo" : "global";
+
+    if (action === "log") {
+      const limit = flags.limit;
+      if (limit !== undefined && (!Number.isFinite(limit) || limit <= 0)) {
+        reportError("--limit must be a positive integer", {
+          code: ErrorCode.INVALID_INPUT,
+          details: { limit },
+          json: flags.json,
+          command,
+          startedAtMs,
+        });
+        return;
+      }
+
+      const revisions = await loadRevisions(targetPath);
+      const shown = [...revisions].reverse().slice(0, limit ?? 20);
+
+      if (flags.json) {
+        printJsonResult(command, { target, path: targetPath, total: revisions.length, revisions: shown }, { startedAtMs });
+        return;
+      }
+
+      const cli = getCliName();
+      const maxWidth = Math.min(getOutputStyle().width, 84);
+      console.log(chalk.bold(`PLAYBOOK HISTORY (${target}, ${revisions.length} revisions):`));
+      console.log(chalk.dim(formatRule("─", { maxWidth })));
+      if (shown.length === 0) {
+        console.log(chalk.dim("(No revisions recorded yet)"));
+        return;
+      }
+      for (const r of shown) {
+        const when = r.timestamp.replace("T", " ").slice(0, 19);
+        const counts = `+${r.changes.added.length} ~${r.changes.modified.length} -${r.changes.removed.length}`;
+        const deltas = r.deltas.length > 0 ? chalk.dim(` (${r.deltas.length} deltas)`) : "";
+        console.log(`${chalk.bold(`r${r.rev}`)}  ${chalk.dim(when)}  ${r.command.padEnd(20)} ${counts}${deltas}`);
+      }
+      console.log("");
+      console.log(chalk.gray(`${formatTipPrefix()}Inspect a revision: ${cli} playbook diff <rev>`));
+      return;
+    }
+
+    const rev = parseRevisionArg(args[0]);
+    if (rev === null) {
+      reportError(`Invalid revision: ${args[0] ?? "(missing)"}`, {
+        code: ErrorCode.INVALID_INPUT,
+        hint: `Run '${getCliName()} playbook log' to list revisions`,
+        details: { rev: args[0], usage: `cm playbook ${action} <rev>` },
+        json: flags.json,
+        command,
+        startedAtMs,
+      });
+      return;
+    }
+
+    const revisionDiff = await getRevisionDiff(targetPath, rev);
+    if (!revisionDiff) {
+      reportError(`Revision ${rev} not found in ${target} playbook history`, {
+        code: ErrorCode.INVALID_INPUT,
+        hint: `Run '${getCliName()} playbook log' to list revisions`,
+        details: { rev, path: targetPath },
+        json: flags.json,
+        command,
+        startedAtMs,
+      });
+      return;
+    }
+
+    if (action === "diff") {
+      const { revision, diff } = revisionDiff;
+      if (flags.json) {
+        printJsonResult(command, { target, path: targetPath, revision, diff }, { startedAtMs });
+        return;
+      }
+      console.log(chalk.bold(`r${revision.rev}`) + chalk.dim(` ${revision.timestamp} • ${revision.command}`));
+      const lines = formatDiffLines(diff);
+      if (lines.length === 0) {
+        console.log(chalk.dim("(No bullet changes; metadata only)"));
+      }
+      for (const line of lines) console.log(line);
+      return;
+    }
+
+    // revert
+    await withLock(targetPath, async () => {
+      const current = await loadPlaybook(targetPath);
+      const plan = planRevert(current, revisionDiff, { force: flags.force });
+      const changed = plan.remove.length + plan.reset.length + plan.restore.length;
+
+      if (!flags.dryRun && changed > 0) {
+        applyRevertPlan(current, plan);
+        await savePlaybook(current, targetPath, { command: `playbook revert ${rev}` });
+      }
+
+      const summary = {
+        rev,
+        target,
+        path: targetPath,
+        dryRun: Boolean(flags.dryRun),
+        removed: plan.remove,
+        restored: plan.restore.map(b => b.id),
+        reset: plan.reset.map(b => b.id),
+        conflicts: plan.conflicts,
+      };
+
+      if (flags.json) {
+        printJsonResult(command, summary, {
+          startedAtMs,
+          ...(changed === 0 ? { effect: false, reason: plan.conflicts.length > 0 ? "All changes conflict with later revisions" : "Nothing to revert" } : {}),
+        });
+        return;
+      }
+
+      if (flags.dryRun) console.log(chalk.bold.yellow("DRY RUN - No changes will be made"));
+      const verb = flags.dryRun ? "Would revert" : "Reverted";
+      console.log(chalk.green(`${icon("success")} ${verb} r${rev} (${revisionDiff.revision.command}): ${changed} bullets`));
+      if (plan.remove.length > 0) console.log(chalk.dim(`  Removed: ${plan.remove.join(", ")}`));
+      if (plan.restore.length > 0) console.log(chalk.dim(`  Restored: ${summary.restored.join(", ")}`));
+      if (plan.reset.length > 0) console.log(chalk.dim(`  Reset: ${summary.reset.join(", ")}`));
+      if (plan.conflicts.length > 0) {
+        console.log(chalk.yellow(`  Skipped ${plan.conflicts.length} bullets changed since r${rev} (use --force to revert anyway):`));
+        for (const c of plan.conflicts) console.log(chalk.dim(`    ${c.id}: ${c.reason}`));
+      }
+    });
+    return;
+  }
+
+  if (action === "reconcile") {
+    const otherArg = args[0];
+    if (!otherArg) {
+      reportError("Path to the other playbook is required", {
+        code: ErrorCode.MISSING_REQUIRED,
+        details: { missing: "file", usage: "cm playbook reconcile <other.yaml>" },
+        json: flags.json,
+        command,
+        startedAtMs,
+      });
+      return;
+    }
+    const targetPath = await resolveHistoryTarget(config, flags.repo);
+    if (!targetPath) {
+      reportError("Not in a git repository. Cannot reconcile into repo playbook.", {
+        code: ErrorCode.CONFIG_INVALID,
+        hint: "Run inside a git repo or omit --repo",
+        json: flags.json,
+        command,
+        startedAtMs,
+      });
+      return;
+    }
+
+    const otherPath = expandPath(otherArg);
+    if (!(await fileExists(otherPath))) {
+      reportError(`File not found: ${otherPath}`, {
+        code: ErrorCode.FILE_NOT_FOUND,
+        details: { path: otherPath },
+        json: flags.json,
+        command,
+        startedAtMs,
+      });
+      return;
+    }
+
+    let other: Playbook;
+    try {
+      const parsed = PlaybookSchema.safeParse(yaml.parse(await readFile(otherPath, "utf-8")) ?? {});
+      if (!parsed.success) throw new Error(parsed.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join("; "));
+      other = parsed.data;
+    } catch (err: any) {
+      reportError(`Not a valid playbook: ${err?.message || String(err)}`, {
+        code: ErrorCode.PLAYBOOK_CORRUPT,
+        details: { path: otherPath },
+        json: flags.json,
+        command,
+        startedAtMs,
+      });
+      return;
+    }
+
+    await withLock(targetPath, async () => {
+      const current = await loadPlaybook(targetPath);
+      const { playbook: reconciled, report } = reconcilePlaybooks(current, other, config);
+      const changed = report.added.length + report.updated.length > 0;
+
+      if (changed && !flags.dryRun) {
+        await savePlaybook(reconciled, targetPath, { command: `playbook reconcile ${path.basename(otherPath)}` });
+      }
+
+      if (flags.json) {
+        printJsonResult(
+          command,
+          { target: flags.repo ? "repo" : "global", path: targetPath, other: otherPath, dryRun: Boolean(flags.dryRun), ...report },
+          { startedAtMs, ...(!changed ? { effect: false, reason: "Already in sync" } : {}) }
+        );
+        return;
+      }
+
+      const prefix = flags.dryRun ? "Would reconcile" : "Reconciled";
+      if (!changed) {
+        console.log(chalk.dim(`Already in sync with ${otherPath}; nothing to do.`));
+        return;
+      }
+      console.log(chalk.green(`${icon("success")} ${prefix} ${otherPath}`));
+      console.log(chalk.dim(`  ${report.added.length} added, ${report.updated.length} updated, ${report.eventsAdded} feedback events merged`));
+      if (report.deprecated.length > 0) {
+        console.log(chalk.yellow(`  Deprecated by merged feedback: ${report.deprecated.join(", ")}`));
+      }
+    });
+    return;
+  }
+
   if (action === "export") {
     const progressFormat = flags.json ? "json" : "text";
     const exportProgress = createProgress({
@@ -573,6 +1190,7 @@ export async function playbookCommand(
     let added = 0;
     let skipped = 0;
     let updated = 0;
+    const importDeltas: PlaybookDelta[] = [];
 
     // Merge with existing playbook
     await withLock(targetPath, async () => {
@@ -587,6 +1205,7 @@ export async function playbookCommand(
             const idx = existingPlaybook.bullets.findIndex(b => b.id === bullet.id);
             if (idx >= 0) {
               existingPlaybook.bullets[idx] = bullet;
+              importDeltas.push({ type: "replace", bulletId: bullet.id, newContent: bullet.content, reason: `Imported from ${filePath}` });
               updated++;
             }
           } else {
@@ -594,13 +1213,14 @@ export async function playbookCommand(
           }
         } else {
           existingPlaybook.bullets.push(bullet);
+          importDeltas.push({ type: "add", bullet, reason: `Imported from ${filePath}`, sourceSession: "playbook-import" });
           added++;
         }
         mergeProgress.update(i + 1, "Merging bullets...");
       }
 
       mergeProgress.update(importedBullets.length, "Saving playbook...");
-      await savePlaybook(existingPlaybook, targetPath);
+      await savePlaybook(existingPlaybook, targetPath, { command: "playbook import", deltas: importDeltas });
       mergeProgress.complete(`Import complete (${added} added, ${updated} updated, ${skipped} skipped)`);
 
       if (flags.json) {
@@ -690,6 +1310,16 @@ export async function playbookCommand(
     return;
   }
 
+  if (action === "graph") {
+    await handleGraph(args[0], flags, config, command, startedAtMs);
+    return;
+  }
+
+  if (action === "link") {
+    await handleLink(args, flags, config, command, startedAtMs);
+    return;
+  }
+
   if (action === "list") {
     const formatCheck = validateOneOf(flags.format, "format", ["json", "toon"] as const, {
       allowUndefined: true,
@@ -712,7 +1342,7 @@ export async function playbookCommand(
       ...(formatCheck.value !== undefined ? { format: formatCheck.value } : {}),
     };
 
-    const playbook = await loadMergedPlaybook(config);
+    const { playbook, report: mergeReport } = await loadMergedPlaybookWithReport(config);
     let bullets = getActiveBullets(playbook);
     
     if (flags.category) {
@@ -722,7 +1352,7 @@ export async function playbookCommand(
     const wantsJson = isJsonOutput(normalizedFlags);
     const wantsToon = isToonOutput(normalizedFlags);
     if (wantsJson || wantsToon) {
-      printStructuredResult(command, { bullets }, normalizedFlags, { startedAtMs });
+      printStructuredResult(command, { bullets, mergeReport }, normalizedFlags, { startedAtMs });
     } else {
       const style = getOutputStyle();
       const cli = getCliName();
@@ -758,6 +1388,11 @@ export async function playbookCommand(
         }
       }
 
+      if (mergeReportHasIssues(mergeReport)) {
+        console.log("");
+        console.log(chalk.yellow(formatMergeReportSummary(mergeReport)));
+      }
+
       console.log("");
       console.log(chalk.gray(`${formatTipPrefix()}Use '${cli} playbook get <id>' for full details.`));
     }
@@ -770,7 +1405,11 @@ export async function playbookCommand(
       // Determine target path and scope based on --repo flag
       let batchTargetPath = config.playbookPath;
       const batchScope: "global" | "workspace" = flags.repo ? "workspace" : "global";
-      if (flags.repo) {
+      if (flags.team !== undefined) {
+        const teamPath = await resolveTeamAddTarget(flags, command, startedAtMs);
+        if (!teamPath) return;
+        batchTargetPath = teamPath;
+      } else if (flags.repo) {
         const repoDir = await resolveRepoDir();
         if (!repoDir) {
           reportError("Not in a git repository. Cannot add to repo playbook.", {
@@ -799,10 +1438,12 @@ export async function playbookCommand(
 
       if (flags.json) {
         // Include target info in JSON output
-        const jsonResult = { ...result, target: flags.repo ? "repo" : "global", targetPath: batchTargetPath };
+        const jsonResult = { ...result, target: describeAddTarget(flags), targetPath: batchTargetPath };
         printJsonResult(command, jsonResult, { startedAtMs });
       } else {
-        const targetLabel = flags.repo ? chalk.cyan("(repo playbook)") : chalk.dim("(global playbook)");
+        const targetLabel = flags.team
+          ? chalk.cyan(`(team playbook: ${flags.team})`)
+          : flags.repo ? chalk.cyan("(repo playbook)") : chalk.dim("(global playbook)");
         console.log(chalk.bold(`BATCH ADD RESULTS ${targetLabel}`));
         console.log("");
         if (result.added.length > 0) {
@@ -847,10 +1488,58 @@ export async function playbookCommand(
       return;
     }
 
+    let override: BulletOverride | undefined;
+    if (flags.override !== undefined) {
+      const parsed = parseOverrideArg(flags.override);
+      if (!parsed) {
+        reportError(`Invalid --override: ${flags.override}`, {
+          code: ErrorCode.INVALID_INPUT,
+          details: { override: flags.override },
+          hint: "Use <globalBulletId>:<shadow|suppress|extend>, e.g. --override b-abc123:shadow",
+          json: flags.json,
+          command,
+          startedAtMs,
+        });
+        return;
+      }
+      if (!flags.repo && !flags.team) {
+        reportError("--override only applies to repo or team playbook rules", {
+          code: ErrorCode.INVALID_INPUT,
+          hint: "Add --repo (or --team <name>) to write the overriding rule to a layer above the global playbook",
+          json: flags.json,
+          command,
+          startedAtMs,
+        });
+        return;
+      }
+      override = parsed;
+    }
+
+    const appliesWhen: ApplicabilityPredicate[] = [];
+    for (const raw of flags.appliesWhen ?? []) {
+      const predicate = parseApplicabilityPredicate(raw);
+      if (!predicate) {
+        reportError(`Invalid --applies-when: ${raw}`, {
+          code: ErrorCode.INVALID_INPUT,
+          details: { appliesWhen: raw },
+          hint: "Use file:<path>, dep:<package>, lang:<language>, branch:<glob> or os:<name>, e.g. --applies-when file:bun.lock",
+          json: flags.json,
+          command,
+          startedAtMs,
+        });
+        return;
+      }
+      appliesWhen.push(predicate);
+    }
+
     // Determine target path and scope based on --repo flag
     let targetPath = config.playbookPath;
     const scope: "global" | "workspace" = flags.repo ? "workspace" : "global";
-    if (flags.repo) {
+    if (flags.team !== undefined) {
+      const teamPath = await resolveTeamAddTarget(flags, command, startedAtMs);
+      if (!teamPath) return;
+      targetPath = teamPath;
+    } else if (flags.repo) {
       const repoDir = await resolveRepoDir();
       if (!repoDir) {
         reportError("Not in a git repository. Cannot add to repo playbook.", {
@@ -869,68 +1558,54 @@ export async function playbookCommand(
       }
     }
 
-    await withLock(targetPath, async () => {
-      const { loadPlaybook } = await import("../playbook.js");
-      const playbook = await loadPlaybook(targetPath);
-      const category = flags.category || "general";
-
-      // Validate if --check flag is set
-      let validation: ValidationResult | undefined;
-      if (flags.check) {
-        validation = await validateRule(content, category, playbook);
+    const category = flags.category || "general";
+    const { bullet, validation } = await addRule(config, targetPath, {
+      content,
+      category,
+      scope,
+      override,
+      appliesWhen,
+      check: flags.check,
+      strict: flags.strict,
+    });
 
-        // In strict mode, fail on warnings
-        if (flags.strict && hasIssues(validation)) {
-          reportError("Validation failed in strict mode", {
-            code: ErrorCode.VALIDATION_FAILED,
-            details: { validation },
-            recovery: ["Fix the issues reported below and re-run.", "Or omit --strict to add anyway."],
-            json: flags.json,
-            command,
-            startedAtMs,
-          });
-          if (!flags.json) {
-            console.log(chalk.red("Validation failed (--strict mode):"));
-            console.log(formatValidationResult(validation));
-          }
-          return;
-        }
+    if (!bullet) {
+      reportError("Validation failed in strict mode", {
+        code: ErrorCode.VALIDATION_FAILED,
+        details: { validation },
+        recovery: ["Fix the issues reported below and re-run.", "Or omit --strict to add anyway."],
+        json: flags.json,
+        command,
+        startedAtMs,
+      });
+      if (!flags.json) {
+        console.log(chalk.red("Validation failed (--strict mode):"));
+        console.log(formatValidationResult(validation!));
       }
+      return;
+    }
 
-      const bullet = addBullet(
-        playbook,
-        {
-          content,
-          category,
-          scope,
-          kind: "workflow_rule",
-        },
-        "manual-cli",
-        config.scoring.decayHalfLifeDays
-      );
-
-      await savePlaybook(playbook, targetPath);
-
-      // Track session for provenance if --session was provided
-      if (flags.session) {
-        const { markSessionProcessed } = await import("../onboard-state.js");
-        await markSessionProcessed(flags.session, 1);
-      }
+    // Track session for provenance if --session was provided
+    if (flags.session) {
+      const { markSessionProcessed } = await import("../onboard-state.js");
+      await markSessionProcessed(flags.session, 1);
+    }
 
-      if (flags.json) {
-        const result: Record<string, unknown> = { bullet, target: flags.repo ? "repo" : "global", targetPath };
-        if (validation) result.validation = validation;
-        printJsonResult(command, result, { startedAtMs });
-      } else {
-        if (validation) {
-          console.log(chalk.bold("Validation:"));
-          console.log(formatValidationResult(validation));
-          console.log("");
-        }
-        const targetLabel = flags.repo ? chalk.cyan(" to repo playbook") : "";
-        console.log(chalk.green(`${icon("success")} Added bullet ${bullet.id}${targetLabel}`));
+    if (flags.json) {
+      const result: Record<string, unknown> = { bullet, target: describeAddTarget(flags), targetPath };
+      if (validation) result.validation = validation;
+      printJsonResult(command, result, { startedAtMs });
+    } else {
+      if (validation) {
+        console.log(chalk.bold("Validation:"));
+        console.log(formatValidationResult(validation));
+        console.log("");
       }
-    });
+      const targetLabel = flags.team
+        ? chalk.cyan(` to team playbook ${flags.team}`)
+        : flags.repo ? chalk.cyan(" to repo playbook") : "";
+      console.log(chalk.green(`${icon("success")} Added bullet ${bullet.id}${targetLabel}`));
+    }
     return;
   }
 
@@ -1082,7 +1757,7 @@ export async function playbookCommand(
         if (flags.hard) {
           const bulletPreview = truncate(bullet.content.trim().replace(/\s+/g, " "), 100);
           playbook.bullets = playbook.bullets.filter(b => b.id !== id);
-          await savePlaybook(playbook, savePath);
+          await savePlaybook(playbook, savePath, { command: "playbook remove --hard" });
 
           if (flags.json) {
             printJsonResult(command, { id, action: "deleted", path: savePath, preview: bulletPreview }, { startedAtMs });
@@ -1096,7 +1771,10 @@ export async function playbookCommand(
           deprecateBullet(playbook, id, flags.reason || "Removed via CLI");
         }
 
-        await savePlaybook(playbook, savePath);
+        await savePlaybook(playbook, savePath, {
+          command: "playbook remove",
+          deltas: [{ type: "deprecate", bulletId: id, reason: flags.reason || "Removed via CLI" }],
+        });
 
         if (flags.json) {
           printJsonResult(command, { id, action: flags.hard ? "deleted" : "deprecated" }, { startedAtMs });
@@ -14,10 +14,13 @@ import {
   validateNonEmptyString,
   validateOneOf,
   validatePositiveInt,
+  expandPath,
 } from "../utils.js";
 import { ErrorCode } from "../types.js";
 import chalk from "chalk";
-import { icon } from "../output.js";
+import path from "node:path";
+import { formatKv, icon } from "../output.js";
+import { profileWorkspace } from "../workspace-profile.js";
 
 export async function projectCommand(
   flags: { output?: string; force?: boolean; format?: string; perCategory?: number; top?: number; showCounts?: boolean; json?: boolean }
@@ -170,3 +173,61 @@ export async function projectCommand(
     });
   }
 }
+
+/**
+ * `cm project profile`: the languages, frameworks and package managers
+ * detected for a workspace, as used for language/framework rule scopes.
+ */
+export async function projectProfileCommand(flags: { workspace?: string; json?: boolean }) {
+  const startedAtMs = Date.now();
+  const command = "project:profile";
+  const workspace = path.resolve(expandPath(flags.workspace ?? process.cwd()));
+
+  if (!(await fileExists(workspace))) {
+    reportError(`Workspace not found: ${workspace}`, {
+      code: ErrorCode.FILE_NOT_FOUND,
+      details: { workspace },
+      json: flags.json,
+      command,
+      startedAtMs,
+    });
+    return;
+  }
+
+  try {
+    const profile = await profileWorkspace(workspace);
+
+    if (flags.json) {
+      printJsonResult(command, profile, { startedAtMs });
+      return;
+    }
+
+    const languages = profile.languages.map((l) => `${l.name} (${l.files} files; ${l.evidence.join(", ")})`);
+    const frameworks = profile.frameworks.map((f) => `${f.name} (${f.evidence})`);
+    const extensions = Object.entries(profile.extensions)
+      .sort((a, b) => b[1] - a[1])
+      .map(([ext, count]) => `${ext} ${count}`);
+
+    console.log(chalk.bold(`WORKSPACE PROFILE: ${profile.root}`));
+    console.log(
+      formatKv(
+        [
+          { key: "Languages", value: languages.join(", ") || "none detected" },
+          { key: "Frameworks", value: frameworks.join(", ") || "none detected" },
+          { key: "Package managers", value: profile.packageManagers.join(", ") || "none" },
+          { key: "Manifests", value: profile.manifests.join(", ") || "none" },
+          { key: "Extensions", value: extensions.join(", ") || "none" },
+          { key: "Files scanned", value: `${profile.filesScanned}${profile.truncated ? " (limit reached)" : ""}` },
+        ],
+        { indent: "  " }
+      )
+    );
+  } catch (err: any) {
+    reportError(err instanceof Error ? err : String(err), {
+      code: ErrorCode.INTERNAL_ERROR,
+      json: flags.json,
+      command,
+      startedAtMs,
+    });
+  }
+}
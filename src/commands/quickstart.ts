@@ -84,7 +84,7 @@ These are parsed automatically during reflection.
 ## Protocol
 
 1. **START**: \`${cli} context "<task>" --json\` before non-trivial work
-2. **WORK**: Reference rule IDs when following them
+2. **WORK**: Cite rules you act on: \`[cm:<id> applied]\`, or \`[cm:<id> ignored: reason]\` when you deliberately skip one
 3. **FEEDBACK**: Leave inline comments when rules help/hurt
 4. **END**: Just finish. Learning happens automatically once reflection is scheduled.
 
@@ -155,9 +155,13 @@ function getQuickstartJson(cli: string) {
       helpful: "// [cass: helpful <id>] - reason",
       harmful: "// [cass: harmful <id>] - reason"
     },
+    ruleCitationFormat: {
+      applied: "[cm:<id> applied]",
+      ignored: "[cm:<id> ignored: reason]"
+    },
     protocol: {
       start: `${cli} context "<task>" --json`,
-      work: "Reference rule IDs when following them",
+      work: "Cite rules you act on: [cm:<id> applied], or [cm:<id> ignored: reason] when you deliberately skip one",
       feedback: "Leave inline comments when rules help/hurt",
       end: "Just finish. Learning happens automatically once reflection is scheduled."
     },
@@ -1,6 +1,7 @@
 import { loadConfig, isBudgetBakedInConfig, bakeBudgetIntoConfig } from "../config.js";
 import { orchestrateReflection } from "../orchestrator.js";
 import { getUsageStats, formatCostSummary } from "../cost.js";
+import { estimateReflection, REFLECTION_STAGES, type ReflectionEstimate } from "../reflect-estimate.js";
 import chalk from "chalk";
 import {
   getCliName,
@@ -34,7 +35,7 @@ function summarizeDeltas(deltas: PlaybookDelta[]): Record<DeltaType, number> {
   return counts;
 }
 
-function formatDeltaLine(delta: PlaybookDelta): string {
+export function formatDeltaLine(delta: PlaybookDelta): string {
   switch (delta.type) {
     case "add":
       return `ADD  [${delta.bullet.category}] ${delta.bullet.content}`;
@@ -51,6 +52,86 @@ function formatDeltaLine(delta: PlaybookDelta): string {
   }
 }
 
+function formatUsd(amount: number): string {
+  return `$${amount.toFixed(4)}`;
+}
+
+function printReflectionEstimate(
+  estimate: ReflectionEstimate,
+  options: { session?: string; maxWidth: number; divider: string }
+): void {
+  const cli = getCliName();
+  const { maxWidth, divider } = options;
+
+  console.log(chalk.bold("REFLECT ESTIMATE"));
+  console.log(divider);
+  console.log(
+    formatKv(
+      [
+        { key: "Sessions planned", value: String(estimate.planned.length) },
+        ...(estimate.trimmed.length > 0 ? [{ key: "Trimmed (budget)", value: String(estimate.trimmed.length) }] : []),
+        ...(estimate.skipped.length > 0 ? [{ key: "Skipped", value: String(estimate.skipped.length) }] : []),
+      ],
+      { indent: "  ", width: maxWidth }
+    )
+  );
+
+  if (estimate.planned.length + estimate.trimmed.length + estimate.skipped.length === 0) {
+    console.log(chalk.green("\nNo new sessions to reflect on."));
+    return;
+  }
+
+  console.log("");
+  console.log(chalk.bold("By stage:"));
+  console.log(
+    formatKv(
+      [
+        ...REFLECTION_STAGES.map((stage) => {
+          const s = estimate.stages[stage];
+          return {
+            key: stage,
+            value: `${formatUsd(s.cost)}  (${s.model}, ${s.calls} call(s), ${s.tokensIn.toLocaleString()} in / ${s.tokensOut.toLocaleString()} out)`,
+          };
+        }),
+        { key: "total", value: formatUsd(estimate.totalCost) },
+        ...(estimate.trimmed.length > 0 ? [{ key: "within budget", value: formatUsd(estimate.plannedCost) }] : []),
+      ],
+      { indent: "  ", width: maxWidth }
+    )
+  );
+
+  if (estimate.unpricedModels.length > 0) {
+    console.log(chalk.dim(`  Not in the cost table, priced at default rates: ${estimate.unpricedModels.join(", ")}`));
+  }
+
+  const { budget } = estimate;
+  console.log("");
+  console.log(chalk.bold("Budget:"));
+  console.log(
+    formatKv(
+      [
+        { key: "Today", value: `$${budget.today.toFixed(2)}${budget.dailyLimit > 0 ? ` / $${budget.dailyLimit.toFixed(2)}` : " (no daily limit)"}` },
+        { key: "This month", value: `$${budget.month.toFixed(2)}${budget.monthlyLimit > 0 ? ` / $${budget.monthlyLimit.toFixed(2)}` : " (no monthly limit)"}` },
+        { key: "Remaining", value: budget.remaining === null ? "unlimited" : formatUsd(budget.remaining) },
+      ],
+      { indent: "  ", width: maxWidth }
+    )
+  );
+
+  for (const s of estimate.skipped) {
+    console.log(chalk.dim(`• skipped ${s.sessionPath} (${s.reason})`));
+  }
+  if (estimate.trimmed.length > 0) {
+    console.log("");
+    console.log(chalk.yellow(`${iconPrefix("warning")}Over budget: ${estimate.trimmed.length} session(s) trimmed from the batch:`));
+    for (const s of estimate.trimmed) console.log(chalk.yellow(`- ${s.sessionPath} (${formatUsd(s.cost)})`));
+    if (estimate.planned.length > 0 && !options.session) {
+      console.log(chalk.gray(`\nRun '${cli} reflect --max-sessions ${estimate.planned.length}' to reflect on the sessions that fit.`));
+    }
+  }
+  console.log(chalk.gray("\nEstimates assume a typical diary, three validated rules per session and every reflector iteration."));
+}
+
 // Internal exports for unit tests (kept small to avoid expanding public API surface).
 export const __test = {
   summarizeDeltas,
@@ -64,6 +145,7 @@ export async function reflectCommand(
     agent?: string;
     workspace?: string;
     dryRun?: boolean;
+    estimate?: boolean;
     json?: boolean;
     llm?: boolean; // Ignored, always uses LLM if validation enabled
     session?: string;
@@ -172,6 +254,53 @@ export async function reflectCommand(
   const maxWidth = Math.min(getOutputStyle().width, 84);
   const divider = chalk.dim(formatRule("─", { maxWidth }));
 
+  // Plan the batch before any LLM call: a run never starts once the budget is
+  // spent, and sessions past the remaining budget are left for a later run.
+  let estimate: ReflectionEstimate;
+  const exports = new Map<string, string>();
+  try {
+    estimate = await estimateReflection(config, normalizedOptions, exports);
+  } catch (err: any) {
+    reportError(`Session discovery failed: ${err?.message ?? err}`, {
+      code: ErrorCode.CASS_SEARCH_FAILED,
+      json: normalizedOptions.json,
+      command,
+      startedAtMs,
+    });
+    return;
+  }
+
+  if (normalizedOptions.estimate && !normalizedOptions.json) {
+    printReflectionEstimate(estimate, { session: normalizedOptions.session, maxWidth, divider });
+  }
+  if (!estimate.allowed) {
+    reportError(estimate.reason ?? "Reflection would exceed the LLM budget", {
+      code: ErrorCode.LLM_BUDGET_EXCEEDED,
+      details: normalizedOptions.json ? { estimate } : undefined,
+      hint: normalizedOptions.estimate
+        ? "Raise budget.dailyLimit / budget.monthlyLimit in your config, or wait for the budget to reset"
+        : `Run '${cli} reflect --estimate' for the breakdown; raise budget.dailyLimit / budget.monthlyLimit or wait for the budget to reset`,
+      json: normalizedOptions.json,
+      command,
+      startedAtMs,
+    });
+    return;
+  }
+  if (normalizedOptions.estimate) {
+    if (normalizedOptions.json) {
+      printJsonResult(command, { estimate }, { startedAtMs });
+    }
+    return;
+  }
+
+  const trimmed = estimate.trimmed.map((s) => s.sessionPath);
+  if (trimmed.length > 0) {
+    warn(
+      `Over budget: reflecting on ${estimate.planned.length} of ${estimate.planned.length + trimmed.length} session(s); ` +
+        `${trimmed.length} left for a later run (see '${cli} reflect --estimate')`
+    );
+  }
+
   if (!normalizedOptions.json) {
     console.log(chalk.bold("REFLECT"));
     console.log(divider);
@@ -189,6 +318,9 @@ export async function reflectCommand(
     agent: normalizedOptions.agent,
     workspace: normalizedOptions.workspace,
     session: normalizedOptions.session,
+    // Skipped sessions are passed on so reflection still marks them processed (without an LLM call)
+    sessions: [...estimate.planned, ...estimate.skipped].map((s) => s.sessionPath),
+    exports,
     dryRun: normalizedOptions.dryRun,
     onProgress: (event) => {
       if (normalizedOptions.json) {
@@ -343,8 +475,11 @@ export async function reflectCommand(
       {
         global: result.globalResult,
         repo: result.repoResult,
+        ...(result.teamResults ? { teams: Object.fromEntries(result.teamResults.map((t) => [t.name, t.result])) } : {}),
         errors: result.errors,
         autoOutcome: result.autoOutcome,
+        ...(result.review ? { review: result.review } : {}),
+        ...(trimmed.length > 0 ? { trimmed } : {}),
       },
       { startedAtMs }
     );
@@ -367,6 +502,21 @@ export async function reflectCommand(
     );
     console.log("");
 
+    if (result.review) {
+      console.log(chalk.bold(`Queued for review:`));
+      console.log(
+        formatKv(
+          [
+            { key: "Queued", value: String(result.review.queued) },
+            ...(result.review.duplicates > 0 ? [{ key: "Already queued", value: String(result.review.duplicates) }] : []),
+          ],
+          { indent: "  ", width: maxWidth }
+        )
+      );
+      if (result.review.queued > 0) console.log(chalk.gray(`  Run '${cli} review list' to approve or reject them.`));
+      console.log("");
+    }
+
     if (result.globalResult) {
       console.log(chalk.bold(`Global Updates:`));
       console.log(
@@ -401,6 +551,20 @@ export async function reflectCommand(
       }
     }
 
+    for (const team of result.teamResults ?? []) {
+      console.log(chalk.bold(`Team '${team.name}' Updates:`));
+      console.log(
+        formatKv(
+          [
+            { key: "Applied", value: String(team.result.applied) },
+            { key: "Skipped", value: String(team.result.skipped) },
+            { key: "Inversions", value: String(team.result.inversions.length) },
+          ],
+          { indent: "  ", width: maxWidth }
+        )
+      );
+    }
+
     if (result.autoOutcome) {
       const ao = result.autoOutcome;
       console.log("");
@@ -0,0 +1,227 @@
+import chalk from "chalk";
+import { loadConfig } from "../config.js";
+import {
+  approveReviewItems,
+  editReviewItem,
+  getReviewItem,
+  listReviewItems,
+  rejectReviewItems,
+  type ReviewDecision,
+  type ReviewStatus,
+} from "../review.js";
+import { ErrorCode, type ReviewItem } from "../types.js";
+import { getCliName, printJsonResult, reportError, validateNonEmptyString, validateOneOf } from "../utils.js";
+import { formatKv, getOutputStyle, icon, wrapText } from "../output.js";
+import { formatDeltaLine } from "./reflect.js";
+
+export type ReviewAction = "list" | "show" | "approve" | "reject" | "edit";
+
+export interface ReviewFlags {
+  status?: string;
+  all?: boolean;
+  reason?: string;
+  content?: string;
+  category?: string;
+  json?: boolean;
+}
+
+function formatEvidence(item: ReviewItem): string | undefined {
+  const parts: string[] = [];
+  if (item.validation) {
+    parts.push(`validator ${item.validation.verdict} (${Math.round(item.validation.confidence * 100)}%)`);
+  }
+  if (item.evidenceGate) {
+    const g = item.evidenceGate;
+    parts.push(`gate ${g.passed ? "passed" : "failed"}: ${g.sessionCount} sessions, ${g.successCount} success, ${g.failureCount} failure`);
+  }
+  return parts.length > 0 ? parts.join("; ") : undefined;
+}
+
+function printItemLine(item: ReviewItem, width: number): void {
+  const status = item.status === "pending" ? "" : chalk.dim(` [${item.status}]`);
+  const [first, ...rest] = wrapText(formatDeltaLine(item.delta), Math.max(24, width - 14));
+  console.log(`${chalk.bold(item.id)}${status}  ${first ?? ""}`);
+  for (const line of rest) console.log(`              ${line}`);
+  const evidence = formatEvidence(item);
+  if (evidence) console.log(chalk.dim(`              ${evidence}`));
+}
+
+function printItem(item: ReviewItem, width: number): void {
+  console.log(chalk.bold(`REVIEW ITEM ${item.id}`));
+  console.log(
+    formatKv(
+      [
+        { key: "Status", value: item.status },
+        { key: "Change", value: formatDeltaLine(item.delta) },
+        ...("reason" in item.delta && item.delta.reason ? [{ key: "Reason", value: item.delta.reason }] : []),
+        ...(item.sourceSession ? [{ key: "Session", value: item.sourceSession }] : []),
+        ...(item.diaryId ? [{ key: "Diary", value: item.diaryId }] : []),
+        ...(item.validation
+          ? [{ key: "Validator", value: `${item.validation.verdict} (${Math.round(item.validation.confidence * 100)}%) — ${item.validation.reason}` }]
+          : []),
+        ...(item.evidenceGate
+          ? [{ key: "Evidence gate", value: `${item.evidenceGate.passed ? "passed" : "failed"} — ${item.evidenceGate.reason}` }]
+          : []),
+        { key: "Proposed", value: item.proposedAt },
+        ...(item.editedAt ? [{ key: "Edited", value: item.editedAt }] : []),
+        ...(item.decidedAt ? [{ key: "Decided", value: `${item.decidedAt}${item.decisionReason ? ` — ${item.decisionReason}` : ""}` }] : []),
+      ],
+      { indent: "  ", width }
+    )
+  );
+}
+
+function printDecisionProblems(decision: ReviewDecision): void {
+  if (decision.notFound.length > 0) console.log(chalk.yellow(`Not found: ${decision.notFound.join(", ")}`));
+  if (decision.notPending.length > 0) console.log(chalk.yellow(`Already decided: ${decision.notPending.join(", ")}`));
+}
+
+export async function reviewCommand(action: ReviewAction, ids: string[] = [], flags: ReviewFlags = {}): Promise<void> {
+  const startedAtMs = Date.now();
+  const command = `review:${action}`;
+  const cli = getCliName();
+  const width = Math.min(getOutputStyle().width, 100);
+
+  const fail = (message: string, code: string, hint?: string, details?: Record<string, unknown>) =>
+    reportError(message, { code, hint, details, json: flags.json, command, startedAtMs });
+
+  try {
+    switch (action) {
+      case "list": {
+        const statusCheck = validateOneOf(flags.status, "status", ["pending", "approved", "rejected", "all"] as const, {
+          allowUndefined: true,
+          caseInsensitive: true,
+        });
+        if (!statusCheck.ok) {
+          fail(statusCheck.message, ErrorCode.INVALID_INPUT, `Example: ${cli} review list --status all`, statusCheck.details);
+          return;
+        }
+        const status: ReviewStatus | "all" = statusCheck.value ?? "pending";
+        const items = await listReviewItems(status);
+        if (flags.json) {
+          printJsonResult(command, { status, count: items.length, items }, { startedAtMs });
+          return;
+        }
+        if (items.length === 0) {
+          console.log(status === "pending" ? chalk.green("Review queue is empty.") : `No ${status} review items.`);
+          return;
+        }
+        console.log(chalk.bold(`REVIEW QUEUE (${items.length} ${status})`));
+        console.log("");
+        for (const item of items) printItemLine(item, width);
+        if (status === "pending") {
+          console.log(chalk.gray(`\n${cli} review approve <id...> | reject <id...> --reason "..." | edit <id> --content "..."`));
+        }
+        return;
+      }
+
+      case "show": {
+        const item = await getReviewItem(ids[0] ?? "");
+        if (!item) {
+          fail(`Review item not found: ${ids[0]}`, ErrorCode.REVIEW_ITEM_NOT_FOUND, undefined, { id: ids[0] });
+          return;
+        }
+        if (flags.json) printJsonResult(command, item, { startedAtMs });
+        else printItem(item, width);
+        return;
+      }
+
+      case "approve": {
+        if (ids.length === 0 && !flags.all) {
+          fail("Give one or more review item ids, or --all", ErrorCode.MISSING_REQUIRED, `Example: ${cli} review approve r-1a2b3c4d5e`);
+          return;
+        }
+        const config = await loadConfig();
+        const result = await approveReviewItems(flags.all ? "all" : ids, config, flags.reason);
+        if (result.items.length === 0 && result.notFound.length > 0) {
+          fail(`Review item not found: ${result.notFound.join(", ")}`, ErrorCode.REVIEW_ITEM_NOT_FOUND, undefined, { ids: result.notFound });
+          return;
+        }
+        if (flags.json) {
+          printJsonResult(command, { ...result, approved: result.items.map((i) => i.id) }, {
+            startedAtMs,
+            ...(result.items.length === 0 ? { effect: false, reason: "No pending items to approve" } : {}),
+          });
+          return;
+        }
+        if (result.items.length === 0) {
+          console.log("No pending items to approve.");
+        } else {
+          console.log(chalk.green(`${icon("success")} Approved ${result.items.length} item(s): ${result.applied} applied, ${result.skipped} skipped by curation`));
+        }
+        printDecisionProblems(result);
+        return;
+      }
+
+      case "reject": {
+        if (ids.length === 0) {
+          fail("Give one or more review item ids", ErrorCode.MISSING_REQUIRED, `Example: ${cli} review reject r-1a2b3c4d5e --reason "too specific"`);
+          return;
+        }
+        const reasonCheck = validateNonEmptyString(flags.reason, "reason", { allowUndefined: true, trim: true });
+        if (!reasonCheck.ok) {
+          fail(reasonCheck.message, ErrorCode.INVALID_INPUT, undefined, reasonCheck.details);
+          return;
+        }
+        const result = await rejectReviewItems(ids, reasonCheck.value ?? "Rejected in review");
+        if (result.items.length === 0 && result.notFound.length > 0) {
+          fail(`Review item not found: ${result.notFound.join(", ")}`, ErrorCode.REVIEW_ITEM_NOT_FOUND, undefined, { ids: result.notFound });
+          return;
+        }
+        if (flags.json) {
+          printJsonResult(command, { ...result, rejected: result.items.map((i) => i.id) }, {
+            startedAtMs,
+            ...(result.items.length === 0 ? { effect: false, reason: "No pending items to reject" } : {}),
+          });
+          return;
+        }
+        if (result.items.length > 0) {
+          console.log(chalk.green(`${icon("success")} Rejected ${result.items.length} item(s); reflection will not propose them again`));
+        } else {
+          console.log("No pending items to reject.");
+        }
+        printDecisionProblems(result);
+        return;
+      }
+
+      case "edit": {
+        const id = ids[0] ?? "";
+        const content = validateNonEmptyString(flags.content, "content", { allowUndefined: true, trim: true });
+        const category = validateNonEmptyString(flags.category, "category", { allowUndefined: true, trim: true });
+        if (!content.ok || !category.ok || (content.value === undefined && category.value === undefined)) {
+          const message = !content.ok ? content.message : !category.ok ? category.message : "Nothing to edit: pass --content and/or --category";
+          fail(message, ErrorCode.INVALID_INPUT, `Example: ${cli} review edit ${id || "r-1a2b3c4d5e"} --content "Run migrations before seeding"`);
+          return;
+        }
+        const result = await editReviewItem(id, { content: content.value, category: category.value });
+        if (result.error === "not_found") {
+          fail(`Review item not found: ${id}`, ErrorCode.REVIEW_ITEM_NOT_FOUND, undefined, { id });
+          return;
+        }
+        if (result.error === "not_pending") {
+          fail(`Review item ${id} was already decided`, ErrorCode.INVALID_INPUT, undefined, { id });
+          return;
+        }
+        if (result.error === "not_editable") {
+          fail(
+            `Review item ${id} has nothing to edit: only new rules take --category, and helpful/harmful/deprecate changes have no content`,
+            ErrorCode.INVALID_INPUT,
+            undefined,
+            { id }
+          );
+          return;
+        }
+        if (flags.json) printJsonResult(command, result.item, { startedAtMs });
+        else console.log(chalk.green(`${icon("success")} Updated ${id}: ${formatDeltaLine(result.item!.delta)}`));
+        return;
+      }
+    }
+  } catch (err: any) {
+    reportError(err instanceof Error ? err : String(err), {
+      code: ErrorCode.INTERNAL_ERROR,
+      json: flags.json,
+      command,
+      startedAtMs,
+    });
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * scoring command - Inspect the pluggable scoring strategies
+ *
+ * `scoring compare` ranks the active playbook under every registered
+ * strategy so the effect of switching `scoring.strategy` is visible
+ * before committing to it.
+ */
+import chalk from "chalk";
+import { loadConfig } from "../config.js";
+import { loadMergedPlaybook, getActiveBullets } from "../playbook.js";
+import {
+  getEffectiveScore,
+  listScoringStrategies,
+  resolveScoringStrategy,
+} from "../scoring.js";
+import { ErrorCode, type Config, type PlaybookBullet } from "../types.js";
+import { getCliName, printJsonResult, reportError, truncate, validatePositiveInt } from "../utils.js";
+import { formatRule, getOutputStyle } from "../output.js";
+
+export interface ScoringFlags {
+  limit?: number;
+  json?: boolean;
+}
+
+interface StrategyPlacement {
+  score: number;
+  rank: number;
+}
+
+interface ComparisonRow {
+  id: string;
+  content: string;
+  helpful: number;
+  harmful: number;
+  strategies: Record<string, StrategyPlacement>;
+}
+
+export interface ScoringComparison {
+  configured: string;
+  strategies: Array<{
+    name: string;
+    description: string;
+    /** Spearman rank correlation with the configured strategy (1 = same order). */
+    agreement: number | null;
+  }>;
+  bullets: ComparisonRow[];
+}
+
+/** Rank of each bullet id under one strategy (1 = best, ties broken by id). */
+function rankBy(scores: Array<{ id: string; score: number }>): Map<string, number> {
+  const ordered = [...scores].sort((a, b) => b.score - a.score || a.id.localeCompare(b.id));
+  return new Map(ordered.map((s, i) => [s.id, i + 1]));
+}
+
+function spearman(a: Map<string, number>, b: Map<string, number>): number | null {
+  const n = a.size;
+  if (n < 2) return null;
+  let sumSq = 0;
+  for (const [id, rankA] of a) {
+    const d = rankA - (b.get(id) ?? rankA);
+    sumSq += d * d;
+  }
+  return Number((1 - (6 * sumSq) / (n * (n * n - 1))).toFixed(3));
+}
+
+export function compareScoringStrategies(
+  bullets: PlaybookBullet[],
+  config: Config
+): ScoringComparison {
+  const configured = resolveScoringStrategy(config);
+  const strategies = listScoringStrategies();
+
+  const ranks = new Map<string, Map<string, number>>();
+  const scores = new Map<string, Map<string, number>>();
+  for (const strategy of strategies) {
+    const scored = bullets.map((b) => ({ id: b.id, score: getEffectiveScore(b, config, strategy) }));
+    scores.set(strategy.name, new Map(scored.map((s) => [s.id, s.score])));
+    ranks.set(strategy.name, rankBy(scored));
+  }
+
+  const configuredRanks = ranks.get(configured.name)!;
+  const rows: ComparisonRow[] = bullets.map((b) => ({
+    id: b.id,
+    content: b.content,
+    helpful: b.helpfulCount || 0,
+    harmful: b.harmfulCount || 0,
+    strategies: Object.fromEntries(
+      strategies.map((s) => [
+        s.name,
+        {
+          score: Number(scores.get(s.name)!.get(b.id)!.toFixed(2)),
+          rank: ranks.get(s.name)!.get(b.id)!,
+        },
+      ])
+    ),
+  }));
+  rows.sort((x, y) => configuredRanks.get(x.id)! - configuredRanks.get(y.id)!);
+
+  return {
+    configured: configured.name,
+    strategies: strategies.map((s) => ({
+      name: s.name,
+      description: s.description,
+      agreement: spearman(configuredRanks, ranks.get(s.name)!),
+    })),
+    bullets: rows,
+  };
+}
+
+export async function scoringCommand(
+  action: string | undefined,
+  flags: ScoringFlags = {}
+): Promise<void> {
+  const startedAtMs = Date.now();
+  const command = action ? `scoring ${action}` : "scoring";
+  const cli = getCliName();
+
+  if (action !== "compare") {
+    reportError(`Unknown scoring subcommand: ${action ?? "(none)"}`, {
+      code: ErrorCode.INVALID_INPUT,
+      hint: `Usage: ${cli} scoring compare [--limit <n>] [--json]`,
+      details: { action },
+      json: flags.json,
+      command,
+      startedAtMs,
+    });
+    return;
+  }
+
+  const limitCheck = validatePositiveInt(flags.limit, "limit", { min: 1, allowUndefined: true });
+  if (!limitCheck.ok) {
+    reportError(limitCheck.message, {
+      code: ErrorCode.INVALID_INPUT,
+      details: limitCheck.details,
+      hint: `Example: ${cli} scoring compare --limit 20 --json`,
+      json: flags.json,
+      command,
+      startedAtMs,
+    });
+    return;
+  }
+
+  const config = await loadConfig();
+  const playbook = await loadMergedPlaybook(config);
+  const comparison = compareScoringStrategies(getActiveBullets(playbook), config);
+  const limit = limitCheck.value ?? 20;
+  const shown = { ...comparison, bullets: comparison.bullets.slice(0, limit) };
+
+  if (flags.json) {
+    printJsonResult(command, { ...shown, total: comparison.bullets.length }, { startedAtMs });
+    return;
+  }
+
+  printComparison(shown, comparison.bullets.length);
+}
+
+function printComparison(comparison: ScoringComparison, total: number): void {
+  const style = getOutputStyle();
+  const maxWidth = Math.min(style.width, 100);
+  const divider = chalk.dim(formatRule("─", { maxWidth }));
+  const names = comparison.strategies.map((s) => s.name);
+
+  console.log(chalk.bold("SCORING STRATEGIES"));
+  console.log(divider);
+  for (const s of comparison.strategies) {
+    const marker = s.name === comparison.configured ? chalk.green("*") : " ";
+    const agreement = s.agreement === null ? "" : chalk.dim(` • agreement ${s.agreement.toFixed(2)}`);
+    console.log(`${marker} ${chalk.bold(s.name)}${agreement}`);
+    console.log(chalk.dim(`    ${s.description}`));
+  }
+  console.log("");
+
+  if (comparison.bullets.length === 0) {
+    console.log(chalk.yellow("No active bullets to compare."));
+    return;
+  }
+
+  console.log(chalk.bold(`RANKINGS (by ${comparison.configured}; score #rank)`));
+  console.log(divider);
+  const cellWidth = 16;
+  const idWidth = Math.max(14, ...comparison.bullets.map((row) => row.id.length));
+  console.log(chalk.dim(["id".padEnd(idWidth), ...names.map((n) => n.padEnd(cellWidth))].join(" ")));
+  for (const row of comparison.bullets) {
+    const cells = names.map((n) => {
+      const p = row.strategies[n];
+      return `${p.score.toFixed(1)} #${p.rank}`.padEnd(cellWidth);
+    });
+    console.log([row.id.padEnd(idWidth), ...cells].join(" "));
+    console.log(chalk.gray(`  ${truncate(row.content.replace(/\s+/g, " "), maxWidth - 4)}`));
+  }
+
+  if (total > comparison.bullets.length) {
+    console.log(chalk.dim(`\n… ${total - comparison.bullets.length} more (use --limit)`));
+  }
+}
@@ -1,13 +1,39 @@
 import http from "node:http";
-import { createHash, timingSafeEqual } from "node:crypto";
+import readline from "node:readline";
+import { once } from "node:events";
+import path from "node:path";
+import { mkdir } from "node:fs/promises";
+import { createHash, randomUUID, timingSafeEqual } from "node:crypto";
 import { performance } from "node:perf_hooks";
 import { generateContextResult } from "./context.js";
+import { generateDiarySearchResults } from "./diary.js";
 import { recordFeedback } from "./mark.js";
+import { addRule } from "./playbook.js";
+import { forgetBullet } from "./forget.js";
+import { generateSimilarResults } from "./similar.js";
+import { buildWhyResult, matchBulletId } from "./why.js";
+import { undoBulletChange } from "./undo.js";
+import { createTrauma } from "./trauma.js";
+import { generateStaleResult } from "./stale.js";
 import { recordOutcome, loadOutcomes } from "../outcome.js";
 import { loadConfig } from "../config.js";
-import { loadMergedPlaybook, getActiveBullets } from "../playbook.js";
-import { loadAllDiaries } from "../diary.js";
+import { loadMergedPlaybook, loadMergedPlaybookWithReport, getActiveBullets } from "../playbook.js";
+import { loadAllDiaries, loadDiary } from "../diary.js";
 import { safeCassSearch } from "../cass.js";
+import { findSimilarBulletsSemantic } from "../semantic.js";
+import { buildDashboardSection, isDashboardSection, renderDashboardPage } from "../dashboard.js";
+import { findMatchingTrauma, loadTraumas } from "../trauma.js";
+import { parseApplicabilityPredicate } from "../applicability.js";
+import { CASS_BACKED_PROMPTS, PROMPT_DEFS, getMcpPrompt } from "../mcp-prompts.js";
+import { ResourceWatcher, resolveResourceWatchPaths } from "../resource-watch.js";
+import {
+  approveReviewItems,
+  editReviewItem,
+  getReviewItem,
+  listReviewItems,
+  rejectReviewItems,
+  ReviewEditSchema,
+} from "../review.js";
 import {
   log,
   warn,
@@ -17,9 +43,11 @@ import {
   validateNonEmptyString,
   validateOneOf,
   validatePositiveInt,
+  validateUnitInterval,
+  resolveRepoDir,
 } from "../utils.js";
 import { analyzeScoreDistribution, getEffectiveScore, isStale } from "../scoring.js";
-import { ErrorCode, type Config, type PlaybookBullet } from "../types.js";
+import { ErrorCode, type ApplicabilityPredicate, type Config, type PlaybookBullet } from "../types.js";
 
 // --- CASS-backed admission control (bounded concurrency) --------------------
 //
@@ -35,6 +63,9 @@ import { ErrorCode, type Config, type PlaybookBullet } from "../types.js";
 // and retry rather than treating it as a hard failure.
 export const MCP_BUSY_ERROR_CODE = -32010;
 
+/** memory_search only reports semantic neighbours at least this similar to the query. */
+const MEMORY_SEARCH_MIN_SIMILARITY = 0.35;
+
 export interface AdmissionSnapshot {
   inFlight: number;
   queued: number;
@@ -270,6 +301,19 @@ type JsonRpcResponse =
   | { jsonrpc: "2.0"; id: string | number | null; result: any }
   | { jsonrpc: "2.0"; id: string | number | null; error: { code: number; message: string; data?: any } };
 
+type JsonRpcNotification = { jsonrpc: "2.0"; method: string; params?: any };
+
+/**
+ * Per-client state for server-initiated messages: the stdio pipe, or an HTTP
+ * client identified by the Mcp-Session-Id header it got from initialize.
+ */
+interface McpSession {
+  id: string;
+  /** Subscribed resource URI -> stop watching it. */
+  subscriptions: Map<string, () => void>;
+  notify: (message: JsonRpcNotification) => void;
+}
+
 // Latest MCP protocol version this server implements. We echo the client's
 // requested version when it is a string (per the MCP spec's version
 // negotiation), otherwise fall back to this.
@@ -292,7 +336,9 @@ const TOOL_DEFS = [
         limit: { type: "integer", minimum: 1, description: "Max rules to return" },
         top: { type: "integer", minimum: 1, description: "DEPRECATED: use limit" },
         history: { type: "integer", minimum: 1 },
-        days: { type: "integer", minimum: 1 }
+        days: { type: "integer", minimum: 1 },
+        maxTokens: { type: "integer", minimum: 1, description: "Pack the result into ~N tokens; dropped items are listed under budget.dropped" },
+        diversity: { type: "number", minimum: 0, maximum: 1, description: "MMR diversity: 0 = pure relevance, higher values penalize near-duplicate rules" }
       },
       required: ["task"]
     }
@@ -330,16 +376,21 @@ const TOOL_DEFS = [
   },
   {
     name: "memory_search",
-    description: "Search playbook bullets and/or cass history",
+    description: "Search playbook bullets, cass history and/or session diaries",
     inputSchema: {
       type: "object",
       properties: {
         query: { type: "string", description: "Search query text" },
-        scope: { type: "string", enum: ["playbook", "cass", "both"], default: "both" },
+        scope: {
+          type: "string",
+          enum: ["playbook", "cass", "diary", "both", "all"],
+          default: "both",
+          description: "both = playbook + cass; all = playbook + cass + diary"
+        },
         limit: { type: "integer", minimum: 1, maximum: 100, default: 10 },
-        days: { type: "integer", minimum: 1, description: "Limit cass search to lookback days" },
-        agent: { type: "string", description: "Filter cass search by agent" },
-        workspace: { type: "string", description: "Filter cass search by workspace" }
+        days: { type: "integer", minimum: 1, description: "Limit cass and diary search to lookback days" },
+        agent: { type: "string", description: "Filter cass and diary search by agent" },
+        workspace: { type: "string", description: "Filter cass and diary search by workspace" }
       },
       required: ["query"]
     }
@@ -357,6 +408,173 @@ const TOOL_DEFS = [
         session: { type: "string", description: "Specific session path to reflect on" }
       }
     }
+  },
+  {
+    name: "cm_review_list",
+    description: "List reflection deltas queued for human approval (curation.requireApproval)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        status: { type: "string", enum: ["pending", "approved", "rejected", "all"], default: "pending" }
+      }
+    }
+  },
+  {
+    name: "cm_review_show",
+    description: "Show one queued delta with its validator verdict and evidence",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "string", description: "Review item id" }
+      },
+      required: ["id"]
+    }
+  },
+  {
+    name: "cm_review_approve",
+    description: "Curate queued deltas into the playbook",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ids: { type: "array", items: { type: "string" } },
+        all: { type: "boolean", description: "Approve every pending item" },
+        reason: { type: "string" }
+      }
+    }
+  },
+  {
+    name: "cm_review_reject",
+    description: "Reject queued deltas; their content is blocked from future reflection",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ids: { type: "array", items: { type: "string" } },
+        reason: { type: "string" }
+      },
+      required: ["ids"]
+    }
+  },
+  {
+    name: "cm_review_edit",
+    description: "Change a queued delta's content (or a new rule's category) before approving it",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "string" },
+        content: { type: "string" },
+        category: { type: "string" }
+      },
+      required: ["id"]
+    }
+  },
+  {
+    name: "cm_add",
+    description: "Add a rule to the playbook after running the same validation as `cm playbook add --check`",
+    inputSchema: {
+      type: "object",
+      properties: {
+        content: { type: "string", description: "Rule text" },
+        category: { type: "string", default: "general" },
+        repo: { type: "boolean", description: "Add to the repo playbook (.cass/playbook.yaml) instead of the global one", default: false },
+        strict: { type: "boolean", description: "Refuse the rule when validation reports issues", default: false },
+        appliesWhen: {
+          type: "array",
+          items: { type: "string" },
+          description: "Applicability predicates: file:<path>, dep:<package>, lang:<language>, branch:<glob>, os:<name>"
+        }
+      },
+      required: ["content"]
+    }
+  },
+  {
+    name: "cm_forget",
+    description: "Deprecate a rule and block it from being re-learned",
+    inputSchema: {
+      type: "object",
+      properties: {
+        bulletId: { type: "string" },
+        reason: { type: "string", description: "Why the rule is wrong or obsolete" },
+        invert: { type: "boolean", description: "Also add an AVOID anti-pattern built from the rule", default: false }
+      },
+      required: ["bulletId", "reason"]
+    }
+  },
+  {
+    name: "cm_similar",
+    description: "Find playbook rules similar to a piece of text",
+    inputSchema: {
+      type: "object",
+      properties: {
+        query: { type: "string" },
+        limit: { type: "integer", minimum: 1, default: 5 },
+        threshold: { type: "number", minimum: 0, maximum: 1, default: 0.7 },
+        scope: { type: "string", enum: ["global", "workspace", "all"], default: "all" }
+      },
+      required: ["query"]
+    }
+  },
+  {
+    name: "cm_why",
+    description: "Explain where a rule came from: reasoning, source sessions, evidence and feedback history",
+    inputSchema: {
+      type: "object",
+      properties: {
+        bulletId: { type: "string", description: "Bullet id (a unique prefix is enough)" },
+        verbose: { type: "boolean", default: false },
+        workspace: { type: "string", description: "Workspace to evaluate appliesWhen predicates against" }
+      },
+      required: ["bulletId"]
+    }
+  },
+  {
+    name: "cm_undo",
+    description: "Restore a deprecated rule, remove its last feedback event, or delete it",
+    inputSchema: {
+      type: "object",
+      properties: {
+        bulletId: { type: "string" },
+        feedback: { type: "boolean", description: "Undo the most recent feedback event instead of un-deprecating" },
+        hard: { type: "boolean", description: "Permanently delete the rule (requires yes: true)" },
+        yes: { type: "boolean", description: "Confirm a hard delete" }
+      },
+      required: ["bulletId"]
+    }
+  },
+  {
+    name: "cm_trauma_check",
+    description: "Check a shell command against the active trauma patterns before running it",
+    inputSchema: {
+      type: "object",
+      properties: {
+        command: { type: "string" }
+      },
+      required: ["command"]
+    }
+  },
+  {
+    name: "cm_trauma_add",
+    description: "Register a dangerous command pattern so the safety guard blocks it",
+    inputSchema: {
+      type: "object",
+      properties: {
+        pattern: { type: "string", description: "Case-insensitive regex matched against commands" },
+        severity: { type: "string", enum: ["CRITICAL", "FATAL"], default: "CRITICAL" },
+        scope: { type: "string", enum: ["global", "project"], default: "global" },
+        message: { type: "string", description: "Human-readable reason" }
+      },
+      required: ["pattern"]
+    }
+  },
+  {
+    name: "cm_stale",
+    description: "List rules without feedback for a number of days",
+    inputSchema: {
+      type: "object",
+      properties: {
+        days: { type: "integer", minimum: 0, default: 90 },
+        scope: { type: "string", enum: ["global", "workspace", "all"], default: "all" }
+      }
+    }
   }
 ];
 
@@ -385,6 +603,12 @@ const RESOURCE_DEFS = [
     description: "Playbook health metrics",
     mimeType: "application/json"
   },
+  {
+    uri: "cm://traumas",
+    name: "Trauma Registry",
+    description: "Registered dangerous command patterns (global + repo)",
+    mimeType: "application/json"
+  },
   {
     uri: "cm://serve",
     name: "Serve Admission Metrics",
@@ -399,6 +623,33 @@ const RESOURCE_DEFS = [
   }
 ];
 
+const RESOURCE_TEMPLATE_DEFS = [
+  {
+    uriTemplate: "cm://bullet/{id}",
+    name: "Bullet",
+    description: "One playbook bullet by id (or unique id prefix), with its effective score",
+    mimeType: "application/json"
+  },
+  {
+    uriTemplate: "cm://diary/{id}",
+    name: "Diary Entry",
+    description: "One diary entry by id",
+    mimeType: "application/json"
+  },
+  {
+    uriTemplate: "cm://playbook/category/{name}",
+    name: "Playbook Category",
+    description: "Active bullets in one category (case-insensitive)",
+    mimeType: "application/json"
+  },
+  {
+    uriTemplate: "cm://context/{task}",
+    name: "Task Context",
+    description: "cm_context result for a URI-encoded task description",
+    mimeType: "application/json"
+  }
+];
+
 const MAX_BODY_BYTES = 5 * 1024 * 1024; // 5MB guard to avoid runaway payloads
 const MCP_HTTP_TOKEN_ENV = "MCP_HTTP_TOKEN";
 const MCP_HTTP_UNSAFE_NO_TOKEN_ENV = "MCP_HTTP_UNSAFE_NO_TOKEN";
@@ -435,6 +686,109 @@ function tokensMatch(provided: string, expected: string): boolean {
   return timingSafeEqual(providedHash, expectedHash);
 }
 
+/** Whether a request carries the server token (header, or `?token=` when allowed). */
+function isAuthorized(req: http.IncomingMessage, token: string | undefined, url?: URL): boolean {
+  if (!token) return true;
+  const bearer = extractBearerToken(headerValue(req.headers.authorization));
+  const xToken = headerValue(req.headers["x-mcp-token"]);
+  // Browsers cannot attach headers when opening a page, so the dashboard also
+  // accepts the token as a query parameter.
+  const queryToken = url?.searchParams.get("token") ?? undefined;
+  const provided = bearer ?? (xToken ? xToken.trim() : undefined) ?? (queryToken ? queryToken.trim() : undefined);
+  return Boolean(provided) && tokensMatch(provided!, token);
+}
+
+/** Hostname of a Host or Origin header value, lowercased and without brackets or port. */
+function headerHostname(value: string): string | undefined {
+  try {
+    const url = new URL(value.includes("://") ? value : `http://${value}`);
+    return url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Whether the request names a loopback host in Host (and Origin, if sent).
+ * Without a token this is what stops a DNS-rebinding page from reading a
+ * loopback server: the browser sends the attacker's hostname.
+ */
+function isLoopbackRequest(req: http.IncomingMessage): boolean {
+  const host = headerValue(req.headers.host);
+  const hostname = host ? headerHostname(host) : undefined;
+  if (!hostname || !isLoopbackHost(hostname)) return false;
+  const origin = headerValue(req.headers.origin);
+  if (origin === undefined) return true;
+  const originHostname = headerHostname(origin);
+  return originHostname !== undefined && isLoopbackHost(originHostname);
+}
+
+const DASHBOARD_PATH = "/dashboard";
+const DASHBOARD_API_PREFIX = `${DASHBOARD_PATH}/api/`;
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.statusCode = status;
+  res.setHeader("content-type", "application/json");
+  res.setHeader("cache-control", "no-store");
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Serve the read-only dashboard: the page at /dashboard and its JSON sections
+ * at /dashboard/api/<section>. Uses the same token check as the MCP endpoint.
+ * With `loopbackOnly` (a loopback bind without a token), requests must also
+ * name a loopback host.
+ */
+async function handleDashboardRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  url: URL,
+  token: string | undefined,
+  options: { loopbackOnly?: boolean } = {}
+): Promise<void> {
+  if (req.method !== "GET" && req.method !== "HEAD") {
+    res.statusCode = 405;
+    res.setHeader("allow", "GET, HEAD");
+    res.end();
+    return;
+  }
+  if (!isAuthorized(req, token, url)) {
+    sendJson(res, 401, { success: false, error: { code: "UNAUTHORIZED", message: "Unauthorized" } });
+    return;
+  }
+  if (options.loopbackOnly && !isLoopbackRequest(req)) {
+    sendJson(res, 403, { success: false, error: { code: "FORBIDDEN", message: "Host is not a loopback address" } });
+    return;
+  }
+
+  if (url.pathname === DASHBOARD_PATH || url.pathname === `${DASHBOARD_PATH}/`) {
+    res.statusCode = 200;
+    res.setHeader("content-type", "text/html; charset=utf-8");
+    res.setHeader("cache-control", "no-store");
+    res.setHeader("x-content-type-options", "nosniff");
+    res.setHeader("referrer-policy", "no-referrer");
+    res.setHeader(
+      "content-security-policy",
+      "default-src 'none'; script-src 'unsafe-inline'; style-src 'unsafe-inline'; connect-src 'self'; img-src 'self' data:"
+    );
+    res.end(req.method === "HEAD" ? undefined : renderDashboardPage());
+    return;
+  }
+
+  const section = url.pathname.startsWith(DASHBOARD_API_PREFIX) ? url.pathname.slice(DASHBOARD_API_PREFIX.length) : "";
+  if (!isDashboardSection(section)) {
+    sendJson(res, 404, { success: false, error: { code: "NOT_FOUND", message: `Unknown dashboard path: ${url.pathname}` } });
+    return;
+  }
+  try {
+    const config = await loadConfig();
+    sendJson(res, 200, { success: true, command: `serve:dashboard:${section}`, data: await buildDashboardSection(section, config) });
+  } catch (err: any) {
+    logError(`[dashboard] ${section}: ${err?.message || err}`);
+    sendJson(res, 500, { success: false, error: { code: "INTERNAL_ERROR", message: err?.message || "Dashboard request failed" } });
+  }
+}
+
 function countBy<T>(items: T[], keyFn: (item: T) => string): Record<string, number> {
   return items.reduce<Record<string, number>>((acc, item) => {
     const key = keyFn(item) || "unknown";
@@ -488,6 +842,14 @@ function computePlaybookStats(playbook: any, config: any) {
 
 export { computePlaybookStats };
 
+function reviewIdsArg(value: unknown): string[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some((v) => typeof v !== "string")) {
+    throw new Error("ids must be an array of strings");
+  }
+  return value.map((v: string) => v.trim()).filter(Boolean);
+}
+
 async function handleToolCall(name: string, args: any): Promise<any> {
   switch (name) {
     case "cm_context": {
@@ -504,6 +866,10 @@ async function handleToolCall(name: string, args: any): Promise<any> {
       if (!days.ok) throw new Error(days.message);
       const workspace = validateNonEmptyString(args?.workspace, "workspace", { allowUndefined: true });
       if (!workspace.ok) throw new Error(workspace.message);
+      const maxTokens = validatePositiveInt(args?.maxTokens, "maxTokens", { min: 1, allowUndefined: true });
+      if (!maxTokens.ok) throw new Error(maxTokens.message);
+      const diversity = validateUnitInterval(args?.diversity, "diversity", { allowUndefined: true });
+      if (!diversity.ok) throw new Error(diversity.message);
 
       // cm_context fans out to cass history — gate it under the admission limiter.
       const context = await withCassAdmission("cm_context", () =>
@@ -512,6 +878,8 @@ async function handleToolCall(name: string, args: any): Promise<any> {
           history: history.value,
           days: days.value,
           workspace: workspace.value,
+          maxTokens: maxTokens.value,
+          diversity: diversity.value,
           json: true
         })
       );
@@ -563,12 +931,15 @@ async function handleToolCall(name: string, args: any): Promise<any> {
       assertArgs(args, { query: "string" });
       const queryCheck = validateNonEmptyString(args?.query, "query", { trim: true });
       if (!queryCheck.ok) throw new Error(queryCheck.message);
-      const scopeCheck = validateOneOf(args.scope, "scope", ["playbook", "cass", "both"] as const, {
+      const scopeCheck = validateOneOf(args.scope, "scope", ["playbook", "cass", "diary", "both", "all"] as const, {
         allowUndefined: true,
         caseInsensitive: true,
       });
       if (!scopeCheck.ok) throw new Error(scopeCheck.message);
-      const scope: "playbook" | "cass" | "both" = scopeCheck.value ?? "both";
+      const scope = scopeCheck.value ?? "both";
+      const searchPlaybook = scope === "playbook" || scope === "both" || scope === "all";
+      const searchCass = scope === "cass" || scope === "both" || scope === "all";
+      const searchDiary = scope === "diary" || scope === "all";
 
       const limitCheck = validatePositiveInt(args?.limit, "limit", { min: 1, max: 100, allowUndefined: true });
       if (!limitCheck.ok) throw new Error(limitCheck.message);
@@ -587,18 +958,39 @@ async function handleToolCall(name: string, args: any): Promise<any> {
       const workspace = workspaceCheck.value;
       const config = await loadConfig();
 
-      const result: { playbook?: any[]; cass?: any[] } = {};
+      const result: { playbook?: any[]; cass?: any[]; diary?: any[] } = {};
       const q = queryCheck.value.toLowerCase();
 
-      if (scope === "playbook" || scope === "both") {
+      if (searchPlaybook) {
         const t0 = performance.now();
         const playbook = await loadMergedPlaybook(config);
         const bullets = getActiveBullets(playbook);
-        result.playbook = bullets
-          .filter((b) => {
-            const haystack = `${b.content} ${b.category ?? ""} ${b.scope ?? ""}`.toLowerCase();
-            return haystack.includes(q);
-          })
+        const literal = bullets.filter((b) => {
+          const haystack = `${b.content} ${b.category ?? ""} ${b.scope ?? ""}`.toLowerCase();
+          return haystack.includes(q);
+        });
+
+        // Literal matches first, then semantic neighbours (via the vector index
+        // on large playbooks) when semantic search is enabled.
+        const similarity = new Map<string, number>();
+        const embeddingModel = config.embeddingModel?.trim();
+        if (config.semanticSearchEnabled && embeddingModel && embeddingModel !== "none") {
+          try {
+            const matches = await findSimilarBulletsSemantic(queryCheck.value, bullets, limit, {
+              model: embeddingModel,
+              threshold: MEMORY_SEARCH_MIN_SIMILARITY,
+            });
+            for (const m of matches) similarity.set(m.bullet.id, m.similarity);
+          } catch (err: any) {
+            warn(`[memory_search] Semantic search unavailable; using literal matches. ${err?.message || ""}`.trim());
+          }
+        }
+        const literalIds = new Set(literal.map((b) => b.id));
+        const semanticOnly = bullets
+          .filter((b) => similarity.has(b.id) && !literalIds.has(b.id))
+          .sort((a, b) => similarity.get(b.id)! - similarity.get(a.id)!);
+
+        result.playbook = [...literal, ...semanticOnly]
           .slice(0, limit)
           .map((b) => ({
             id: b.id,
@@ -606,11 +998,12 @@ async function handleToolCall(name: string, args: any): Promise<any> {
             category: b.category,
             scope: b.scope,
             maturity: b.maturity,
+            ...(similarity.has(b.id) ? { similarity: Number(similarity.get(b.id)!.toFixed(3)) } : {}),
           }));
         maybeProfile("memory_search playbook scan", t0);
       }
 
-      if (scope === "cass" || scope === "both") {
+      if (searchCass) {
         const t0 = performance.now();
         // Only the cass-backed branch contends on `cassPath`; a playbook-only
         // search stays unbounded and fast.
@@ -627,6 +1020,21 @@ async function handleToolCall(name: string, args: any): Promise<any> {
         }));
       }
 
+      if (searchDiary) {
+        const t0 = performance.now();
+        const diaries = await generateDiarySearchResults(queryCheck.value, {
+          config,
+          limit,
+          filters: {
+            agent,
+            workspace,
+            ...(days !== undefined ? { since: new Date(Date.now() - days * 86_400_000).toISOString() } : {}),
+          },
+        });
+        maybeProfile("memory_search diary search", t0);
+        result.diary = diaries.results;
+      }
+
       return result;
     }
     case "memory_reflect": {
@@ -711,11 +1119,165 @@ async function handleToolCall(name: string, args: any): Promise<any> {
         deltasApplied: applied,
         skipped,
         inversions,
-        message: outcome.deltasGenerated > 0
+        ...(outcome.review ? { queuedForReview: outcome.review.queued } : {}),
+        message: outcome.review
+          ? `Queued ${outcome.review.queued} changes from ${outcome.sessionsProcessed} sessions for review`
+          : outcome.deltasGenerated > 0
           ? `Applied ${applied} changes from ${outcome.sessionsProcessed} sessions`
           : "No new insights found"
       };
     }
+    case "cm_review_list": {
+      const status = validateOneOf(args?.status, "status", ["pending", "approved", "rejected", "all"] as const, {
+        allowUndefined: true,
+        caseInsensitive: true,
+      });
+      if (!status.ok) throw new Error(status.message);
+      const items = await listReviewItems(status.value ?? "pending");
+      return { status: status.value ?? "pending", count: items.length, items };
+    }
+    case "cm_review_show": {
+      assertArgs(args, { id: "string" });
+      const item = await getReviewItem(args.id);
+      if (!item) throw new Error(`Review item not found: ${args.id}`);
+      return item;
+    }
+    case "cm_review_approve": {
+      const ids = reviewIdsArg(args?.ids);
+      if (!args?.all && ids.length === 0) throw new Error("cm_review_approve requires ids or all: true");
+      const reason = validateNonEmptyString(args?.reason, "reason", { allowUndefined: true, trim: true });
+      if (!reason.ok) throw new Error(reason.message);
+      const config = await loadConfig();
+      return approveReviewItems(args?.all ? "all" : ids, config, reason.value);
+    }
+    case "cm_review_reject": {
+      const ids = reviewIdsArg(args?.ids);
+      if (ids.length === 0) throw new Error("cm_review_reject requires ids");
+      const reason = validateNonEmptyString(args?.reason, "reason", { allowUndefined: true, trim: true });
+      if (!reason.ok) throw new Error(reason.message);
+      return rejectReviewItems(ids, reason.value ?? "Rejected in review");
+    }
+    case "cm_review_edit": {
+      assertArgs(args, { id: "string" });
+      const edit = ReviewEditSchema.safeParse({ content: args?.content, category: args?.category });
+      if (!edit.success || (edit.data.content === undefined && edit.data.category === undefined)) {
+        throw new Error("cm_review_edit requires a non-empty content and/or category");
+      }
+      const result = await editReviewItem(args.id, edit.data);
+      if (result.error === "not_found") throw new Error(`Review item not found: ${args.id}`);
+      if (result.error === "not_pending") throw new Error(`Review item ${args.id} was already decided`);
+      if (result.error === "not_editable") throw new Error(`Review item ${args.id} cannot take that edit`);
+      return result.item;
+    }
+    case "cm_add": {
+      assertArgs(args, { content: "string" });
+      const content = validateNonEmptyString(args.content, "content", { trim: true });
+      if (!content.ok) throw new Error(content.message);
+      const category = validateNonEmptyString(args?.category, "category", { allowUndefined: true, trim: true });
+      if (!category.ok) throw new Error(category.message);
+      if (args?.appliesWhen !== undefined && !Array.isArray(args.appliesWhen)) {
+        throw new Error("appliesWhen must be an array of strings");
+      }
+      const appliesWhen: ApplicabilityPredicate[] = [];
+      for (const raw of args?.appliesWhen ?? []) {
+        const predicate = typeof raw === "string" ? parseApplicabilityPredicate(raw) : null;
+        if (!predicate) {
+          throw new Error(`Invalid appliesWhen: ${String(raw)} (use file:<path>, dep:<package>, lang:<language>, branch:<glob> or os:<name>)`);
+        }
+        appliesWhen.push(predicate);
+      }
+
+      const config = await loadConfig();
+      let targetPath = config.playbookPath;
+      if (args?.repo) {
+        const repoDir = await resolveRepoDir();
+        if (!repoDir) throw new Error("Not in a git repository. Cannot add to repo playbook.");
+        await mkdir(repoDir, { recursive: true });
+        targetPath = path.join(repoDir, "playbook.yaml");
+      }
+
+      const { bullet, validation } = await addRule(config, targetPath, {
+        content: content.value,
+        category: category.value ?? "general",
+        scope: args?.repo ? "workspace" : "global",
+        appliesWhen,
+        check: true,
+        strict: Boolean(args?.strict),
+        sourceSession: "manual-mcp",
+        reason: "Added via MCP",
+      });
+      if (!bullet) {
+        return { added: false, reason: "Validation failed in strict mode", validation };
+      }
+      return { added: true, bullet, target: args?.repo ? "repo" : "global", targetPath, validation };
+    }
+    case "cm_forget": {
+      assertArgs(args, { bulletId: "string", reason: "string" });
+      const reason = validateNonEmptyString(args.reason, "reason", { trim: true });
+      if (!reason.ok) throw new Error(reason.message);
+      const config = await loadConfig();
+      return forgetBullet(config, args.bulletId.trim(), { reason: reason.value, invert: Boolean(args?.invert) });
+    }
+    case "cm_similar": {
+      assertArgs(args, { query: "string" });
+      const scope = validateOneOf(args?.scope, "scope", ["global", "workspace", "all"] as const, {
+        allowUndefined: true,
+        caseInsensitive: true,
+      });
+      if (!scope.ok) throw new Error(scope.message);
+      return generateSimilarResults(args.query, { limit: args?.limit, threshold: args?.threshold, scope: scope.value });
+    }
+    case "cm_why": {
+      assertArgs(args, { bulletId: "string" });
+      const needle = validateNonEmptyString(args.bulletId, "bulletId", { trim: true });
+      if (!needle.ok) throw new Error(needle.message);
+      const workspace = validateNonEmptyString(args?.workspace, "workspace", { allowUndefined: true });
+      if (!workspace.ok) throw new Error(workspace.message);
+      const config = await loadConfig();
+      const match = matchBulletId(await loadMergedPlaybook(config), needle.value);
+      if ("error" in match) {
+        throw new Error(
+          match.error === "not_found"
+            ? `Bullet not found: ${needle.value}`
+            : `Ambiguous bullet id: ${needle.value} (matches: ${match.matches.slice(0, 8).join(", ")})`
+        );
+      }
+      return buildWhyResult(match.bullet, config, Boolean(args?.verbose), workspace.value);
+    }
+    case "cm_undo": {
+      assertArgs(args, { bulletId: "string" });
+      if (args?.hard && args?.feedback) throw new Error("cm_undo takes at most one of feedback or hard");
+      if (args?.hard && args?.yes !== true) throw new Error("Hard deletes are permanent; pass yes: true to confirm");
+      const config = await loadConfig();
+      return undoBulletChange(config, args.bulletId.trim(), args?.hard ? "hard-delete" : args?.feedback ? "undo-feedback" : "un-deprecate");
+    }
+    case "cm_trauma_check": {
+      assertArgs(args, { command: "string" });
+      const command = validateNonEmptyString(args.command, "command", { trim: true });
+      if (!command.ok) throw new Error(command.message);
+      const trauma = findMatchingTrauma(command.value, await loadTraumas());
+      return { command: command.value, blocked: Boolean(trauma), ...(trauma ? { trauma } : {}) };
+    }
+    case "cm_trauma_add": {
+      assertArgs(args, { pattern: "string" });
+      const entry = await createTrauma(args.pattern, {
+        severity: args?.severity,
+        scope: args?.scope,
+        message: typeof args?.message === "string" ? args.message : undefined,
+      });
+      return { entry };
+    }
+    case "cm_stale": {
+      const days = validatePositiveInt(args?.days, "days", { min: 0, allowUndefined: true });
+      if (!days.ok) throw new Error(days.message);
+      const scope = validateOneOf(args?.scope, "scope", ["global", "workspace", "all"] as const, {
+        allowUndefined: true,
+        caseInsensitive: true,
+      });
+      if (!scope.ok) throw new Error(scope.message);
+      const config = await loadConfig();
+      return generateStaleResult(config, { threshold: days.value ?? 90, scope: scope.value });
+    }
     default:
       throw new Error(`Unknown tool: ${name}`);
   }
@@ -725,12 +1287,21 @@ function buildError(id: string | number | null, message: string, code = -32000,
   return { jsonrpc: "2.0", id, error: { code, message, data } };
 }
 
+/** Retryable "server busy" error for a CASS-backed call the admission limiter turned away. */
+function buildBusyError(id: string | number | null, err: AdmissionBusyError): JsonRpcResponse {
+  return buildError(id, err.message, MCP_BUSY_ERROR_CODE, {
+    retryable: true,
+    reason: err.reason,
+    ...err.snapshot,
+  });
+}
+
 async function handleResourceRead(uri: string): Promise<any> {
   const config = await loadConfig();
   switch (uri) {
     case "cm://playbook": {
-      const playbook = await loadMergedPlaybook(config);
-      return { uri, mimeType: "application/json", data: playbook };
+      const { playbook, report } = await loadMergedPlaybookWithReport(config);
+      return { uri, mimeType: "application/json", data: { ...playbook, mergeReport: report } };
     }
     case "cm://diary": {
       const diaries = await loadAllDiaries(config.diaryDir);
@@ -740,6 +1311,9 @@ async function handleResourceRead(uri: string): Promise<any> {
       const outcomes = await loadOutcomes(config, 50);
       return { uri, mimeType: "application/json", data: outcomes };
     }
+    case "cm://traumas": {
+      return { uri, mimeType: "application/json", data: await loadTraumas() };
+    }
     case "cm://stats":
     case "memory://stats": {
       const playbook = await loadMergedPlaybook(config);
@@ -768,8 +1342,64 @@ async function handleResourceRead(uri: string): Promise<any> {
       return { uri, mimeType: "application/json", data };
     }
     default:
-      throw new Error(`Unknown resource: ${uri}`);
+      return handleTemplateResourceRead(uri, config);
+  }
+}
+
+function decodeTemplateParam(raw: string, label: string): string {
+  let value: string;
+  try {
+    value = decodeURIComponent(raw).trim();
+  } catch {
+    throw new Error(`Invalid ${label} in resource uri`);
+  }
+  if (!value) throw new Error(`Missing ${label} in resource uri`);
+  return value;
+}
+
+/** Resolve a URI matching one of RESOURCE_TEMPLATE_DEFS. */
+async function handleTemplateResourceRead(uri: string, config: Config): Promise<any> {
+  const bulletMatch = /^cm:\/\/bullet\/([^/]+)$/.exec(uri);
+  if (bulletMatch) {
+    const needle = decodeTemplateParam(bulletMatch[1], "bullet id");
+    const match = matchBulletId(await loadMergedPlaybook(config), needle);
+    if ("error" in match) {
+      throw new Error(
+        match.error === "not_found"
+          ? `Bullet not found: ${needle}`
+          : `Ambiguous bullet id: ${needle} (matches: ${match.matches.slice(0, 8).join(", ")})`
+      );
+    }
+    const effectiveScore = getEffectiveScore(match.bullet, config);
+    return { uri, mimeType: "application/json", data: { ...match.bullet, effectiveScore } };
   }
+
+  const diaryMatch = /^cm:\/\/diary\/([^/]+)$/.exec(uri);
+  if (diaryMatch) {
+    const id = decodeTemplateParam(diaryMatch[1], "diary id");
+    // loadDiary also accepts paths; only plain ids may come from a client.
+    if (!/^[A-Za-z0-9_-]+$/.test(id)) throw new Error(`Invalid diary id: ${id}`);
+    const diary = await loadDiary(id, config);
+    if (!diary) throw new Error(`Diary not found: ${id}`);
+    return { uri, mimeType: "application/json", data: diary };
+  }
+
+  const categoryMatch = /^cm:\/\/playbook\/category\/([^/]+)$/.exec(uri);
+  if (categoryMatch) {
+    const name = decodeTemplateParam(categoryMatch[1], "category");
+    const bullets = getActiveBullets(await loadMergedPlaybook(config))
+      .filter((b) => b.category.toLowerCase() === name.toLowerCase());
+    return { uri, mimeType: "application/json", data: { category: name, count: bullets.length, bullets } };
+  }
+
+  const contextMatch = /^cm:\/\/context\/(.+)$/.exec(uri);
+  if (contextMatch) {
+    const task = decodeTemplateParam(contextMatch[1], "task");
+    const context = await withCassAdmission("cm://context", () => generateContextResult(task, { json: true }));
+    return { uri, mimeType: "application/json", data: context.result };
+  }
+
+  throw new Error(`Unknown resource: ${uri}`);
 }
 
 /**
@@ -794,10 +1424,167 @@ function wrapToolResult(payload: unknown, isError = false): { content: Array<{ t
  * return type stays non-null for the many request-oriented call sites/tests.
  */
 function isNotification(body: JsonRpcRequest): boolean {
-  return body.method === "notifications/initialized" || body.method === "initialized";
+  if (body.method === "notifications/initialized" || body.method === "initialized") return true;
+  // JSON-RPC: a request without an `id` member is a notification and gets no response.
+  return typeof body.method === "string" && !("id" in body);
 }
 
-async function routeRequest(body: JsonRpcRequest): Promise<JsonRpcResponse> {
+const MCP_SESSION_HEADER = "mcp-session-id";
+/**
+ * Past this many HTTP sessions, the least recently used one without an open
+ * stream is dropped (with its subscriptions).
+ */
+const MAX_HTTP_SESSIONS = 100;
+/** A session whose stream closed is dropped unless the client comes back within this. */
+const HTTP_SESSION_GRACE_MS = 5 * 60_000;
+const SSE_KEEPALIVE_MS = 25_000;
+
+interface HttpSession extends McpSession {
+  stream?: http.ServerResponse;
+  expiryTimer?: ReturnType<typeof setTimeout>;
+}
+
+/** In least-recently-used order: a session moves to the end whenever it is used. */
+const httpSessions = new Map<string, HttpSession>();
+let httpSessionGraceMs = HTTP_SESSION_GRACE_MS;
+let resourceWatcher: ResourceWatcher | null = null;
+
+function getResourceWatcher(): ResourceWatcher {
+  resourceWatcher ??= new ResourceWatcher();
+  return resourceWatcher;
+}
+
+function setResourceWatcher(watcher: ResourceWatcher | null): void {
+  resourceWatcher?.close();
+  resourceWatcher = watcher;
+}
+
+function setHttpSessionGraceMs(ms: number | null): void {
+  httpSessionGraceMs = ms ?? HTTP_SESSION_GRACE_MS;
+}
+
+function endSubscriptions(session: McpSession): void {
+  for (const stop of session.subscriptions.values()) stop();
+  session.subscriptions.clear();
+}
+
+function createHttpSession(): HttpSession {
+  if (httpSessions.size >= MAX_HTTP_SESSIONS) {
+    const sessions = [...httpSessions.values()];
+    // Sessions holding a stream are in use; only evict one when all are.
+    const evict = sessions.find((s) => !s.stream) ?? sessions[0];
+    if (evict) closeHttpSession(evict);
+  }
+  const session: HttpSession = {
+    id: randomUUID(),
+    subscriptions: new Map(),
+    // Notifications are only delivered while the client holds a GET stream open.
+    notify: (message) => {
+      session.stream?.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+    },
+  };
+  httpSessions.set(session.id, session);
+  return session;
+}
+
+/** Look up a session and mark it most recently used. */
+function getHttpSession(id: string): HttpSession | undefined {
+  const session = httpSessions.get(id);
+  if (!session) return undefined;
+  httpSessions.delete(id);
+  httpSessions.set(id, session);
+  // Activity without a stream restarts the grace period.
+  if (session.expiryTimer) scheduleHttpSessionExpiry(session);
+  return session;
+}
+
+function scheduleHttpSessionExpiry(session: HttpSession): void {
+  clearTimeout(session.expiryTimer);
+  session.expiryTimer = setTimeout(() => closeHttpSession(session), httpSessionGraceMs);
+  session.expiryTimer.unref?.();
+}
+
+function closeHttpSession(session: HttpSession): void {
+  clearTimeout(session.expiryTimer);
+  session.expiryTimer = undefined;
+  endSubscriptions(session);
+  session.stream?.end();
+  session.stream = undefined;
+  httpSessions.delete(session.id);
+}
+
+/** GET on the MCP endpoint: a text/event-stream carrying the session's notifications. */
+function openEventStream(req: http.IncomingMessage, res: http.ServerResponse, session: HttpSession | undefined): void {
+  if (!session) {
+    res.statusCode = 400;
+    res.setHeader("content-type", "application/json");
+    res.end(JSON.stringify(buildError(null, `Missing ${MCP_SESSION_HEADER} header (from initialize)`, -32600)));
+    return;
+  }
+  if (!headerValue(req.headers.accept)?.includes("text/event-stream")) {
+    res.statusCode = 406;
+    res.end();
+    return;
+  }
+
+  // One stream per session: a reconnect replaces the previous stream.
+  clearTimeout(session.expiryTimer);
+  session.expiryTimer = undefined;
+  const previous = session.stream;
+  session.stream = res;
+  previous?.end();
+  res.writeHead(200, {
+    "content-type": "text/event-stream",
+    "cache-control": "no-cache, no-transform",
+    connection: "keep-alive",
+  });
+  res.write(": connected\n\n");
+
+  const keepAlive = setInterval(() => res.write(": ping\n\n"), SSE_KEEPALIVE_MS);
+  keepAlive.unref?.();
+  res.on("close", () => {
+    clearInterval(keepAlive);
+    if (session.stream !== res) return;
+    session.stream = undefined;
+    if (httpSessions.get(session.id) === session) scheduleHttpSessionExpiry(session);
+  });
+}
+
+async function handleSubscription(body: JsonRpcRequest, session: McpSession | undefined): Promise<JsonRpcResponse> {
+  const id = body.id ?? null;
+  const uri = body.params?.uri;
+  if (typeof uri !== "string" || uri.trim() === "") return buildError(id, "Missing resource uri", -32602);
+  if (!session) {
+    return buildError(
+      id,
+      `Subscriptions need a session: send the ${MCP_SESSION_HEADER} header returned by initialize, or use 'cm serve --stdio'`,
+      -32602
+    );
+  }
+
+  if (body.method === "resources/unsubscribe") {
+    session.subscriptions.get(uri)?.();
+    session.subscriptions.delete(uri);
+    return { jsonrpc: "2.0", id, result: {} };
+  }
+
+  if (!session.subscriptions.has(uri)) {
+    let paths: string[] | null;
+    try {
+      paths = await resolveResourceWatchPaths(uri, await loadConfig());
+    } catch (err: any) {
+      return buildError(id, err?.message || "Subscribe failed");
+    }
+    if (!paths) return buildError(id, `Resource does not support subscriptions: ${uri}`, -32602);
+    const stop = getResourceWatcher().watch(uri, paths, (changed) =>
+      session.notify({ jsonrpc: "2.0", method: "notifications/resources/updated", params: { uri: changed } })
+    );
+    session.subscriptions.set(uri, stop);
+  }
+  return { jsonrpc: "2.0", id, result: {} };
+}
+
+async function routeRequest(body: JsonRpcRequest, session?: McpSession): Promise<JsonRpcResponse> {
   // MCP lifecycle: every client MUST complete an `initialize` handshake
   // before any other request. Echo the client's protocolVersion when it is a
   // string (spec version negotiation), advertise the tools/resources we serve.
@@ -813,7 +1600,8 @@ async function routeRequest(body: JsonRpcRequest): Promise<JsonRpcResponse> {
         protocolVersion,
         capabilities: {
           tools: {},
-          resources: {},
+          resources: { subscribe: true },
+          prompts: {},
         },
         serverInfo: SERVER_INFO,
       },
@@ -857,11 +1645,7 @@ async function routeRequest(body: JsonRpcRequest): Promise<JsonRpcResponse> {
       // retryable "server busy" condition, not a hard failure. Surface it with a
       // distinct code + retryable data so clients back off and retry.
       if (err instanceof AdmissionBusyError) {
-        return buildError(body.id ?? null, err.message, MCP_BUSY_ERROR_CODE, {
-          retryable: true,
-          reason: err.reason,
-          ...err.snapshot,
-        });
+        return buildBusyError(body.id ?? null, err);
       }
       // Input-validation / execution failures are surfaced as JSON-RPC errors
       // (clients map these to tool-call failures). wrapToolResult's isError
@@ -881,13 +1665,236 @@ async function routeRequest(body: JsonRpcRequest): Promise<JsonRpcResponse> {
       const result = await handleResourceRead(uri);
       return { jsonrpc: "2.0", id: body.id ?? null, result };
     } catch (err: any) {
+      if (err instanceof AdmissionBusyError) {
+        return buildBusyError(body.id ?? null, err);
+      }
       return buildError(body.id ?? null, err?.message || "Resource read failed");
     }
   }
 
+  if (body.method === "resources/subscribe" || body.method === "resources/unsubscribe") {
+    return handleSubscription(body, session);
+  }
+
+  if (body.method === "resources/templates/list") {
+    return { jsonrpc: "2.0", id: body.id ?? null, result: { resourceTemplates: RESOURCE_TEMPLATE_DEFS } };
+  }
+
+  if (body.method === "prompts/list") {
+    return { jsonrpc: "2.0", id: body.id ?? null, result: { prompts: PROMPT_DEFS } };
+  }
+
+  if (body.method === "prompts/get") {
+    const name = body.params?.name;
+    const args = body.params?.arguments ?? {};
+    if (typeof name !== "string" || !PROMPT_DEFS.some((p) => p.name === name)) {
+      return buildError(body.id ?? null, name ? `Unknown prompt: ${name}` : "Missing prompt name", -32602);
+    }
+    const missing = PROMPT_DEFS.find((p) => p.name === name)!.arguments
+      .filter((a) => a.required && (typeof args[a.name] !== "string" || args[a.name].trim() === ""))
+      .map((a) => a.name);
+    if (missing.length > 0) {
+      return buildError(body.id ?? null, `Missing required argument(s): ${missing.join(", ")}`, -32602);
+    }
+    try {
+      const result = CASS_BACKED_PROMPTS.has(name)
+        ? await withCassAdmission(`prompt:${name}`, () => getMcpPrompt(name, args))
+        : await getMcpPrompt(name, args);
+      return { jsonrpc: "2.0", id: body.id ?? null, result };
+    } catch (err: any) {
+      if (err instanceof AdmissionBusyError) {
+        return buildBusyError(body.id ?? null, err);
+      }
+      return buildError(body.id ?? null, err?.message || "Prompt failed");
+    }
+  }
+
   return buildError(body.id ?? null, `Unsupported method: ${body.method}`, -32601);
 }
 
+/**
+ * Serve MCP over newline-delimited JSON-RPC on stdin/stdout until stdin
+ * closes. Requests run concurrently; a `notifications/cancelled` for an
+ * in-flight request suppresses its response. stdout carries protocol
+ * messages only, so console.log output is redirected to stderr meanwhile.
+ */
+async function serveStdio(
+  input: NodeJS.ReadableStream = process.stdin,
+  output: NodeJS.WritableStream = process.stdout
+): Promise<void> {
+  const send = (message: JsonRpcResponse) => {
+    output.write(`${JSON.stringify(message)}\n`);
+  };
+  // The pipe itself is the session: notifications go out as lines like responses.
+  const session: McpSession = {
+    id: "stdio",
+    subscriptions: new Map(),
+    notify: (message) => {
+      output.write(`${JSON.stringify(message)}\n`);
+    },
+  };
+  const inFlight = new Map<string, Promise<void>>();
+  const cancelled = new Set<string>();
+  const keyOf = (id: unknown) => JSON.stringify(id);
+
+  const originalLog = console.log;
+  const originalInfo = console.info;
+  const originalDebug = console.debug;
+  console.log = console.info = console.debug = (...args: unknown[]) => console.error(...args);
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) return;
+    let body: JsonRpcRequest;
+    try {
+      body = JSON.parse(line);
+    } catch {
+      send(buildError(null, "Parse error", -32700));
+      return;
+    }
+    if (Array.isArray(body)) {
+      send(buildError(null, "Batch requests are not supported", -32600));
+      return;
+    }
+    if (!body || typeof body !== "object" || typeof body.method !== "string") {
+      // Responses to server-initiated requests are not expected; ignore them.
+      if (body && typeof body === "object" && "id" in body && ("result" in body || "error" in body)) return;
+      send(buildError((body as any)?.id ?? null, "Invalid request", -32600));
+      return;
+    }
+
+    if (body.method === "notifications/cancelled") {
+      const requestId = body.params?.requestId;
+      if (requestId !== undefined && inFlight.has(keyOf(requestId))) cancelled.add(keyOf(requestId));
+      return;
+    }
+    if (isNotification(body)) return;
+
+    const key = keyOf(body.id);
+    const task = routeRequest(body, session)
+      .catch((err: any) => buildError(body.id ?? null, err?.message || "Request failed"))
+      .then((response) => {
+        if (!cancelled.has(key)) send(response);
+      })
+      .finally(() => {
+        inFlight.delete(key);
+        cancelled.delete(key);
+      });
+    inFlight.set(key, task);
+  };
+
+  const rl = readline.createInterface({ input, crlfDelay: Infinity });
+  try {
+    rl.on("line", handleLine);
+    await once(rl, "close");
+    // Let requests that were already read finish before exiting.
+    await Promise.allSettled([...inFlight.values()]);
+  } finally {
+    endSubscriptions(session);
+    console.log = originalLog;
+    console.info = originalInfo;
+    console.debug = originalDebug;
+  }
+}
+
+/**
+ * Request handler for the HTTP transport: POST carries JSON-RPC, GET opens the
+ * session's notification stream (SSE), DELETE ends the session.
+ */
+function createHttpHandler(options: { token?: string; dashboard?: boolean; loopbackOnly?: boolean }) {
+  const { token } = options;
+  return async (req: http.IncomingMessage, res: http.ServerResponse): Promise<void> => {
+    if (options.dashboard) {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      if (url.pathname === DASHBOARD_PATH || url.pathname.startsWith(`${DASHBOARD_PATH}/`)) {
+        await handleDashboardRequest(req, res, url, token, { loopbackOnly: options.loopbackOnly });
+        return;
+      }
+    }
+
+    if (req.method !== "POST" && req.method !== "GET" && req.method !== "DELETE") {
+      res.statusCode = 405;
+      res.end();
+      return;
+    }
+
+    if (!isAuthorized(req, token)) {
+      res.statusCode = 401;
+      res.setHeader("content-type", "application/json");
+      res.end(JSON.stringify(buildError(null, "Unauthorized", -32001)));
+      return;
+    }
+
+    // Mcp-Session-Id comes from initialize; it is only needed for subscriptions.
+    const sessionId = headerValue(req.headers[MCP_SESSION_HEADER]);
+    const session = sessionId ? getHttpSession(sessionId) : undefined;
+    if (sessionId && !session) {
+      res.statusCode = 404;
+      res.setHeader("content-type", "application/json");
+      res.end(JSON.stringify(buildError(null, "Unknown session", -32001)));
+      return;
+    }
+
+    if (req.method === "GET") {
+      openEventStream(req, res, session);
+      return;
+    }
+    if (req.method === "DELETE") {
+      if (session) closeHttpSession(session);
+      res.statusCode = session ? 204 : 400;
+      res.end();
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let totalBytes = 0;
+    let aborted = false;
+    req.on("data", (chunk) => {
+      if (aborted) return;
+      const buf = Buffer.isBuffer(chunk) ? chunk : Buffer.from(String(chunk));
+      totalBytes += buf.length;
+      if (totalBytes > MAX_BODY_BYTES) {
+        aborted = true;
+        res.statusCode = 413;
+        res.setHeader("content-type", "application/json");
+        res.end(JSON.stringify(buildError(null, "Payload too large", -32600)));
+        req.destroy();
+        return;
+      }
+      chunks.push(buf);
+    });
+
+    req.on("end", async () => {
+      if (aborted) return;
+      try {
+        const raw = Buffer.concat(chunks).toString("utf-8");
+        const parsed = JSON.parse(raw) as JsonRpcRequest;
+        // Notifications (e.g. notifications/initialized) produce no response
+        // body per JSON-RPC; acknowledge with 202 Accepted and an empty body.
+        if (isNotification(parsed)) {
+          res.writeHead(202);
+          res.end();
+          return;
+        }
+        let target = session;
+        if (!target && parsed?.method === "initialize") {
+          target = createHttpSession();
+          res.setHeader(MCP_SESSION_HEADER, target.id);
+        }
+        const response = await routeRequest(parsed, target);
+        res.setHeader("content-type", "application/json");
+        res.writeHead(200);
+        res.end(JSON.stringify(response));
+      } catch (err: any) {
+        logError(err?.message || "Failed to process request");
+        res.statusCode = 400;
+        res.setHeader("content-type", "application/json");
+        res.end(JSON.stringify(buildError(null, "Bad request", -32700)));
+      }
+    });
+
+  };
+}
+
 // Internal exports for unit tests (kept small to avoid expanding public API surface).
 export const __test = {
   buildError,
@@ -895,6 +1902,14 @@ export const __test = {
   isLoopbackHost,
   headerValue,
   extractBearerToken,
+  isAuthorized,
+  handleDashboardRequest,
+  createHttpHandler,
+  serveStdio,
+  setResourceWatcher,
+  setHttpSessionGraceMs,
+  createHttpSession,
+  httpSessions,
   isNotification,
   wrapToolResult,
   MCP_PROTOCOL_VERSION,
@@ -905,10 +1920,32 @@ export const __test = {
   MCP_BUSY_ERROR_CODE,
 };
 
-export async function serveCommand(options: { port?: number; host?: string } = {}): Promise<void> {
+export async function serveCommand(
+  options: { port?: number; host?: string; dashboard?: boolean; stdio?: boolean } = {}
+): Promise<void> {
   const startedAtMs = Date.now();
   const command = "serve";
 
+  if (options.stdio) {
+    if (options.dashboard) {
+      reportError("--dashboard needs the HTTP transport", {
+        code: ErrorCode.INVALID_INPUT,
+        hint: "Run a separate 'cm serve --dashboard' for the web dashboard",
+        command,
+        startedAtMs,
+      });
+      return;
+    }
+    // No port, token or loopback checks: the client owns both ends of the pipe.
+    setAdmissionController(buildAdmissionController(await loadConfig()));
+    log(
+      `MCP stdio server ready (${TOOL_DEFS.length} tools, ${RESOURCE_DEFS.length} resources, ${PROMPT_DEFS.length} prompts)`,
+      true
+    );
+    await serveStdio();
+    return;
+  }
+
   const portFromArgs = validatePositiveInt(options.port, "port", { min: 1, max: 65535, allowUndefined: true });
   if (!portFromArgs.ok) {
     reportError(portFromArgs.message, {
@@ -994,69 +2031,7 @@ export async function serveCommand(options: { port?: number; host?: string } = {
     warn("Warning: Binding to 0.0.0.0 exposes the server to the network. Ensure this is intended.");
   }
 
-  const server = http.createServer(async (req, res) => {
-    if (req.method !== "POST") {
-      res.statusCode = 405;
-      res.end();
-      return;
-    }
-
-    if (token) {
-      const authHeader = headerValue(req.headers.authorization);
-      const bearer = extractBearerToken(authHeader);
-      const xToken = headerValue(req.headers["x-mcp-token"]);
-      const provided = bearer ?? (xToken ? xToken.trim() : undefined);
-
-      if (!provided || !tokensMatch(provided, token)) {
-        res.statusCode = 401;
-        res.setHeader("content-type", "application/json");
-        res.end(JSON.stringify(buildError(null, "Unauthorized", -32001)));
-        return;
-      }
-    }
-
-    const chunks: Buffer[] = [];
-    let totalBytes = 0;
-    let aborted = false;
-    req.on("data", (chunk) => {
-      if (aborted) return;
-      const buf = Buffer.isBuffer(chunk) ? chunk : Buffer.from(String(chunk));
-      totalBytes += buf.length;
-      if (totalBytes > MAX_BODY_BYTES) {
-        aborted = true;
-        res.statusCode = 413;
-        res.setHeader("content-type", "application/json");
-        res.end(JSON.stringify(buildError(null, "Payload too large", -32600)));
-        req.destroy();
-        return;
-      }
-      chunks.push(buf);
-    });
-
-    req.on("end", async () => {
-      if (aborted) return;
-      try {
-        const raw = Buffer.concat(chunks).toString("utf-8");
-        const parsed = JSON.parse(raw) as JsonRpcRequest;
-        // Notifications (e.g. notifications/initialized) produce no response
-        // body per JSON-RPC; acknowledge with 202 Accepted and an empty body.
-        if (isNotification(parsed)) {
-          res.writeHead(202);
-          res.end();
-          return;
-        }
-        const response = await routeRequest(parsed);
-        res.setHeader("content-type", "application/json");
-        res.writeHead(200);
-        res.end(JSON.stringify(response));
-      } catch (err: any) {
-        logError(err?.message || "Failed to process request");
-        res.statusCode = 400;
-        res.setHeader("content-type", "application/json");
-        res.end(JSON.stringify(buildError(null, "Bad request", -32700)));
-      }
-    });
-  });
+  const server = http.createServer(createHttpHandler({ token, dashboard: options.dashboard, loopbackOnly: loopback && !token }));
 
   await new Promise<void>((resolve, reject) => {
     server.listen(port, host, () => resolve());
@@ -1068,7 +2043,7 @@ export async function serveCommand(options: { port?: number; host?: string } = {
   if (token) {
     log(`Auth enabled via ${MCP_HTTP_TOKEN_ENV} (send: Authorization: Bearer <token> or X-MCP-Token)`, true);
   }
-  warn("Transport is HTTP-only; stdio/SSE are intentionally disabled.");
+  log("Transport: HTTP (run 'cm serve --stdio' to serve over stdin/stdout instead)", true);
   {
     const c = await getAdmissionController();
     if (c) {
@@ -1080,8 +2055,17 @@ export async function serveCommand(options: { port?: number; host?: string } = {
       warn("CASS admission limiter DISABLED (serve.maxConcurrentCassCalls <= 0): concurrent CASS calls are unbounded.");
     }
   }
+  if (options.dashboard) {
+    log(`Dashboard: ${baseUrl}${DASHBOARD_PATH}${token ? "?token=<token>" : ""}`, true);
+  }
   log(`Tools: ${TOOL_DEFS.map((t) => t.name).join(", ")}`, true);
   log(`Resources: ${RESOURCE_DEFS.map((r) => r.uri).join(", ")}`, true);
+  log(`Resource templates: ${RESOURCE_TEMPLATE_DEFS.map((r) => r.uriTemplate).join(", ")}`, true);
+  log(`Prompts: ${PROMPT_DEFS.map((p) => p.name).join(", ")}`, true);
+  log(
+    `Resource notifications: GET ${baseUrl} with "accept: text/event-stream" and the ${MCP_SESSION_HEADER} header from initialize`,
+    true
+  );
   log("Example (list tools):", true);
   const authHeaderExample = token ? ` -H "authorization: Bearer <token>"` : "";
   log(
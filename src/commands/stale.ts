@@ -8,7 +8,7 @@ import { loadConfig } from "../config.js";
 import { loadMergedPlaybook, getActiveBullets } from "../playbook.js";
 import { getEffectiveScore } from "../scoring.js";
 import { getCliName, printJsonResult, reportError, validateOneOf, validatePositiveInt } from "../utils.js";
-import { ErrorCode, PlaybookBullet } from "../types.js";
+import { ErrorCode, PlaybookBullet, type Config } from "../types.js";
 import chalk from "chalk";
 import { formatRule, formatTipPrefix, getOutputStyle, wrapText } from "../output.js";
 
@@ -101,6 +101,71 @@ function getRecommendation(
   return `Review for current relevance (${cli} playbook get ${bulletId})`;
 }
 
+export interface StaleResult {
+  threshold: number;
+  count: number;
+  totalActive: number;
+  filters: { scope: "global" | "workspace" | "all" };
+  bullets: StaleBullet[];
+}
+
+/**
+ * Find active bullets whose last feedback (or creation, without feedback) is
+ * at least `threshold` days old, most stale first.
+ */
+export async function generateStaleResult(
+  config: Config,
+  options: { threshold: number; scope?: "global" | "workspace" | "all" }
+): Promise<StaleResult> {
+  const cli = getCliName();
+  const playbook = await loadMergedPlaybook(config);
+
+  let bullets = getActiveBullets(playbook);
+
+  // Apply scope filter
+  if (options.scope && options.scope !== "all") {
+    bullets = bullets.filter(b => b.scope === options.scope);
+  }
+
+  // Calculate staleness for each bullet
+  const staleBullets: StaleBullet[] = [];
+
+  for (const bullet of bullets) {
+    const staleness = calculateStaleness(bullet);
+
+    if (staleness.days >= options.threshold) {
+      const score = getEffectiveScore(bullet, config);
+      staleBullets.push({
+        id: bullet.id,
+        daysSinceLastFeedback: staleness.days,
+        content: bullet.content,
+        category: bullet.category || "uncategorized",
+        scope: bullet.scope || "global",
+        score: Number(score.toFixed(2)),
+        maturity: bullet.maturity || "candidate",
+        lastFeedback: {
+          action: staleness.lastAction,
+          timestamp: staleness.lastTimestamp
+        },
+        recommendation: getRecommendation(bullet.id, staleness.days, score, bullet.maturity || "candidate", cli)
+      });
+    }
+  }
+
+  // Sort by days descending (most stale first)
+  staleBullets.sort((a, b) => b.daysSinceLastFeedback - a.daysSinceLastFeedback);
+
+  return {
+    threshold: options.threshold,
+    count: staleBullets.length,
+    totalActive: bullets.length,
+    filters: {
+      scope: options.scope || "all"
+    },
+    bullets: staleBullets
+  };
+}
+
 export async function staleCommand(
   flags: StaleFlags = {}
 ): Promise<void> {
@@ -144,58 +209,15 @@ export async function staleCommand(
 
   const threshold = daysCheck.value ?? 90;
   const config = await loadConfig();
-  const playbook = await loadMergedPlaybook(config);
-
-  let bullets = getActiveBullets(playbook);
-
-  // Apply scope filter
-  if (normalizedFlags.scope && normalizedFlags.scope !== "all") {
-    bullets = bullets.filter(b => b.scope === normalizedFlags.scope);
-  }
-
-  // Calculate staleness for each bullet
-  const staleBullets: StaleBullet[] = [];
-
-  for (const bullet of bullets) {
-    const staleness = calculateStaleness(bullet);
-
-    if (staleness.days >= threshold) {
-      const score = getEffectiveScore(bullet, config);
-      staleBullets.push({
-        id: bullet.id,
-        daysSinceLastFeedback: staleness.days,
-        content: bullet.content,
-        category: bullet.category || "uncategorized",
-        scope: bullet.scope || "global",
-        score: Number(score.toFixed(2)),
-        maturity: bullet.maturity || "candidate",
-        lastFeedback: {
-          action: staleness.lastAction,
-          timestamp: staleness.lastTimestamp
-        },
-        recommendation: getRecommendation(bullet.id, staleness.days, score, bullet.maturity || "candidate", cli)
-      });
-    }
-  }
-
-  // Sort by days descending (most stale first)
-  staleBullets.sort((a, b) => b.daysSinceLastFeedback - a.daysSinceLastFeedback);
+  const result = await generateStaleResult(config, { threshold, scope: normalizedFlags.scope });
 
   if (flags.json) {
-    printJsonResult(command, {
-      threshold,
-      count: staleBullets.length,
-      totalActive: bullets.length,
-      filters: {
-        scope: normalizedFlags.scope || "all"
-      },
-      bullets: staleBullets
-    }, { startedAtMs });
+    printJsonResult(command, result, { startedAtMs });
     return;
   }
 
   // Human-readable output
-  printStaleBullets(staleBullets, threshold, bullets.length, normalizedFlags, cli);
+  printStaleBullets(result.bullets, threshold, result.totalActive, normalizedFlags, cli);
 }
 
 function printStaleBullets(
@@ -3,7 +3,8 @@ import { loadMergedPlaybook, getActiveBullets } from "../playbook.js";
 import {
   analyzeScoreDistribution,
   getEffectiveScore,
-  isStale
+  isStale,
+  resolveScoringStrategy
 } from "../scoring.js";
 import { findSemanticDuplicates } from "../semantic.js";
 import { isJsonOutput, isToonOutput, tokenize, printStructuredResult, reportError, validateOneOf } from "../utils.js";
@@ -38,6 +39,7 @@ export async function statsCommand(options: { json?: boolean; format?: "json" |
   const bullets = playbook.bullets;
   const activeBullets = getActiveBullets(playbook);
 
+  const scoringStrategy = resolveScoringStrategy(config);
   const distribution = analyzeScoreDistribution(activeBullets, config);
   const total = bullets.length;
 
@@ -48,7 +50,7 @@ export async function statsCommand(options: { json?: boolean; format?: "json" |
   // Health metrics should reflect active bullets (aligned with scoreDistribution and merge candidates).
   const scores = activeBullets.map((b) => ({
     bullet: b,
-    score: getEffectiveScore(b, config)
+    score: getEffectiveScore(b, config, scoringStrategy)
   }));
 
   const topPerformers = scores
@@ -95,6 +97,7 @@ export async function statsCommand(options: { json?: boolean; format?: "json" |
 
   const stats = {
     total,
+    scoringStrategy: scoringStrategy.name,
     byScope,
     byState,
     byKind,
@@ -173,6 +176,7 @@ function findMergeCandidates(
 
 function printHumanStats(stats: {
   total: number;
+  scoringStrategy: string;
   byScope: Record<string, number>;
   byState: Record<string, number>;
   byKind: Record<string, number>;
@@ -202,7 +206,7 @@ function printHumanStats(stats: {
     console.log(`  ${kind}: ${count}`);
   }
 
-  console.log(chalk.bold("\nScore Distribution:"));
+  console.log(chalk.bold("\nScore Distribution:") + chalk.dim(` (strategy: ${stats.scoringStrategy})`));
   console.log(`  ${iconPrefix("star")}Excellent (>=10): ${stats.scoreDistribution.excellent}`);
   console.log(`  ${iconPrefix("check")}Good (5-<10):     ${stats.scoreDistribution.good}`);
   console.log(`  ${iconPrefix("neutral")}Neutral (0-5):  ${stats.scoreDistribution.neutral}`);
@@ -0,0 +1,204 @@
+import chalk from "chalk";
+import { ErrorCode } from "../types.js";
+import {
+  addTeamRemote,
+  getTeamStatus,
+  isValidTeamName,
+  listTeams,
+  pullTeam,
+  pushTeam,
+  teamExists,
+  type TeamStatus,
+} from "../team.js";
+import { getCliName, printJsonResult, reportError, validateNonEmptyString } from "../utils.js";
+import { icon } from "../output.js";
+
+type TeamFlags = { json?: boolean };
+
+export async function teamCommand(
+  action: string | undefined,
+  args: string[],
+  flags: TeamFlags
+): Promise<void> {
+  const startedAtMs = Date.now();
+  const command = action ? `team ${action}` : "team";
+  const cli = getCliName();
+
+  try {
+    if (action === "add-remote") {
+      await addRemote(args, flags, command, startedAtMs);
+      return;
+    }
+
+    if (action === "pull" || action === "push" || action === "status") {
+      const names = await resolveTeamNames(args[0], flags, command, startedAtMs);
+      if (!names) return;
+
+      if (action === "status") {
+        await showStatus(names, flags, command, startedAtMs);
+      } else if (action === "pull") {
+        await pull(names, flags, command, startedAtMs);
+      } else {
+        await push(names, flags, command, startedAtMs);
+      }
+      return;
+    }
+
+    reportError(`Unknown team subcommand: ${action ?? "(none)"}`, {
+      code: ErrorCode.INVALID_INPUT,
+      hint: `Usage: ${cli} team [add-remote|pull|push|status] ...`,
+      details: { action },
+      json: flags.json,
+      command,
+      startedAtMs,
+    });
+  } catch (err: any) {
+    reportError(err instanceof Error ? err : String(err), {
+      code: ErrorCode.NETWORK_ERROR,
+      hint: "Check that the team remote is reachable and that you have access to it",
+      json: flags.json,
+      command,
+      startedAtMs,
+    });
+  }
+}
+
+/** A single named team, or every configured team when no name is given. */
+async function resolveTeamNames(
+  name: string | undefined,
+  flags: TeamFlags,
+  command: string,
+  startedAtMs: number
+): Promise<string[] | null> {
+  if (name === undefined) return await listTeams();
+
+  if (!(await teamExists(name))) {
+    reportError(`Team not found: ${name}`, {
+      code: ErrorCode.CONFIG_INVALID,
+      hint: `Run '${getCliName()} team add-remote ${name} <git-url>' first`,
+      details: { team: name, configured: await listTeams() },
+      json: flags.json,
+      command,
+      startedAtMs,
+    });
+    return null;
+  }
+  return [name];
+}
+
+async function addRemote(args: string[], flags: TeamFlags, command: string, startedAtMs: number): Promise<void> {
+  const [name, url] = args;
+  const usage = `Usage: ${getCliName()} team add-remote <name> <git-url>`;
+  if (!name || !isValidTeamName(name)) {
+    reportError(`Invalid team name: ${name ?? "(empty)"}`, {
+      code: ErrorCode.INVALID_INPUT,
+      hint: `${usage} (name: letters, digits, '.', '_', '-')`,
+      json: flags.json,
+      command,
+      startedAtMs,
+    });
+    return;
+  }
+  const urlCheck = validateNonEmptyString(url, "url");
+  if (!urlCheck.ok) {
+    reportError(urlCheck.message, {
+      code: ErrorCode.MISSING_REQUIRED,
+      hint: usage,
+      details: urlCheck.details,
+      json: flags.json,
+      command,
+      startedAtMs,
+    });
+    return;
+  }
+
+  if (await teamExists(name)) {
+    reportError(`Team already exists: ${name}`, {
+      code: ErrorCode.ALREADY_EXISTS,
+      hint: `Use '${getCliName()} team pull ${name}' to update it`,
+      json: flags.json,
+      command,
+      startedAtMs,
+    });
+    return;
+  }
+
+  const status = await addTeamRemote(name, urlCheck.value);
+
+  if (flags.json) {
+    printJsonResult(command, { team: status }, { startedAtMs });
+    return;
+  }
+  console.log(chalk.green(`${icon("success")} Added team ${name}`));
+  console.log(chalk.dim(`  ${status.remote} → ${status.dir}`));
+  console.log(chalk.dim(`  ${status.bulletCount} shared rules`));
+}
+
+function formatStatusLine(s: TeamStatus): string {
+  const sync: string[] = [];
+  if (s.ahead > 0) sync.push(chalk.yellow(`${s.ahead} to push`));
+  if (s.behind > 0) sync.push(chalk.cyan(`${s.behind} to pull`));
+  if (s.dirty) sync.push(chalk.yellow("uncommitted changes"));
+  const state = sync.length > 0 ? sync.join(", ") : chalk.green("in sync");
+  return `${chalk.bold(s.name)} ${chalk.dim(`(${s.branch ?? "detached"})`)} ${s.bulletCount} rules • ${state}`;
+}
+
+async function showStatus(names: string[], flags: TeamFlags, command: string, startedAtMs: number): Promise<void> {
+  const teams: TeamStatus[] = [];
+  for (const name of names) teams.push(await getTeamStatus(name));
+
+  if (flags.json) {
+    printJsonResult(command, { teams }, { startedAtMs });
+    return;
+  }
+
+  if (teams.length === 0) {
+    console.log(chalk.dim("No team playbooks configured."));
+    console.log(chalk.gray(`Add one with '${getCliName()} team add-remote <name> <git-url>'.`));
+    return;
+  }
+
+  console.log(chalk.bold(`TEAM PLAYBOOKS (${teams.length}):`));
+  for (const s of teams) {
+    console.log(formatStatusLine(s));
+    console.log(chalk.dim(`  ${s.remote ?? "(no remote)"}`));
+  }
+  console.log(chalk.dim("Counts are relative to the last fetch; 'team pull' refreshes them."));
+}
+
+async function pull(names: string[], flags: TeamFlags, command: string, startedAtMs: number): Promise<void> {
+  const results = [];
+  for (const name of names) results.push(await pullTeam(name));
+
+  if (flags.json) {
+    printJsonResult(command, { results }, { startedAtMs });
+    return;
+  }
+
+  if (results.length === 0) {
+    console.log(chalk.dim("No team playbooks configured."));
+    return;
+  }
+  for (const r of results) {
+    console.log(`${chalk.bold(r.name)}: ${r.outcome} ${chalk.dim(`(${r.bulletCount} rules)`)}`);
+  }
+}
+
+async function push(names: string[], flags: TeamFlags, command: string, startedAtMs: number): Promise<void> {
+  const results = [];
+  for (const name of names) results.push(await pushTeam(name));
+
+  if (flags.json) {
+    printJsonResult(command, { results }, { startedAtMs });
+    return;
+  }
+
+  if (results.length === 0) {
+    console.log(chalk.dim("No team playbooks configured."));
+    return;
+  }
+  for (const r of results) {
+    const pushed = r.pushed ? chalk.green(`pushed ${r.commits} commit(s)`) : chalk.dim("nothing to push");
+    console.log(`${chalk.bold(r.name)}: ${pushed} ${chalk.dim(`(pull: ${r.pull.outcome})`)}`);
+  }
+}
@@ -6,7 +6,7 @@
  */
 import { loadConfig } from "../config.js";
 import { loadMergedPlaybook, getActiveBullets } from "../playbook.js";
-import { getEffectiveScore } from "../scoring.js";
+import { getEffectiveScore, resolveScoringStrategy } from "../scoring.js";
 import {
   formatLastHelpful,
   getCliName,
@@ -110,9 +110,10 @@ export async function topCommand(
   }
 
   // Calculate scores and rank
+  const strategy = resolveScoringStrategy(config);
   const scored = bullets.map(b => ({
     bullet: b,
-    score: getEffectiveScore(b, config)
+    score: getEffectiveScore(b, config, strategy)
   }));
 
   // Sort by score descending
@@ -140,6 +141,7 @@ export async function topCommand(
   if (flags.json) {
     printJsonResult(command, {
       count: ranked.length,
+      scoringStrategy: strategy.name,
       filters: {
         scope: normalizedFlags.scope || "all",
         category: normalizedFlags.category || null
@@ -150,10 +152,10 @@ export async function topCommand(
   }
 
   // Human-readable output
-  printTopBullets(ranked, normalizedFlags);
+  printTopBullets(ranked, normalizedFlags, strategy.name);
 }
 
-function printTopBullets(bullets: RankedBullet[], flags: TopFlags): void {
+function printTopBullets(bullets: RankedBullet[], flags: TopFlags, strategyName: string): void {
   const style = getOutputStyle();
   const cli = getCliName();
   const maxWidth = Math.min(style.width, 84);
@@ -175,7 +177,7 @@ function printTopBullets(bullets: RankedBullet[], flags: TopFlags): void {
 
   console.log(chalk.bold("TOP"));
   console.log(divider);
-  console.log(chalk.dim(`Showing ${bullets.length} bullets${filterStr}`));
+  console.log(chalk.dim(`Showing ${bullets.length} bullets${filterStr} • scoring: ${strategyName}`));
   console.log("");
 
   for (const b of bullets) {
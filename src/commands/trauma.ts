@@ -121,8 +121,14 @@ async function listTraumas(json?: boolean) {
   }
 }
 
-async function addTrauma(args: string[], flags: { severity?: string; message?: string; scope?: string; json?: boolean }) {
-  const pattern = args[0];
+/**
+ * Validate and save a manually added trauma. Throws on an empty or invalid
+ * regex pattern, or an unknown severity or scope.
+ */
+export async function createTrauma(
+  pattern: string | undefined,
+  options: { severity?: string; scope?: string; message?: string }
+): Promise<TraumaEntry> {
   const patternCheck = validateNonEmptyString(pattern, "pattern");
   if (!patternCheck.ok) {
     throw new Error(patternCheck.message);
@@ -137,19 +143,19 @@ async function addTrauma(args: string[], flags: { severity?: string; message?: s
     throw new Error(`Invalid regex pattern: ${err?.message || String(err)}`);
   }
 
-  const severityCheck = validateOneOf(flags.severity, "severity", ["CRITICAL", "FATAL"] as const, { allowUndefined: true });
+  const severityCheck = validateOneOf(options.severity, "severity", ["CRITICAL", "FATAL"] as const, { allowUndefined: true });
   if (!severityCheck.ok) {
     throw new Error(severityCheck.message);
   }
   const severity = severityCheck.value || "CRITICAL";
 
-  const scopeCheck = validateOneOf(flags.scope, "scope", ["global", "project"] as const, { allowUndefined: true });
+  const scopeCheck = validateOneOf(options.scope, "scope", ["global", "project"] as const, { allowUndefined: true });
   if (!scopeCheck.ok) {
     throw new Error(scopeCheck.message);
   }
   const scope = scopeCheck.value || "global";
 
-  const message = flags.message || "Manually added trauma.";
+  const message = options.message || "Manually added trauma.";
 
   const entry: TraumaEntry = {
     id: `trauma-${crypto.randomBytes(4).toString("hex")}`,
@@ -166,6 +172,11 @@ async function addTrauma(args: string[], flags: { severity?: string; message?: s
   };
 
   await saveTrauma(entry);
+  return entry;
+}
+
+async function addTrauma(args: string[], flags: { severity?: string; message?: string; scope?: string; json?: boolean }) {
+  const entry = await createTrauma(args[0], flags);
 
   if (flags.json) {
     printJsonResult("trauma add", { entry }, { startedAtMs: Date.now() });
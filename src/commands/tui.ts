@@ -0,0 +1,296 @@
+import readline from "node:readline";
+import path from "node:path";
+import chalk from "chalk";
+import { loadConfig } from "../config.js";
+import {
+  applyTriageAction,
+  createTriageState,
+  currentTriageRow,
+  handleTriageKey,
+  loadTriageRows,
+  replaceTriageRows,
+  type TriageKey,
+  type TriageState,
+} from "../tui.js";
+import { buildWhyResult, type WhyResult } from "./why.js";
+import { ErrorCode, type Config } from "../types.js";
+import { getCliName, reportError, truncate } from "../utils.js";
+import { wrapText } from "../output.js";
+
+type Line = { text: string; style?: (s: string) => string };
+
+const ALT_SCREEN_ON = "\x1b[?1049h";
+const ALT_SCREEN_OFF = "\x1b[?1049l";
+const CURSOR_HIDE = "\x1b[?25l";
+const CURSOR_SHOW = "\x1b[?25h";
+const CLEAR = "\x1b[H\x1b[2J";
+
+const HELP_LINES = [
+  "Keys",
+  "",
+  "  up/down, j/k     move            PgUp/PgDn, g/G   page, top/bottom",
+  "  /                filter          Esc              clear filter and marks",
+  "  s                flip score sort r                reload from disk",
+  "",
+  "  +                mark helpful    -                mark harmful",
+  "  p                pin / unpin     d                deprecate (asks for a reason)",
+  "  e                edit the rule   space            mark for merging",
+  "  m                merge the marked rules into one",
+  "",
+  "  q, Ctrl-C        quit",
+  "",
+  "Press any key to go back.",
+];
+
+/** Widths of the list and detail panes for a terminal this wide. */
+function paneWidths(columns: number): { list: number; detail: number } {
+  const width = Math.max(40, columns);
+  const list = Math.max(30, Math.min(70, Math.floor(width * 0.45)));
+  return { list, detail: Math.max(10, width - list - 3) };
+}
+
+function fit(text: string, width: number): string {
+  const flat = text.replace(/[\r\n\t]+/g, " ");
+  if (flat.length <= width) return flat.padEnd(width);
+  return width <= 1 ? flat.slice(0, width) : `${flat.slice(0, width - 1)}…`;
+}
+
+function scoreStyle(score: number): (s: string) => string {
+  return score >= 5 ? chalk.green : score < 0 ? chalk.red : (s: string) => s;
+}
+
+function listLines(state: TriageState, width: number, height: number): Line[] {
+  const top = Math.max(0, Math.min(state.cursor - Math.floor(height / 2), state.visible.length - height));
+  const lines: Line[] = [];
+  for (const [offset, row] of state.visible.slice(top, top + height).entries()) {
+    const index = top + offset;
+    const b = row.bullet;
+    const cursor = index === state.cursor ? ">" : " ";
+    const mark = state.selected.includes(b.id) ? "*" : " ";
+    const pin = b.pinned ? "P" : " ";
+    const text = fit(`${cursor}${mark}${pin} ${row.score.toFixed(1).padStart(5)}  ${b.id}  ${b.content}`, width);
+    const style = index === state.cursor ? chalk.inverse : state.selected.includes(b.id) ? chalk.cyan : scoreStyle(row.score);
+    lines.push({ text, style });
+  }
+  if (state.visible.length === 0) {
+    lines.push({ text: fit(state.filter ? "No rules match the filter" : "The playbook has no active rules", width), style: chalk.dim });
+  }
+  return lines;
+}
+
+function section(lines: Line[], title: string, width: number): void {
+  lines.push({ text: "" });
+  lines.push({ text: title, style: chalk.bold });
+  lines.push({ text: "─".repeat(Math.min(width, 40)), style: chalk.dim });
+}
+
+/** The detail pane: what `cm why` shows, condensed to fit beside the list. */
+export function formatTriageDetail(why: WhyResult, width: number): Line[] {
+  const lines: Line[] = [];
+  const wrap = (text: string, style?: (s: string) => string, indent = "") =>
+    wrapText(text, width - indent.length).forEach((l) => lines.push({ text: indent + l, style }));
+
+  const b = why.bullet;
+  lines.push({ text: b.id, style: chalk.bold });
+  wrap(`${b.category} • ${b.maturity} • score ${b.score.toFixed(1)} (${b.scoringStrategy})`, chalk.dim);
+  wrap(`Created ${b.createdAt.slice(0, 10)} (${b.daysAgo} days ago) • ${why.currentStatus.helpfulCount} helpful / ${why.currentStatus.harmfulCount} harmful • ${why.currentStatus.effectiveness}`, chalk.dim);
+  lines.push({ text: "" });
+  wrap(b.content);
+
+  if (why.applicability.predicates.length > 0) {
+    section(lines, "Applicability", width);
+    wrap(`${why.applicability.applies ? "included" : "excluded"} in ${why.applicability.workspace}`, why.applicability.applies ? chalk.green : chalk.red);
+    for (const p of why.applicability.predicates) wrap(`${p.passed ? "+" : "-"} ${p.description}`, chalk.dim, "  ");
+  }
+
+  section(lines, "Provenance", width);
+  wrap(why.reasoning ? truncate(why.reasoning, 400) : "(No original reasoning recorded)", chalk.gray);
+  for (const e of why.evidence) wrap(`• ${truncate(e, 180)}`, chalk.green);
+
+  section(lines, `Sources (${why.sourceSessions.length})`, width);
+  if (why.sourceSessions.length === 0) lines.push({ text: "(No source sessions recorded)", style: chalk.dim });
+  for (const s of why.sourceSessions) {
+    wrap(`${s.path.split(/[\\/]/).slice(-2).join("/")}${s.date ? ` • ${s.date}` : ""}`, chalk.blue);
+    if (s.snippet) wrap(`"${truncate(s.snippet, 140)}"`, chalk.dim, "  ");
+  }
+
+  section(lines, "Feedback timeline", width);
+  if (why.feedbackHistory.length === 0) lines.push({ text: "(No feedback yet)", style: chalk.dim });
+  for (const f of why.feedbackHistory) {
+    const detail = [f.sessionPath ? path.basename(f.sessionPath) : "", f.reason ?? "", f.context ? truncate(f.context, 80) : ""]
+      .filter(Boolean)
+      .join(" • ");
+    wrap(`${f.timestamp.slice(0, 10)} ${f.type}${detail ? ` • ${detail}` : ""}`, f.type === "helpful" ? chalk.green : chalk.red);
+  }
+  return lines;
+}
+
+function footerLine(state: TriageState, width: number): Line {
+  if (state.prompt) {
+    const labels = { filter: "Filter", edit: "Edit rule", merge: "Merged rule", deprecate: "Deprecate reason" } as const;
+    const label = `${labels[state.prompt.kind]} (Enter to apply, Esc to cancel): `;
+    // Keep the end of long input visible
+    const room = Math.max(1, width - label.length - 1);
+    const value = state.prompt.value.length > room ? `…${state.prompt.value.slice(-(room - 1))}` : state.prompt.value;
+    return { text: fit(`${label}${value}_`, width), style: chalk.yellow };
+  }
+  if (state.status) return { text: fit(state.status, width), style: chalk.cyan };
+  return { text: fit("+ helpful  - harmful  p pin  d deprecate  e edit  space mark  m merge  / filter  ? help  q quit", width), style: chalk.dim };
+}
+
+/** Lay out the whole screen for the given terminal size. */
+export function renderTriageScreen(
+  state: TriageState,
+  detail: Line[] | undefined,
+  size: { columns: number; rows: number }
+): string[] {
+  const width = Math.max(40, size.columns);
+  const bodyHeight = Math.max(3, size.rows - 3);
+  const order = state.order === "desc" ? "highest score first" : "lowest score first";
+  const header: Line = {
+    text: fit(
+      `${getCliName()} tui — ${state.visible.length}/${state.rows.length} rules, ${order}` +
+        (state.filter ? `, filter "${state.filter}"` : "") +
+        (state.selected.length > 0 ? `, ${state.selected.length} marked` : ""),
+      width
+    ),
+    style: chalk.bold,
+  };
+
+  let body: string[];
+  if (state.showHelp) {
+    body = HELP_LINES.map((l) => fit(l, width));
+  } else {
+    const { list: listWidth, detail: detailWidth } = paneWidths(width);
+    const list = listLines(state, listWidth, bodyHeight);
+    const right = detail ?? [{ text: currentTriageRow(state) ? "Loading…" : "", style: chalk.dim }];
+    body = [];
+    for (let i = 0; i < bodyHeight; i++) {
+      const l = list[i] ?? { text: " ".repeat(listWidth) };
+      const r = right[i] ?? { text: "" };
+      const leftText = l.style ? l.style(l.text) : l.text;
+      const rightText = fit(r.text, detailWidth).trimEnd();
+      body.push(`${leftText} ${chalk.dim("│")} ${r.style ? r.style(rightText) : rightText}`);
+    }
+  }
+
+  const footer = footerLine(state, width);
+  return [
+    header.style!(header.text),
+    ...body.slice(0, bodyHeight),
+    ...Array.from({ length: Math.max(0, bodyHeight - body.length) }, () => ""),
+    "",
+    footer.style ? footer.style(footer.text) : footer.text,
+  ];
+}
+
+export async function tuiCommand(): Promise<void> {
+  const startedAtMs = Date.now();
+  const command = "tui";
+  const cli = getCliName();
+
+  if (!process.stdin.isTTY || !process.stdout.isTTY) {
+    reportError("cm tui needs an interactive terminal", {
+      code: ErrorCode.INVALID_INPUT,
+      hint: `For scripts use '${cli} playbook list --json', '${cli} why <id> --json' and '${cli} mark'`,
+      command,
+      startedAtMs,
+    });
+    return;
+  }
+
+  let config: Config;
+  let state: TriageState;
+  try {
+    config = await loadConfig();
+    state = createTriageState(await loadTriageRows(config));
+  } catch (err: any) {
+    reportError(err instanceof Error ? err : String(err), { code: ErrorCode.INTERNAL_ERROR, command, startedAtMs });
+    return;
+  }
+
+  const stdin = process.stdin;
+  const stdout = process.stdout;
+  const details = new Map<string, Line[]>();
+  const detailKey = () => {
+    const row = currentTriageRow(state);
+    return row ? `${row.bullet.id}@${row.bullet.updatedAt}` : undefined;
+  };
+  const size = () => ({ columns: stdout.columns || 80, rows: stdout.rows || 24 });
+
+  const render = () => {
+    const key = detailKey();
+    stdout.write(CLEAR + renderTriageScreen(state, key ? details.get(key) : undefined, size()).join("\n"));
+  };
+
+  const loadDetail = async () => {
+    const key = detailKey();
+    const row = currentTriageRow(state);
+    if (!key || !row || details.has(key)) return;
+    try {
+      details.set(key, formatTriageDetail(await buildWhyResult(row.bullet, config), paneWidths(size().columns).detail));
+    } catch (err: any) {
+      details.set(key, [{ text: `Could not load details: ${err?.message ?? err}`, style: chalk.red }]);
+    }
+    if (detailKey() === key) render();
+  };
+
+  readline.emitKeypressEvents(stdin);
+  stdin.setRawMode(true);
+  stdin.resume();
+  stdout.write(ALT_SCREEN_ON + CURSOR_HIDE);
+
+  await new Promise<void>((resolve) => {
+    let busy = false;
+
+    const onResize = () => {
+      details.clear();
+      render();
+      void loadDetail();
+    };
+
+    const finish = () => {
+      stdin.off("keypress", onKeypress);
+      stdout.off("resize", onResize);
+      stdin.setRawMode(false);
+      stdin.pause();
+      stdout.write(CURSOR_SHOW + ALT_SCREEN_OFF);
+      resolve();
+    };
+
+    const onKeypress = async (str: string | undefined, key: TriageKey | undefined) => {
+      if (busy) return;
+      const result = handleTriageKey(state, { ...key, sequence: key?.sequence ?? str }, Math.max(1, size().rows - 4));
+      state = result.state;
+      if (state.quit) {
+        finish();
+        return;
+      }
+
+      if (result.action || result.reload) {
+        busy = true;
+        try {
+          if (result.action) {
+            state = { ...state, status: "Working…" };
+            render();
+            state = { ...state, status: await applyTriageAction(config, result.action) };
+          }
+          details.clear();
+          state = replaceTriageRows(state, await loadTriageRows(config));
+        } catch (err: any) {
+          state = { ...state, status: `Error: ${err?.message ?? err}` };
+        } finally {
+          busy = false;
+        }
+      }
+
+      render();
+      void loadDetail();
+    };
+
+    stdin.on("keypress", onKeypress);
+    stdout.on("resize", onResize);
+    render();
+    void loadDetail();
+  });
+}
@@ -36,7 +36,7 @@ export interface UndoFlags {
   reason?: string;
 }
 
-interface UndoResult {
+export interface UndoResult {
   bulletId: string;
   action: "un-deprecate" | "undo-feedback" | "hard-delete";
   path?: string;
@@ -63,6 +63,8 @@ interface UndoResult {
   message: string;
 }
 
+export type UndoAction = UndoResult["action"];
+
 /**
  * Un-deprecate a bullet - restore it to active state
  */
@@ -151,177 +153,37 @@ async function findBulletLocation(
   return null;
 }
 
-export async function undoCommand(
-  bulletId: string,
-  flags: UndoFlags = {}
-): Promise<void> {
-  const startedAtMs = Date.now();
-  const command = "undo";
-  const config = await loadConfig();
-  const cli = getCliName();
-  const repoDir = await resolveRepoDir();
-
-  // Find which playbook contains this bullet
-  let location: Awaited<ReturnType<typeof findBulletLocation>>;
-  try {
-    location = await findBulletLocation(bulletId, config);
-  } catch (err: any) {
-    const message = err?.message || String(err);
-    reportError(err instanceof Error ? err : message, {
-      code: ErrorCode.PLAYBOOK_CORRUPT,
-      hint: repoDir
-        ? `Fix or remove the repo playbook at ${path.join(repoDir, "playbook.yaml")} (or run from outside the repo).`
-        : "Fix your playbook file and re-run.",
-      details: { bulletId },
-      json: flags.json,
-      command,
-      startedAtMs,
-    });
-    return;
-  }
-
-  if (!location) {
-    reportError(`Bullet not found: ${bulletId}`, {
-      code: ErrorCode.BULLET_NOT_FOUND,
-      details: { bulletId },
-      json: flags.json,
-      command,
-      startedAtMs,
-    });
-    return;
+/** Thrown when the bullet exists but has nothing for the requested undo to revert. */
+export class UndoNotApplicableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UndoNotApplicableError";
   }
+}
 
-  const { playbook, path: playbookPath, location: loc } = location;
+/**
+ * Apply one undo to a bullet in whichever playbook (repo or global) holds it:
+ * restore a deprecated bullet, drop its last feedback event, or delete it.
+ * Callers confirm hard deletes first.
+ */
+export async function undoBulletChange(config: Config, bulletId: string, action: UndoAction): Promise<UndoResult> {
+  const location = await findBulletLocation(bulletId, config);
+  if (!location) throw new Error(`Bullet not found: ${bulletId}`);
+  const { path: playbookPath, location: loc } = location;
+  const repoDir = await resolveRepoDir();
 
   // Use withLock for consistent concurrent access safety
-  try {
-    await withLock(playbookPath, async () => {
-      // Reload inside lock to prevent race conditions
-      const currentPlaybook = await loadPlaybook(playbookPath);
-      const bullet = findBullet(currentPlaybook, bulletId);
-
-      if (!bullet) {
-        // Throw to release lock and propagate error to outer try/catch
-        throw new Error(`Bullet ${bulletId} not found in ${playbookPath} during write lock.`);
-      }
-
-    const preview = truncate(bullet.content.trim().replace(/\s+/g, " "), 100);
-
-    // Handle --dry-run: show what would happen without making changes
-    if (flags.dryRun) {
-      const events = bullet.feedbackEvents || [];
-      const lastEvent = events.length > 0 ? events[events.length - 1] : null;
-
-      let actionType: string;
-      let wouldChange: string;
-      let applyCommand: string;
-
-      if (flags.hard) {
-        actionType = "hard-delete";
-        wouldChange = "Bullet would be permanently removed from playbook";
-        applyCommand = `${cli} undo ${bulletId} --hard --yes`;
-      } else if (flags.feedback) {
-        if (!lastEvent) {
-          reportError(`No feedback events to undo for bullet ${bulletId}`, {
-            code: ErrorCode.INVALID_INPUT,
-            details: { bulletId, action: "undo-feedback" },
-            json: flags.json,
-            command,
-            startedAtMs,
-          });
-          return;
-        }
-        actionType = "undo-feedback";
-        wouldChange = `Would remove last ${lastEvent.type} feedback from ${lastEvent.timestamp?.slice(0, 10) || "unknown"}`;
-        applyCommand = `${cli} undo ${bulletId} --feedback`;
-      } else {
-        if (!bullet.deprecated) {
-          reportError(`Bullet ${bulletId} is not deprecated`, {
-            code: ErrorCode.INVALID_INPUT,
-            hint: "Use --feedback to undo the last feedback event, or --hard to delete",
-            details: { bulletId, action: "un-deprecate" },
-            json: flags.json,
-            command,
-            startedAtMs,
-          });
-          return;
-        }
-        actionType = "un-deprecate";
-        wouldChange = "Bullet would be restored to active state (deprecated → active, maturity reset to candidate if needed)";
-        applyCommand = `${cli} undo ${bulletId}`;
-      }
-
-      const plan = {
-        dryRun: true,
-        action: actionType,
-        bulletId,
-        path: playbookPath,
-        location: loc,
-        preview,
-        category: bullet.category,
-        before: {
-          deprecated: bullet.deprecated,
-          state: bullet.state,
-          maturity: bullet.maturity,
-          helpfulCount: bullet.helpfulCount,
-          harmfulCount: bullet.harmfulCount,
-          ...(flags.feedback && lastEvent ? { lastFeedback: lastEvent } : {}),
-        },
-        wouldChange,
-        applyCommand,
-      };
-
-      if (flags.json) {
-        printJsonResult(command, { plan }, { startedAtMs });
-      } else {
-        console.log(chalk.bold.yellow("DRY RUN - No changes will be made"));
-        console.log(chalk.gray("─".repeat(50)));
-        console.log();
-        console.log(`Action: ${chalk.bold(actionType.toUpperCase())}`);
-        console.log(`Bullet ID: ${chalk.cyan(bulletId)}`);
-        console.log(`File: ${chalk.gray(playbookPath)} (${loc})`);
-        console.log(`Preview: ${chalk.cyan(`"${preview}"`)}`);
-        console.log(`Category: ${chalk.cyan(bullet.category)}`);
-        console.log(`Feedback: ${bullet.helpfulCount || 0}+ / ${bullet.harmfulCount || 0}-`);
-        console.log(`State: ${bullet.state}, Maturity: ${bullet.maturity}, Deprecated: ${bullet.deprecated}`);
-        if (flags.feedback && lastEvent) {
-          console.log(`Last feedback: ${chalk.yellow(lastEvent.type)} at ${lastEvent.timestamp?.slice(0, 10) || "unknown"}`);
-        }
-        console.log();
-        console.log(chalk.yellow(`Would: ${wouldChange}`));
-        console.log();
-        console.log(chalk.gray(`To apply: ${applyCommand}`));
-      }
-      return;
+  return withLock(playbookPath, async () => {
+    // Reload inside lock to prevent race conditions
+    const currentPlaybook = await loadPlaybook(playbookPath);
+    const bullet = findBullet(currentPlaybook, bulletId);
+
+    if (!bullet) {
+      // Throw to release lock and propagate error to the caller
+      throw new Error(`Bullet ${bulletId} not found in ${playbookPath} during write lock.`);
     }
 
-    let result: UndoResult;
-
-    if (flags.hard) {
-      const confirmed = await confirmDangerousAction({
-        action: `Permanently delete bullet ${bulletId} (${loc} playbook)`,
-        details: [
-          `File: ${playbookPath}`,
-          `Preview: "${preview}"`,
-          `Tip: Use --yes to confirm in non-interactive mode`,
-        ],
-        confirmPhrase: "DELETE",
-        yes: flags.yes,
-        json: flags.json,
-      });
-
-      if (!confirmed) {
-        reportError("Confirmation required for --hard deletion", {
-          code: ErrorCode.MISSING_REQUIRED,
-          hint: "Re-run with --yes in non-interactive mode",
-          details: { confirmPhrase: "DELETE" },
-          json: flags.json,
-          command,
-          startedAtMs,
-        });
-        return;
-      }
-
+    if (action === "hard-delete") {
       // Hard delete - remove the bullet entirely
       const before = {
         deprecated: bullet.deprecated,
@@ -332,39 +194,30 @@ export async function undoCommand(
       };
 
       const index = currentPlaybook.bullets.findIndex(b => b.id === bulletId);
-      if (index === -1) {
-        throw new Error(`Bullet ${bulletId} not found in ${playbookPath} during deletion.`);
-      }
       currentPlaybook.bullets.splice(index, 1);
-      await savePlaybook(currentPlaybook, playbookPath);
+      await savePlaybook(currentPlaybook, playbookPath, { command: "undo --hard" });
 
-      result = {
+      return {
         bulletId,
-        action: "hard-delete",
+        action,
         path: playbookPath,
-        preview,
+        preview: truncate(bullet.content.trim().replace(/\s+/g, " "), 100),
         before,
         after: { deleted: true },
         message: `Permanently deleted bullet ${bulletId} from ${loc} playbook`
       };
-    } else if (flags.feedback) {
+    }
+
+    if (action === "undo-feedback") {
       // Undo last feedback event
       const { before, removedEvent } = undoLastFeedback(bullet);
-
       if (!removedEvent) {
-        reportError(`No feedback events to undo for bullet ${bulletId}`, {
-          code: ErrorCode.INVALID_INPUT,
-          details: { bulletId, action: "undo-feedback" },
-          json: flags.json,
-          command,
-          startedAtMs,
-        });
-        return;
+        throw new UndoNotApplicableError(`No feedback events to undo for bullet ${bulletId}`);
       }
 
       // Recalculate maturity state
       bullet.maturity = calculateMaturityState(bullet, config);
-      
+
       // If it was auto-deprecated and now looks healthy, restore it
       if (bullet.deprecated && bullet.deprecationReason?.includes("Automatically deprecated") && bullet.maturity !== "deprecated") {
         bullet.deprecated = false;
@@ -373,11 +226,11 @@ export async function undoCommand(
         bullet.deprecationReason = undefined;
       }
 
-      await savePlaybook(currentPlaybook, playbookPath);
+      await savePlaybook(currentPlaybook, playbookPath, { command: "undo --feedback" });
 
-      result = {
+      return {
         bulletId,
-        action: "undo-feedback",
+        action,
         before,
         after: {
           helpfulCount: bullet.helpfulCount,
@@ -386,55 +239,210 @@ export async function undoCommand(
         },
         message: `Removed last ${removedEvent.type} feedback from ${bulletId}`
       };
+    }
+
+    // Default: un-deprecate
+    if (!bullet.deprecated) {
+      throw new UndoNotApplicableError(`Bullet ${bulletId} is not deprecated`);
+    }
+
+    const before = undeprecateBullet(bullet);
+
+    // Also remove from blocklist(s) so it doesn't get re-blocked on next load
+    await removeFromBlockedLog(bulletId, path.join(resolveGlobalDir(), "blocked.log"));
+    if (repoDir) {
+      const repoBlockedLog = path.join(repoDir, "blocked.log");
+      await removeFromBlockedLog(bulletId, repoBlockedLog);
+    }
+
+    await savePlaybook(currentPlaybook, playbookPath, { command: "undo" });
+
+    return {
+      bulletId,
+      action,
+      before,
+      after: {
+        deprecated: bullet.deprecated,
+        state: bullet.state,
+        maturity: bullet.maturity
+      },
+      message: `Restored bullet ${bulletId} from deprecated state`
+    };
+  });
+}
+
+export async function undoCommand(
+  bulletId: string,
+  flags: UndoFlags = {}
+): Promise<void> {
+  const startedAtMs = Date.now();
+  const command = "undo";
+  const config = await loadConfig();
+  const cli = getCliName();
+  const repoDir = await resolveRepoDir();
+
+  // Find which playbook contains this bullet
+  let location: Awaited<ReturnType<typeof findBulletLocation>>;
+  try {
+    location = await findBulletLocation(bulletId, config);
+  } catch (err: any) {
+    const message = err?.message || String(err);
+    reportError(err instanceof Error ? err : message, {
+      code: ErrorCode.PLAYBOOK_CORRUPT,
+      hint: repoDir
+        ? `Fix or remove the repo playbook at ${path.join(repoDir, "playbook.yaml")} (or run from outside the repo).`
+        : "Fix your playbook file and re-run.",
+      details: { bulletId },
+      json: flags.json,
+      command,
+      startedAtMs,
+    });
+    return;
+  }
+
+  if (!location) {
+    reportError(`Bullet not found: ${bulletId}`, {
+      code: ErrorCode.BULLET_NOT_FOUND,
+      details: { bulletId },
+      json: flags.json,
+      command,
+      startedAtMs,
+    });
+    return;
+  }
+
+  const { playbook, path: playbookPath, location: loc } = location;
+  const bullet = findBullet(playbook, bulletId)!;
+  const preview = truncate(bullet.content.trim().replace(/\s+/g, " "), 100);
+  const action: UndoAction = flags.hard ? "hard-delete" : flags.feedback ? "undo-feedback" : "un-deprecate";
+
+  // Handle --dry-run: show what would happen without making changes
+  if (flags.dryRun) {
+    const events = bullet.feedbackEvents || [];
+    const lastEvent = events.length > 0 ? events[events.length - 1] : null;
+
+    let wouldChange: string;
+    let applyCommand: string;
+
+    if (action === "hard-delete") {
+      wouldChange = "Bullet would be permanently removed from playbook";
+      applyCommand = `${cli} undo ${bulletId} --hard --yes`;
+    } else if (action === "undo-feedback") {
+      if (!lastEvent) {
+        reportUndoInputError(new Error(`No feedback events to undo for bullet ${bulletId}`), bulletId, action, flags, startedAtMs);
+        return;
+      }
+      wouldChange = `Would remove last ${lastEvent.type} feedback from ${lastEvent.timestamp?.slice(0, 10) || "unknown"}`;
+      applyCommand = `${cli} undo ${bulletId} --feedback`;
     } else {
-      // Default: un-deprecate
       if (!bullet.deprecated) {
-        reportError(`Bullet ${bulletId} is not deprecated`, {
-          code: ErrorCode.INVALID_INPUT,
-          hint: "Use --feedback to undo the last feedback event, or --hard to delete",
-          details: { bulletId, action: "un-deprecate" },
-          json: flags.json,
-          command,
-          startedAtMs,
-        });
+        reportUndoInputError(new Error(`Bullet ${bulletId} is not deprecated`), bulletId, action, flags, startedAtMs);
         return;
       }
+      wouldChange = "Bullet would be restored to active state (deprecated → active, maturity reset to candidate if needed)";
+      applyCommand = `${cli} undo ${bulletId}`;
+    }
 
-      const before = undeprecateBullet(bullet);
+    const plan = {
+      dryRun: true,
+      action,
+      bulletId,
+      path: playbookPath,
+      location: loc,
+      preview,
+      category: bullet.category,
+      before: {
+        deprecated: bullet.deprecated,
+        state: bullet.state,
+        maturity: bullet.maturity,
+        helpfulCount: bullet.helpfulCount,
+        harmfulCount: bullet.harmfulCount,
+        ...(flags.feedback && lastEvent ? { lastFeedback: lastEvent } : {}),
+      },
+      wouldChange,
+      applyCommand,
+    };
 
-      // Also remove from blocklist(s) so it doesn't get re-blocked on next load
-      await removeFromBlockedLog(bulletId, path.join(resolveGlobalDir(), "blocked.log"));
-      if (repoDir) {
-        const repoBlockedLog = path.join(repoDir, "blocked.log");
-        await removeFromBlockedLog(bulletId, repoBlockedLog);
+    if (flags.json) {
+      printJsonResult(command, { plan }, { startedAtMs });
+    } else {
+      console.log(chalk.bold.yellow("DRY RUN - No changes will be made"));
+      console.log(chalk.gray("─".repeat(50)));
+      console.log();
+      console.log(`Action: ${chalk.bold(action.toUpperCase())}`);
+      console.log(`Bullet ID: ${chalk.cyan(bulletId)}`);
+      console.log(`File: ${chalk.gray(playbookPath)} (${loc})`);
+      console.log(`Preview: ${chalk.cyan(`"${preview}"`)}`);
+      console.log(`Category: ${chalk.cyan(bullet.category)}`);
+      console.log(`Feedback: ${bullet.helpfulCount || 0}+ / ${bullet.harmfulCount || 0}-`);
+      console.log(`State: ${bullet.state}, Maturity: ${bullet.maturity}, Deprecated: ${bullet.deprecated}`);
+      if (flags.feedback && lastEvent) {
+        console.log(`Last feedback: ${chalk.yellow(lastEvent.type)} at ${lastEvent.timestamp?.slice(0, 10) || "unknown"}`);
       }
+      console.log();
+      console.log(chalk.yellow(`Would: ${wouldChange}`));
+      console.log();
+      console.log(chalk.gray(`To apply: ${applyCommand}`));
+    }
+    return;
+  }
 
-      await savePlaybook(currentPlaybook, playbookPath);
+  if (action === "hard-delete") {
+    const confirmed = await confirmDangerousAction({
+      action: `Permanently delete bullet ${bulletId} (${loc} playbook)`,
+      details: [
+        `File: ${playbookPath}`,
+        `Preview: "${preview}"`,
+        `Tip: Use --yes to confirm in non-interactive mode`,
+      ],
+      confirmPhrase: "DELETE",
+      yes: flags.yes,
+      json: flags.json,
+    });
 
-      result = {
-        bulletId,
-        action: "un-deprecate",
-        before,
-        after: {
-          deprecated: bullet.deprecated,
-          state: bullet.state,
-          maturity: bullet.maturity
-        },
-        message: `Restored bullet ${bulletId} from deprecated state`
-      };
+    if (!confirmed) {
+      reportError("Confirmation required for --hard deletion", {
+        code: ErrorCode.MISSING_REQUIRED,
+        hint: "Re-run with --yes in non-interactive mode",
+        details: { confirmPhrase: "DELETE" },
+        json: flags.json,
+        command,
+        startedAtMs,
+      });
+      return;
     }
+  }
 
-    if (flags.json) {
-      printJsonResult(command, result, { startedAtMs });
-    } else {
-      printUndoResult(result, bullet);
-    }
-    });
+  let result: UndoResult;
+  try {
+    result = await undoBulletChange(config, bulletId, action);
   } catch (err: any) {
+    if (err instanceof UndoNotApplicableError) {
+      reportUndoInputError(err, bulletId, action, flags, startedAtMs);
+      return;
+    }
     const message = err?.message || String(err);
     const code = message.includes("not found") ? ErrorCode.BULLET_NOT_FOUND : ErrorCode.INTERNAL_ERROR;
     reportError(err instanceof Error ? err : message, { code, details: { bulletId }, json: flags.json, command, startedAtMs });
+    return;
   }
+
+  if (flags.json) {
+    printJsonResult(command, result, { startedAtMs });
+  } else {
+    printUndoResult(result, bullet);
+  }
+}
+
+function reportUndoInputError(err: Error, bulletId: string, action: UndoAction, flags: UndoFlags, startedAtMs: number): void {
+  reportError(err.message, {
+    code: ErrorCode.INVALID_INPUT,
+    ...(action === "un-deprecate" ? { hint: "Use --feedback to undo the last feedback event, or --hard to delete" } : {}),
+    details: { bulletId, action },
+    json: flags.json,
+    command: "undo",
+    startedAtMs,
+  });
 }
 
 function printUndoResult(result: UndoResult, bullet?: PlaybookBullet): void {
@@ -0,0 +1,98 @@
+import chalk from "chalk";
+import { runWatchLoop, type WatchCycle, type WatchedSession } from "../watch.js";
+import { ErrorCode } from "../types.js";
+import {
+  buildJsonSuccessPayload,
+  getCliName,
+  printJsonResult,
+  reportError,
+  validatePositiveInt,
+  writeStdoutSync,
+} from "../utils.js";
+import { icon } from "../output.js";
+
+export interface WatchFlags {
+  dir?: string[];
+  idleMinutes?: number;
+  interval?: number;
+  llm?: boolean;
+  once?: boolean;
+  json?: boolean;
+}
+
+function describeSession(item: WatchedSession): string {
+  if (item.error) return chalk.red(`${icon("failure")} ${item.sessionPath}: ${item.error}`);
+  if (item.skipped) return chalk.dim(`- ${item.sessionPath}: ${item.skipped}`);
+
+  const parts = [`diary ${item.diaryId} (${item.diaryMode}, ${item.status})`];
+  if (item.outcome) {
+    const rules = item.outcome.rulesUsed.length;
+    parts.push(`outcome ${item.outcome.outcome} for ${rules} rule${rules === 1 ? "" : "s"}`);
+  }
+  const lines = [`${chalk.green(icon("success"))} ${item.sessionPath}: ${parts.join("; ")}`];
+  for (const trauma of item.traumas) {
+    lines.push(chalk.yellow(`  ${icon("warning")} Trauma candidate: ${trauma.description} (${trauma.evidence.trim()})`));
+  }
+  return lines.join("\n");
+}
+
+function printCycle(cycle: WatchCycle, first: boolean): void {
+  if (first) {
+    console.log(chalk.bold(`Watching ${cycle.roots.length} session director${cycle.roots.length === 1 ? "y" : "ies"}`));
+    for (const root of cycle.roots) console.log(chalk.dim(`  ${root}`));
+  }
+  if (cycle.baseline) {
+    console.log("Recorded a baseline; sessions that finish from now on get a diary.");
+    return;
+  }
+  for (const item of cycle.processed) console.log(describeSession(item));
+}
+
+export async function watchCommand(flags: WatchFlags = {}): Promise<void> {
+  const startedAtMs = Date.now();
+  const command = "watch";
+  const cli = getCliName();
+
+  for (const [name, value] of [["idle-minutes", flags.idleMinutes], ["interval", flags.interval]] as const) {
+    const check = validatePositiveInt(value, name, { min: 1, allowUndefined: true });
+    if (!check.ok) {
+      reportError(check.message, {
+        code: ErrorCode.INVALID_INPUT,
+        details: check.details,
+        hint: `Example: ${cli} watch --idle-minutes 10 --interval 30`,
+        json: flags.json,
+        command,
+        startedAtMs,
+      });
+      return;
+    }
+  }
+
+  try {
+    let first = true;
+    const last = await runWatchLoop({
+      dirs: flags.dir,
+      idleMinutes: flags.idleMinutes,
+      pollSeconds: flags.interval,
+      llm: flags.llm,
+      maxCycles: flags.once ? 1 : undefined,
+      onCycle: (cycle) => {
+        if (!flags.json) {
+          printCycle(cycle, first);
+        } else if (!flags.once && cycle.processed.length > 0) {
+          // Long-running: one compact envelope per poll that processed something
+          writeStdoutSync(`${JSON.stringify(buildJsonSuccessPayload(command, cycle))}\n`);
+        }
+        first = false;
+      },
+    });
+    if (flags.json && flags.once && last) printJsonResult(command, last, { startedAtMs });
+  } catch (err: any) {
+    reportError(err instanceof Error ? err : String(err), {
+      code: ErrorCode.INTERNAL_ERROR,
+      json: flags.json,
+      command,
+      startedAtMs,
+    });
+  }
+}
@@ -7,26 +7,31 @@
 import { loadConfig } from "../config.js";
 import { findDiaryBySession, loadDiary, loadAllDiaries } from "../diary.js";
 import { loadMergedPlaybook, findBullet } from "../playbook.js";
-import { getEffectiveScore } from "../scoring.js";
+import { getEffectiveScore, resolveScoringStrategy } from "../scoring.js";
 import { truncate, printJsonResult, reportError, expandPath, getCliName } from "../utils.js";
 import { ErrorCode } from "../types.js";
-import { PlaybookBullet, DiaryEntry, Config } from "../types.js";
+import { PlaybookBullet, DiaryEntry, Config, Playbook } from "../types.js";
 import chalk from "chalk";
 import { formatKv, formatRule, formatTipPrefix, getOutputStyle, icon, wrapText } from "../output.js";
+import { createWorkspaceProbe, evaluateApplicability, type PredicateResult } from "../applicability.js";
+import { resolveWorkspaceFilter } from "./context.js";
 import path from "node:path";
 
 export interface WhyFlags {
   verbose?: boolean;
   json?: boolean;
+  /** Workspace to evaluate `appliesWhen` predicates against (default: cwd). */
+  workspace?: string;
 }
 
-interface WhyResult {
+export interface WhyResult {
   bullet: {
     id: string;
     content: string;
     category: string;
     maturity: string;
     score: number;
+    scoringStrategy: string;
     createdAt: string;
     daysAgo: number;
   };
@@ -53,6 +58,11 @@ interface WhyResult {
     harmfulCount: number;
     effectiveness: string;
   };
+  applicability: {
+    workspace: string;
+    applies: boolean;
+    predicates: PredicateResult[];
+  };
 }
 
 function daysSince(dateStr: string): number {
@@ -69,6 +79,34 @@ function getEffectiveness(score: number, helpfulCount: number): string {
   return "Negative";
 }
 
+/**
+ * Find a bullet by exact id, falling back to the best unique prefix or
+ * substring match so short ids from `cm context` output work too.
+ */
+export function matchBulletId(
+  playbook: Playbook,
+  needle: string
+): { bullet: PlaybookBullet } | { error: "not_found" } | { error: "ambiguous"; matches: string[] } {
+  const exact = findBullet(playbook, needle);
+  if (exact) return { bullet: exact };
+
+  const lower = needle.toLowerCase();
+  const scored = playbook.bullets
+    .map((b) => {
+      const idLower = b.id.toLowerCase();
+      const score =
+        idLower === lower ? 3 : idLower.startsWith(lower) ? 2 : idLower.includes(lower) ? 1 : 0;
+      return score > 0 ? { bullet: b, score } : null;
+    })
+    .filter((x): x is { bullet: PlaybookBullet; score: number } => x !== null);
+
+  if (scored.length === 0) return { error: "not_found" };
+
+  const bestScore = Math.max(...scored.map((c) => c.score));
+  const best = scored.filter((c) => c.score === bestScore).map((c) => c.bullet);
+  return best.length === 1 ? { bullet: best[0] } : { error: "ambiguous", matches: best.map((b) => b.id) };
+}
+
 export async function whyCommand(
   bulletId: string,
   flags: WhyFlags = {}
@@ -90,19 +128,9 @@ export async function whyCommand(
     return;
   }
 
-  let bullet = findBullet(playbook, needle);
-  if (!bullet) {
-    const lower = needle.toLowerCase();
-    const scored = playbook.bullets
-      .map((b) => {
-        const idLower = b.id.toLowerCase();
-        const score =
-          idLower === lower ? 3 : idLower.startsWith(lower) ? 2 : idLower.includes(lower) ? 1 : 0;
-        return score > 0 ? { bullet: b, score } : null;
-      })
-      .filter((x): x is { bullet: PlaybookBullet; score: number } => x !== null);
-
-    if (scored.length === 0) {
+  const match = matchBulletId(playbook, needle);
+  if ("error" in match) {
+    if (match.error === "not_found") {
       reportError(`Bullet not found: ${needle}`, {
         code: ErrorCode.BULLET_NOT_FOUND,
         details: { bulletId: needle },
@@ -112,28 +140,21 @@ export async function whyCommand(
       });
       return;
     }
-
-    const bestScore = Math.max(...scored.map((c) => c.score));
-    const best = scored.filter((c) => c.score === bestScore).map((c) => c.bullet);
-
-    if (best.length === 1) {
-      bullet = best[0];
-    } else {
-      const ids = best.map((b) => b.id);
-      const sample = ids.slice(0, 8).join(", ");
-      reportError(`Ambiguous bullet id: ${needle}`, {
-        code: ErrorCode.INVALID_INPUT,
-        hint: `Matches: ${sample}${ids.length > 8 ? ` … (+${ids.length - 8} more)` : ""}`,
-        details: { bulletId: needle, matchCount: ids.length, matches: ids.slice(0, 50) },
-        json: flags.json,
-        command,
-        startedAtMs,
-      });
-      return;
-    }
+    const ids = match.matches;
+    const sample = ids.slice(0, 8).join(", ");
+    reportError(`Ambiguous bullet id: ${needle}`, {
+      code: ErrorCode.INVALID_INPUT,
+      hint: `Matches: ${sample}${ids.length > 8 ? ` … (+${ids.length - 8} more)` : ""}`,
+      details: { bulletId: needle, matchCount: ids.length, matches: ids.slice(0, 50) },
+      json: flags.json,
+      command,
+      startedAtMs,
+    });
+    return;
   }
+  const bullet = match.bullet;
 
-  const result = await buildWhyResult(bullet, config, flags.verbose);
+  const result = await buildWhyResult(bullet, config, flags.verbose, flags.workspace);
 
   if (flags.json) {
     printJsonResult(command, result, { startedAtMs });
@@ -142,12 +163,14 @@ export async function whyCommand(
   }
 }
 
-async function buildWhyResult(
+export async function buildWhyResult(
   bullet: PlaybookBullet,
   config: Config,
-  verbose?: boolean
+  verbose?: boolean,
+  workspace?: string
 ): Promise<WhyResult> {
-  const score = getEffectiveScore(bullet, config);
+  const strategy = resolveScoringStrategy(config);
+  const score = getEffectiveScore(bullet, config, strategy);
   const sourceSessions = bullet.sourceSessions || [];
 
   // Collect evidence from source sessions
@@ -220,6 +243,9 @@ async function buildWhyResult(
     evidence.push(...quotes.map(q => q.replace(/"/g, "")));
   }
 
+  const probe = await createWorkspaceProbe(resolveWorkspaceFilter(workspace) ?? process.cwd());
+  const applicability = await evaluateApplicability(bullet, probe);
+
   return {
     bullet: {
       id: bullet.id,
@@ -227,6 +253,7 @@ async function buildWhyResult(
       category: bullet.category || "uncategorized",
       maturity: bullet.maturity || "candidate",
       score: Number(score.toFixed(2)),
+      scoringStrategy: strategy.name,
       createdAt: bullet.createdAt,
       daysAgo: daysSince(bullet.createdAt)
     },
@@ -239,6 +266,11 @@ async function buildWhyResult(
       helpfulCount: bullet.helpfulCount || 0,
       harmfulCount: bullet.harmfulCount || 0,
       effectiveness: getEffectiveness(score, bullet.helpfulCount || 0)
+    },
+    applicability: {
+      workspace: probe.root,
+      applies: applicability.applies,
+      predicates: applicability.results
     }
   };
 }
@@ -260,7 +292,7 @@ function printWhyResult(result: WhyResult, verbose?: boolean): void {
       chalk.dim(
         ` ${result.bullet.category} • ${result.bullet.maturity} • score ${scoreColor(
           result.bullet.score.toFixed(1)
-        )}`
+        )} (${result.bullet.scoringStrategy})`
       )
   );
   console.log("");
@@ -291,6 +323,22 @@ function printWhyResult(result: WhyResult, verbose?: boolean): void {
   }
   console.log("");
 
+  console.log(chalk.bold("Applicability"));
+  console.log(divider);
+  if (result.applicability.predicates.length === 0) {
+    console.log(chalk.dim("  Applies everywhere (no predicates)"));
+  } else {
+    const verdict = result.applicability.applies ? chalk.green("included") : chalk.red("excluded");
+    console.log(`  ${verdict} ${chalk.dim(`in ${result.applicability.workspace}`)}`);
+    for (const p of result.applicability.predicates) {
+      const badge = p.passed ? chalk.green(icon("success")) : chalk.red(icon("failure"));
+      const observed = p.observed ? chalk.dim(` (found: ${p.observed})`) : "";
+      const origin = p.fromScope ? chalk.dim(" [scope]") : "";
+      console.log(`  ${badge} ${p.description}${origin}${observed}`);
+    }
+  }
+  console.log("");
+
   console.log(chalk.bold("Reasoning"));
   console.log(divider);
   if (result.reasoning) {
@@ -217,6 +217,13 @@ export async function loadConfig(cliOverrides: Partial<Config> = {}): Promise<Co
     // `serve` is a deployment concern (bounds a shared `cm serve` process); a
     // committed repo config must not weaken/override a host's admission limits.
     delete (repoConfig as any).serve;
+    // The reflection daemon is global (one per user), so its schedule is too.
+    delete (repoConfig as any).daemon;
+    // Watched directories are read from disk, so only the user may choose them.
+    delete (repoConfig as any).watch;
+    // A repo may require review of its reflections, but must not waive the
+    // user's own requirement.
+    if (repoConfig.curation?.requireApproval !== true) delete repoConfig.curation;
   }
 
   // Migrate CLI overrides as well (unlikely but complete)
@@ -328,6 +335,28 @@ export async function loadConfig(cliOverrides: Partial<Config> = {}): Promise<Co
       ...(envOverrides.serve || {}),
       ...(cliOverrides.serve || {}),
     },
+    daemon: {
+      ...defaults.daemon,
+      ...(globalConfig.daemon || {}),
+      ...(cliOverrides.daemon || {}),
+    },
+    curation: {
+      ...defaults.curation,
+      ...(globalConfig.curation || {}),
+      ...(repoConfig.curation || {}),
+      ...(cliOverrides.curation || {}),
+    },
+    modelRoutes: {
+      ...defaults.modelRoutes,
+      ...(globalConfig.modelRoutes || {}),
+      ...(repoConfig.modelRoutes || {}),
+      ...(cliOverrides.modelRoutes || {}),
+    },
+    watch: {
+      ...defaults.watch,
+      ...(globalConfig.watch || {}),
+      ...(cliOverrides.watch || {}),
+    },
   };
 
   const result = ConfigSchema.safeParse(merged);
@@ -0,0 +1,258 @@
+import {
+  CassSearchHit,
+  ContextBudget,
+  ContextBudgetDrop,
+  ContextBudgetItemKind,
+  ContextResult,
+  ScoredBullet,
+} from "./types.js";
+import { estimateTokensApprox } from "./utils.js";
+
+// -----------------------------------------------------------------------------
+// Token-budget packing for `cm context --max-tokens`
+// -----------------------------------------------------------------------------
+//
+// Count limits (maxBulletsInContext, maxHistoryInContext) pick the candidate
+// pool; the budget then decides which candidates are emitted. Every candidate
+// gets a value (how much it is worth to the agent) and a cost (estimated
+// tokens in the requested output format), and a 0/1 knapsack picks the
+// subset with the highest total value that fits. Token counts are estimates
+// (see estimateTokensApprox); the budget report itself is not counted.
+
+export type ContextBudgetFormat = ContextBudget["format"];
+
+export interface PackableContext {
+  result: ContextResult;
+  rules: ScoredBullet[];
+  antiPatterns: ScoredBullet[];
+  cassHits: CassSearchHit[];
+  warnings: string[];
+}
+
+interface BudgetItem {
+  kind: ContextBudgetItemKind;
+  id: string;
+  tokens: number;
+  value: number;
+}
+
+/** TOON drops repeated keys and quotes; tabular arrays come out at roughly this share of compact JSON. */
+const TOON_TOKEN_RATIO = 0.6;
+
+/** Above this many capacity units the DP table works on coarser token buckets. */
+const MAX_DP_CAPACITY = 4096;
+
+/** A trauma warning outranks everything else that could fit. */
+const TRAUMA_VALUE = 100;
+const WARNING_VALUE = 5;
+const ANTI_PATTERN_WEIGHT = 1.25;
+const HISTORY_WEIGHT = 0.5;
+
+function historyKey(hit: { source_path: string; line_number: number }): string {
+  return `${hit.source_path}:${hit.line_number}`;
+}
+
+function estimate(format: ContextBudgetFormat, value: unknown, markdown: string): number {
+  if (format === "markdown") return estimateTokensApprox(markdown);
+  if (format === "toon") return Math.ceil(estimateTokensApprox(JSON.stringify(value)) * TOON_TOKEN_RATIO);
+  return estimateTokensApprox(JSON.stringify(value, null, 2));
+}
+
+function bulletLine(b: { id: string; category?: string; kind?: string; content: string }): string {
+  return `- **${b.id}** (${b.category}/${b.kind}, relevance 0.0, confidence 0.0): ${b.content.trim()}`;
+}
+
+function fixedTokens(result: ContextResult, format: ContextBudgetFormat): number {
+  const { traumaWarning: _trauma, budget: _budget, citationProtocol: _citation, ...rest } = result;
+  const fixed = { ...rest, relevantBullets: [], antiPatterns: [], historySnippets: [], deprecatedWarnings: [] };
+  const envelope = { success: true, command: "context", data: fixed, metadata: { executionMs: 0, version: "0.0.0" } };
+  // Mirrors the `--format markdown` layout, counting each empty-section placeholder
+  const markdown = [
+    `# Context for: ${result.task}`,
+    "",
+    "## Playbook rules (0)",
+    "",
+    "(No relevant playbook rules found)",
+    "",
+    "## Pitfalls (0)",
+    "",
+    "(No pitfalls detected)",
+    "",
+    "## History (0)",
+    "",
+    "(No relevant history found)",
+    "",
+    "## Suggested searches",
+    "",
+    ...result.suggestedCassQueries.map((q) => `- ${q}`),
+  ].join("\n");
+  return estimate(format, envelope, markdown);
+}
+
+/** The rule citation guide, shown only while at least one rule or pitfall is kept. */
+function citationTokens(result: ContextResult, format: ContextBudgetFormat): number {
+  if (!result.citationProtocol) return 0;
+  return estimate(
+    format,
+    { citationProtocol: result.citationProtocol },
+    `## Citing rules\n\n${result.citationProtocol}\n`
+  );
+}
+
+/** Relative worth of a bullet: its final score against the best candidate, with a floor so every match counts. */
+function bulletValue(b: ScoredBullet, best: number): number {
+  const score = Math.max(0, b.finalScore ?? b.relevanceScore ?? 0);
+  return 0.1 + (best > 0 ? score / best : 0);
+}
+
+function collectItems(result: ContextResult, format: ContextBudgetFormat): BudgetItem[] {
+  const items: BudgetItem[] = [];
+  const bullets = [...result.relevantBullets, ...result.antiPatterns];
+  const bestBullet = Math.max(0, ...bullets.map((b) => b.finalScore ?? b.relevanceScore ?? 0));
+
+  if (result.traumaWarning) {
+    const t = result.traumaWarning;
+    items.push({
+      kind: "trauma",
+      id: t.pattern,
+      tokens: estimate(format, t, `## TRAUMA: ${t.pattern} - ${t.reason} (${t.reference})`),
+      value: TRAUMA_VALUE,
+    });
+  }
+  result.deprecatedWarnings.forEach((w, i) => {
+    items.push({ kind: "warning", id: `warning:${i}`, tokens: estimate(format, w, `- ${w}`), value: WARNING_VALUE });
+  });
+  for (const b of result.relevantBullets) {
+    items.push({ kind: "rule", id: b.id, tokens: estimate(format, b, bulletLine(b)), value: bulletValue(b, bestBullet) });
+  }
+  for (const b of result.antiPatterns) {
+    items.push({
+      kind: "antiPattern",
+      id: b.id,
+      tokens: estimate(format, b, bulletLine(b)),
+      value: bulletValue(b, bestBullet) * ANTI_PATTERN_WEIGHT,
+    });
+  }
+  const bestHit = Math.max(0, ...result.historySnippets.map((h) => h.score ?? 0));
+  result.historySnippets.forEach((h, i) => {
+    // cass scores are not always present; fall back to rank order
+    const relative = bestHit > 0 ? (h.score ?? 0) / bestHit : 1 / (i + 1);
+    items.push({
+      kind: "history",
+      id: historyKey(h),
+      tokens: estimate(format, h, `- **${h.agent}** \`${h.source_path}\`: "${h.snippet}"`),
+      value: 0.05 + HISTORY_WEIGHT * relative,
+    });
+  });
+  return items;
+}
+
+/** Indices of the highest-value subset of `items` whose tokens fit in `capacity`. */
+export function selectWithinBudget(items: Array<{ tokens: number; value: number }>, capacity: number): Set<number> {
+  const chosen = new Set<number>();
+  if (capacity <= 0 || items.length === 0) return chosen;
+
+  const scale = Math.max(1, Math.ceil(capacity / MAX_DP_CAPACITY));
+  const cap = Math.floor(capacity / scale);
+  // Round costs up so the scaled solution never exceeds the real budget
+  const costs = items.map((item) => Math.max(1, Math.ceil(item.tokens / scale)));
+
+  const best = new Float64Array(cap + 1);
+  const take = items.map(() => new Uint8Array(cap + 1));
+  items.forEach((item, i) => {
+    for (let w = cap; w >= costs[i]; w--) {
+      const withItem = best[w - costs[i]] + item.value;
+      if (withItem > best[w]) {
+        best[w] = withItem;
+        take[i][w] = 1;
+      }
+    }
+  });
+
+  let w = cap;
+  for (let i = items.length - 1; i >= 0; i--) {
+    if (take[i][w]) {
+      chosen.add(i);
+      w -= costs[i];
+    }
+  }
+  return chosen;
+}
+
+/**
+ * Reduce a context to the most valuable items that fit in `maxTokens` for the
+ * given output format. Order within each section is preserved; everything
+ * left out is listed in `result.budget.dropped` with the reason.
+ */
+export function packContextToBudget<T extends PackableContext>(
+  context: T,
+  maxTokens: number,
+  format: ContextBudgetFormat
+): T {
+  const { result } = context;
+  const items = collectItems(result, format);
+  const isRule = (item: BudgetItem) => item.kind === "rule" || item.kind === "antiPattern";
+
+  // The citation guide is reserved while rules compete for room; if none fits
+  // next to it, the guide is left out and the other items get its room back.
+  const citation = citationTokens(result, format);
+  let fixed = fixedTokens(result, format) + citation;
+  let capacity = Math.max(0, maxTokens - fixed);
+  let chosen = selectWithinBudget(items, capacity);
+  const citesRules = [...chosen].some((i) => isRule(items[i]!));
+  if (citation > 0 && !citesRules) {
+    fixed -= citation;
+    capacity = Math.max(0, maxTokens - fixed);
+    const others = items.flatMap((item, i) => (isRule(item) ? [] : [i]));
+    const picked = selectWithinBudget(others.map((i) => items[i]!), capacity);
+    chosen = new Set([...picked].map((j) => others[j]!));
+  }
+
+  const kept = new Set<string>();
+  const dropped: ContextBudgetDrop[] = [];
+  let used = fixed;
+  items.forEach((item, i) => {
+    const key = `${item.kind}:${item.id}`;
+    if (chosen.has(i)) {
+      kept.add(key);
+      used += item.tokens;
+      return;
+    }
+    const reason =
+      fixed >= maxTokens
+        ? `fixed fields alone need ~${fixed} tokens`
+        : item.tokens > capacity
+          ? `needs ~${item.tokens} tokens, more than the ${capacity} available`
+          : isRule(item) && !citesRules
+            ? `needs ~${item.tokens} tokens plus ~${citation} for the citation guide, more than the ${capacity} available`
+            : "lower value per token than the items kept";
+    dropped.push({ kind: item.kind, id: item.id, tokens: item.tokens, value: Number(item.value.toFixed(3)), reason });
+  });
+
+  const keeps = (kind: ContextBudgetItemKind, id: string) => kept.has(`${kind}:${id}`);
+  const warnings = result.deprecatedWarnings.filter((_, i) => keeps("warning", `warning:${i}`));
+
+  const packed: ContextResult = {
+    ...result,
+    relevantBullets: result.relevantBullets.filter((b) => keeps("rule", b.id)),
+    antiPatterns: result.antiPatterns.filter((b) => keeps("antiPattern", b.id)),
+    historySnippets: result.historySnippets.filter((h) => keeps("history", historyKey(h))),
+    deprecatedWarnings: warnings,
+    budget: { maxTokens, usedTokens: used, fixedTokens: fixed, format, dropped },
+  };
+  if (result.traumaWarning && !keeps("trauma", result.traumaWarning.pattern)) {
+    delete packed.traumaWarning;
+  }
+  if (!citesRules) {
+    delete packed.citationProtocol;
+  }
+
+  return {
+    ...context,
+    result: packed,
+    rules: context.rules.filter((b) => keeps("rule", b.id)),
+    antiPatterns: context.antiPatterns.filter((b) => keeps("antiPattern", b.id)),
+    cassHits: context.cassHits.filter((h) => keeps("history", historyKey(h))),
+    warnings,
+  };
+}
@@ -1,6 +1,6 @@
 import path from "node:path";
 import fs from "node:fs/promises";
-import { Config } from "./types.js";
+import { Config, type LLMOperation } from "./types.js";
 import { expandPath, ensureDir, atomicWrite, now, fileExists, warn, resolveGlobalDir } from "./utils.js";
 import { withLock } from "./lock.js";
 import { icon } from "./output.js";
@@ -13,6 +13,8 @@ export interface CostEntry {
   tokensOut: number;
   cost: number;
   context: string;
+  /** LLM operation the call served (see Config.modelRoutes) */
+  operation?: LLMOperation;
 }
 
 // Approximate costs per 1M tokens (as of mid 2026)
@@ -41,8 +43,17 @@ const MODEL_COSTS: Record<string, { input: number; output: number }> = {
   "gemini-2.0-flash": { input: 0.10, output: 0.4 }, // Estimate
 };
 
+// Models missing from MODEL_COSTS are priced reasonably high
+const DEFAULT_MODEL_COSTS = { input: 5.0, output: 15.0 };
+
+/** Per-1M-token rates for a model; `known` is false when the default rates apply. */
+export function getModelRates(model: string): { input: number; output: number; known: boolean } {
+  const rates = MODEL_COSTS[model];
+  return rates ? { ...rates, known: true } : { ...DEFAULT_MODEL_COSTS, known: false };
+}
+
 export function estimateCost(model: string, inputTokens: number, outputTokens: number): number {
-  const rates = MODEL_COSTS[model] || { input: 5.0, output: 15.0 }; // Default to reasonably high
+  const rates = getModelRates(model);
   return (inputTokens / 1_000_000) * rates.input + (outputTokens / 1_000_000) * rates.output;
 }
 
@@ -197,6 +208,49 @@ export async function getUsageStats(config: Config): Promise<{
   };
 }
 
+/**
+ * Daily LLM spend for the last `days` days (oldest first, zero-filled), read
+ * from the monthly cost logs. Days are UTC dates, like the budget totals.
+ */
+export async function getCostHistory(
+  days = 30,
+  nowDate: Date = new Date()
+): Promise<Array<{ day: string; cost: number; calls: number }>> {
+  const history = new Map<string, { day: string; cost: number; calls: number }>();
+  const months = new Set<string>();
+  for (let i = days - 1; i >= 0; i--) {
+    const date = new Date(nowDate.getTime() - i * 86_400_000);
+    const day = date.toISOString().slice(0, 10);
+    history.set(day, { day, cost: 0, calls: 0 });
+    months.add(day.slice(0, 7));
+  }
+
+  const costDir = path.join(resolveGlobalDir(), "cost");
+  for (const month of months) {
+    const logPath = path.join(costDir, `monthly-${month}.jsonl`);
+    let raw: string;
+    try {
+      raw = await fs.readFile(logPath, "utf-8");
+    } catch {
+      continue;
+    }
+    for (const line of raw.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line) as Partial<CostEntry>;
+        if (typeof entry.timestamp !== "string" || typeof entry.cost !== "number") continue;
+        const bucket = history.get(entry.timestamp.slice(0, 10));
+        if (!bucket) continue;
+        bucket.cost += entry.cost;
+        bucket.calls++;
+      } catch {
+        // Skip partial lines
+      }
+    }
+  }
+  return [...history.values()];
+}
+
 /**
  * Format a cost summary string for display after LLM operations.
  * Shows operation cost and current budget consumption.
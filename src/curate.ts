@@ -18,9 +18,12 @@ import {
   jaccardSimilaritySets,
   generateBulletId, 
   now,
+  generateFeedbackEventId,
+  getOriginId,
   log,
   tokenize
 } from "./utils.js";
+import { addBulletRelation } from "./bullet-graph.js";
 import { 
   checkForPromotion, 
   checkForDemotion, 
@@ -77,7 +80,7 @@ function hasMarker(text: string, markers: string[]): boolean {
 }
 
 // Optimized metadata structure for conflict detection
-interface ConflictMeta {
+export interface ConflictMeta {
   bullet: PlaybookBullet;
   tokens: Set<string>;
   neg: boolean;
@@ -85,7 +88,7 @@ interface ConflictMeta {
   exc: boolean;
 }
 
-function computeConflictMeta(bullet: PlaybookBullet): ConflictMeta {
+export function computeConflictMeta(bullet: PlaybookBullet): ConflictMeta {
   return {
     bullet,
     tokens: new Set(tokenize(bullet.content)),
@@ -218,6 +221,7 @@ function invertToAntiPattern(bullet: PlaybookBullet, config: Config): PlaybookBu
     type: "anti-pattern",
     isNegative: true,
     scope: bullet.scope,
+    scopeKey: bullet.scopeKey,
     workspace: bullet.workspace,
     source: "learned", // Derived from existing rule, so implicitly learned/inferred
     state: "active", 
@@ -333,6 +337,8 @@ export function curatePlaybook(
 
           if (targetBullet) {
             targetBullet.feedbackEvents.push({
+              id: generateFeedbackEventId(),
+              origin: getOriginId(),
               type: "helpful",
               timestamp: now(),
               sessionPath: delta.sourceSession,
@@ -404,6 +410,8 @@ export function curatePlaybook(
             }
 
             targetSimilar.feedbackEvents.push({
+              id: generateFeedbackEventId(),
+              origin: getOriginId(),
               type: "helpful",
               timestamp: now(),
               sessionPath: delta.sourceSession,
@@ -439,6 +447,7 @@ export function curatePlaybook(
             type: delta.bullet.type,
             isNegative: delta.bullet.isNegative,
             scope: delta.bullet.scope,
+            scopeKey: delta.bullet.scopeKey,
             workspace: delta.bullet.workspace,
             searchPointer: delta.bullet.searchPointer,
           },
@@ -450,6 +459,11 @@ export function curatePlaybook(
           newBullet.reasoning = delta.reason.trim();
         }
 
+        // Record detected conflicts as graph edges so context can flag them later
+        for (const c of conflicts) {
+          addBulletRelation(newBullet, { type: "conflicts-with", target: c.id, reason: c.reason });
+        }
+
         // Update caches to catch duplicates later in this batch
         bulletContentMap.set(hash, newBullet);
         
@@ -497,6 +511,8 @@ export function curatePlaybook(
         }
 
         bullet.feedbackEvents.push({
+          id: generateFeedbackEventId(),
+          origin: getOriginId(),
           type: "helpful",
           timestamp: now(),
           sessionPath: delta.sourceSession,
@@ -539,6 +555,8 @@ export function curatePlaybook(
         }
 
         bullet.feedbackEvents.push({
+          id: generateFeedbackEventId(),
+          origin: getOriginId(),
           type: "harmful",
           timestamp: now(),
           sessionPath: delta.sourceSession,
@@ -608,6 +626,10 @@ export function curatePlaybook(
           tags: [...new Set(bulletsToMerge.flatMap(b => b.tags))]
         }, "merged", config.scoring?.decayHalfLifeDays ?? config.defaultDecayHalfLife ?? 90);
 
+        for (const b of bulletsToMerge) {
+          addBulletRelation(merged, { type: "supersedes", target: b.id, reason: "Merged" });
+        }
+
         bulletsToMerge.forEach(b => {
           deprecateBullet(targetPlaybook, b.id, `Merged into ${merged.id}`, merged.id);
         });
@@ -0,0 +1,345 @@
+/**
+ * Background reflection daemon (`cm daemon start|stop|status`).
+ *
+ * `cm daemon start` launches a detached `cm daemon run` process. Each cycle it
+ * checks the LLM budget, counts unprocessed sessions and, once enough have
+ * piled up, reflects on a batch of them. Runs are spaced by
+ * `daemon.intervalMinutes`; failed runs back off exponentially.
+ *
+ * State (pid, last run, next run, failure streak) is stored in
+ * ~/.cass-memory/daemon/state.json so `cm daemon status` and `cm doctor` can
+ * report on it. The daemon's output goes to ~/.cass-memory/daemon/daemon.log.
+ *
+ * The daemon runs only while explicitly started. The `autoReflect` config key
+ * neither starts nor gates it: reading a config file cannot launch a process,
+ * and a running daemon that idled on a flag would look healthy while doing
+ * nothing. `autoReflect` records that background reflection is wanted, and
+ * `cm doctor` warns when it is set but no daemon is running.
+ */
+
+import fs from "node:fs/promises";
+import { openSync, closeSync } from "node:fs";
+import path from "node:path";
+import { spawn } from "node:child_process";
+import { z } from "zod";
+import { loadConfig } from "./config.js";
+import { checkBudget } from "./cost.js";
+import { findUnprocessedSessions } from "./cass.js";
+import { orchestrateReflection, type ReflectionOptions, type ReflectionOutcome } from "./orchestrator.js";
+import { ProcessedLog, getProcessedLogPath } from "./tracking.js";
+import { pidIsRunning } from "./lock.js";
+import { atomicWrite, ensureDir, resolveGlobalDir, warn } from "./utils.js";
+import type { Config, DaemonConfig } from "./types.js";
+
+const DaemonRunSchema = z.object({
+  at: z.string(), // ISO8601
+  /** reflected: sessions were processed; idle: too few new sessions; budget: over the limit; error: the run failed */
+  outcome: z.enum(["reflected", "idle", "budget", "error"]),
+  sessionsFound: z.number().int().min(0),
+  sessionsProcessed: z.number().int().min(0),
+  deltasGenerated: z.number().int().min(0),
+  reason: z.string().optional(),
+  errors: z.array(z.string()).default([]),
+});
+export type DaemonRun = z.infer<typeof DaemonRunSchema>;
+
+const DaemonStateSchema = z.object({
+  status: z.enum(["running", "stopped"]),
+  pid: z.number().int().optional(),
+  startedAt: z.string().optional(),
+  stoppedAt: z.string().optional(),
+  lastRun: DaemonRunSchema.optional(),
+  nextRunAt: z.string().optional(),
+  consecutiveFailures: z.number().int().min(0).default(0),
+  runs: z.number().int().min(0).default(0),
+});
+export type DaemonState = z.infer<typeof DaemonStateSchema>;
+
+export interface DaemonStatus extends DaemonState {
+  /** The recorded pid is alive. */
+  running: boolean;
+  /** State says running but the process is gone (crashed or killed). */
+  stale: boolean;
+  statePath: string;
+  logPath: string;
+}
+
+/** Seams for tests; defaults use the real config, budget, cass and orchestrator. */
+export interface DaemonDeps {
+  loadConfig: () => Promise<Config>;
+  checkBudget: (config: Config) => Promise<{ allowed: boolean; reason?: string }>;
+  findSessions: (config: Config) => Promise<string[]>;
+  reflect: (config: Config, options: ReflectionOptions) => Promise<ReflectionOutcome>;
+  now: () => Date;
+}
+
+async function findPendingSessions(config: Config): Promise<string[]> {
+  const processedLog = new ProcessedLog(getProcessedLogPath());
+  await processedLog.load();
+  const sessions = await findUnprocessedSessions(
+    processedLog.getProcessedPaths(),
+    {
+      days: config.sessionLookbackDays,
+      // Look past one batch so minNewSessions can be larger than a batch
+      maxSessions: Math.max(config.daemon.maxSessionsPerRun, config.daemon.minNewSessions),
+      excludePatterns: config.sessionExcludePatterns,
+      includeAll: config.sessionIncludeAll,
+    },
+    config.cassPath
+  );
+  return sessions.filter((s) => !processedLog.has(s));
+}
+
+const DEFAULT_DEPS: DaemonDeps = {
+  loadConfig: () => loadConfig(),
+  checkBudget,
+  findSessions: findPendingSessions,
+  reflect: orchestrateReflection,
+  now: () => new Date(),
+};
+
+export function getDaemonDir(): string {
+  return path.join(resolveGlobalDir(), "daemon");
+}
+
+export function getDaemonStatePath(): string {
+  return path.join(getDaemonDir(), "state.json");
+}
+
+export function getDaemonLogPath(): string {
+  return path.join(getDaemonDir(), "daemon.log");
+}
+
+export async function loadDaemonState(): Promise<DaemonState> {
+  const statePath = getDaemonStatePath();
+  try {
+    const result = DaemonStateSchema.safeParse(JSON.parse(await fs.readFile(statePath, "utf-8")));
+    if (result.success) return result.data;
+    warn(`[daemon] Invalid state file; ignoring (${statePath})`);
+  } catch (err: any) {
+    if (err?.code !== "ENOENT") warn(`[daemon] Failed to load state (${statePath}): ${err.message}`);
+  }
+  return { status: "stopped", consecutiveFailures: 0, runs: 0 };
+}
+
+export async function saveDaemonState(state: DaemonState): Promise<void> {
+  await ensureDir(getDaemonDir());
+  await atomicWrite(getDaemonStatePath(), JSON.stringify(state, null, 2));
+}
+
+export async function getDaemonStatus(): Promise<DaemonStatus> {
+  const state = await loadDaemonState();
+  const running = state.status === "running" && state.pid !== undefined && pidIsRunning(state.pid);
+  return {
+    ...state,
+    running,
+    stale: state.status === "running" && !running,
+    statePath: getDaemonStatePath(),
+    logPath: getDaemonLogPath(),
+  };
+}
+
+/** Delay before the next run: the interval, doubled per consecutive failure, capped. */
+export function computeNextDelayMs(daemon: DaemonConfig, consecutiveFailures: number): number {
+  const intervalMs = daemon.intervalMinutes * 60_000;
+  if (consecutiveFailures <= 0) return intervalMs;
+  return Math.min(intervalMs * 2 ** consecutiveFailures, Math.max(intervalMs, daemon.maxBackoffMinutes * 60_000));
+}
+
+/** One daemon cycle: budget check, session discovery, then reflection on a batch. */
+export async function runDaemonCycle(config: Config, deps: Partial<DaemonDeps> = {}): Promise<DaemonRun> {
+  const d = { ...DEFAULT_DEPS, ...deps };
+  const run: DaemonRun = {
+    at: d.now().toISOString(),
+    outcome: "idle",
+    sessionsFound: 0,
+    sessionsProcessed: 0,
+    deltasGenerated: 0,
+    errors: [],
+  };
+
+  try {
+    const budget = await d.checkBudget(config);
+    if (!budget.allowed) {
+      return { ...run, outcome: "budget", reason: budget.reason ?? "Budget exceeded" };
+    }
+
+    const pending = await d.findSessions(config);
+    run.sessionsFound = pending.length;
+    if (pending.length < config.daemon.minNewSessions) {
+      return {
+        ...run,
+        reason: `${pending.length} new session(s); waiting for ${config.daemon.minNewSessions}`,
+      };
+    }
+
+    const outcome = await d.reflect(config, { maxSessions: config.daemon.maxSessionsPerRun });
+    run.sessionsProcessed = outcome.sessionsProcessed;
+    run.deltasGenerated = outcome.deltasGenerated;
+    run.errors = outcome.errors;
+    // Errors with nothing processed (e.g. the LLM is unreachable) count as a failed run
+    if (outcome.errors.length > 0 && outcome.sessionsProcessed === 0) {
+      return { ...run, outcome: "error", reason: outcome.errors[0] };
+    }
+    return { ...run, outcome: outcome.sessionsProcessed > 0 ? "reflected" : "idle" };
+  } catch (err: any) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { ...run, outcome: "error", reason: message, errors: [...run.errors, message] };
+  }
+}
+
+/** Fold a finished run into the state and schedule the next one. */
+export function recordDaemonRun(state: DaemonState, run: DaemonRun, daemon: DaemonConfig): DaemonState {
+  const consecutiveFailures = run.outcome === "error" ? state.consecutiveFailures + 1 : 0;
+  const nextRunAt = new Date(Date.parse(run.at) + computeNextDelayMs(daemon, consecutiveFailures)).toISOString();
+  return { ...state, lastRun: run, consecutiveFailures, nextRunAt, runs: state.runs + 1 };
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * The daemon's main loop (`cm daemon run`). Config is reloaded before every
+ * cycle so schedule changes apply without a restart. Returns after
+ * `maxCycles` cycles or when `signal` aborts; otherwise runs until killed.
+ */
+export async function runDaemonLoop(
+  options: {
+    signal?: AbortSignal;
+    maxCycles?: number;
+    /** Start the first cycle right away instead of waiting for a carried-over nextRunAt. */
+    runNow?: boolean;
+    deps?: Partial<DaemonDeps>;
+    onRun?: (run: DaemonRun, state: DaemonState) => void;
+  } = {}
+): Promise<DaemonState> {
+  const d = { ...DEFAULT_DEPS, ...options.deps };
+  let state: DaemonState = {
+    ...(await loadDaemonState()),
+    status: "running",
+    pid: process.pid,
+    startedAt: d.now().toISOString(),
+    stoppedAt: undefined,
+  };
+  await saveDaemonState(state);
+
+  for (let cycle = 0; options.maxCycles === undefined || cycle < options.maxCycles; cycle++) {
+    if (options.signal?.aborted) break;
+
+    // Honour a schedule carried over from a previous daemon (e.g. a backoff)
+    const carriedOver = cycle === 0 && options.runNow;
+    const waitMs = state.nextRunAt && !carriedOver ? Date.parse(state.nextRunAt) - d.now().getTime() : 0;
+    if (waitMs > 0) {
+      await sleep(waitMs, options.signal);
+      if (options.signal?.aborted) break;
+    }
+
+    const config = await d.loadConfig();
+    const run = await runDaemonCycle(config, d);
+    state = recordDaemonRun(state, run, config.daemon);
+    await saveDaemonState(state);
+    options.onRun?.(run, state);
+  }
+
+  state = { ...state, status: "stopped", stoppedAt: d.now().toISOString() };
+  await saveDaemonState(state);
+  return state;
+}
+
+/** The command line that runs the daemon loop with the current CLI. */
+function daemonCommandLine(): { command: string; args: string[] } {
+  const script = process.argv[1] ?? "";
+  // Compiled binaries report a virtual script path; the binary itself is the CLI
+  const compiled = !script || script.startsWith("/$bunfs") || /^[A-Z]:\\~BUN/i.test(script);
+  return {
+    command: process.execPath,
+    args: compiled ? ["daemon", "run"] : [script, "daemon", "run"],
+  };
+}
+
+/** Launch a detached `cm daemon run`. No-op when one is already running. */
+export async function startDaemon(): Promise<{ started: boolean; pid: number; logPath: string }> {
+  const status = await getDaemonStatus();
+  if (status.running) return { started: false, pid: status.pid!, logPath: status.logPath };
+
+  await ensureDir(getDaemonDir());
+  const logFd = openSync(getDaemonLogPath(), "a");
+  try {
+    const { command, args } = daemonCommandLine();
+    const child = spawn(command, args, { detached: true, stdio: ["ignore", logFd, logFd], env: process.env });
+    child.unref();
+    if (child.pid === undefined) throw new Error("Failed to spawn the daemon process");
+
+    // Record the pid right away so an immediate `status` or `stop` sees it;
+    // the daemon rewrites the state once it is up.
+    await saveDaemonState({
+      ...(await loadDaemonState()),
+      status: "running",
+      pid: child.pid,
+      startedAt: new Date().toISOString(),
+      stoppedAt: undefined,
+    });
+    return { started: true, pid: child.pid, logPath: getDaemonLogPath() };
+  } finally {
+    closeSync(logFd);
+  }
+}
+
+/** Record the daemon as stopped, keeping the rest of its state. */
+export async function markDaemonStopped(): Promise<void> {
+  await saveDaemonState({ ...(await loadDaemonState()), status: "stopped", stoppedAt: new Date().toISOString() });
+}
+
+/**
+ * Stop the daemon with SIGTERM, waiting up to `timeoutMs` for it to exit.
+ * A stale state (process already gone) is simply marked stopped.
+ */
+export async function stopDaemon(timeoutMs = 10_000): Promise<{ stopped: boolean; pid?: number; wasRunning: boolean }> {
+  const status = await getDaemonStatus();
+  const pid = status.pid;
+
+  if (!status.running || pid === undefined) {
+    if (status.status === "running") await markDaemonStopped();
+    return { stopped: true, pid, wasRunning: false };
+  }
+
+  try {
+    process.kill(pid, "SIGTERM");
+  } catch (err: any) {
+    if (err?.code !== "ESRCH") throw err;
+  }
+  const deadline = Date.now() + timeoutMs;
+  while (pidIsRunning(pid) && Date.now() < deadline) {
+    await sleep(100);
+  }
+  if (pidIsRunning(pid)) return { stopped: false, pid, wasRunning: true };
+
+  await markDaemonStopped();
+  return { stopped: true, pid, wasRunning: true };
+}
+
+/** One-line summary of a run, e.g. "reflected 3 session(s), 5 delta(s)". */
+export function summarizeDaemonRun(run: DaemonRun): string {
+  switch (run.outcome) {
+    case "reflected":
+      return `reflected ${run.sessionsProcessed} session(s), ${run.deltasGenerated} delta(s)`;
+    case "idle":
+      return `idle${run.reason ? ` (${run.reason})` : ""}`;
+    case "budget":
+      return `skipped: ${run.reason ?? "budget exceeded"}`;
+    case "error":
+      return `failed: ${run.reason ?? "unknown error"}`;
+  }
+}
@@ -0,0 +1,230 @@
+/**
+ * Read-only web dashboard served by `cm serve --dashboard`.
+ *
+ * The page at /dashboard is a single self-contained HTML file (no external
+ * assets). It fetches one JSON section at a time from /dashboard/api/<section>;
+ * serve.ts routes those requests and applies the same auth as the MCP
+ * endpoint.
+ */
+
+import { loadMergedPlaybook, getActiveBullets } from "./playbook.js";
+import { analyzeScoreDistribution, getEffectiveScore } from "./scoring.js";
+import { analyzePlaybookGaps } from "./gap-analysis.js";
+import { getCostHistory, getUsageStats } from "./cost.js";
+import { loadOutcomes } from "./outcome.js";
+import { loadTraumas } from "./trauma.js";
+import type { Config } from "./types.js";
+
+export const DASHBOARD_SECTIONS = ["playbook", "scores", "gaps", "cost", "outcomes", "traumas"] as const;
+export type DashboardSection = (typeof DASHBOARD_SECTIONS)[number];
+
+/** Score histogram buckets: [label, lower bound inclusive]. */
+const SCORE_BUCKETS: Array<[string, number]> = [
+  ["< -5", -Infinity],
+  ["-5 to 0", -5],
+  ["0 to 2", 0],
+  ["2 to 5", 2],
+  ["5 to 10", 5],
+  ["10+", 10],
+];
+
+export function isDashboardSection(value: string): value is DashboardSection {
+  return (DASHBOARD_SECTIONS as readonly string[]).includes(value);
+}
+
+export async function buildDashboardSection(section: DashboardSection, config: Config): Promise<unknown> {
+  switch (section) {
+    case "playbook": {
+      const bullets = getActiveBullets(await loadMergedPlaybook(config));
+      return bullets
+        .map((b) => ({
+          id: b.id,
+          content: b.content,
+          category: b.category,
+          scope: b.scope,
+          maturity: b.maturity,
+          kind: b.kind,
+          pinned: b.pinned,
+          tags: b.tags,
+          helpfulCount: b.helpfulCount || 0,
+          harmfulCount: b.harmfulCount || 0,
+          score: Number(getEffectiveScore(b, config).toFixed(2)),
+          createdAt: b.createdAt,
+        }))
+        .sort((a, b) => b.score - a.score);
+    }
+    case "scores": {
+      const bullets = getActiveBullets(await loadMergedPlaybook(config));
+      const histogram = SCORE_BUCKETS.map(([label]) => ({ label, count: 0 }));
+      const byMaturity: Record<string, number> = {};
+      for (const b of bullets) {
+        const score = getEffectiveScore(b, config);
+        let index = 0;
+        while (index + 1 < SCORE_BUCKETS.length && score >= SCORE_BUCKETS[index + 1][1]) index++;
+        histogram[index].count++;
+        byMaturity[b.maturity] = (byMaturity[b.maturity] ?? 0) + 1;
+      }
+      return { total: bullets.length, distribution: analyzeScoreDistribution(bullets, config), histogram, byMaturity };
+    }
+    case "gaps":
+      return analyzePlaybookGaps(await loadMergedPlaybook(config));
+    case "cost":
+      return { usage: await getUsageStats(config), history: await getCostHistory(30) };
+    case "outcomes":
+      return (await loadOutcomes(config, 100)).reverse();
+    case "traumas":
+      return loadTraumas();
+  }
+}
+
+export function renderDashboardPage(): string {
+  return DASHBOARD_HTML;
+}
+
+const DASHBOARD_HTML = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>cass-memory dashboard</title>
+<style>
+  body { font: 14px/1.45 system-ui, sans-serif; margin: 0; color: #1d2430; background: #f6f7f9; }
+  header { background: #1d2430; color: #fff; padding: 12px 24px; display: flex; gap: 24px; align-items: center; }
+  header h1 { font-size: 16px; margin: 0; }
+  nav button { background: none; border: 0; color: #c9d1dc; font: inherit; padding: 6px 10px; cursor: pointer; border-radius: 4px; }
+  nav button.active { background: #3a4556; color: #fff; }
+  main { padding: 20px 24px; max-width: 1200px; }
+  table { border-collapse: collapse; width: 100%; background: #fff; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e4e7ec; vertical-align: top; }
+  th { font-weight: 600; background: #eef0f3; }
+  .num { text-align: right; font-variant-numeric: tabular-nums; }
+  .muted { color: #6b7585; }
+  .bad { color: #b42318; } .good { color: #067647; }
+  .cards { display: flex; gap: 12px; flex-wrap: wrap; margin-bottom: 16px; }
+  .card { background: #fff; border: 1px solid #e4e7ec; border-radius: 6px; padding: 10px 14px; min-width: 140px; }
+  .card b { display: block; font-size: 20px; }
+  .bars { display: grid; grid-template-columns: max-content 1fr max-content; gap: 6px 10px; align-items: center; background: #fff; padding: 12px; border: 1px solid #e4e7ec; border-radius: 6px; margin-bottom: 16px; }
+  .bar { height: 14px; background: #5b7fbd; border-radius: 2px; min-width: 1px; }
+  .bar.critical { background: #d92d20; } .bar.underrepresented { background: #f79009; } .bar.well-covered { background: #12b76a; }
+  input[type=search] { padding: 6px 8px; width: 320px; margin-bottom: 12px; border: 1px solid #c9d1dc; border-radius: 4px; }
+  svg rect { fill: #5b7fbd; }
+</style>
+</head>
+<body>
+<header><h1>cass-memory</h1><nav id="nav"></nav></header>
+<main id="main"><p class="muted">Loading…</p></main>
+<script>
+(() => {
+  const sections = ${JSON.stringify(DASHBOARD_SECTIONS)};
+  const labels = { playbook: "Playbook", scores: "Scores", gaps: "Gaps", cost: "LLM cost", outcomes: "Outcomes", traumas: "Traumas" };
+  const token = new URLSearchParams(location.search).get("token");
+  const main = document.getElementById("main");
+  const nav = document.getElementById("nav");
+
+  function el(tag, attrs, ...children) {
+    const node = document.createElement(tag);
+    for (const [k, v] of Object.entries(attrs || {})) {
+      if (k === "class") node.className = v; else if (k.startsWith("on")) node.addEventListener(k.slice(2), v); else node.setAttribute(k, v);
+    }
+    for (const c of children.flat()) node.append(c instanceof Node ? c : document.createTextNode(c == null ? "" : String(c)));
+    return node;
+  }
+  function table(headers, rows) {
+    return el("table", {}, el("thead", {}, el("tr", {}, headers.map((h) => el("th", { class: h.num ? "num" : "" }, h.label || h)))),
+      el("tbody", {}, rows.map((r) => el("tr", {}, r.map((c, i) => el("td", { class: headers[i].num ? "num" : "" }, c))))));
+  }
+  function bars(items, cls) {
+    const max = Math.max(1, ...items.map((i) => i.value));
+    return el("div", { class: "bars" }, items.flatMap((i) => [
+      el("span", {}, i.label),
+      el("div", {}, el("div", { class: "bar " + (cls ? cls(i) : ""), style: "width:" + (100 * i.value / max) + "%" })),
+      el("span", { class: "num" }, i.text ?? i.value),
+    ]));
+  }
+  function card(label, value, cls) { return el("div", { class: "card" }, el("span", { class: "muted" }, label), el("b", { class: cls || "" }, value)); }
+  const money = (n) => "$" + Number(n || 0).toFixed(2);
+  const day = (s) => (s || "").slice(0, 10);
+
+  const render = {
+    playbook(rules) {
+      const body = el("div");
+      const search = el("input", { type: "search", placeholder: "Search rules, ids, categories, tags" });
+      const draw = () => {
+        const terms = search.value.toLowerCase().split(/\\s+/).filter(Boolean);
+        const shown = rules.filter((r) => terms.every((t) => [r.id, r.content, r.category, ...(r.tags || [])].join(" ").toLowerCase().includes(t)));
+        body.replaceChildren(el("p", { class: "muted" }, shown.length + " of " + rules.length + " active rules"),
+          table([{ label: "Score", num: true }, "Rule", "Category", "Maturity", { label: "+/-", num: true }],
+            shown.map((r) => [el("span", { class: r.score < 0 ? "bad" : r.score >= 5 ? "good" : "" }, r.score.toFixed(1)),
+              el("div", {}, el("div", {}, r.content), el("span", { class: "muted" }, r.id + (r.pinned ? " · pinned" : ""))),
+              r.category, r.maturity, r.helpfulCount + " / " + r.harmfulCount])));
+      };
+      search.addEventListener("input", draw);
+      draw();
+      return [search, body];
+    },
+    scores(s) {
+      const d = s.distribution;
+      return [el("div", { class: "cards" }, card("Active rules", s.total), card("Excellent (10+)", d.excellent, "good"), card("Good (5-10)", d.good),
+          card("Neutral (0-5)", d.neutral), card("At risk (<0)", d.atRisk, d.atRisk ? "bad" : "")),
+        el("h3", {}, "Effective score"), bars(s.histogram.map((b) => ({ label: b.label, value: b.count }))),
+        el("h3", {}, "Maturity"), bars(Object.entries(s.byMaturity).map(([k, v]) => ({ label: k, value: v })))];
+    },
+    gaps(g) {
+      return [el("p", {}, g.totalRules + " active rules. ", g.suggestions || ""),
+        bars(Object.entries(g.byCategory).map(([k, v]) => ({ label: k, value: v.count, text: v.count + " · " + v.status, status: v.status })), (i) => i.status)];
+    },
+    cost(c) {
+      const u = c.usage;
+      const limit = (spent, cap) => money(spent) + (cap > 0 ? " / " + money(cap) : "");
+      const max = Math.max(0.0001, ...c.history.map((h) => h.cost));
+      const w = 24, h = 120;
+      const svg = document.createElementNS("http://www.w3.org/2000/svg", "svg");
+      svg.setAttribute("viewBox", "0 0 " + c.history.length * w + " " + h);
+      svg.setAttribute("width", "100%"); svg.setAttribute("height", h);
+      c.history.forEach((d, i) => {
+        const bh = (h - 4) * d.cost / max;
+        const rect = document.createElementNS("http://www.w3.org/2000/svg", "rect");
+        rect.setAttribute("x", i * w + 3); rect.setAttribute("width", w - 6); rect.setAttribute("y", h - bh); rect.setAttribute("height", bh);
+        const title = document.createElementNS("http://www.w3.org/2000/svg", "title");
+        title.textContent = d.day + ": " + money(d.cost) + " (" + d.calls + " calls)";
+        rect.append(title); svg.append(rect);
+      });
+      return [el("div", { class: "cards" }, card("Today", limit(u.today, u.dailyLimit)), card("This month", limit(u.month, u.monthlyLimit)), card("All time", money(u.total))),
+        el("h3", {}, "Last 30 days"), el("div", { class: "bars", style: "display:block" }, svg),
+        table(["Day", { label: "Calls", num: true }, { label: "Cost", num: true }], c.history.filter((d) => d.calls > 0).reverse().map((d) => [d.day, d.calls, money(d.cost)]))];
+    },
+    outcomes(list) {
+      if (!list.length) return [el("p", { class: "muted" }, "No outcomes recorded yet.")];
+      return [table(["When", "Outcome", "Session", "Rules used", "Notes"], list.map((o) => [day(o.recordedAt),
+        el("span", { class: o.outcome === "success" ? "good" : o.outcome === "failure" ? "bad" : "" }, o.outcome),
+        o.sessionId, (o.rulesUsed || []).join(", "), o.notes || o.task || ""]))];
+    },
+    traumas(list) {
+      if (!list.length) return [el("p", { class: "muted" }, "No traumas registered.")];
+      return [table(["Pattern", "Severity", "Scope", "Status", "Trigger", "Created"], list.map((t) => [el("code", {}, t.pattern), t.severity,
+        t.scope + (t.projectPath ? " (" + t.projectPath + ")" : ""), t.status, t.trigger_event?.human_message || t.trigger_event?.session_path || "", day(t.created_at)]))];
+    },
+  };
+
+  async function show(section) {
+    for (const b of nav.children) b.classList.toggle("active", b.dataset.section === section);
+    history.replaceState(null, "", location.pathname + location.search + "#" + section);
+    main.replaceChildren(el("p", { class: "muted" }, "Loading…"));
+    try {
+      const res = await fetch("/dashboard/api/" + section, { headers: token ? { "x-mcp-token": token } : {} });
+      if (!res.ok) throw new Error(res.status === 401 ? "Unauthorized: open the dashboard with ?token=<MCP_HTTP_TOKEN>" : "HTTP " + res.status);
+      const payload = await res.json();
+      main.replaceChildren(el("h2", {}, labels[section]), ...render[section](payload.data));
+    } catch (err) {
+      main.replaceChildren(el("p", { class: "bad" }, String(err.message || err)));
+    }
+  }
+
+  for (const s of sections) nav.append(el("button", { "data-section": s, onclick: () => show(s) }, labels[s]));
+  const initial = location.hash.slice(1);
+  show(sections.includes(initial) ? initial : "playbook");
+})();
+</script>
+</body>
+</html>
+`;
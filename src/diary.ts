@@ -8,7 +8,10 @@ import {
   CassHit,
   RelatedSession,
   RelatedSessionSchema,
-  SanitizationConfig
+  SanitizationConfig,
+  SessionStatus,
+  DIARY_SEARCH_FIELDS,
+  DiarySearchField
 } from "./types.js";
 import { 
   extractDiary, 
@@ -36,9 +39,12 @@ import {
   error as logError,
   atomicWrite,
   resolveRepoDir,
-  resolveGlobalDir
+  resolveGlobalDir,
+  tokenize
 } from "./utils.js";
 import { withLock } from "./lock.js";
+import { embedText, getDiarySearchTexts, indexDiaryEntries } from "./semantic.js";
+import { loadVectorIndex, searchVectorIndex } from "./vector-index.js";
 
 // --- Helpers ---
 
@@ -371,7 +377,7 @@ export async function generateDiaryFast(
 
 // --- Main Generator ---
 
-async function generateDiaryFastFromContent(
+export async function generateDiaryFastFromContent(
   sessionPath: string,
   sanitizedContent: string,
   config: Config
@@ -497,20 +503,22 @@ export async function generateDiaryFromContent(
   return enrichedDiary;
 }
 
+/** Pass `exported` (the session's markdown export) to skip exporting it again. */
 export async function generateDiary(
   sessionPath: string,
-  config: Config
+  config: Config,
+  exported?: string
 ): Promise<DiaryEntry> {
-  // Fast path when LLMs are disabled or unavailable
-  if (process.env.CASS_MEMORY_LLM === "none") {
-    return generateDiaryFast(sessionPath, config);
-  }
-
   // 1. Export Session (Sanitized via cassExport)
-  const sanitizedContent = await cassExport(sessionPath, "markdown", config.cassPath, config);
+  const sanitizedContent = exported ?? (await cassExport(sessionPath, "markdown", config.cassPath, config));
   if (!sanitizedContent) {
     throw new Error(`Failed to export session: ${sessionPath}`);
   }
+
+  // Fast path when LLMs are disabled or unavailable
+  if (process.env.CASS_MEMORY_LLM === "none") {
+    return generateDiaryFastFromContent(sessionPath, sanitizedContent, config);
+  }
   
   return generateDiaryFromContent(sessionPath, sanitizedContent, config);
 }
@@ -521,6 +529,16 @@ export async function saveDiary(diary: DiaryEntry, config: Config): Promise<void
   const diaryPath = path.join(expandPath(config.diaryDir), `${diary.id}.json`);
   await atomicWrite(diaryPath, JSON.stringify(diary, null, 2));
   log(`Saved diary to ${diaryPath}`);
+
+  // Searchable fields go into the vector index when semantic search is on (best-effort)
+  const model = config.embeddingModel?.trim();
+  if (config.semanticSearchEnabled && model && model !== "none" && getDiarySearchTexts(diary).length > 0) {
+    try {
+      await indexDiaryEntries([diary], { model });
+    } catch (err: any) {
+      warn(`Failed to index diary ${diary.id}: ${err?.message || String(err)}`);
+    }
+  }
 }
 
 /**
@@ -671,3 +689,164 @@ export async function loadAllDiaries(diaryDir: string, limit = 100): Promise<Dia
     return [];
   }
 }
+
+// --- Search ---
+
+export interface DiarySearchFilters {
+  agent?: string;
+  workspace?: string;
+  /** Every tag must be present */
+  tags?: string[];
+  /** ISO timestamps, inclusive */
+  since?: string;
+  until?: string;
+  status?: SessionStatus;
+}
+
+export interface DiarySearchMatch {
+  field: DiarySearchField;
+  text: string;
+}
+
+export interface DiarySearchHit {
+  diary: DiaryEntry;
+  score: number;
+  keywordScore: number;
+  semanticScore?: number;
+  matches: DiarySearchMatch[];
+}
+
+export interface DiarySearchResult {
+  mode: "semantic" | "keyword";
+  /** Diaries left after filtering, before ranking */
+  searched: number;
+  hits: DiarySearchHit[];
+}
+
+/** Semantic neighbours below this similarity do not count as a match on their own. */
+const DIARY_MIN_SIMILARITY = 0.35;
+const MAX_MATCHES_PER_DIARY = 3;
+
+function samePath(a: string, b: string): boolean {
+  return path.resolve(expandPath(a)) === path.resolve(expandPath(b));
+}
+
+export function filterDiaries(diaries: DiaryEntry[], filters: DiarySearchFilters = {}): DiaryEntry[] {
+  const since = filters.since ? new Date(filters.since).getTime() : undefined;
+  const until = filters.until ? new Date(filters.until).getTime() : undefined;
+  const agent = filters.agent ? normalizeAgentName(filters.agent) : undefined;
+  const tags = (filters.tags ?? []).map((t) => t.toLowerCase());
+
+  return diaries.filter((d) => {
+    if (agent && normalizeAgentName(d.agent) !== agent) return false;
+    if (filters.workspace && (!d.workspace || !samePath(d.workspace, filters.workspace))) return false;
+    if (filters.status && d.status !== filters.status) return false;
+    if (tags.length > 0) {
+      const own = new Set(d.tags.map((t) => t.toLowerCase()));
+      if (!tags.every((t) => own.has(t))) return false;
+    }
+    const at = new Date(d.timestamp).getTime();
+    if (since !== undefined && !(at >= since)) return false;
+    if (until !== undefined && !(at <= until)) return false;
+    return true;
+  });
+}
+
+function keywordMatches(diary: DiaryEntry, keywords: string[]): { score: number; matches: DiarySearchMatch[] } {
+  if (keywords.length === 0) return { score: 0, matches: [] };
+  const found = new Set<string>();
+  const scored: Array<DiarySearchMatch & { hits: number }> = [];
+
+  for (const field of DIARY_SEARCH_FIELDS) {
+    for (const text of diary[field]) {
+      const tokens = new Set(tokenize(text));
+      const hits = keywords.filter((k) => tokens.has(k));
+      hits.forEach((k) => found.add(k));
+      if (hits.length > 0) scored.push({ field, text, hits: hits.length });
+    }
+  }
+  // Tags and search anchors count towards the score but are not shown as matches
+  for (const token of tokenize([...diary.tags, ...diary.searchAnchors].join(" "))) {
+    if (keywords.includes(token)) found.add(token);
+  }
+
+  scored.sort((a, b) => b.hits - a.hits);
+  return {
+    score: found.size / keywords.length,
+    matches: scored.slice(0, MAX_MATCHES_PER_DIARY).map(({ field, text }) => ({ field, text })),
+  };
+}
+
+/**
+ * Hybrid keyword + embedding search over diary entries.
+ *
+ * The keyword score is the share of query keywords found in any diary field,
+ * tag or search anchor. When semantic search is enabled, the same fields are
+ * also compared with the query through the vector index (texts not yet
+ * indexed are embedded first), and the two scores are blended with
+ * config.semanticWeight, as `cm context` does for rules.
+ */
+export async function searchDiaries(
+  query: string,
+  diaries: DiaryEntry[],
+  config: Config,
+  options: { limit?: number; filters?: DiarySearchFilters; queryEmbedding?: number[] } = {}
+): Promise<DiarySearchResult> {
+  const limit = options.limit ?? 10;
+  const candidates = filterDiaries(diaries, options.filters);
+  const keywords = extractKeywords(query);
+  const terms = keywords.length > 0 ? keywords : tokenize(query);
+
+  const semantic = new Map<string, { similarity: number } & DiarySearchMatch>();
+  let mode: DiarySearchResult["mode"] = "keyword";
+  const model = config.embeddingModel?.trim();
+  if (config.semanticSearchEnabled && model && model !== "none" && candidates.length > 0) {
+    try {
+      const queryEmbedding = options.queryEmbedding?.length ? options.queryEmbedding : await embedText(query, { model });
+      await indexDiaryEntries(candidates, { model });
+      const index = await loadVectorIndex({ model });
+      const textsById = new Map(candidates.map((d) => [d.id, getDiarySearchTexts(d)]));
+      const total = [...textsById.values()].reduce((n, texts) => n + texts.length, 0);
+      const hits = index
+        ? searchVectorIndex(index, queryEmbedding, {
+          k: total,
+          kinds: ["diary"],
+          filter: (_key, entry) => textsById.has(entry.ref),
+        })
+        : [];
+      for (const hit of hits) {
+        const match = textsById.get(hit.entry.ref)?.[hit.entry.part ?? 0];
+        if (!match || hashContent(match.text) !== hit.entry.contentHash) continue;
+        const best = semantic.get(hit.entry.ref);
+        if (!best || hit.similarity > best.similarity) semantic.set(hit.entry.ref, { similarity: hit.similarity, ...match });
+      }
+      mode = "semantic";
+    } catch (err: any) {
+      warn(`[diary] Semantic search unavailable; using keyword-only scoring. ${err?.message || ""}`.trim());
+    }
+  }
+
+  const weight = mode === "semantic" ? Math.min(1, Math.max(0, config.semanticWeight)) : 0;
+  const hits: DiarySearchHit[] = [];
+  for (const diary of candidates) {
+    const keyword = keywordMatches(diary, terms);
+    const near = semantic.get(diary.id);
+    const similarity = near && near.similarity >= DIARY_MIN_SIMILARITY ? near.similarity : 0;
+    if (keyword.score === 0 && similarity === 0) continue;
+
+    const matches = keyword.matches;
+    if (similarity > 0 && !matches.some((m) => m.text === near!.text)) {
+      matches.unshift({ field: near!.field, text: near!.text });
+    }
+    hits.push({
+      diary,
+      score: keyword.score * (1 - weight) + similarity * weight,
+      keywordScore: keyword.score,
+      ...(mode === "semantic" ? { semanticScore: Math.max(0, near?.similarity ?? 0) } : {}),
+      matches: matches.slice(0, MAX_MATCHES_PER_DIARY),
+    });
+  }
+
+  hits.sort((a, b) => b.score - a.score || new Date(b.diary.timestamp).getTime() - new Date(a.diary.timestamp).getTime());
+  return { mode, searched: candidates.length, hits: hits.slice(0, limit) };
+}
@@ -0,0 +1,112 @@
+import { ScoredBullet } from "./types.js";
+import { cosineSimilarity } from "./semantic.js";
+import { jaccardSimilaritySets, tokenize } from "./utils.js";
+
+// -----------------------------------------------------------------------------
+// Maximal Marginal Relevance re-ranking for `cm context`
+// -----------------------------------------------------------------------------
+//
+// Relevance ranking alone tends to fill the top slots with paraphrases of one
+// rule. MMR picks greedily by
+//
+//   (1 - λ) · relevance - λ · max similarity to the bullets already picked
+//
+// where relevance is finalScore normalised to the best candidate and λ is the
+// diversity setting. Similarity is embedding cosine when both bullets carry
+// cached embeddings (semantic mode), token Jaccard otherwise.
+//
+// On top of that, selection guarantees coverage: when the slots left are no
+// more than the groups (categories, and the rule / anti-pattern types) present
+// in the pool but not yet picked, only candidates that cover one of them are
+// eligible. Type coverage is enforced before category coverage.
+
+export interface DiversityOptions {
+  /** λ in [0, 1]. 0 keeps relevance order. */
+  diversity: number;
+  /** Number of bullets to select. */
+  limit: number;
+  /** Compare cached embeddings when both bullets have one. */
+  useEmbeddings: boolean;
+}
+
+/** How many candidates past the limit are considered, as a multiple of the limit. */
+const POOL_FACTOR = 5;
+
+function isAntiPattern(b: ScoredBullet): boolean {
+  return Boolean(b.isNegative) || b.kind === "anti_pattern";
+}
+
+function typeGroup(b: ScoredBullet): string {
+  return isAntiPattern(b) ? "type:antiPattern" : "type:rule";
+}
+
+function categoryGroup(b: ScoredBullet): string {
+  return `category:${b.category || "uncategorized"}`;
+}
+
+/**
+ * Select up to `limit` bullets from `candidates` (sorted by relevance) with
+ * MMR and coverage constraints. Each selected bullet gets `redundancyPenalty`
+ * set to the λ-weighted similarity that was subtracted from it.
+ */
+export function rerankForDiversity(candidates: ScoredBullet[], options: DiversityOptions): ScoredBullet[] {
+  const limit = Math.max(0, Math.floor(options.limit));
+  const lambda = Math.min(1, Math.max(0, options.diversity));
+  if (limit === 0) return [];
+
+  const pool = candidates.slice(0, limit * POOL_FACTOR);
+  const best = Math.max(0, ...pool.map((b) => b.finalScore ?? b.relevanceScore ?? 0));
+  const relevance = pool.map((b) => (best > 0 ? Math.max(0, b.finalScore ?? b.relevanceScore ?? 0) / best : 0));
+  const tokens = pool.map((b) => new Set(tokenize(b.content)));
+
+  const similarity = (i: number, j: number): number => {
+    const a = pool[i].embedding;
+    const b = pool[j].embedding;
+    if (options.useEmbeddings && a && b && a.length > 0 && a.length === b.length) {
+      return Math.max(0, cosineSimilarity(a, b));
+    }
+    return jaccardSimilaritySets(tokens[i], tokens[j]);
+  };
+
+  const uncoveredTypes = new Set(pool.map(typeGroup));
+  const uncoveredCategories = new Set(pool.map(categoryGroup));
+  const maxSim = new Array<number>(pool.length).fill(0);
+  const remaining = new Set(pool.map((_, i) => i));
+  const selected: ScoredBullet[] = [];
+
+  while (selected.length < limit && remaining.size > 0) {
+    const slotsLeft = limit - selected.length;
+    let eligible = [...remaining];
+    const narrow = (covers: (i: number) => boolean) => {
+      const covering = eligible.filter(covers);
+      if (covering.length > 0) eligible = covering;
+    };
+    if (uncoveredTypes.size > 0 && slotsLeft <= uncoveredTypes.size) {
+      narrow((i) => uncoveredTypes.has(typeGroup(pool[i])));
+    } else if (slotsLeft <= uncoveredTypes.size + uncoveredCategories.size) {
+      narrow((i) => uncoveredTypes.has(typeGroup(pool[i])) || uncoveredCategories.has(categoryGroup(pool[i])));
+    }
+
+    let pick = eligible[0];
+    let pickScore = -Infinity;
+    for (const i of eligible) {
+      const score = (1 - lambda) * relevance[i] - lambda * maxSim[i];
+      // Strict comparison keeps the relevance order on ties
+      if (score > pickScore) {
+        pick = i;
+        pickScore = score;
+      }
+    }
+
+    remaining.delete(pick);
+    uncoveredTypes.delete(typeGroup(pool[pick]));
+    uncoveredCategories.delete(categoryGroup(pool[pick]));
+    selected.push({ ...pool[pick], redundancyPenalty: Number((lambda * maxSim[pick]).toFixed(3)) });
+
+    for (const i of remaining) {
+      maxSim[i] = Math.max(maxSim[i], similarity(i, pick));
+    }
+  }
+
+  return selected;
+}
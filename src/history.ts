@@ -0,0 +1,395 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import crypto from "node:crypto";
+import yaml from "yaml";
+import { Playbook, PlaybookBullet, PlaybookDelta, PlaybookSchema } from "./types.js";
+import { ensureDir, expandPath, fileExists, now, warn, atomicWrite } from "./utils.js";
+import { withLock } from "./lock.js";
+
+// -----------------------------------------------------------------------------
+// Playbook Revision History
+// -----------------------------------------------------------------------------
+//
+// Every savePlaybook() call appends a revision to an append-only log that lives
+// next to the playbook file:
+//
+//   <dir>/history/<name>/revisions.jsonl   one PlaybookRevision per line
+//   <dir>/history/<name>/<rev>.yaml        full snapshot written by that revision
+//
+// Snapshots make `cm playbook diff` and `cm playbook revert` independent of the
+// deltas that produced them, so saves from commands that do not speak in
+// PlaybookDeltas (doctor, hard deletes, manual edits) are still reversible.
+//
+// Only the newest MAX_REVISIONS revisions are kept; older log entries and their
+// snapshots are pruned on save. The history/ directory ignores itself in git,
+// so the history of a repo playbook never ends up committed with .cass/.
+
+export interface RevisionChanges {
+  added: string[];
+  removed: string[];
+  modified: string[];
+}
+
+export interface PlaybookRevision {
+  rev: number;
+  timestamp: string;
+  /** Command that produced the save (e.g. "reflect", "mark", "playbook import"). */
+  command: string;
+  playbookPath: string;
+  /** Deltas the command applied, when it expresses its change as deltas. */
+  deltas: PlaybookDelta[];
+  changes: RevisionChanges;
+  bulletCount: number;
+  contentHash: string;
+  snapshot: string;
+}
+
+export interface RecordRevisionOptions {
+  command?: string;
+  deltas?: PlaybookDelta[];
+  /** Revisions to keep; defaults to MAX_REVISIONS. */
+  maxRevisions?: number;
+}
+
+/** Revisions kept per playbook before the oldest are pruned. */
+export const MAX_REVISIONS = 200;
+
+/** Command label for saves that happened outside of cm (hand edits, git checkouts). */
+export const EXTERNAL_EDIT_COMMAND = "external-edit";
+
+/** Command label for the snapshot of a playbook that predates its history log. */
+export const BASELINE_COMMAND = "baseline";
+
+export function getHistoryDir(playbookPath: string): string {
+  const expanded = expandPath(playbookPath);
+  const name = path.basename(expanded, path.extname(expanded));
+  return path.join(path.dirname(expanded), "history", name);
+}
+
+function getRevisionLogPath(playbookPath: string): string {
+  return path.join(getHistoryDir(playbookPath), "revisions.jsonl");
+}
+
+/** Make the history root ignore itself, so a repo's .cass/history/ is never committed. */
+async function ensureHistoryIgnored(historyDir: string): Promise<void> {
+  const ignorePath = path.join(path.dirname(historyDir), ".gitignore");
+  if (!(await fileExists(ignorePath))) {
+    await atomicWrite(ignorePath, "# Local playbook revision history (cm playbook log)\n*\n");
+  }
+}
+
+function snapshotFileName(rev: number): string {
+  return `${String(rev).padStart(6, "0")}.yaml`;
+}
+
+function hashSnapshot(content: string): string {
+  return crypto.createHash("sha256").update(content).digest("hex").substring(0, 16);
+}
+
+function parseSnapshot(content: string | null): Playbook | null {
+  if (!content || !content.trim()) return null;
+  try {
+    const result = PlaybookSchema.safeParse(yaml.parse(content));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function loadRevisions(playbookPath: string): Promise<PlaybookRevision[]> {
+  const logPath = getRevisionLogPath(playbookPath);
+  if (!(await fileExists(logPath))) return [];
+
+  const content = await fs.readFile(logPath, "utf-8");
+  const revisions: PlaybookRevision[] = [];
+  for (const line of content.split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    try {
+      const entry = JSON.parse(trimmed);
+      if (typeof entry?.rev === "number" && typeof entry?.snapshot === "string") {
+        revisions.push(entry);
+      }
+    } catch {
+      // Skip malformed lines - one bad line must not hide the rest of the history
+      warn(`Skipping malformed line in revision log: ${trimmed.slice(0, 50)}...`);
+    }
+  }
+  return revisions;
+}
+
+export async function loadRevisionSnapshot(
+  playbookPath: string,
+  revision: PlaybookRevision
+): Promise<Playbook | null> {
+  const snapshotPath = path.join(getHistoryDir(playbookPath), revision.snapshot);
+  if (!(await fileExists(snapshotPath))) return null;
+  return parseSnapshot(await fs.readFile(snapshotPath, "utf-8"));
+}
+
+function bulletsEqual(a: PlaybookBullet | undefined, b: PlaybookBullet | undefined): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function summarizeChanges(before: Playbook | null, after: Playbook | null): RevisionChanges {
+  const diff = diffPlaybooks(before, after);
+  return {
+    added: diff.added.map((b) => b.id),
+    removed: diff.removed.map((b) => b.id),
+    modified: diff.modified.map((m) => m.id),
+  };
+}
+
+async function appendRevision(
+  playbookPath: string,
+  revisions: PlaybookRevision[],
+  content: string,
+  previous: Playbook | null,
+  options: Required<Pick<RecordRevisionOptions, "command" | "deltas">>
+): Promise<PlaybookRevision> {
+  const historyDir = getHistoryDir(playbookPath);
+  const rev = revisions.length > 0 ? revisions[revisions.length - 1].rev + 1 : 1;
+  const snapshot = snapshotFileName(rev);
+  const parsed = parseSnapshot(content);
+
+  await atomicWrite(path.join(historyDir, snapshot), content);
+
+  const revision: PlaybookRevision = {
+    rev,
+    timestamp: now(),
+    command: options.command,
+    playbookPath: expandPath(playbookPath),
+    deltas: options.deltas,
+    changes: summarizeChanges(previous, parsed),
+    bulletCount: parsed?.bullets.length ?? 0,
+    contentHash: hashSnapshot(content),
+    snapshot,
+  };
+
+  await fs.appendFile(getRevisionLogPath(playbookPath), JSON.stringify(revision) + "\n", "utf-8");
+  revisions.push(revision);
+  return revision;
+}
+
+/** Drop the oldest revisions (log entries and snapshots) beyond `maxRevisions`. */
+async function pruneRevisions(
+  playbookPath: string,
+  revisions: PlaybookRevision[],
+  maxRevisions: number
+): Promise<void> {
+  const excess = revisions.length - Math.max(1, maxRevisions);
+  if (excess <= 0) return;
+
+  const dropped = revisions.splice(0, excess);
+  await atomicWrite(getRevisionLogPath(playbookPath), revisions.map((r) => JSON.stringify(r)).join("\n") + "\n");
+
+  const historyDir = getHistoryDir(playbookPath);
+  for (const revision of dropped) {
+    await fs.rm(path.join(historyDir, revision.snapshot), { force: true });
+  }
+}
+
+/**
+ * Record a playbook save as a new revision.
+ *
+ * `previousContent` is what was on disk immediately before the save. When it
+ * does not match the latest recorded snapshot the file was changed outside of
+ * cm, and that state is captured as its own revision first so the new revision
+ * only carries the changes this command made.
+ *
+ * Saves that do not change the file content are not recorded. Revisions
+ * beyond `maxRevisions` (default MAX_REVISIONS) are pruned, oldest first.
+ */
+export async function recordPlaybookRevision(
+  playbookPath: string,
+  content: string,
+  previousContent: string | null,
+  options: RecordRevisionOptions = {}
+): Promise<PlaybookRevision | null> {
+  const historyDir = getHistoryDir(playbookPath);
+  await ensureDir(historyDir);
+  await ensureHistoryIgnored(historyDir);
+
+  return await withLock(getRevisionLogPath(playbookPath), async () => {
+    const revisions = await loadRevisions(playbookPath);
+    const latest = revisions.length > 0 ? revisions[revisions.length - 1] : undefined;
+    const newHash = hashSnapshot(content);
+
+    if (latest && latest.contentHash === newHash) return null;
+
+    let previous: Playbook | null = latest ? await loadRevisionSnapshot(playbookPath, latest) : null;
+
+    if (previousContent && previousContent.trim() && hashSnapshot(previousContent) !== latest?.contentHash) {
+      if (hashSnapshot(previousContent) === newHash) return null;
+      const priorState = parseSnapshot(previousContent);
+      await appendRevision(playbookPath, revisions, previousContent, previous, {
+        command: latest ? EXTERNAL_EDIT_COMMAND : BASELINE_COMMAND,
+        deltas: [],
+      });
+      previous = priorState;
+    }
+
+    const revision = await appendRevision(playbookPath, revisions, content, previous, {
+      command: options.command || "unknown",
+      deltas: options.deltas ?? [],
+    });
+    await pruneRevisions(playbookPath, revisions, options.maxRevisions ?? MAX_REVISIONS);
+    return revision;
+  });
+}
+
+// --- Diff ---
+
+export interface BulletChange {
+  id: string;
+  fields: string[];
+  before: PlaybookBullet;
+  after: PlaybookBullet;
+}
+
+export interface PlaybookDiff {
+  added: PlaybookBullet[];
+  removed: PlaybookBullet[];
+  modified: BulletChange[];
+}
+
+export function diffPlaybooks(before: Playbook | null, after: Playbook | null): PlaybookDiff {
+  const beforeMap = new Map((before?.bullets ?? []).map((b) => [b.id, b]));
+  const afterMap = new Map((after?.bullets ?? []).map((b) => [b.id, b]));
+  const diff: PlaybookDiff = { added: [], removed: [], modified: [] };
+
+  for (const [id, bullet] of afterMap) {
+    const prior = beforeMap.get(id);
+    if (!prior) {
+      diff.added.push(bullet);
+      continue;
+    }
+    if (bulletsEqual(prior, bullet)) continue;
+
+    const keys = new Set([...Object.keys(prior), ...Object.keys(bullet)]);
+    const fields = [...keys].filter(
+      (key) => JSON.stringify((prior as any)[key]) !== JSON.stringify((bullet as any)[key])
+    );
+    diff.modified.push({ id, fields, before: prior, after: bullet });
+  }
+
+  for (const [id, bullet] of beforeMap) {
+    if (!afterMap.has(id)) diff.removed.push(bullet);
+  }
+
+  return diff;
+}
+
+/**
+ * Resolve the snapshots on either side of a revision.
+ * `before` is null for the first revision (the playbook did not exist yet).
+ * Returns null when the revision is unknown, or when it is the oldest one
+ * retained after pruning and the state before it is no longer recorded.
+ */
+export async function getRevisionDiff(
+  playbookPath: string,
+  rev: number
+): Promise<{ revision: PlaybookRevision; before: Playbook | null; after: Playbook | null; diff: PlaybookDiff } | null> {
+  const revisions = await loadRevisions(playbookPath);
+  const index = revisions.findIndex((r) => r.rev === rev);
+  if (index === -1) return null;
+
+  const revision = revisions[index];
+  if (index === 0 && revision.rev > 1) return null;
+  const after = await loadRevisionSnapshot(playbookPath, revision);
+  const before = index > 0 ? await loadRevisionSnapshot(playbookPath, revisions[index - 1]) : null;
+
+  return { revision, before, after, diff: diffPlaybooks(before, after) };
+}
+
+// --- Revert ---
+
+export interface RevertConflict {
+  id: string;
+  reason: string;
+}
+
+export interface RevertPlan {
+  rev: number;
+  /** Bullets the revision added that will be removed again. */
+  remove: string[];
+  /** Bullets the revision removed that will be restored. */
+  restore: PlaybookBullet[];
+  /** Bullets the revision modified that will be reset to their prior state. */
+  reset: PlaybookBullet[];
+  /** Bullets changed again after the revision; skipped unless forced. */
+  conflicts: RevertConflict[];
+}
+
+/**
+ * Plan how to undo a single revision against the current playbook.
+ *
+ * Only bullets the revision touched are affected, so later, unrelated changes
+ * survive the revert. A bullet that was changed again after the revision is a
+ * conflict: reverting it would silently drop that later change, so it is only
+ * reverted when `force` is set.
+ */
+export function planRevert(
+  current: Playbook,
+  revisionDiff: { revision: PlaybookRevision; diff: PlaybookDiff },
+  options: { force?: boolean } = {}
+): RevertPlan {
+  const currentMap = new Map(current.bullets.map((b) => [b.id, b]));
+  const plan: RevertPlan = { rev: revisionDiff.revision.rev, remove: [], restore: [], reset: [], conflicts: [] };
+  const { diff } = revisionDiff;
+
+  for (const added of diff.added) {
+    const present = currentMap.get(added.id);
+    if (!present) continue;
+    if (!bulletsEqual(present, added) && !options.force) {
+      plan.conflicts.push({ id: added.id, reason: "changed after this revision" });
+      continue;
+    }
+    plan.remove.push(added.id);
+  }
+
+  for (const removed of diff.removed) {
+    if (currentMap.has(removed.id)) {
+      if (!options.force) {
+        plan.conflicts.push({ id: removed.id, reason: "re-added after this revision" });
+        continue;
+      }
+      plan.reset.push(removed);
+      continue;
+    }
+    plan.restore.push(removed);
+  }
+
+  for (const change of diff.modified) {
+    const present = currentMap.get(change.id);
+    if (!present) {
+      if (!options.force) {
+        plan.conflicts.push({ id: change.id, reason: "removed after this revision" });
+        continue;
+      }
+      plan.restore.push(change.before);
+      continue;
+    }
+    if (!bulletsEqual(present, change.after) && !options.force) {
+      plan.conflicts.push({ id: change.id, reason: "changed after this revision" });
+      continue;
+    }
+    plan.reset.push(change.before);
+  }
+
+  return plan;
+}
+
+/** Apply a revert plan in place. Returns the number of bullets changed. */
+export function applyRevertPlan(playbook: Playbook, plan: RevertPlan): number {
+  const removeIds = new Set(plan.remove);
+  playbook.bullets = playbook.bullets.filter((b) => !removeIds.has(b.id));
+
+  for (const bullet of plan.reset) {
+    const idx = playbook.bullets.findIndex((b) => b.id === bullet.id);
+    if (idx >= 0) playbook.bullets[idx] = bullet;
+  }
+
+  playbook.bullets.push(...plan.restore);
+  return plan.remove.length + plan.reset.length + plan.restore.length;
+}
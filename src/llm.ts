@@ -9,7 +9,7 @@ import { createAmazonBedrock } from "@ai-sdk/amazon-bedrock";
 import { createOllama } from "ollama-ai-provider";
 import { generateObject, type LanguageModel } from "ai";
 import { z } from "zod";
-import type { Config, DiaryEntry, LLMProvider } from "./types.js";
+import type { Config, DiaryEntry, LLMOperation, LLMProvider } from "./types.js";
 import { DEFAULT_ANTHROPIC_MODEL } from "./types.js";
 import { checkBudget, recordCost } from "./cost.js";
 import { truncateForContext, warn } from "./utils.js";
@@ -498,6 +498,11 @@ export function isLLMAvailable(provider: LLMProvider): boolean {
   return !!process.env[envVar];
 }
 
+/** Environment variable that makes a provider available (its API key, or OLLAMA_BASE_URL / AWS / CLI equivalents). */
+export function getProviderEnvVar(provider: LLMProvider): string {
+  return ENV_VAR_MAP[provider];
+}
+
 export function getAvailableProviders(): LLMProvider[] {
   return (Object.keys(ENV_VAR_MAP) as LLMProvider[]).filter((provider) =>
     isLLMAvailable(provider)
@@ -842,7 +847,8 @@ async function monitoredGenerateObject<T>(
   options: any,
   config: Config,
   context: string,
-  io: LLMIO = DEFAULT_LLM_IO
+  io: LLMIO = DEFAULT_LLM_IO,
+  operation?: LLMOperation
 ): Promise<LLMGenerateObjectResult<T>> {
   const budgetCheck = await checkBudget(config);
   if (!budgetCheck.allowed) {
@@ -860,7 +866,8 @@ async function monitoredGenerateObject<T>(
       model: config.model,
       tokensIn: result.usage.promptTokens,
       tokensOut: result.usage.completionTokens,
-      context
+      context,
+      ...(operation ? { operation } : {})
     });
   }
   
@@ -876,6 +883,32 @@ export function __resetAutoFallbackNoticeForTest(): void {
   _autoFallbackNoticeShown = false;
 }
 
+/**
+ * Config for one LLM operation: its `modelRoutes` entry, if any, applied over
+ * provider/model. A route that switches provider drops apiKey and baseUrl,
+ * which belong to the configured provider, so the route's own env key is used.
+ */
+export function resolveModelRoute(config: Config, operation: LLMOperation): Config {
+  const route = config.modelRoutes?.[operation];
+  if (!route) return config;
+  if (typeof route === "string") return { ...config, model: route };
+
+  const provider = route.provider ?? config.provider;
+  const routed: Config = { ...config, provider, model: route.model };
+  if (provider !== config.provider) {
+    delete routed.apiKey;
+    delete routed.baseUrl;
+  }
+  if (route.timeoutMs !== undefined) routed.llmTimeoutMs = route.timeoutMs;
+  return routed;
+}
+
+/** llmWithRetry timeouts for an operation, honouring a route's timeoutMs. */
+function routeTimeouts(config: Config, operation: LLMOperation): LLMTimeoutOverrides {
+  const routed = resolveModelRoute(config, operation);
+  return { perOperationTimeoutMs: routed.llmTimeoutMs, totalTimeoutMs: routed.llmTotalTimeoutMs };
+}
+
 /**
  * Resolve the provider/model that will actually serve a request.
  *
@@ -921,8 +954,13 @@ export async function generateObjectSafe<T>(
   prompt: string,
   config: Config,
   maxAttempts: number = 3,
-  io: LLMIO = DEFAULT_LLM_IO
+  io: LLMIO = DEFAULT_LLM_IO,
+  operation?: LLMOperation
 ): Promise<T> {
+  if (operation) {
+    config = resolveModelRoute(config, operation);
+  }
+
   // Honor the auto-fallback chain doctor advertises (real LLM calls only —
   // mock LLMIO tests inject responses directly and must stay hermetic).
   if (io === DEFAULT_LLM_IO) {
@@ -982,7 +1020,7 @@ export async function generateObjectSafe<T>(
         prompt: enhancedPrompt,
         temperature,
         ...objectGenerationOverrides(config.provider, config.disableStructuredOutputs)
-      }, config, "generateObjectSafe", io);
+      }, config, "generateObjectSafe", io, operation);
 
       return result.object;
     } catch (err: any) {
@@ -1009,7 +1047,7 @@ export async function generateObjectSafe<T>(
         throw new Error(
           `${errorMsg}\n` +
           `Hint: model '${config.model}' was rejected by provider '${config.provider}' — it may have been retired. ` +
-          `Update the "model" field in ~/.cass-memory/config.json (or .cass/config.yaml) to a current model id ` +
+          `Update the "${operation && config.modelRoutes?.[operation] ? `modelRoutes.${operation}` : "model"}" field in ~/.cass-memory/config.json (or .cass/config.yaml) to a current model id ` +
           `(e.g. "${DEFAULT_ANTHROPIC_MODEL}" for Anthropic) and re-run.`,
           { cause: err }
         );
@@ -1121,11 +1159,8 @@ export async function extractDiary<T>(
   });
 
   return llmWithRetry(async () => {
-    return generateObjectSafe(schema, prompt, config, 3, io);
-  }, "extractDiary", {
-    perOperationTimeoutMs: config.llmTimeoutMs,
-    totalTimeoutMs: config.llmTotalTimeoutMs,
-  });
+    return generateObjectSafe(schema, prompt, config, 3, io, "diary");
+  }, "extractDiary", routeTimeouts(config, "diary"));
 }
 
 export async function runReflector<T>(
@@ -1170,8 +1205,8 @@ Key Learnings: ${diary.keyLearnings.join('\n- ')}
   });
 
   return llmWithRetry(async () => {
-    return generateObjectSafe(schema, prompt, config, 3, io);
-  }, "runReflector");
+    return generateObjectSafe(schema, prompt, config, 3, io, "reflector");
+  }, "runReflector", routeTimeouts(config, "reflector"));
 }
 
 export interface ValidatorResult {
@@ -1219,7 +1254,7 @@ export async function runValidator(
   });
 
   return llmWithRetry(async () => {
-    const object = await generateObjectSafe(ValidatorOutputSchema, prompt, config, 3, io);
+    const object = await generateObjectSafe(ValidatorOutputSchema, prompt, config, 3, io, "validator");
 
     const supporting = object.evidence?.supporting ?? [];
     const contradicting = object.evidence?.contradicting ?? [];
@@ -1237,7 +1272,7 @@ export async function runValidator(
       evidence: mappedEvidence,
       suggestedRefinement: object.suggestedRefinement || undefined
     };
-  }, "runValidator");
+  }, "runValidator", routeTimeouts(config, "validator"));
 }
 
 export async function generateContext(
@@ -1256,9 +1291,9 @@ export async function generateContext(
   });
 
   return llmWithRetry(async () => {
-    const result = await generateObjectSafe(z.object({ briefing: z.string() }), prompt, config, 3, io);
+    const result = await generateObjectSafe(z.object({ briefing: z.string() }), prompt, config, 3, io, "context");
     return result.briefing;
-  }, "generateContext");
+  }, "generateContext", routeTimeouts(config, "context"));
 }
 
 export async function generateSearchQueries(
@@ -1282,10 +1317,11 @@ Make queries specific enough to be useful but broad enough to match variations.`
       prompt, 
       config,
       3,
-      io
+      io,
+      "searchQueries"
     );
     return result.queries;
-  }, "generateSearchQueries");
+  }, "generateSearchQueries", routeTimeouts(config, "searchQueries"));
 }
 
 // --- Multi-Provider Fallback ---
@@ -1307,8 +1343,13 @@ export async function llmWithFallback<T>(
   schema: z.ZodSchema<T>,
   prompt: string,
   config: Config,
-  io: LLMIO = DEFAULT_LLM_IO
+  io: LLMIO = DEFAULT_LLM_IO,
+  operation?: LLMOperation
 ): Promise<T> {
+  if (operation) {
+    config = resolveModelRoute(config, operation);
+  }
+
   const primaryProvider = config.provider as LLMProvider;
   const primaryModel = config.model;
 
@@ -1363,7 +1404,7 @@ export async function llmWithFallback<T>(
         // Keyed on the per-iteration fallback provider, not config.provider:
         // a fallback hop to/from openai must get the right request shape.
         ...objectGenerationOverrides(provider, config.disableStructuredOutputs)
-      }, costConfig, "llmWithFallback", io);
+      }, costConfig, "llmWithFallback", io, operation);
 
       return result.object;
     } catch (err: any) {
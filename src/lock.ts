@@ -145,7 +145,7 @@ async function tryRemoveStaleLock(lockPath: string, thresholdMs = STALE_LOCK_THR
   return false;
 }
 
-function pidIsRunning(pid: number): boolean {
+export function pidIsRunning(pid: number): boolean {
   if (!Number.isFinite(pid) || pid <= 0) return false;
   try {
     process.kill(pid, 0);
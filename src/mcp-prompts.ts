@@ -0,0 +1,215 @@
+/**
+ * MCP prompts served by `cm serve` (prompts/list, prompts/get).
+ *
+ * Each prompt fills one of the LLM templates in PROMPTS with live playbook
+ * data, so a client can offer it as a slash-command: the agent receives the
+ * same instructions the reflection pipeline uses, plus a short note on which
+ * cm tools record the result.
+ */
+
+import { fillPrompt, PROMPTS } from "./llm.js";
+import { formatBulletsForPrompt, formatCassHistory } from "./reflect.js";
+import { loadMergedPlaybook, getActiveBullets, findBullet } from "./playbook.js";
+import { getEffectiveScore } from "./scoring.js";
+import { generateContextResult } from "./commands/context.js";
+import { loadConfig } from "./config.js";
+import { loadTraumas, findMatchingTrauma } from "./trauma.js";
+import { truncateForContext } from "./utils.js";
+
+export interface McpPromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+export interface McpPromptDef {
+  name: string;
+  title: string;
+  description: string;
+  arguments: McpPromptArgument[];
+}
+
+export interface McpPromptResult {
+  description: string;
+  messages: Array<{ role: "user"; content: { type: "text"; text: string } }>;
+}
+
+/** Most bullets a retrospective lists as the existing playbook. */
+const RETROSPECTIVE_MAX_BULLETS = 100;
+
+const OUTCOMES = ["success", "failure", "mixed", "partial"] as const;
+
+export const PROMPT_DEFS: McpPromptDef[] = [
+  {
+    name: "pre-task-briefing",
+    title: "Pre-task briefing",
+    description: "Brief the agent on the rules, pitfalls and past sessions relevant to a task before starting it",
+    arguments: [
+      { name: "task", description: "What you are about to do", required: true },
+      { name: "workspace", description: "Workspace path for repo-scoped rules (default: server cwd)" },
+    ],
+  },
+  {
+    name: "post-task-retrospective",
+    title: "Post-task retrospective",
+    description: "Turn what happened in this session into playbook changes and record them with the cm tools",
+    arguments: [
+      { name: "summary", description: "What happened: what worked, what failed, what you learned", required: true },
+      { name: "task", description: "The task the session worked on" },
+    ],
+  },
+  {
+    name: "record-outcome",
+    title: "Record outcome",
+    description: "Check which cited rules were followed or violated, then record the session outcome",
+    arguments: [
+      { name: "sessionId", description: "Session identifier", required: true },
+      { name: "outcome", description: "success | failure | mixed | partial", required: true },
+      { name: "rulesUsed", description: "Comma-separated bullet ids the session relied on" },
+      { name: "notes", description: "Notes about the session to audit instead of the conversation" },
+    ],
+  },
+];
+
+/** Prompts that search cass history and so run under the serve admission limiter. */
+export const CASS_BACKED_PROMPTS = new Set(["pre-task-briefing"]);
+
+function userMessage(text: string): McpPromptResult["messages"][number] {
+  return { role: "user", content: { type: "text", text } };
+}
+
+function requireArg(args: Record<string, unknown>, name: string): string {
+  const value = args[name];
+  if (typeof value !== "string" || value.trim() === "") {
+    throw new Error(`Missing required argument: ${name}`);
+  }
+  return value.trim();
+}
+
+function optionalArg(args: Record<string, unknown>, name: string): string | undefined {
+  const value = args[name];
+  return typeof value === "string" && value.trim() !== "" ? value.trim() : undefined;
+}
+
+async function preTaskBriefing(args: Record<string, unknown>): Promise<McpPromptResult> {
+  const task = requireArg(args, "task");
+  const trauma = findMatchingTrauma(task, await loadTraumas());
+  const traumaWarning = trauma
+    ? {
+        pattern: trauma.pattern,
+        reason: trauma.trigger_event.human_message || "You previously caused a catastrophe with this pattern.",
+        reference: trauma.trigger_event.session_path,
+      }
+    : undefined;
+  const { result } = await generateContextResult(
+    task,
+    { workspace: optionalArg(args, "workspace"), json: true },
+    { traumaWarning }
+  );
+
+  const text = fillPrompt(PROMPTS.context, {
+    task: truncateForContext(task, { maxChars: 5000 }),
+    bullets: formatBulletsForPrompt([...result.relevantBullets, ...result.antiPatterns]),
+    history: formatCassHistory(result.historySnippets),
+    deprecatedPatterns: result.deprecatedWarnings.length > 0 ? result.deprecatedWarnings.join("\n") : "(None)",
+  });
+  const messages = [userMessage(text)];
+  if (result.citationProtocol) messages.push(userMessage(result.citationProtocol));
+  if (result.traumaWarning) {
+    messages.push(
+      userMessage(`WARNING: this task matches a registered trauma (${result.traumaWarning.pattern}): ${result.traumaWarning.reason}`)
+    );
+  }
+  return { description: `Briefing for: ${truncateForContext(task, { maxChars: 80 })}`, messages };
+}
+
+async function postTaskRetrospective(args: Record<string, unknown>): Promise<McpPromptResult> {
+  const summary = requireArg(args, "summary");
+  const task = optionalArg(args, "task");
+  const config = await loadConfig();
+
+  const bullets = getActiveBullets(await loadMergedPlaybook(config))
+    .map((bullet) => ({ bullet, score: getEffectiveScore(bullet, config) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, RETROSPECTIVE_MAX_BULLETS)
+    .map(({ bullet }) => bullet);
+
+  const diary = [
+    "## Session Overview",
+    `- Task: ${task ?? "(not given)"}`,
+    "",
+    "## Summary",
+    summary,
+  ].join("\n");
+
+  const text = fillPrompt(PROMPTS.reflector, {
+    existingBullets: formatBulletsForPrompt(bullets),
+    diary: truncateForContext(diary, { maxChars: 20000 }),
+    cassHistory: "(Not searched for this retrospective)",
+    iterationNote: "",
+  });
+  return {
+    description: "Retrospective for the current session",
+    messages: [
+      userMessage(text),
+      userMessage(
+        "Then record each delta with the cm tools instead of leaving it as JSON: " +
+          "add → cm_add, helpful/harmful → cm_feedback, deprecate → cm_forget. " +
+          "Leave replace and merge deltas for `cm review` or `cm tui`."
+      ),
+    ],
+  };
+}
+
+async function recordOutcome(args: Record<string, unknown>): Promise<McpPromptResult> {
+  const sessionId = requireArg(args, "sessionId");
+  const outcome = requireArg(args, "outcome").toLowerCase();
+  if (!(OUTCOMES as readonly string[]).includes(outcome)) {
+    throw new Error(`outcome must be one of: ${OUTCOMES.join(", ")}`);
+  }
+  const notes = optionalArg(args, "notes");
+  const ruleIds = (optionalArg(args, "rulesUsed") ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+
+  let rulesToCheck = "(No rules listed: check the cm rule ids cited in this session)";
+  if (ruleIds.length > 0) {
+    const playbook = await loadMergedPlaybook(await loadConfig());
+    rulesToCheck = ruleIds
+      .map((id) => {
+        const bullet = findBullet(playbook, id);
+        return bullet ? `- [${id}] ${bullet.content}` : `- [${id}] (not in the playbook)`;
+      })
+      .join("\n");
+  }
+
+  const text = fillPrompt(PROMPTS.audit, {
+    sessionContent: notes ? truncateForContext(notes, { maxChars: 20000 }) : "(Use this conversation as the session content)",
+    rulesToCheck,
+  });
+  return {
+    description: `Record the ${outcome} outcome of ${sessionId}`,
+    messages: [
+      userMessage(text),
+      userMessage(
+        `Then call cm_outcome with sessionId "${sessionId}", outcome "${outcome}" and rulesUsed set to the rules you found FOLLOWED. ` +
+          "For each VIOLATED rule that caused trouble, call cm_feedback with harmful: true and the evidence as the reason."
+      ),
+    ],
+  };
+}
+
+/** Build the messages for a prompts/get request. Throws on an unknown prompt or bad arguments. */
+export async function getMcpPrompt(name: string, args: Record<string, unknown> = {}): Promise<McpPromptResult> {
+  switch (name) {
+    case "pre-task-briefing":
+      return preTaskBriefing(args);
+    case "post-task-retrospective":
+      return postTaskRetrospective(args);
+    case "record-outcome":
+      return recordOutcome(args);
+    default:
+      throw new Error(`Unknown prompt: ${name}`);
+  }
+}
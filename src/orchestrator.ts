@@ -1,5 +1,5 @@
 import { Config, CurationResult, Playbook, PlaybookDelta, DecisionLogEntry, PlaybookBullet, ProcessedEntry } from "./types.js";
-import { loadMergedPlaybook, loadPlaybook, savePlaybook, findBullet, mergePlaybooks } from "./playbook.js";
+import { loadMergedPlaybook, loadPlaybook, savePlaybook, findBullet, mergePlaybooks, loadAllBlockedEntries, createBlockedMatcher } from "./playbook.js";
 import { ProcessedLog, getProcessedLogPath } from "./tracking.js";
 import { findUnprocessedSessions, cassExport } from "./cass.js";
 import { generateDiary } from "./diary.js";
@@ -7,9 +7,12 @@ import { reflectOnSession } from "./reflect.js";
 import { validateDelta } from "./validate.js";
 import type { LLMIO } from "./llm.js";
 import { curatePlaybook } from "./curate.js";
+import { getWorkspaceProfile, inferScopeKey, type WorkspaceProfile } from "./workspace-profile.js";
 import { expandPath, log, warn, error, now, fileExists, resolveRepoDir, generateBulletId, hashContent, jaccardSimilarity, ensureDir, parseInlineFeedback } from "./utils.js";
 import { withLock } from "./lock.js";
-import { extractRuleIdsFromTranscript, classifySessionOutcome, recordOutcome, applyOutcomeFeedback, type OutcomeInput } from "./outcome.js";
+import { listTeams, getTeamPlaybookPath } from "./team.js";
+import { deltaContent, enqueueReviewItems, type ReviewProposal } from "./review.js";
+import { resolveOutcomeRuleIds, classifySessionOutcome, recordOutcome, applyOutcomeFeedback, loadOutcomes, type OutcomeInput } from "./outcome.js";
 import path from "node:path";
 
 export interface ReflectionOptions {
@@ -18,17 +21,27 @@ export interface ReflectionOptions {
   agent?: string;
   workspace?: string;
   session?: string; // Specific session path
+  /** Sessions to process, in order, instead of discovering them (cm reflect passes its budget plan) */
+  sessions?: string[];
+  /** Markdown exports already made for these sessions (by the budget plan), reused instead of exporting again */
+  exports?: Map<string, string>;
   dryRun?: boolean;
   onProgress?: (event: ReflectionProgressEvent) => void;
   /** Optional LLMIO for testing - bypasses env-based stubs when provided */
   io?: LLMIO;
 }
 
+export interface TeamCurationResult {
+  name: string;
+  result: CurationResult;
+}
+
 export interface ReflectionOutcome {
   sessionsProcessed: number;
   deltasGenerated: number;
   globalResult?: CurationResult;
   repoResult?: CurationResult;
+  teamResults?: TeamCurationResult[];
   dryRunDeltas?: PlaybookDelta[];
   errors: string[];
   /** Auto-recorded rule outcomes from processed sessions */
@@ -38,6 +51,12 @@ export interface ReflectionOutcome {
     missingRules: string[];
     inlineFeedbackDeltas: number;
   };
+  /** With curation.requireApproval: proposals queued for `cm review` */
+  review?: {
+    queued: number;
+    /** Already in the queue (pending, approved or rejected) */
+    duplicates: number;
+  };
 }
 
 export type ReflectionProgressEvent =
@@ -71,6 +90,211 @@ function findBestActiveSimilarBullet(
   return best?.bullet;
 }
 
+/**
+ * Curate deltas into the playbooks under their locks: merge deltas are
+ * decomposed into add/deprecate, deltas targeting a repo or team bullet go to
+ * the playbook that owns it and everything else (including new rules) to the
+ * global one.
+ */
+export async function applyPlaybookDeltas(
+  config: Config,
+  deltas: PlaybookDelta[],
+  options: {
+    command: string;
+    updateLastReflection?: boolean;
+    /** Repo .cass dir to curate into; defaults to the cwd's repo, null for global only */
+    repoDir?: string | null;
+  }
+): Promise<{ globalResult?: CurationResult; repoResult?: CurationResult; teamResults?: TeamCurationResult[] }> {
+  const globalPath = expandPath(config.playbookPath);
+  const repoDir = options.repoDir !== undefined ? options.repoDir : await resolveRepoDir();
+  const repoPath = repoDir ? path.join(repoDir, "playbook.yaml") : null;
+  const hasRepo = repoPath ? await fileExists(repoPath) : false;
+  const teamLayers: Array<{ name: string; path: string }> = [];
+  for (const name of await listTeams()) {
+    const teamPath = getTeamPlaybookPath(name);
+    if (await fileExists(teamPath)) teamLayers.push({ name, path: teamPath });
+  }
+
+  // We lock Global first, then Teams, then Repo (if exists) to prevent deadlocks.
+  let globalResult: CurationResult | undefined;
+  let repoResult: CurationResult | undefined;
+  const teamResults: TeamCurationResult[] = [];
+
+  const performMerge = async () => {
+    // Reload fresh playbooks under lock
+    const globalPlaybook = await loadPlaybook(globalPath);
+    let repoPlaybook: Playbook | null = null;
+    if (hasRepo) {
+      repoPlaybook = await loadPlaybook(repoPath!);
+    }
+    const teamPlaybooks: Array<{ name: string; path: string; playbook: Playbook }> = [];
+    for (const team of teamLayers) {
+      teamPlaybooks.push({ ...team, playbook: await loadPlaybook(team.path) });
+    }
+    
+    // Create fresh merged context (global < teams < repo) to ensure deduplication uses up-to-date data
+    let base = globalPlaybook;
+    for (const team of teamPlaybooks) {
+      base = mergePlaybooks(base, team.playbook);
+    }
+    const freshMerged = mergePlaybooks(base, repoPlaybook);
+
+    // Pre-process deltas to decompose 'merge' operations into atomic add/deprecate actions.
+    // This allows us to route deprecations to their specific playbooks (Repo, Team or Global)
+    // while adding the new merged rule to the default location (Global).
+    const processedDeltas: PlaybookDelta[] = [];
+    
+    for (const delta of deltas) {
+      if (delta.type !== "merge") {
+        processedDeltas.push(delta);
+        continue;
+      }
+
+      const mergedContent = delta.mergedContent;
+      const threshold = typeof config.dedupSimilarityThreshold === "number" ? config.dedupSimilarityThreshold : 0.85;
+
+      // If the merged content already exists (or is very similar), prefer deprecating into it
+      // rather than creating a duplicate replacement that curation might skip.
+      const exactMatch = findFirstHashMatch(freshMerged, mergedContent);
+      if (exactMatch && !isActiveBullet(exactMatch)) {
+        warn(
+          `[orchestrator] Skipping merge delta: merged content matches deprecated/blocked bullet ${exactMatch.id}`
+        );
+        continue;
+      }
+
+      const replacement =
+        exactMatch && isActiveBullet(exactMatch)
+          ? exactMatch
+          : findBestActiveSimilarBullet(freshMerged, mergedContent, threshold);
+
+      if (replacement) {
+        for (const id of delta.bulletIds) {
+          // If one of the merged bullets is already the best replacement, keep it active and only deprecate the others.
+          if (id === replacement.id) continue;
+          processedDeltas.push({
+            type: "deprecate",
+            bulletId: id,
+            reason: `Merged into existing ${replacement.id}`,
+            replacedBy: replacement.id
+          });
+        }
+        continue;
+      }
+
+      const newBulletId = generateBulletId();
+
+      // 1. Create the new merged rule
+      processedDeltas.push({
+        type: "add",
+        bullet: {
+          id: newBulletId, // Pre-assign ID so deprecate deltas can reference it
+          content: mergedContent,
+          category: "merged",
+          tags: []
+        },
+        // Merge deltas don't carry sourceSession, so we use a placeholder
+        sourceSession: "merged-operation",
+        reason: delta.reason || "Merged from existing rules"
+      });
+
+      // 2. Deprecate the old rules
+      for (const id of delta.bulletIds) {
+        processedDeltas.push({
+          type: "deprecate",
+          bulletId: id,
+          reason: `Merged into ${newBulletId}`,
+          replacedBy: newBulletId
+        });
+      }
+    }
+
+    // Partition deltas (Routing Logic)
+    const globalDeltas: PlaybookDelta[] = [];
+    const repoDeltas: PlaybookDelta[] = [];
+    const teamDeltas = new Map<string, PlaybookDelta[]>();
+
+    for (const delta of processedDeltas) {
+      let routed = false;
+      
+      // Feedback/Replace/Delete: Must target existing ID
+      if ('bulletId' in delta && delta.bulletId) {
+        if (repoPlaybook && findBullet(repoPlaybook, delta.bulletId)) {
+          repoDeltas.push(delta);
+          routed = true;
+        }
+        const owningTeam = routed ? undefined : teamPlaybooks.find((t) => findBullet(t.playbook, delta.bulletId));
+        if (owningTeam) {
+          teamDeltas.set(owningTeam.name, [...(teamDeltas.get(owningTeam.name) ?? []), delta]);
+          routed = true;
+        } else if (!routed && findBullet(globalPlaybook, delta.bulletId)) {
+          globalDeltas.push(delta);
+          routed = true;
+        }
+      }
+
+      // New rules or orphans default to Global
+      if (!routed) {
+         globalDeltas.push(delta);
+      }
+    }
+
+    // Apply Curation
+    if (globalDeltas.length > 0) {
+      globalResult = curatePlaybook(globalPlaybook, globalDeltas, config, freshMerged);
+      await savePlaybook(globalResult.playbook, globalPath, { updateLastReflection: options.updateLastReflection, command: options.command, deltas: globalDeltas });
+    }
+
+    if (repoDeltas.length > 0 && repoPlaybook && repoPath) {
+      repoResult = curatePlaybook(repoPlaybook, repoDeltas, config, freshMerged);
+      await savePlaybook(repoResult.playbook, repoPath, { updateLastReflection: options.updateLastReflection, command: options.command, deltas: repoDeltas });
+    }
+
+    for (const team of teamPlaybooks) {
+      const deltasForTeam = teamDeltas.get(team.name);
+      if (!deltasForTeam) continue;
+      const result = curatePlaybook(team.playbook, deltasForTeam, config, freshMerged);
+      await savePlaybook(result.playbook, team.path, { command: options.command, deltas: deltasForTeam });
+      teamResults.push({ name: team.name, result });
+    }
+  };
+
+  // Execute Merge with Locking
+  const lockPaths = [globalPath, ...teamLayers.map((t) => t.path), ...(hasRepo && repoPath ? [repoPath] : [])];
+  const lockAll = (paths: string[]): Promise<void> =>
+    paths.length === 0 ? performMerge() : withLock(paths[0], () => lockAll(paths.slice(1)));
+  await lockAll(lockPaths);
+
+  return { globalResult, repoResult, teamResults: teamResults.length > 0 ? teamResults : undefined };
+}
+
+/**
+ * Sessions a reflection run would process, in processing order: the given
+ * sessions, or the most recent unprocessed ones cass knows about. Sessions
+ * already in the processed log are dropped. Throws when discovery fails.
+ */
+export async function discoverReflectionSessions(
+  config: Config,
+  options: Pick<ReflectionOptions, "days" | "maxSessions" | "agent" | "session" | "sessions">,
+  processedLog: ProcessedLog
+): Promise<string[]> {
+  const sessions = options.sessions ?? (options.session
+    ? [options.session]
+    : await findUnprocessedSessions(
+        processedLog.getProcessedPaths(),
+        {
+          days: options.days || config.sessionLookbackDays,
+          maxSessions: options.maxSessions || 5,
+          agent: options.agent,
+          excludePatterns: config.sessionExcludePatterns,
+          includeAll: config.sessionIncludeAll
+        },
+        config.cassPath
+      ));
+  return sessions.filter(s => !processedLog.has(s));
+}
+
 /**
  * Core logic for the reflection loop.
  * Handles session discovery, LLM reflection, delta validation, splitting, and persistence.
@@ -81,10 +305,6 @@ export async function orchestrateReflection(
   options: ReflectionOptions
 ): Promise<ReflectionOutcome> {
   const logPath = expandPath(getProcessedLogPath(options.workspace));
-  const globalPath = expandPath(config.playbookPath);
-  const repoDir = await resolveRepoDir();
-  const repoPath = repoDir ? path.join(repoDir, "playbook.yaml") : null;
-  const hasRepo = repoPath ? await fileExists(repoPath) : false;
 
   // 1. Lock the Workspace Log to serialize reflection for this specific workspace
   // Use a specific lock suffix to allow ProcessedLog internal locking to work independently
@@ -102,33 +322,20 @@ export async function orchestrateReflection(
     // We need the playbook to give context to the LLM. 
     // Stale data here is acceptable (LLM might suggest a rule that just got added, curation will dedupe).
     const snapshotPlaybook = await loadMergedPlaybook(config);
+    // Content the user forgot or rejected in review is never proposed again
+    const isBlocked = createBlockedMatcher(await loadAllBlockedEntries(await resolveRepoDir()));
 
     // 3. Discovery Phase
-    let sessions: string[] = [];
+    let unprocessed: string[] = [];
     const errors: string[] = [];
 
-    if (options.session) {
-      sessions = [options.session];
-    } else {
-      try {
-        sessions = await findUnprocessedSessions(
-          processedLog.getProcessedPaths(),
-          {
-            days: options.days || config.sessionLookbackDays,
-            maxSessions: options.maxSessions || 5,
-            agent: options.agent,
-            excludePatterns: config.sessionExcludePatterns,
-            includeAll: config.sessionIncludeAll
-          },
-          config.cassPath
-        );
-      } catch (err: any) {
-        errors.push(`Session discovery failed: ${err.message}`);
-        return { sessionsProcessed: 0, deltasGenerated: 0, errors };
-      }
+    try {
+      unprocessed = await discoverReflectionSessions(config, options, processedLog);
+    } catch (err: any) {
+      errors.push(`Session discovery failed: ${err.message}`);
+      return { sessionsProcessed: 0, deltasGenerated: 0, errors };
     }
 
-    const unprocessed = sessions.filter(s => !processedLog.has(s));
     if (unprocessed.length === 0) {
       return { sessionsProcessed: 0, deltasGenerated: 0, errors };
     }
@@ -137,6 +344,8 @@ export async function orchestrateReflection(
 
     // 4. Reflection Phase (LLM) - Done WITHOUT holding playbook locks
     const allDeltas: PlaybookDelta[] = [];
+    // Reflector deltas with their validation evidence, for the review queue
+    const proposals: ReviewProposal[] = [];
     const pendingProcessedEntries: ProcessedEntry[] = [];
     const pendingOutcomes: OutcomeInput[] = [];
     let sessionsProcessed = 0;
@@ -152,11 +361,11 @@ export async function orchestrateReflection(
       });
 
       try {
-        const diary = await generateDiary(sessionPath, config);
+        const exported = options.exports?.get(sessionPath) ?? (await cassExport(sessionPath, "markdown", config.cassPath, config));
+        if (exported === null) throw new Error(`Failed to export session: ${sessionPath}`);
 
-        // Quick check for empty sessions to save tokens
-        const content = await cassExport(sessionPath, "text", config.cassPath, config) || "";
-        if (content.length < 50) {
+        // Quick check for empty sessions, before the diary spends any tokens on them
+        if (exported.length < 50) {
           options.onProgress?.({
             phase: "session_skip",
             index: i + 1,
@@ -169,16 +378,20 @@ export async function orchestrateReflection(
           pendingProcessedEntries.push({
             sessionPath,
             processedAt: now(),
-            diaryId: diary.id,
             deltasGenerated: 0
           });
           continue;
         }
 
+        const diary = await generateDiary(sessionPath, config, exported);
+        // Plain text for inline feedback and outcome classification
+        const content = await cassExport(sessionPath, "text", config.cassPath, config) || "";
+
         const reflectResult = await reflectOnSession(diary, snapshotPlaybook, config, options.io);
 
         // Validation
         const validatedDeltas: PlaybookDelta[] = [];
+        let profile: WorkspaceProfile | undefined;
         for (const delta of reflectResult.deltas) {
           const validation = await validateDelta(delta, config);
           if (validation.valid) {
@@ -186,7 +399,30 @@ export async function orchestrateReflection(
             if (validation.result?.refinedRule && delta.type === "add") {
               delta.bullet.content = validation.result.refinedRule;
             }
+            const content = deltaContent(delta);
+            const blocked = content ? isBlocked(content) : undefined;
+            if (blocked) {
+              log(`Skipping delta matching blocked content (${blocked.id}): "${content!.slice(0, 50)}"`, true);
+              continue;
+            }
+            // Language/framework-scoped rules get their key from the session's workspace profile
+            if (
+              delta.type === "add" &&
+              (delta.bullet.scope === "language" || delta.bullet.scope === "framework") &&
+              !delta.bullet.scopeKey
+            ) {
+              profile ??= await getWorkspaceProfile(diary.workspace ?? options.workspace ?? process.cwd());
+              const scopeKey = inferScopeKey(delta.bullet, profile);
+              if (scopeKey) delta.bullet.scopeKey = scopeKey;
+            }
             validatedDeltas.push(delta);
+            proposals.push({
+              delta,
+              sourceSession: sessionPath,
+              diaryId: diary.id,
+              validation: validation.result,
+              evidenceGate: validation.gate,
+            });
           }
         }
 
@@ -208,14 +444,12 @@ export async function orchestrateReflection(
             inlineFeedbackDeltaCount += inlineFeedback.length;
           }
 
-          // Extract rule IDs and classify session outcome for auto-recording.
-          // Exclude IDs that already have explicit inline feedback to avoid
-          // double-counting (they get direct signal from the delta above).
-          const inlineFeedbackIds = new Set(inlineFeedback.map(fb => fb.bulletId.toLowerCase()));
-          const ruleIds = extractRuleIdsFromTranscript(content)
-            .filter(id => !inlineFeedbackIds.has(id));
+          // Classify the session outcome against the rules it cited as applied
+          // (or, without citations, the rule IDs it mentions). Rules with
+          // explicit inline feedback got direct signal from the delta above.
+          const { ruleIds, cited } = resolveOutcomeRuleIds(content);
           if (ruleIds.length > 0) {
-            const outcomeInput = classifySessionOutcome(content, diary, ruleIds);
+            const outcomeInput = classifySessionOutcome(content, diary, ruleIds, { cited, source: "reflect" });
             if (outcomeInput) {
               pendingOutcomes.push(outcomeInput);
             }
@@ -270,136 +504,22 @@ export async function orchestrateReflection(
       return { sessionsProcessed, deltasGenerated: 0, errors };
     }
 
-    // 5. Merge Phase: Lock Playbooks, Reload, Curate, Save
-    // We lock Global first, then Repo (if exists) to prevent deadlocks.
-    let globalResult: CurationResult | undefined;
-    let repoResult: CurationResult | undefined;
-
-    const performMerge = async () => {
-      // Reload fresh playbooks under lock
-      const globalPlaybook = await loadPlaybook(globalPath);
-      let repoPlaybook: Playbook | null = null;
-      if (hasRepo) {
-        repoPlaybook = await loadPlaybook(repoPath!);
-      }
-      
-      // Create fresh merged context to ensure deduplication uses up-to-date data
-      const freshMerged = mergePlaybooks(globalPlaybook, repoPlaybook);
-
-      // Pre-process deltas to decompose 'merge' operations into atomic add/deprecate actions.
-      // This allows us to route deprecations to their specific playbooks (Repo vs Global)
-      // while adding the new merged rule to the default location (Global).
-      const processedDeltas: PlaybookDelta[] = [];
-      
-      for (const delta of allDeltas) {
-        if (delta.type !== "merge") {
-          processedDeltas.push(delta);
-          continue;
-        }
-
-        const mergedContent = delta.mergedContent;
-        const threshold = typeof config.dedupSimilarityThreshold === "number" ? config.dedupSimilarityThreshold : 0.85;
-
-        // If the merged content already exists (or is very similar), prefer deprecating into it
-        // rather than creating a duplicate replacement that curation might skip.
-        const exactMatch = findFirstHashMatch(freshMerged, mergedContent);
-        if (exactMatch && !isActiveBullet(exactMatch)) {
-          warn(
-            `[orchestrator] Skipping merge delta: merged content matches deprecated/blocked bullet ${exactMatch.id}`
-          );
-          continue;
-        }
-
-        const replacement =
-          exactMatch && isActiveBullet(exactMatch)
-            ? exactMatch
-            : findBestActiveSimilarBullet(freshMerged, mergedContent, threshold);
-
-        if (replacement) {
-          for (const id of delta.bulletIds) {
-            // If one of the merged bullets is already the best replacement, keep it active and only deprecate the others.
-            if (id === replacement.id) continue;
-            processedDeltas.push({
-              type: "deprecate",
-              bulletId: id,
-              reason: `Merged into existing ${replacement.id}`,
-              replacedBy: replacement.id
-            });
-          }
-          continue;
-        }
-
-        const newBulletId = generateBulletId();
-
-        // 1. Create the new merged rule
-        processedDeltas.push({
-          type: "add",
-          bullet: {
-            id: newBulletId, // Pre-assign ID so deprecate deltas can reference it
-            content: mergedContent,
-            category: "merged",
-            tags: []
-          },
-          // Merge deltas don't carry sourceSession, so we use a placeholder
-          sourceSession: "merged-operation",
-          reason: delta.reason || "Merged from existing rules"
-        });
-
-        // 2. Deprecate the old rules
-        for (const id of delta.bulletIds) {
-          processedDeltas.push({
-            type: "deprecate",
-            bulletId: id,
-            reason: `Merged into ${newBulletId}`,
-            replacedBy: newBulletId
-          });
-        }
-      }
-
-      // Partition deltas (Routing Logic)
-      const globalDeltas: PlaybookDelta[] = [];
-      const repoDeltas: PlaybookDelta[] = [];
-
-      for (const delta of processedDeltas) {
-        let routed = false;
-        
-        // Feedback/Replace/Delete: Must target existing ID
-        if ('bulletId' in delta && delta.bulletId) {
-          if (repoPlaybook && findBullet(repoPlaybook, delta.bulletId)) {
-            repoDeltas.push(delta);
-            routed = true;
-          } else if (findBullet(globalPlaybook, delta.bulletId)) {
-            globalDeltas.push(delta);
-            routed = true;
-          }
-        }
-
-        // New rules or orphans default to Global
-        if (!routed) {
-           globalDeltas.push(delta);
-        }
-      }
-
-      // Apply Curation
-      if (globalDeltas.length > 0) {
-        globalResult = curatePlaybook(globalPlaybook, globalDeltas, config, freshMerged);
-        await savePlaybook(globalResult.playbook, globalPath, { updateLastReflection: true });
-      }
-
-      if (repoDeltas.length > 0 && repoPlaybook && repoPath) {
-        repoResult = curatePlaybook(repoPlaybook, repoDeltas, config, freshMerged);
-        await savePlaybook(repoResult.playbook, repoPath, { updateLastReflection: true });
-      }
-    };
+    // 5a. Approval mode: reflector deltas wait in the review queue; inline
+    // feedback is the user's own signal and is still curated directly.
+    let deltasToCurate = allDeltas;
+    let review: ReflectionOutcome["review"];
+    if (config.curation.requireApproval) {
+      const { queued, duplicates } = await enqueueReviewItems(proposals);
+      review = { queued: queued.length, duplicates };
+      log(`Queued ${queued.length} delta(s) for review`);
+      const proposed = new Set(proposals.map((p) => p.delta));
+      deltasToCurate = allDeltas.filter((d) => !proposed.has(d));
+    }
 
-    // Execute Merge with Locking
-    await withLock(globalPath, async () => {
-      if (hasRepo && repoPath) {
-        await withLock(repoPath, performMerge);
-      } else {
-        await performMerge();
-      }
-    });
+    // 5b. Merge Phase: Lock Playbooks, Reload, Curate, Save
+    const { globalResult, repoResult, teamResults } = deltasToCurate.length > 0
+      ? await applyPlaybookDeltas(config, deltasToCurate, { command: "reflect", updateLastReflection: true })
+      : {};
 
     // Final log save - only mark processed AFTER rules are persisted
     if (pendingProcessedEntries.length > 0) {
@@ -410,8 +530,14 @@ export async function orchestrateReflection(
     let autoOutcome: ReflectionOutcome["autoOutcome"] | undefined;
     if (pendingOutcomes.length > 0) {
       try {
+        // `cm watch` may have recorded these sessions already (outcomes from
+        // before the source marker only show it through autoGraded)
+        const alreadyRecorded = new Set(
+          (await loadOutcomes(config, 1000)).filter((o) => o.source === "watch" || o.autoGraded).map((o) => o.sessionId)
+        );
         const records = [];
         for (const input of pendingOutcomes) {
+          if (alreadyRecorded.has(input.sessionId)) continue;
           const record = await recordOutcome(input, config);
           records.push(record);
         }
@@ -447,8 +573,10 @@ export async function orchestrateReflection(
       deltasGenerated: allDeltas.length,
       globalResult,
       repoResult,
+      teamResults,
       errors,
       autoOutcome,
+      review,
     };
   });
 }
@@ -1,12 +1,25 @@
 import fs from "node:fs/promises";
 import path from "node:path";
-import { Config, DiaryEntry, FeedbackEvent } from "./types.js";
-import { expandPath, ensureDir, fileExists, now, resolveRepoDir, resolveGlobalDir } from "./utils.js";
+import { Config, DiaryEntry, FeedbackEvent, PlaybookDelta } from "./types.js";
+import {
+  expandPath,
+  ensureDir,
+  fileExists,
+  now,
+  resolveRepoDir,
+  resolveGlobalDir,
+  generateFeedbackEventId,
+  getOriginId,
+  parseInlineFeedback,
+  parseRuleCitations,
+  type RuleCitationVerdict,
+} from "./utils.js";
 import { sanitize } from "./sanitize.js";
 import { getSanitizeConfig } from "./config.js";
 import { loadPlaybook, savePlaybook, findBullet } from "./playbook.js";
 import { calculateMaturityState } from "./scoring.js";
 import { withLock } from "./lock.js";
+import { listTeams, getTeamPlaybookPath } from "./team.js";
 
 // --- Types ---
 
@@ -73,6 +86,12 @@ export interface OutcomeInput {
    * normally.
    */
   autoGraded?: boolean;
+  /**
+   * The automatic grader that recorded the outcome (`cm watch` or `cm
+   * reflect`), so the other one does not record the same session again.
+   * Unset for manual outcomes.
+   */
+  source?: "watch" | "reflect";
 }
 
 export interface OutcomeRecord extends OutcomeInput {
@@ -342,29 +361,14 @@ function enrichOutcomeWithContext(outcome: OutcomeRecord, contextLog: ContextLog
   return { ...outcome, rulesUsed: match.ruleIds, autoGraded: true };
 }
 
-async function resolveTargetPath(
-  bulletId: string,
-  globalPath: string,
-  repoPath: string | null
-): Promise<string | null> {
-  // Prefer repo
-  if (repoPath && (await fileExists(repoPath))) {
-    try {
-      const repoPlaybook = await loadPlaybook(repoPath);
-      if (findBullet(repoPlaybook, bulletId)) {
-        return repoPath;
-      }
-    } catch {
-      // Ignore load error, fall back
-    }
-  }
-  // Fallback to global
-  if (await fileExists(globalPath)) {
+/** The first playbook in layer order (repo, teams, global) that holds the bullet. */
+async function resolveTargetPath(bulletId: string, candidatePaths: string[]): Promise<string | null> {
+  for (const candidate of candidatePaths) {
+    if (!(await fileExists(candidate))) continue;
     try {
-        const globalPlaybook = await loadPlaybook(globalPath);
-        if (findBullet(globalPlaybook, bulletId)) return globalPath;
+      if (findBullet(await loadPlaybook(candidate), bulletId)) return candidate;
     } catch {
-        // Ignore
+      // Ignore load error, try the next layer
     }
   }
   return null;
@@ -379,6 +383,12 @@ export async function applyOutcomeFeedback(
   const globalPath = expandPath(config.playbookPath);
   const repoDir = await resolveRepoDir();
   const repoPath = repoDir ? path.join(repoDir, "playbook.yaml") : null;
+  // Team layers sit between repo and global, so they are searched in that order too
+  const candidatePaths = [
+    ...(repoPath ? [repoPath] : []),
+    ...(await listTeams()).map(getTeamPlaybookPath),
+    globalPath,
+  ];
 
   let applied = 0;
   const missing: string[] = [];
@@ -395,7 +405,7 @@ export async function applyOutcomeFeedback(
     if (!scored) continue;
 
     for (const ruleId of enriched.rulesUsed) {
-      const targetPath = await resolveTargetPath(ruleId, globalPath, repoPath);
+      const targetPath = await resolveTargetPath(ruleId, candidatePaths);
       
       if (!targetPath) {
         missing.push(ruleId);
@@ -405,6 +415,9 @@ export async function applyOutcomeFeedback(
       const updateItem = {
         bulletId: ruleId,
         feedback: {
+          // Derived from the outcome so replaying the log (on any machine) yields the same event id.
+          id: generateFeedbackEventId(`${enriched.sessionId}:${enriched.recordedAt}:${ruleId}:${scored.type}`),
+          origin: getOriginId(),
           type: scored.type,
           // Use the outcome's recordedAt for stable idempotency across replays of the outcome log.
           timestamp: enriched.recordedAt,
@@ -426,7 +439,7 @@ export async function applyOutcomeFeedback(
   for (const [targetPath, items] of updates.entries()) {
     await withLock(targetPath, async () => {
       const playbook = await loadPlaybook(targetPath);
-      let modified = false;
+      const deltas: PlaybookDelta[] = [];
 
       for (const item of items) {
         const bullet = findBullet(playbook, item.bulletId);
@@ -458,12 +471,16 @@ export async function applyOutcomeFeedback(
 
         bullet.updatedAt = now();
         bullet.maturity = calculateMaturityState(bullet, config);
-        modified = true;
+        deltas.push(
+          item.feedback.type === "helpful"
+            ? { type: "helpful", bulletId: item.bulletId, sourceSession: item.feedback.sessionPath, context: item.feedback.context }
+            : { type: "harmful", bulletId: item.bulletId, sourceSession: item.feedback.sessionPath, reason: item.feedback.reason, context: item.feedback.context }
+        );
         applied++;
       }
 
-      if (modified) {
-        await savePlaybook(playbook, targetPath);
+      if (deltas.length > 0) {
+        await savePlaybook(playbook, targetPath, { command: "outcome-apply", deltas });
       }
     });
   }
@@ -509,6 +526,32 @@ export function extractRuleIdsFromTranscript(content: string): string[] {
   return [...new Set(matches.filter(m => /\d/.test(m)).map(m => m.toLowerCase()))];
 }
 
+/**
+ * Rule IDs a session's outcome should be graded against.
+ *
+ * With rule citations in the transcript ([cm:<id> applied], see
+ * parseRuleCitations), only rules whose latest citation is `applied` are
+ * graded: the agent said it acted on them, and rules it cited as `ignored`
+ * are left alone. Without citations this falls back to every rule ID the
+ * transcript mentions, which is mostly the shown context and stays under the
+ * stricter #56 policy (`cited: false`). Rules with explicit helpful/harmful
+ * feedback are excluded either way; they get that signal directly.
+ */
+export function resolveOutcomeRuleIds(content: string): { ruleIds: string[]; cited: boolean } {
+  const feedbackIds = new Set(parseInlineFeedback(content).map((fb) => fb.bulletId.toLowerCase()));
+  const citations = parseRuleCitations(content);
+  if (citations.length === 0) {
+    return { ruleIds: extractRuleIdsFromTranscript(content).filter((id) => !feedbackIds.has(id)), cited: false };
+  }
+
+  const latest = new Map<string, RuleCitationVerdict>();
+  for (const citation of citations) latest.set(citation.bulletId.toLowerCase(), citation.verdict);
+  const ruleIds = [...latest]
+    .filter(([id, verdict]) => verdict === "applied" && !feedbackIds.has(id))
+    .map(([id]) => id);
+  return { ruleIds, cited: true };
+}
+
 /**
  * Heuristic patterns for counting error-like signals in transcripts.
  * Each pattern must appear at least twice to count as a signal
@@ -546,11 +589,15 @@ const REJECTION_SIGNAL_PATTERNS = [
  * - Retry and tool-rejection signals
  *
  * Returns null if no rule IDs are provided (nothing to record against).
+ * Pass `cited: true` when the IDs come from rule citations rather than the
+ * transcript scrape (see resolveOutcomeRuleIds), and `source` to mark which
+ * grader recorded it.
  */
 export function classifySessionOutcome(
   content: string,
   diary: DiaryEntry,
-  ruleIds: string[]
+  ruleIds: string[],
+  options: { cited?: boolean; source?: OutcomeInput["source"] } = {}
 ): OutcomeInput | null {
   if (ruleIds.length === 0) return null;
 
@@ -592,9 +639,10 @@ export function classifySessionOutcome(
     hadRetries,
     task,
     durationSec: diary.duration ?? undefined,
-    // These IDs were scraped from the transcript (largely the rules `cm context`
-    // injected), not deliberately cited, so they get the stricter #56 harm
-    // policy / blast-radius guard.
-    autoGraded: true,
+    // Scraped IDs are largely the rules `cm context` injected, not deliberate
+    // citations, so they get the stricter #56 harm policy / blast-radius guard.
+    // Cited rules are the agent's own attribution and are graded normally.
+    autoGraded: !options.cited,
+    source: options.source,
   };
 }
@@ -9,7 +9,9 @@ import {
   PlaybookBulletSchema,
   BulletMaturity,
   NewBulletData,
-  PlaybookStats
+  PlaybookStats,
+  PlaybookDelta,
+  BulletOverrideMode
 } from "./types.js";
 import {
   expandPath,
@@ -32,6 +34,10 @@ import { z } from "zod";
 import { getEffectiveScore, isStale } from "./scoring.js";
 import { formatMaturityIcon, iconPrefix } from "./output.js";
 import { withLock } from "./lock.js";
+import { recordPlaybookRevision } from "./history.js";
+import { dropStaleBulletVectors } from "./vector-index.js";
+import { computeConflictMeta, detectConflictsWithMeta } from "./curate.js";
+import { loadTeamPlaybooks } from "./team.js";
 
 // --- Interfaces ---
 
@@ -92,16 +98,43 @@ export async function loadPlaybook(filePath: string): Promise<Playbook> {
   }
 }
 
+export interface SavePlaybookOptions {
+  updateLastReflection?: boolean;
+  /** Command recorded in the revision history (e.g. "reflect", "mark"). */
+  command?: string;
+  /** Deltas the command applied, recorded alongside the revision. */
+  deltas?: PlaybookDelta[];
+}
+
 export async function savePlaybook(
   playbook: Playbook, 
   filePath: string, 
-  options: { updateLastReflection?: boolean } = {}
+  options: SavePlaybookOptions = {}
 ): Promise<void> {
   if (options.updateLastReflection) {
     playbook.metadata.lastReflection = now();
   }
   const yamlStr = yaml.stringify(playbook);
+  const expanded = expandPath(filePath);
+  const previous = await fs.readFile(expanded, "utf-8").catch(() => null);
   await atomicWrite(filePath, yamlStr);
+
+  // History is best-effort: a failure to record a revision must never lose the save itself.
+  try {
+    await recordPlaybookRevision(expanded, yamlStr, previous, {
+      command: options.command,
+      deltas: options.deltas,
+    });
+  } catch (err: any) {
+    warn(`Failed to record playbook revision for ${expanded}: ${err?.message || String(err)}`);
+  }
+
+  // Same for the vector index, which is derived data and can be rebuilt.
+  try {
+    await dropStaleBulletVectors(playbook.bullets);
+  } catch (err: any) {
+    warn(`Failed to update vector index for ${expanded}: ${err?.message || String(err)}`);
+  }
 }
 
 // --- Error Recovery ---
@@ -307,24 +340,136 @@ export async function removeFromBlockedLog(bulletId: string, logPath: string): P
   });
 }
 
-export function mergePlaybooks(global: Playbook, repo: Playbook | null): Playbook {
-  if (!repo) return global;
-  
+/**
+ * Findings from merging playbook layers. With team layers configured, each
+ * team is merged as the "repo" side on top of the layers below it, so
+ * `globalId` refers to the lower layer and `repoId` to the upper one.
+ */
+export interface MergeReport {
+  /** Global and repo bullets with different ids but nearly the same content. */
+  nearDuplicates: Array<{ globalId: string; repoId: string; similarity: number }>;
+  /** Global and repo bullets that appear to give opposite directives. */
+  contradictions: Array<{ globalId: string; repoId: string; reason: string }>;
+  /** Overrides declared by repo bullets and applied to the merged playbook. */
+  overrides: Array<{ globalId: string; repoId: string; mode: BulletOverrideMode }>;
+  /** Bullets present in both layers under the same id (the repo copy wins). */
+  idCollisions: Array<{ id: string; identical: boolean }>;
+  /** Overrides whose target does not exist in the global playbook. */
+  unresolvedOverrides: Array<{ repoId: string; target: string }>;
+}
+
+export function createEmptyMergeReport(): MergeReport {
+  return { nearDuplicates: [], contradictions: [], overrides: [], idCollisions: [], unresolvedOverrides: [] };
+}
+
+function combineMergeReports(a: MergeReport, b: MergeReport): MergeReport {
+  return {
+    nearDuplicates: [...a.nearDuplicates, ...b.nearDuplicates],
+    contradictions: [...a.contradictions, ...b.contradictions],
+    overrides: [...a.overrides, ...b.overrides],
+    idCollisions: [...a.idCollisions, ...b.idCollisions],
+    unresolvedOverrides: [...a.unresolvedOverrides, ...b.unresolvedOverrides],
+  };
+}
+
+export function mergeReportHasIssues(report: MergeReport): boolean {
+  return report.nearDuplicates.length > 0 ||
+    report.contradictions.length > 0 ||
+    report.unresolvedOverrides.length > 0;
+}
+
+function isInactive(b: PlaybookBullet): boolean {
+  return Boolean(b.deprecated) || b.maturity === "deprecated" || b.state === "retired";
+}
+
+/**
+ * Merge the global and repo playbook layers.
+ *
+ * Repo bullets take precedence: a repo bullet with the same id replaces the
+ * global one, and a repo bullet may declare an `override` to shadow, suppress
+ * or extend a global bullet with a different id. Everything the merge could
+ * not resolve on its own (near-duplicates, contradictions across layers,
+ * dangling overrides) is returned in the report rather than silently kept.
+ * The cross-layer near-duplicate and contradiction scan compares every pair
+ * of bullets, so it only runs with `withReport`.
+ */
+export function mergePlaybookLayers(
+  global: Playbook,
+  repo: Playbook | null,
+  options: { dedupSimilarityThreshold?: number; withReport?: boolean } = {}
+): { playbook: Playbook; report: MergeReport } {
+  const report = createEmptyMergeReport();
+  if (!repo) return { playbook: global, report };
+
+  const threshold = options.dedupSimilarityThreshold ?? 0.85;
   const merged = createEmptyPlaybook("merged-playbook");
-  merged.metadata = { ...global.metadata }; 
-  
+  merged.metadata = { ...global.metadata };
+
+  const globalById = new Map(global.bullets.map(b => [b.id, b]));
+  const hiddenGlobalIds = new Set<string>();
+  const markerRepoIds = new Set<string>();
+  const declaredPairs = new Set<string>();
+
+  for (const b of repo.bullets) {
+    if (!b.override || isInactive(b)) continue;
+    const target = globalById.get(b.override.bulletId);
+    if (!target) {
+      report.unresolvedOverrides.push({ repoId: b.id, target: b.override.bulletId });
+      continue;
+    }
+    report.overrides.push({ globalId: target.id, repoId: b.id, mode: b.override.mode });
+    declaredPairs.add(`${target.id}\u0000${b.id}`);
+    if (b.override.mode !== "extend") hiddenGlobalIds.add(target.id);
+    if (b.override.mode === "suppress") markerRepoIds.add(b.id);
+  }
+
   const bulletMap = new Map<string, PlaybookBullet>();
-  
+
   for (const b of global.bullets) {
-    bulletMap.set(b.id, b);
+    if (!hiddenGlobalIds.has(b.id)) bulletMap.set(b.id, b);
   }
-  
+
   for (const b of repo.bullets) {
+    if (markerRepoIds.has(b.id)) continue;
+    const existing = globalById.get(b.id);
+    if (existing) {
+      report.idCollisions.push({ id: b.id, identical: JSON.stringify(existing) === JSON.stringify(b) });
+    }
     bulletMap.set(b.id, b);
   }
-  
+
   merged.bullets = Array.from(bulletMap.values());
-  
+
+  // Cross-layer analysis: only pairs that both survive the merge and have no declared relationship
+  const visibleGlobal = global.bullets.filter(b =>
+    bulletMap.get(b.id) === b && !isInactive(b)
+  );
+  const visibleRepo = repo.bullets.filter(b =>
+    bulletMap.get(b.id) === b && !globalById.has(b.id) && !isInactive(b)
+  );
+
+  if (options.withReport && visibleGlobal.length > 0 && visibleRepo.length > 0) {
+    const globalMeta = visibleGlobal.map(computeConflictMeta);
+
+    for (const r of visibleRepo) {
+      const duplicateIds = new Set<string>();
+      for (const g of visibleGlobal) {
+        if (declaredPairs.has(`${g.id}\u0000${r.id}`)) continue;
+        const similarity = jaccardSimilarity(g.content, r.content);
+        if (similarity >= threshold) {
+          report.nearDuplicates.push({ globalId: g.id, repoId: r.id, similarity });
+          duplicateIds.add(g.id);
+        }
+      }
+
+      for (const conflict of detectConflictsWithMeta(r.content, globalMeta)) {
+        if (duplicateIds.has(conflict.id)) continue;
+        if (declaredPairs.has(`${conflict.id}\u0000${r.id}`)) continue;
+        report.contradictions.push({ globalId: conflict.id, repoId: r.id, reason: conflict.reason });
+      }
+    }
+  }
+
   // Deduplicate deprecated patterns
   const seenPatterns = new Set<string>();
   const uniqueDeprecatedPatterns: Array<z.infer<typeof import("./types.js").DeprecatedPatternSchema>> = [];
@@ -338,10 +483,92 @@ export function mergePlaybooks(global: Playbook, repo: Playbook | null): Playboo
   
   merged.deprecatedPatterns = uniqueDeprecatedPatterns;
   
-  return merged;
+  return { playbook: merged, report };
+}
+
+export function mergePlaybooks(global: Playbook, repo: Playbook | null): Playbook {
+  return mergePlaybookLayers(global, repo).playbook;
+}
+
+/** The global and repo blocked/toxic logs, in the order their entries are loaded. */
+export function getBlockedLogPaths(repoDir?: string | null): string[] {
+  const globalDir = resolveGlobalDir();
+  return [
+    path.join(globalDir, "blocked.log"),
+    path.join(globalDir, "toxic_bullets.log"),
+    ...(repoDir ? [path.join(repoDir, "blocked.log"), path.join(repoDir, "toxic.log")] : []),
+  ];
+}
+
+/**
+ * Blocked entries from the global and repo blocked logs (plus the legacy
+ * toxic logs), deduplicated by content hash.
+ */
+export async function loadAllBlockedEntries(repoDir?: string | null): Promise<BlockedEntry[]> {
+  const uniqueBlocked = new Map<string, BlockedEntry>();
+  for (const logPath of getBlockedLogPaths(repoDir)) {
+    for (const entry of await loadBlockedLog(logPath)) {
+      uniqueBlocked.set(hashContent(entry.content), entry);
+    }
+  }
+  return Array.from(uniqueBlocked.values());
+}
+
+/**
+ * Build a matcher that returns the blocked entry a piece of content matches:
+ * an exact (normalized) match, or token Jaccard similarity above 0.85.
+ */
+export function createBlockedMatcher(entries: BlockedEntry[]): (content: string) => BlockedEntry | undefined {
+  // Pre-compute hashes and tokens for blocked entries
+  const blockedMeta = entries.map(entry => ({
+    entry,
+    hash: hashContent(entry.content),
+    tokens: new Set(tokenize(entry.content))
+  }));
+
+  return (content: string) => {
+    if (blockedMeta.length === 0) return undefined;
+    const hash = hashContent(content);
+    const tokens = tokenize(content);
+    const tokenSet = new Set(tokens);
+
+    for (const meta of blockedMeta) {
+      // 1. Exact Match
+      if (meta.hash === hash) return meta.entry;
+
+      // 2. Semantic Match (Jaccard)
+      if (tokens.length === 0 || meta.tokens.size === 0) continue;
+
+      const maxPossibleIntersection = Math.min(tokenSet.size, meta.tokens.size);
+      const minPossibleUnion = Math.max(tokenSet.size, meta.tokens.size);
+
+      // Fast skip
+      if (maxPossibleIntersection / minPossibleUnion <= 0.85) continue;
+
+      const intersectionSize = [...tokenSet].filter(x => meta.tokens.has(x)).length;
+      const unionSize = new Set([...tokenSet, ...meta.tokens]).size;
+
+      if (unionSize > 0 && (intersectionSize / unionSize) > 0.85) return meta.entry;
+    }
+    return undefined;
+  };
 }
 
 export async function loadMergedPlaybook(config: Config): Promise<Playbook> {
+  return (await loadMergedLayers(config, false)).playbook;
+}
+
+/** The merged playbook plus the cross-layer report (`cm playbook list`, cm://playbook). */
+export async function loadMergedPlaybookWithReport(
+  config: Config
+): Promise<{ playbook: Playbook; report: MergeReport }> {
+  return loadMergedLayers(config, true);
+}
+
+async function loadMergedLayers(
+  config: Config,
+  withReport: boolean
+): Promise<{ playbook: Playbook; report: MergeReport }> {
   const globalPlaybook = await loadPlaybook(config.playbookPath);
   
   let repoPlaybook: Playbook | null = null;
@@ -353,77 +580,32 @@ export async function loadMergedPlaybook(config: Config): Promise<Playbook> {
     repoPlaybook = await loadPlaybook(repoPath);
   }
   
-  const merged = mergePlaybooks(globalPlaybook, repoPlaybook);
-  
-  const globalBlocked = await loadBlockedLog(path.join(resolveGlobalDir(), "blocked.log"));
-  const globalToxic = await loadBlockedLog(path.join(resolveGlobalDir(), "toxic_bullets.log"));
-  
-  const repoBlockedPath = repoDir ? path.join(repoDir, "blocked.log") : null;
-  const repoBlocked = repoBlockedPath ? await loadBlockedLog(repoBlockedPath) : [];
+  // Layer order: global < team(s) < repo. Each team layer is merged like a repo
+  // layer on top of everything below it, so its reports are kept as well.
+  const mergeOptions = { dedupSimilarityThreshold: config.dedupSimilarityThreshold, withReport };
+  let base = globalPlaybook;
+  const teamReports: MergeReport[] = [];
+  for (const team of await loadTeamPlaybooks()) {
+    const layered = mergePlaybookLayers(base, team.playbook, mergeOptions);
+    base = layered.playbook;
+    teamReports.push(layered.report);
+  }
 
-  const repoToxicPath = repoDir ? path.join(repoDir, "toxic.log") : null;
-  const repoToxic = repoToxicPath ? await loadBlockedLog(repoToxicPath) : [];
+  const { playbook: merged, report: repoReport } = mergePlaybookLayers(base, repoPlaybook, mergeOptions);
+  const report = [...teamReports, repoReport].reduce(combineMergeReports, createEmptyMergeReport());
   
-  const allBlocked = [...globalBlocked, ...globalToxic, ...repoBlocked, ...repoToxic];
-
-  if (allBlocked.length > 0) {
-    // Optimization: Deduplicate blocked entries by content hash
-    const uniqueBlocked = new Map<string, BlockedEntry>();
-    for (const entry of allBlocked) {
-      uniqueBlocked.set(hashContent(entry.content), entry);
-    }
-    const deduplicatedBlocked = Array.from(uniqueBlocked.values());
-
-    // Optimization: Pre-compute hashes and tokens for blocked entries
-    const blockedMeta = deduplicatedBlocked.map(entry => ({
-      entry,
-      hash: hashContent(entry.content),
-      tokens: new Set(tokenize(entry.content))
-    }));
-
-    for (const b of merged.bullets) {
-      if (b.deprecated) continue;
-      
-      const bHash = hashContent(b.content);
-      const bTokens = tokenize(b.content);
-      const bTokenSet = new Set(bTokens);
-
-      let isBlocked = false;
-
-      for (const meta of blockedMeta) {
-        // 1. Exact Match
-        if (meta.hash === bHash) {
-          isBlocked = true;
-          break;
-        }
-
-        // 2. Semantic Match (Jaccard)
-        if (bTokens.length === 0 || meta.tokens.size === 0) continue;
-
-        const maxPossibleIntersection = Math.min(bTokenSet.size, meta.tokens.size);
-        const minPossibleUnion = Math.max(bTokenSet.size, meta.tokens.size);
-        
-        // Fast skip
-        if (maxPossibleIntersection / minPossibleUnion <= 0.85) continue;
-
-        const intersectionSize = [...bTokenSet].filter(x => meta.tokens.has(x)).length;
-        const unionSize = new Set([...bTokenSet, ...meta.tokens]).size;
-
-        if (unionSize > 0 && (intersectionSize / unionSize) > 0.85) {
-          log(`Blocked content: "${b.content.slice(0, 50)}"... matches blocked "${meta.entry.content.slice(0, 50)}"...`, true);
-          isBlocked = true;
-          break;
-        }
-      }
-
-      if (isBlocked) {
-        // Keep state fields consistent with other deprecations
-        deprecateBullet(merged, b.id, "BLOCKED_CONTENT");
-      }
+  const isBlocked = createBlockedMatcher(await loadAllBlockedEntries(repoDir));
+  for (const b of merged.bullets) {
+    if (b.deprecated) continue;
+    const match = isBlocked(b.content);
+    if (match) {
+      log(`Blocked content: "${b.content.slice(0, 50)}"... matches blocked "${match.content.slice(0, 50)}"...`, true);
+      // Keep state fields consistent with other deprecations
+      deprecateBullet(merged, b.id, "BLOCKED_CONTENT");
     }
   }
   
-  return merged;
+  return { playbook: merged, report };
 }
 
 // --- Bullet Management ---
@@ -455,6 +637,7 @@ export function addBullet(
     type: data.type || "rule",
     isNegative: data.isNegative || false,
     scope: data.scope || "global",
+    scopeKey: data.scopeKey,
     workspace: data.workspace,
     source: data.source || "learned",
     tags: data.tags || [],
@@ -471,7 +654,9 @@ export function addBullet(
     deprecated: false,
     pinned: false,
     deprecatedAt: undefined,
-    confidenceDecayHalfLifeDays: defaultDecayHalfLifeDays
+    confidenceDecayHalfLifeDays: defaultDecayHalfLifeDays,
+    ...(data.override ? { override: data.override } : {}),
+    ...(data.appliesWhen?.length ? { appliesWhen: data.appliesWhen } : {})
   };
   
   playbook.bullets.push(newBullet);
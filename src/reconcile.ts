@@ -0,0 +1,158 @@
+import { Config, FeedbackEvent, Playbook, PlaybookBullet } from "./types.js";
+import { calculateMaturityState } from "./scoring.js";
+
+// -----------------------------------------------------------------------------
+// Playbook Reconciliation
+// -----------------------------------------------------------------------------
+//
+// Feedback is stored as an append-only set of events (a grow-only set CRDT):
+// counters and maturity are derived from the events, never merged directly.
+// Reconciling two copies of a playbook therefore unions the events of each
+// bullet and recomputes everything derived from them, which makes the merge
+// commutative (A+B == B+A) and idempotent (A+A == A). Concurrent `cm mark`
+// calls on different machines or worktrees all survive a reconcile.
+
+export interface ReconcileReport {
+  /** Bullets that only existed in the other playbook. */
+  added: string[];
+  /** Bullets in both playbooks whose merged state differs from the local copy. */
+  updated: string[];
+  /** Feedback events gained from the other playbook. */
+  eventsAdded: number;
+  /** Bullets deprecated because their merged feedback crossed the harmful threshold. */
+  deprecated: string[];
+}
+
+/**
+ * Identity of a feedback event. Events with an id are matched by id; legacy
+ * events recorded before ids existed fall back to their content.
+ */
+export function feedbackEventKey(event: FeedbackEvent): string {
+  if (event.id) return `id:${event.id}`;
+  return `legacy:${JSON.stringify([
+    event.type,
+    event.timestamp,
+    event.sessionPath ?? null,
+    event.reason ?? null,
+    event.context ?? null,
+  ])}`;
+}
+
+/** Deterministic choice between two values, independent of argument order. */
+function pickStable<T>(a: T, b: T): T {
+  return JSON.stringify(a) <= JSON.stringify(b) ? a : b;
+}
+
+/** Union two event lists by event identity, ordered by time. */
+export function mergeFeedbackEvents(a: FeedbackEvent[], b: FeedbackEvent[]): FeedbackEvent[] {
+  const merged = new Map<string, FeedbackEvent>();
+  for (const event of [...a, ...b]) {
+    const key = feedbackEventKey(event);
+    const existing = merged.get(key);
+    merged.set(key, existing ? pickStable(existing, event) : event);
+  }
+  return [...merged.entries()]
+    .sort(([ka, ea], [kb, eb]) => ea.timestamp.localeCompare(eb.timestamp) || ka.localeCompare(kb))
+    .map(([, event]) => event);
+}
+
+function countEvents(events: FeedbackEvent[], type: "helpful" | "harmful"): number {
+  return events.filter((e) => e.type === type).length;
+}
+
+/** Counter value not backed by events (legacy counts recorded before feedbackEvents existed). */
+function untrackedCount(bullet: PlaybookBullet, type: "helpful" | "harmful"): number {
+  const counter = type === "helpful" ? bullet.helpfulCount : bullet.harmfulCount;
+  return Math.max(0, (counter || 0) - countEvents(bullet.feedbackEvents || [], type));
+}
+
+function unionPreservingOrder(first: string[], second: string[]): string[] {
+  return [...new Set([...first, ...second])];
+}
+
+/**
+ * Merge two copies of the same bullet.
+ *
+ * Content and lifecycle fields follow the most recent edit; feedback events
+ * are unioned and the counters recomputed from them. When `config` is given,
+ * maturity is re-derived from the merged events as well.
+ */
+export function reconcileBullet(a: PlaybookBullet, b: PlaybookBullet, config?: Config): PlaybookBullet {
+  const newer = a.updatedAt === b.updatedAt ? pickStable(a, b) : a.updatedAt > b.updatedAt ? a : b;
+  const older = newer === a ? b : a;
+  const feedbackEvents = mergeFeedbackEvents(a.feedbackEvents || [], b.feedbackEvents || []);
+
+  const merged: PlaybookBullet = {
+    ...newer,
+    feedbackEvents,
+    helpfulCount:
+      countEvents(feedbackEvents, "helpful") +
+      Math.max(untrackedCount(a, "helpful"), untrackedCount(b, "helpful")),
+    harmfulCount:
+      countEvents(feedbackEvents, "harmful") +
+      Math.max(untrackedCount(a, "harmful"), untrackedCount(b, "harmful")),
+    sourceSessions: unionPreservingOrder(newer.sourceSessions || [], older.sourceSessions || []),
+    sourceAgents: unionPreservingOrder(newer.sourceAgents || [], older.sourceAgents || []),
+  };
+
+  if (config) {
+    const maturity = calculateMaturityState(merged, config);
+    merged.maturity = maturity;
+    if (maturity === "deprecated" && !merged.deprecated) {
+      // Use the latest event time rather than now() so reconciling twice is a no-op
+      merged.deprecated = true;
+      merged.deprecatedAt = feedbackEvents[feedbackEvents.length - 1]?.timestamp ?? merged.updatedAt;
+      merged.state = "retired";
+      merged.deprecationReason = merged.deprecationReason || "Automatically deprecated due to harmful feedback ratio";
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Reconcile two divergent copies of a playbook.
+ *
+ * Bullets are matched by id and merged with reconcileBullet; bullets present
+ * in only one copy are kept. The result orders bullets by creation time so it
+ * does not depend on which copy is "local". Playbook-level metadata (name,
+ * description, reflection counters) is taken from `local`.
+ */
+export function reconcilePlaybooks(
+  local: Playbook,
+  other: Playbook,
+  config?: Config
+): { playbook: Playbook; report: ReconcileReport } {
+  const report: ReconcileReport = { added: [], updated: [], eventsAdded: 0, deprecated: [] };
+  const localById = new Map(local.bullets.map((b) => [b.id, b]));
+  const otherById = new Map(other.bullets.map((b) => [b.id, b]));
+
+  const bullets: PlaybookBullet[] = [];
+  for (const id of new Set([...localById.keys(), ...otherById.keys()])) {
+    const mine = localById.get(id);
+    const theirs = otherById.get(id);
+    if (mine && theirs) {
+      const merged = reconcileBullet(mine, theirs, config);
+      const gained = merged.feedbackEvents.length - (mine.feedbackEvents || []).length;
+      report.eventsAdded += Math.max(0, gained);
+      if (JSON.stringify(merged) !== JSON.stringify(mine)) report.updated.push(id);
+      if (merged.deprecated && !mine.deprecated) report.deprecated.push(id);
+      bullets.push(merged);
+    } else if (theirs) {
+      report.added.push(id);
+      bullets.push(theirs);
+    } else if (mine) {
+      bullets.push(mine);
+    }
+  }
+  bullets.sort((x, y) => x.createdAt.localeCompare(y.createdAt) || x.id.localeCompare(y.id));
+
+  const patterns = new Map<string, Playbook["deprecatedPatterns"][number]>();
+  for (const p of [...local.deprecatedPatterns, ...other.deprecatedPatterns]) {
+    const existing = patterns.get(p.pattern);
+    patterns.set(p.pattern, existing ? pickStable(existing, p) : p);
+  }
+  const deprecatedPatterns = [...patterns.values()].sort((x, y) => x.pattern.localeCompare(y.pattern));
+
+  return { playbook: { ...local, bullets, deprecatedPatterns }, report };
+}
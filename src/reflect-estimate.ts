@@ -0,0 +1,243 @@
+/**
+ * Cost planner behind `cm reflect --estimate`.
+ *
+ * Reflection makes up to three kinds of LLM call per session: diary
+ * extraction, the reflector (up to maxReflectorIterations passes) and the
+ * validator (once per proposed rule the evidence gate cannot decide). This
+ * module exports each planned session and fills the same prompt templates
+ * with it, without calling an LLM, and prices the result with the cost
+ * table. Inputs that are only known after an LLM call (the diary the
+ * reflector reads, how many rules it proposes, the evidence the validator
+ * sees) use the fixed allowances below, so treat the totals as a ceiling
+ * for a typical session rather than an exact bill.
+ */
+
+import path from "node:path";
+import type { Config } from "./types.js";
+import { cassExport } from "./cass.js";
+import { fillPrompt, PROMPTS, resolveModelRoute } from "./llm.js";
+import { checkBudget, estimateCost, getModelRates, getUsageStats } from "./cost.js";
+import { discoverReflectionSessions, type ReflectionOptions } from "./orchestrator.js";
+import { ProcessedLog, getProcessedLogPath } from "./tracking.js";
+import { loadMergedPlaybook } from "./playbook.js";
+import { formatBulletsForPrompt } from "./reflect.js";
+import { estimateTokensApprox, expandPath, truncateForContext } from "./utils.js";
+
+export type ReflectionStage = "diary" | "reflector" | "validator";
+
+export const REFLECTION_STAGES: ReflectionStage[] = ["diary", "reflector", "validator"];
+
+/** Tokens a diary extraction returns, and so what each reflector pass reads back. */
+const DIARY_OUTPUT_TOKENS = 800;
+/** Tokens of deltas a reflector pass returns. */
+const REFLECTOR_OUTPUT_TOKENS = 1500;
+/** Related-session snippets a reflector pass is given (at most three). */
+const REFLECTOR_HISTORY_TOKENS = 300;
+/** Proposed rules per session that reach the LLM validator. */
+const VALIDATED_RULES_PER_SESSION = 3;
+/** Tokens of a proposed rule plus its cass evidence (ten search hits). */
+const VALIDATOR_INPUT_TOKENS = 1500;
+/** Tokens of a validator verdict. */
+const VALIDATOR_OUTPUT_TOKENS = 300;
+
+/** Sessions shorter than this are skipped by reflection without an LLM call. */
+const MIN_SESSION_CHARS = 50;
+
+export interface StageEstimate {
+  /** Model the stage is priced with (its modelRoutes entry, else config.model) */
+  model: string;
+  calls: number;
+  tokensIn: number;
+  tokensOut: number;
+  cost: number;
+}
+
+export interface SessionEstimate {
+  sessionPath: string;
+  /** Tokens in the session export (before the diary prompt truncates it) */
+  exportTokens: number;
+  stages: Record<ReflectionStage, StageEstimate>;
+  cost: number;
+}
+
+export interface ReflectionEstimate {
+  /** Stage models missing from the cost table, priced at the default rates */
+  unpricedModels: string[];
+  /** Totals for every session the run would reflect on, before trimming */
+  stages: Record<ReflectionStage, StageEstimate>;
+  totalCost: number;
+  /** Cost of the planned sessions alone */
+  plannedCost: number;
+  /** Sessions that fit the remaining budget, in processing order */
+  planned: SessionEstimate[];
+  /** Sessions dropped because the batch would exceed the budget */
+  trimmed: SessionEstimate[];
+  /** Sessions reflection would skip without an LLM call */
+  skipped: Array<{ sessionPath: string; reason: string }>;
+  budget: {
+    today: number;
+    month: number;
+    dailyLimit: number;
+    monthlyLimit: number;
+    /** Spend left before the tighter limit; null when no limit is set */
+    remaining: number | null;
+  };
+  /** False when the budget is already spent or not even the first session fits */
+  allowed: boolean;
+  reason?: string;
+}
+
+function emptyStage(model: string): StageEstimate {
+  return { model, calls: 0, tokensIn: 0, tokensOut: 0, cost: 0 };
+}
+
+function stageEstimate(model: string, calls: number, tokensIn: number, tokensOut: number): StageEstimate {
+  return { model, calls, tokensIn, tokensOut, cost: estimateCost(model, tokensIn, tokensOut) };
+}
+
+/**
+ * Price the LLM calls reflection would make for one exported session.
+ * `existingBullets` is the playbook as the reflector prompt lists it.
+ */
+export function estimateSessionCost(
+  sessionPath: string,
+  content: string,
+  existingBullets: string,
+  config: Config
+): SessionEstimate {
+  const modelFor = (stage: ReflectionStage) => resolveModelRoute(config, stage).model;
+
+  const diaryPrompt = fillPrompt(PROMPTS.diary, {
+    sessionPath,
+    agent: "unknown",
+    workspace: "unknown",
+    content: truncateForContext(content, { maxChars: 50000 }),
+  });
+  const diary = stageEstimate(modelFor("diary"), 1, estimateTokensApprox(diaryPrompt), DIARY_OUTPUT_TOKENS);
+
+  const iterations = Math.max(1, config.maxReflectorIterations ?? 3);
+  const reflectorPrompt = fillPrompt(PROMPTS.reflector, {
+    existingBullets: truncateForContext(existingBullets, { maxChars: 20000 }),
+    diary: "",
+    cassHistory: "",
+    iterationNote: "",
+  });
+  const reflectorIn = estimateTokensApprox(reflectorPrompt) + DIARY_OUTPUT_TOKENS + REFLECTOR_HISTORY_TOKENS;
+  const reflector = stageEstimate(modelFor("reflector"), iterations, reflectorIn * iterations, REFLECTOR_OUTPUT_TOKENS * iterations);
+
+  let validator = emptyStage(modelFor("validator"));
+  if (config.validationEnabled) {
+    const validatorPrompt = fillPrompt(PROMPTS.validator, { proposedRule: "", evidence: "" });
+    const validatorIn = estimateTokensApprox(validatorPrompt) + VALIDATOR_INPUT_TOKENS;
+    validator = stageEstimate(
+      modelFor("validator"),
+      VALIDATED_RULES_PER_SESSION,
+      validatorIn * VALIDATED_RULES_PER_SESSION,
+      VALIDATOR_OUTPUT_TOKENS * VALIDATED_RULES_PER_SESSION
+    );
+  }
+
+  return {
+    sessionPath,
+    exportTokens: estimateTokensApprox(content),
+    stages: { diary, reflector, validator },
+    cost: diary.cost + reflector.cost + validator.cost,
+  };
+}
+
+/**
+ * Plan a reflection run: discover the sessions it would process, estimate
+ * each one and keep the longest prefix of the batch that fits the remaining
+ * daily and monthly budget. Makes no LLM calls and writes nothing.
+ * Each session's export is stored in `exports` when given, so the run that
+ * follows can reuse it. Throws when session discovery fails.
+ */
+export async function estimateReflection(
+  config: Config,
+  options: Pick<ReflectionOptions, "days" | "maxSessions" | "agent" | "workspace" | "session">,
+  exports?: Map<string, string>
+): Promise<ReflectionEstimate> {
+  const processedLog = new ProcessedLog(expandPath(getProcessedLogPath(options.workspace)));
+  await processedLog.load();
+  const sessions = await discoverReflectionSessions(config, options, processedLog);
+
+  const existingBullets = formatBulletsForPrompt((await loadMergedPlaybook(config)).bullets);
+  const estimates: SessionEstimate[] = [];
+  const skipped: ReflectionEstimate["skipped"] = [];
+  for (const sessionPath of sessions) {
+    const content = await cassExport(sessionPath, "markdown", config.cassPath, config);
+    if (!content) {
+      skipped.push({ sessionPath, reason: "Session export failed" });
+      continue;
+    }
+    exports?.set(sessionPath, content);
+    if (content.length < MIN_SESSION_CHARS) {
+      skipped.push({ sessionPath, reason: "Session content too short" });
+      continue;
+    }
+    estimates.push(estimateSessionCost(sessionPath, content, existingBullets, config));
+  }
+
+  const usage = await getUsageStats(config);
+  const headroom = [
+    usage.dailyLimit > 0 ? usage.dailyLimit - usage.today : Infinity,
+    usage.monthlyLimit > 0 ? usage.monthlyLimit - usage.month : Infinity,
+  ];
+  const remaining = Math.min(...headroom);
+  const budgetCheck = await checkBudget(config);
+
+  const planned: SessionEstimate[] = [];
+  const trimmed: SessionEstimate[] = [];
+  let plannedCost = 0;
+  for (const estimate of estimates) {
+    // Keep processing order: once one session does not fit, later ones are trimmed too
+    if (budgetCheck.allowed && trimmed.length === 0 && plannedCost + estimate.cost <= remaining) {
+      planned.push(estimate);
+      plannedCost += estimate.cost;
+    } else {
+      trimmed.push(estimate);
+    }
+  }
+
+  const stages = {} as Record<ReflectionStage, StageEstimate>;
+  for (const stage of REFLECTION_STAGES) {
+    const total = emptyStage(resolveModelRoute(config, stage).model);
+    for (const estimate of estimates) {
+      total.calls += estimate.stages[stage].calls;
+      total.tokensIn += estimate.stages[stage].tokensIn;
+      total.tokensOut += estimate.stages[stage].tokensOut;
+      total.cost += estimate.stages[stage].cost;
+    }
+    stages[stage] = total;
+  }
+
+  let reason: string | undefined;
+  if (!budgetCheck.allowed) {
+    reason = budgetCheck.reason;
+  } else if (estimates.length > 0 && planned.length === 0) {
+    reason =
+      `The first session alone (${path.basename(estimates[0]!.sessionPath)}) is estimated at ` +
+      `$${estimates[0]!.cost.toFixed(4)}, more than the $${remaining.toFixed(4)} of budget left`;
+  }
+
+  return {
+    unpricedModels: [...new Set(REFLECTION_STAGES.map((stage) => stages[stage].model))].filter(
+      (model) => !getModelRates(model).known
+    ),
+    stages,
+    totalCost: estimates.reduce((sum, estimate) => sum + estimate.cost, 0),
+    plannedCost,
+    planned,
+    trimmed,
+    skipped,
+    budget: {
+      today: usage.today,
+      month: usage.month,
+      dailyLimit: usage.dailyLimit,
+      monthlyLimit: usage.monthlyLimit,
+      remaining: Number.isFinite(remaining) ? Math.max(0, remaining) : null,
+    },
+    allowed: reason === undefined,
+    ...(reason ? { reason } : {}),
+  };
+}
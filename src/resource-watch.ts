@@ -0,0 +1,145 @@
+/**
+ * File watching behind MCP `resources/subscribe`.
+ *
+ * Each subscribable resource maps to the files its writers touch
+ * (savePlaybook, saveDiary, recordOutcome, saveTraumas). Those writers use
+ * atomic renames and appends, and the files may not exist yet, so paths are
+ * polled with fs.watchFile (stat-based) rather than fs.watch (inode-based).
+ */
+
+import { watchFile, unwatchFile, type Stats } from "node:fs";
+import path from "node:path";
+import type { Config } from "./types.js";
+import { expandPath, resolveRepoDir } from "./utils.js";
+import { resolveOutcomeLogPath } from "./outcome.js";
+import { resolveTraumaPaths } from "./trauma.js";
+import { getBlockedLogPaths } from "./playbook.js";
+import { getTeamPlaybookPath, getTeamsDir, listTeams } from "./team.js";
+
+const DEFAULT_POLL_INTERVAL_MS = 500;
+const DEFAULT_DEBOUNCE_MS = 100;
+
+/**
+ * Files behind a resource URI, or null when the resource cannot be
+ * subscribed to. Derived views (stats, single bullets, categories, single
+ * diaries) follow the files they are built from. Playbook views follow every
+ * layer loadMergedPlaybook reads (global, teams, repo) and the blocked logs;
+ * the teams directory is watched so a newly joined team also notifies.
+ */
+export async function resolveResourceWatchPaths(uri: string, config: Config): Promise<string[] | null> {
+  if (
+    uri === "cm://playbook" ||
+    uri === "cm://stats" ||
+    uri === "memory://stats" ||
+    uri.startsWith("cm://bullet/") ||
+    uri.startsWith("cm://playbook/category/")
+  ) {
+    const repoDir = await resolveRepoDir();
+    return [
+      expandPath(config.playbookPath),
+      getTeamsDir(),
+      ...(await listTeams()).map(getTeamPlaybookPath),
+      ...(repoDir ? [path.join(repoDir, "playbook.yaml")] : []),
+      ...getBlockedLogPaths(repoDir),
+    ];
+  }
+  if (uri === "cm://diary") {
+    // New entries change the directory; rewrites of an entry rename into it.
+    return [expandPath(config.diaryDir)];
+  }
+  const diaryMatch = /^cm:\/\/diary\/([A-Za-z0-9_-]+)$/.exec(uri);
+  if (diaryMatch) {
+    return [path.join(expandPath(config.diaryDir), `${diaryMatch[1]}.json`)];
+  }
+  if (uri === "cm://outcomes") {
+    return [await resolveOutcomeLogPath()];
+  }
+  if (uri === "cm://traumas") {
+    return resolveTraumaPaths();
+  }
+  return null;
+}
+
+interface WatchSubscription {
+  uri: string;
+  paths: string[];
+  listener: (uri: string) => void;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Polls files and calls each subscriber once per burst of changes to any of
+ * its files. Paths are shared between subscribers and unwatched when the
+ * last one leaves.
+ */
+export class ResourceWatcher {
+  private readonly subscriptions = new Set<WatchSubscription>();
+  private readonly watched = new Map<string, { refs: number; onChange: (curr: Stats, prev: Stats) => void }>();
+  private readonly intervalMs: number;
+  private readonly debounceMs: number;
+
+  constructor(options: { intervalMs?: number; debounceMs?: number } = {}) {
+    this.intervalMs = options.intervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    this.debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+  }
+
+  /** Start notifying `listener` when any of `paths` changes. Returns the unsubscribe function. */
+  watch(uri: string, paths: string[], listener: (uri: string) => void): () => void {
+    const subscription: WatchSubscription = { uri, paths: [...new Set(paths)], listener };
+    this.subscriptions.add(subscription);
+    for (const filePath of subscription.paths) this.retain(filePath);
+
+    return () => {
+      if (!this.subscriptions.delete(subscription)) return;
+      if (subscription.timer) clearTimeout(subscription.timer);
+      for (const filePath of subscription.paths) this.release(filePath);
+    };
+  }
+
+  /** Paths currently polled (for metrics and tests). */
+  watchedPaths(): string[] {
+    return [...this.watched.keys()];
+  }
+
+  close(): void {
+    for (const subscription of this.subscriptions) {
+      if (subscription.timer) clearTimeout(subscription.timer);
+    }
+    this.subscriptions.clear();
+    for (const [filePath, entry] of this.watched) unwatchFile(filePath, entry.onChange);
+    this.watched.clear();
+  }
+
+  private retain(filePath: string): void {
+    const existing = this.watched.get(filePath);
+    if (existing) {
+      existing.refs++;
+      return;
+    }
+    const onChange = (curr: Stats, prev: Stats) => {
+      // Some runtimes report an initial event for a missing file; skip no-op stats.
+      if (curr.mtimeMs === prev.mtimeMs && curr.size === prev.size && curr.ino === prev.ino) return;
+      this.changed(filePath);
+    };
+    watchFile(filePath, { interval: this.intervalMs, persistent: false }, onChange);
+    this.watched.set(filePath, { refs: 1, onChange });
+  }
+
+  private release(filePath: string): void {
+    const entry = this.watched.get(filePath);
+    if (!entry) return;
+    if (--entry.refs > 0) return;
+    unwatchFile(filePath, entry.onChange);
+    this.watched.delete(filePath);
+  }
+
+  private changed(filePath: string): void {
+    for (const subscription of this.subscriptions) {
+      if (!subscription.paths.includes(filePath) || subscription.timer) continue;
+      subscription.timer = setTimeout(() => {
+        subscription.timer = undefined;
+        subscription.listener(subscription.uri);
+      }, this.debounceMs);
+    }
+  }
+}
@@ -0,0 +1,296 @@
+/**
+ * Review queue for reflection deltas (`cm review`).
+ *
+ * With `curation.requireApproval`, reflection does not curate the deltas the
+ * LLM proposes. It queues them here together with the validator verdict, the
+ * evidence gate result and the source diary. Approved items are curated into
+ * the playbooks like a reflection run would. Rejected items stay in the queue
+ * (so the same proposal is not queued twice) and their content goes to the
+ * blocked log, so reflection never proposes it again.
+ *
+ * The queue is stored in ~/.cass-memory/review-queue.json. Each item records
+ * the repo it was proposed in, and approval curates into that repo's
+ * playbook whatever directory the approver runs from.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import { z } from "zod";
+import { ReviewItemSchema, type Config, type CurationResult, type EvidenceGateResult, type PlaybookDelta, type ReviewItem, type ValidationResult } from "./types.js";
+import { appendBlockedLog } from "./playbook.js";
+import { applyPlaybookDeltas } from "./orchestrator.js";
+import { withLock } from "./lock.js";
+import { atomicWrite, ensureDir, hashContent, now, resolveGlobalDir, resolveRepoDir, warn } from "./utils.js";
+
+export type ReviewStatus = ReviewItem["status"];
+
+/** A delta reflection wants to queue, with the evidence behind it. */
+export interface ReviewProposal {
+  delta: PlaybookDelta;
+  sourceSession?: string;
+  diaryId?: string;
+  validation?: ValidationResult;
+  evidenceGate?: EvidenceGateResult;
+}
+
+export interface ReviewDecision {
+  /** Items whose status changed */
+  items: ReviewItem[];
+  notFound: string[];
+  /** Items that were already approved or rejected */
+  notPending: string[];
+}
+
+export interface ReviewApproval extends ReviewDecision {
+  applied: number;
+  skipped: number;
+}
+
+export function getReviewQueuePath(): string {
+  return path.join(resolveGlobalDir(), "review-queue.json");
+}
+
+export async function loadReviewQueue(): Promise<ReviewItem[]> {
+  const queuePath = getReviewQueuePath();
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await fs.readFile(queuePath, "utf-8"));
+  } catch (err: any) {
+    if (err?.code !== "ENOENT") warn(`[review] Failed to load review queue (${queuePath}): ${err.message}`);
+    return [];
+  }
+  if (!Array.isArray(raw)) {
+    warn(`[review] Review queue is not a list; ignoring (${queuePath})`);
+    return [];
+  }
+  const items: ReviewItem[] = [];
+  for (const entry of raw) {
+    const parsed = ReviewItemSchema.safeParse(entry);
+    if (parsed.success) items.push(parsed.data);
+    else warn(`[review] Skipping malformed review item: ${JSON.stringify(entry).slice(0, 80)}`);
+  }
+  return items;
+}
+
+async function saveReviewQueue(items: ReviewItem[]): Promise<void> {
+  await ensureDir(resolveGlobalDir());
+  await atomicWrite(getReviewQueuePath(), JSON.stringify(items, null, 2));
+}
+
+async function withReviewQueue<T>(fn: (items: ReviewItem[]) => Promise<{ result: T; changed: boolean }>): Promise<T> {
+  await ensureDir(resolveGlobalDir());
+  return withLock(getReviewQueuePath(), async () => {
+    const items = await loadReviewQueue();
+    const { result, changed } = await fn(items);
+    if (changed) await saveReviewQueue(items);
+    return result;
+  });
+}
+
+/** The text a delta would put into the playbook, if any. */
+export function deltaContent(delta: PlaybookDelta): string | undefined {
+  switch (delta.type) {
+    case "add":
+      return delta.bullet.content;
+    case "replace":
+      return delta.newContent;
+    case "merge":
+      return delta.mergedContent;
+    default:
+      return undefined;
+  }
+}
+
+/** Stable id: the same proposal from another session or run maps to the same item. */
+export function reviewItemId(delta: PlaybookDelta): string {
+  const content = deltaContent(delta);
+  let signature: string;
+  switch (delta.type) {
+    case "add":
+      signature = `add:${content}`;
+      break;
+    case "merge":
+      signature = `merge:${[...delta.bulletIds].sort().join(",")}:${content}`;
+      break;
+    case "replace":
+      signature = `replace:${delta.bulletId}:${content}`;
+      break;
+    case "deprecate":
+      signature = `deprecate:${delta.bulletId}`;
+      break;
+    default:
+      signature = `${delta.type}:${delta.bulletId}:${delta.sourceSession ?? ""}`;
+  }
+  return `r-${hashContent(signature).slice(0, 10)}`;
+}
+
+/** Queue proposals; ones already queued (in any status) are skipped. */
+export async function enqueueReviewItems(proposals: ReviewProposal[]): Promise<{ queued: ReviewItem[]; duplicates: number }> {
+  if (proposals.length === 0) return { queued: [], duplicates: 0 };
+  const repoDir = await resolveRepoDir();
+  return withReviewQueue(async (items) => {
+    const known = new Set(items.map((i) => i.id));
+    const queued: ReviewItem[] = [];
+    let duplicates = 0;
+    for (const proposal of proposals) {
+      const id = reviewItemId(proposal.delta);
+      if (known.has(id)) {
+        duplicates++;
+        continue;
+      }
+      known.add(id);
+      const item: ReviewItem = {
+        id,
+        status: "pending",
+        delta: proposal.delta,
+        proposedAt: now(),
+        sourceSession: proposal.sourceSession,
+        diaryId: proposal.diaryId,
+        repoDir,
+        validation: proposal.validation
+          ? {
+              verdict: proposal.validation.verdict,
+              confidence: proposal.validation.confidence,
+              reason: proposal.validation.reason,
+            }
+          : undefined,
+        evidenceGate: proposal.evidenceGate,
+      };
+      items.push(item);
+      queued.push(item);
+    }
+    return { result: { queued, duplicates }, changed: queued.length > 0 };
+  });
+}
+
+export async function listReviewItems(status: ReviewStatus | "all" = "pending"): Promise<ReviewItem[]> {
+  const items = await loadReviewQueue();
+  return status === "all" ? items : items.filter((i) => i.status === status);
+}
+
+export async function getReviewItem(id: string): Promise<ReviewItem | undefined> {
+  return (await loadReviewQueue()).find((i) => i.id === id);
+}
+
+function partition(items: ReviewItem[], ids: string[]): ReviewDecision {
+  const decision: ReviewDecision = { items: [], notFound: [], notPending: [] };
+  for (const id of new Set(ids)) {
+    const item = items.find((i) => i.id === id);
+    if (!item) decision.notFound.push(id);
+    else if (item.status !== "pending") decision.notPending.push(id);
+    else decision.items.push(item);
+  }
+  return decision;
+}
+
+function curationCounts(result: CurationResult | undefined): { applied: number; skipped: number } {
+  return { applied: result?.applied ?? 0, skipped: result?.skipped ?? 0 };
+}
+
+/**
+ * Curate the pending items into the playbooks and mark them approved.
+ * Pass `all` to approve every pending item. Items are curated per the repo
+ * they were proposed in; items queued before repos were recorded use the
+ * cwd's repo.
+ */
+export async function approveReviewItems(
+  ids: string[] | "all",
+  config: Config,
+  reason?: string
+): Promise<ReviewApproval> {
+  return withReviewQueue(async (items) => {
+    const decision = partition(items, ids === "all" ? items.filter((i) => i.status === "pending").map((i) => i.id) : ids);
+    if (decision.items.length === 0) return { result: { ...decision, applied: 0, skipped: 0 }, changed: false };
+
+    const byRepo = new Map<string | null | undefined, ReviewItem[]>();
+    for (const item of decision.items) {
+      byRepo.set(item.repoDir, [...(byRepo.get(item.repoDir) ?? []), item]);
+    }
+    let applied = 0;
+    let skipped = 0;
+    for (const [repoDir, repoItems] of byRepo) {
+      const { globalResult, repoResult, teamResults } = await applyPlaybookDeltas(
+        config,
+        repoItems.map((i) => i.delta),
+        { command: "review-approve", repoDir }
+      );
+      for (const counts of [globalResult, repoResult, ...(teamResults ?? []).map((t) => t.result)].map(curationCounts)) {
+        applied += counts.applied;
+        skipped += counts.skipped;
+      }
+    }
+
+    const decidedAt = now();
+    for (const item of decision.items) {
+      item.status = "approved";
+      item.decidedAt = decidedAt;
+      item.decisionReason = reason;
+    }
+    return {
+      result: { ...decision, applied, skipped },
+      changed: true,
+    };
+  });
+}
+
+/** Mark the pending items rejected and block their content from future reflection. */
+export async function rejectReviewItems(ids: string[], reason: string): Promise<ReviewDecision> {
+  return withReviewQueue(async (items) => {
+    const decision = partition(items, ids);
+    const decidedAt = now();
+    for (const item of decision.items) {
+      const content = deltaContent(item.delta);
+      if (content) {
+        await appendBlockedLog(
+          { id: item.id, content, reason: `Rejected in review: ${reason}`, forgottenAt: decidedAt },
+          path.join(resolveGlobalDir(), "blocked.log")
+        );
+      }
+      item.status = "rejected";
+      item.decidedAt = decidedAt;
+      item.decisionReason = reason;
+    }
+    return { result: decision, changed: decision.items.length > 0 };
+  });
+}
+
+export const ReviewEditSchema = z.object({
+  content: z.string().trim().min(1).optional(),
+  category: z.string().trim().min(1).optional(),
+});
+export type ReviewEdit = z.infer<typeof ReviewEditSchema>;
+
+export interface ReviewEditResult {
+  item?: ReviewItem;
+  error?: "not_found" | "not_pending" | "not_editable";
+}
+
+/**
+ * Change a pending item's proposed content (and, for new rules, category)
+ * before approving it. Returns an error when the edit does not apply.
+ */
+export async function editReviewItem(
+  id: string,
+  edit: ReviewEdit
+): Promise<ReviewEditResult> {
+  return withReviewQueue<ReviewEditResult>(async (items) => {
+    const item = items.find((i) => i.id === id);
+    if (!item) return { result: { error: "not_found" }, changed: false };
+    if (item.status !== "pending") return { result: { error: "not_pending" }, changed: false };
+
+    const delta = item.delta;
+    if (edit.category !== undefined && delta.type !== "add") {
+      return { result: { error: "not_editable" }, changed: false };
+    }
+    if (edit.content !== undefined) {
+      if (delta.type === "add") delta.bullet.content = edit.content;
+      else if (delta.type === "replace") delta.newContent = edit.content;
+      else if (delta.type === "merge") delta.mergedContent = edit.content;
+      else return { result: { error: "not_editable" }, changed: false };
+    }
+    if (edit.category !== undefined && delta.type === "add") delta.bullet.category = edit.category;
+
+    item.editedAt = now();
+    return { result: { item }, changed: true };
+  });
+}
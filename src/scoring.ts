@@ -4,6 +4,7 @@ import {
   FeedbackEvent,
   BulletMaturity,
 } from "./types.js";
+import { warn } from "./utils.js";
 
 // ---------------------------------------------------------------------------
 // Internal helpers to tolerate config drift (scoring section vs legacy fields)
@@ -44,9 +45,9 @@ export function calculateDecayedValue(
 
 export function getDecayedCounts(
   bullet: PlaybookBullet,
-  config: Config
+  config: Config,
+  now: Date = new Date()
 ): { decayedHelpful: number; decayedHarmful: number } {
-  const now = new Date();
   const halfLifeDays = getHalfLifeDays(config);
   let decayedHelpful = 0;
   let decayedHarmful = 0;
@@ -58,46 +59,162 @@ export function getDecayedCounts(
     const base = calculateDecayedValue(event, now, halfLifeDays);
     // `decayedValue` is an optional per-event weight used by implicit feedback
     // (e.g., outcomes) to represent stronger/weaker signals. Default weight is 1.
-    const weight =
-      typeof event.decayedValue === "number" && Number.isFinite(event.decayedValue)
-        ? Math.max(0, event.decayedValue)
-        : 1;
-    const val = base * weight;
+    const val = base * eventWeight(event);
     if (Number.isFinite(val)) decayedHelpful += val;
   }
   for (const event of allHarmful) {
     const base = calculateDecayedValue(event, now, halfLifeDays);
-    const weight =
-      typeof event.decayedValue === "number" && Number.isFinite(event.decayedValue)
-        ? Math.max(0, event.decayedValue)
-        : 1;
-    const val = base * weight;
+    const val = base * eventWeight(event);
     if (Number.isFinite(val)) decayedHarmful += val;
   }
 
   return { decayedHelpful, decayedHarmful };
 }
 
+// ---------------------------------------------------------------------------
+// Scoring strategies
+// ---------------------------------------------------------------------------
+//
+// A strategy turns a bullet's feedback into a raw score. All strategies share
+// one scale so thresholds elsewhere (at-risk < 0, pruneHarmfulThreshold, the
+// stats buckets) keep their meaning: 0 is neutral, positive is helpful,
+// negative is harmful, and magnitude grows with the amount of evidence.
+// getEffectiveScore applies the maturity multiplier on top of any strategy.
+
+export interface ScoringStrategy {
+  name: string;
+  description: string;
+  /** `now` is the evaluation time; past times are used when replaying history (cm backtest). */
+  rawScore(bullet: PlaybookBullet, config: Config, now: Date): number;
+}
+
+export const DEFAULT_SCORING_STRATEGY = "decay";
+
+const scoringStrategies = new Map<string, ScoringStrategy>();
+const warnedUnknownStrategies = new Set<string>();
+
+export function registerScoringStrategy(strategy: ScoringStrategy): void {
+  scoringStrategies.set(strategy.name, strategy);
+}
+
+export function getScoringStrategy(name: string): ScoringStrategy | undefined {
+  return scoringStrategies.get(name);
+}
+
+export function listScoringStrategies(): ScoringStrategy[] {
+  return [...scoringStrategies.values()];
+}
+
+/** The configured strategy, falling back to the default for unknown names. */
+export function resolveScoringStrategy(config: Config): ScoringStrategy {
+  const name = config.scoring?.strategy;
+  if (name && name !== DEFAULT_SCORING_STRATEGY) {
+    const strategy = scoringStrategies.get(name);
+    if (strategy) return strategy;
+    if (!warnedUnknownStrategies.has(name)) {
+      warnedUnknownStrategies.add(name);
+      warn(
+        `Unknown scoring.strategy "${name}"; using "${DEFAULT_SCORING_STRATEGY}". ` +
+          `Available: ${[...scoringStrategies.keys()].join(", ")}`
+      );
+    }
+  }
+  return scoringStrategies.get(DEFAULT_SCORING_STRATEGY)!;
+}
+
+function getWindowDays(config: Config): number {
+  const windowDays = config.scoring?.windowDays;
+  return windowDays !== undefined && windowDays > 0 ? windowDays : 30;
+}
+
+function eventWeight(event: FeedbackEvent): number {
+  return typeof event.decayedValue === "number" && Number.isFinite(event.decayedValue)
+    ? Math.max(0, event.decayedValue)
+    : 1;
+}
+
+/** Lower bound of the Wilson score interval for `successes` out of `n` (z = 1.96, ~95%). */
+export function wilsonLowerBound(successes: number, n: number, z = 1.96): number {
+  if (n <= 0) return 0;
+  const phat = Math.min(1, Math.max(0, successes / n));
+  const z2 = z * z;
+  const centre = phat + z2 / (2 * n);
+  const margin = z * Math.sqrt((phat * (1 - phat)) / n + z2 / (4 * n * n));
+  return Math.max(0, (centre - margin) / (1 + z2 / n));
+}
+
+registerScoringStrategy({
+  name: "decay",
+  description: "Exponentially decayed helpful minus harmfulMultiplier × decayed harmful",
+  rawScore(bullet, config, now) {
+    const { decayedHelpful, decayedHarmful } = getDecayedCounts(bullet, config, now);
+    return decayedHelpful - getHarmfulMultiplier(config) * decayedHarmful;
+  },
+});
+
+registerScoringStrategy({
+  name: "bayesian",
+  description: "Beta(1,1)-posterior mean of helpfulness, scaled by the amount of decayed evidence",
+  rawScore(bullet, config, now) {
+    const { decayedHelpful, decayedHarmful } = getDecayedCounts(bullet, config, now);
+    const harmful = getHarmfulMultiplier(config) * decayedHarmful;
+    const evidence = decayedHelpful + harmful;
+    const posteriorMean = (1 + decayedHelpful) / (2 + evidence);
+    return (2 * posteriorMean - 1) * evidence;
+  },
+});
+
+registerScoringStrategy({
+  name: "wilson",
+  description: "Wilson lower bounds of the helpful and harmful shares (conservative with little feedback)",
+  rawScore(bullet, config, now) {
+    const { decayedHelpful, decayedHarmful } = getDecayedCounts(bullet, config, now);
+    const harmful = getHarmfulMultiplier(config) * decayedHarmful;
+    const n = decayedHelpful + harmful;
+    if (n <= 0) return 0;
+    return n * (wilsonLowerBound(decayedHelpful, n) - wilsonLowerBound(harmful, n));
+  },
+});
+
+registerScoringStrategy({
+  name: "windowed",
+  description: "Undecayed helpful minus harmfulMultiplier × harmful within the last scoring.windowDays",
+  rawScore(bullet, config, now) {
+    const cutoff = now.getTime() - getWindowDays(config) * 86_400_000;
+    let helpful = 0;
+    let harmful = 0;
+    for (const event of bullet.feedbackEvents || []) {
+      const ts = new Date(event.timestamp).getTime();
+      if (!Number.isFinite(ts) || ts < cutoff) continue;
+      if (event.type === "helpful") helpful += eventWeight(event);
+      else harmful += eventWeight(event);
+    }
+    return helpful - getHarmfulMultiplier(config) * harmful;
+  },
+});
+
 // ---------------------------------------------------------------------------
 // Effective score
 // ---------------------------------------------------------------------------
 
+const maturityMultiplier: Record<BulletMaturity, number> = {
+  candidate: 0.5,
+  established: 1.0,
+  proven: 1.5,
+  deprecated: 0,
+};
+
+/**
+ * Score a bullet with the configured strategy (or an explicit one, e.g. for
+ * `cm scoring compare`).
+ */
 export function getEffectiveScore(
   bullet: PlaybookBullet,
-  config: Config
+  config: Config,
+  strategy: ScoringStrategy = resolveScoringStrategy(config),
+  now: Date = new Date()
 ): number {
-  const { decayedHelpful, decayedHarmful } = getDecayedCounts(bullet, config);
-
-  const harmfulMultiplier = getHarmfulMultiplier(config);
-  const rawScore = decayedHelpful - harmfulMultiplier * decayedHarmful;
-
-  const maturityMultiplier: Record<BulletMaturity, number> = {
-    candidate: 0.5,
-    established: 1.0,
-    proven: 1.5,
-    deprecated: 0,
-  };
-
+  const rawScore = strategy.rawScore(bullet, config, now);
   const multiplier = maturityMultiplier[bullet.maturity] ?? 1.0;
   // No floor at 0 for raw score? A very harmful rule should be negative.
   return rawScore * multiplier;
@@ -109,14 +226,15 @@ export function getEffectiveScore(
 
 export function calculateMaturityState(
   bullet: PlaybookBullet,
-  config: Config
+  config: Config,
+  now: Date = new Date()
 ): BulletMaturity {
   if (bullet.maturity === "deprecated" || bullet.deprecated) return "deprecated";
   
   // Pinned bullets should not be auto-deprecated or demoted by feedback
   if (bullet.pinned) return bullet.maturity;
 
-  const { decayedHelpful, decayedHarmful } = getDecayedCounts(bullet, config);
+  const { decayedHelpful, decayedHarmful } = getDecayedCounts(bullet, config, now);
   
   const total = decayedHelpful + decayedHarmful;
   // Use epsilon for float comparisons
@@ -146,12 +264,13 @@ export function calculateMaturityState(
 
 export function checkForPromotion(
   bullet: PlaybookBullet,
-  config: Config
+  config: Config,
+  now: Date = new Date()
 ): BulletMaturity {
   const current = bullet.maturity;
   if (current === "proven" || current === "deprecated") return current;
 
-  const newState = calculateMaturityState(bullet, config);
+  const newState = calculateMaturityState(bullet, config, now);
   
   // Allow promotion sequence: candidate -> established -> proven
   // Also allow candidate -> proven directly if signal is strong enough
@@ -164,11 +283,12 @@ export function checkForPromotion(
 
 export function checkForDemotion(
   bullet: PlaybookBullet,
-  config: Config
+  config: Config,
+  now: Date = new Date()
 ): BulletMaturity | "auto-deprecate" {
   if (bullet.pinned) return bullet.maturity;
 
-  const score = getEffectiveScore(bullet, config);
+  const score = getEffectiveScore(bullet, config, resolveScoringStrategy(config), now);
 
   if (score < -config.pruneHarmfulThreshold) {
     return "auto-deprecate";
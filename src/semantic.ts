@@ -1,13 +1,32 @@
 import fs from "node:fs/promises";
 import path from "node:path";
 import {
+  DIARY_SEARCH_FIELDS,
+  DiaryEntry,
+  DiarySearchField,
   EmbeddingCache,
   EmbeddingCacheSchema,
   Playbook,
   PlaybookBullet,
+  VectorIndex,
 } from "./types.js";
 import { atomicWrite, expandPath, hashContent, resolveGlobalDir, warn } from "./utils.js";
 import { withLock } from "./lock.js";
+import {
+  VECTOR_INDEX_MIN_ENTRIES,
+  bulletVectorKey,
+  countVectors,
+  createEmptyVectorIndex,
+  diaryVectorKey,
+  getVectorIndexPath,
+  loadVectorIndex,
+  removeVector,
+  saveVectorIndex,
+  searchVectorIndex,
+  trainVectorIndex,
+  updateVectorIndex,
+  upsertVector,
+} from "./vector-index.js";
 import { getOutputStyle } from "./output.js";
 import { ensureOnnxWasmRuntime } from "./wasm-runtime.js";
 
@@ -749,6 +768,12 @@ export async function loadOrComputeEmbeddingsForBullets(
       await saveEmbeddingCache(cache, { cachePath });
     }
 
+    // Keep the vector index in step with freshly computed embeddings. Skipped
+    // for custom cache paths, which are private to their caller.
+    if (computed > 0 && !options.cachePath) {
+      await indexBulletEmbeddings(toCompute.map((x) => x.bullet), { model });
+    }
+
     emitProgress({
       phase: "done",
       current: totalToCompute,
@@ -775,11 +800,184 @@ export interface SimilarBulletMatch {
   similarity: number;
 }
 
+function upsertBulletVector(index: VectorIndex, bullet: PlaybookBullet): boolean {
+  if (!bullet?.id || !bullet.content || !Array.isArray(bullet.embedding) || bullet.embedding.length === 0) {
+    return false;
+  }
+  return upsertVector(index, bulletVectorKey(bullet.id), {
+    kind: "bullet",
+    ref: bullet.id,
+    contentHash: hashContent(bullet.content),
+    vector: bullet.embedding,
+  });
+}
+
+/**
+ * Add bullets that carry an embedding to the vector index (best-effort).
+ */
+export async function indexBulletEmbeddings(
+  bullets: PlaybookBullet[],
+  options: { model?: string; indexPath?: string } = {}
+): Promise<void> {
+  const model = options.model || DEFAULT_EMBEDDING_MODEL;
+  try {
+    await updateVectorIndex(
+      (index) => bullets.reduce((changed, b) => upsertBulletVector(index, b) || changed, false),
+      { model, indexPath: options.indexPath }
+    );
+  } catch (err: any) {
+    warn(`[semantic] Failed to update vector index: ${err?.message || err}`);
+  }
+}
+
+/**
+ * The non-empty texts of a diary's searchable fields, in DIARY_SEARCH_FIELDS
+ * order. A text's position in this list is its `part` in the vector index.
+ */
+export function getDiarySearchTexts(diary: DiaryEntry): Array<{ field: DiarySearchField; text: string }> {
+  return DIARY_SEARCH_FIELDS.flatMap((field) =>
+    (diary[field] ?? []).filter((text) => text.trim()).map((text) => ({ field, text }))
+  );
+}
+
+/**
+ * Embed the searchable fields of diary entries (see getDiarySearchTexts) into
+ * the vector index. Texts that are unchanged are not re-embedded; removed
+ * ones are dropped.
+ */
+export async function indexDiaryEntries(
+  diaries: DiaryEntry[],
+  options: { model?: string; indexPath?: string } = {}
+): Promise<{ indexed: number; skipped: number }> {
+  const model = options.model || DEFAULT_EMBEDDING_MODEL;
+  let indexed = 0;
+  let skipped = 0;
+  if (model === "none") return { indexed, skipped };
+
+  await updateVectorIndex(async (index) => {
+    let changed = false;
+    const pending: Array<{ diary: DiaryEntry; part: number; text: string; contentHash: string }> = [];
+
+    for (const diary of diaries) {
+      const texts = getDiarySearchTexts(diary);
+      texts.forEach(({ text }, part) => {
+        const contentHash = hashContent(text);
+        if (index.entries[diaryVectorKey(diary.id, part)]?.contentHash === contentHash) return;
+        pending.push({ diary, part, text, contentHash });
+      });
+      for (const [key, entry] of Object.entries(index.entries)) {
+        if (entry.kind === "diary" && entry.ref === diary.id && (entry.part ?? 0) >= texts.length) {
+          changed = removeVector(index, key) || changed;
+        }
+      }
+    }
+
+    if (pending.length === 0) return changed;
+    const embeddings = await batchEmbed(pending.map((p) => p.text), 32, { model });
+    pending.forEach((p, i) => {
+      const added = upsertVector(index, diaryVectorKey(p.diary.id, p.part), {
+        kind: "diary",
+        ref: p.diary.id,
+        part: p.part,
+        contentHash: p.contentHash,
+        vector: embeddings[i] ?? [],
+      });
+      if (added) indexed++;
+      else skipped++;
+    });
+    return changed || indexed > 0;
+  }, { model, indexPath: options.indexPath });
+
+  return { indexed, skipped };
+}
+
+/**
+ * Rebuild the vector index from scratch: every bullet with an embedding (see
+ * loadOrComputeEmbeddingsForBullets) and every searchable diary text.
+ */
+export async function rebuildVectorIndex(
+  bullets: PlaybookBullet[],
+  diaries: DiaryEntry[],
+  options: { model?: string; indexPath?: string } = {}
+): Promise<{ bullets: number; diaryTexts: number; lists: number }> {
+  const model = options.model || DEFAULT_EMBEDDING_MODEL;
+  const indexPath = expandPath(options.indexPath || getVectorIndexPath());
+  await withLock(indexPath, async () => {
+    const index = createEmptyVectorIndex(model);
+    for (const bullet of bullets) upsertBulletVector(index, bullet);
+    await saveVectorIndex(index, { indexPath });
+  });
+  const diaryResult = diaries.length > 0 ? await indexDiaryEntries(diaries, { model, indexPath }) : { indexed: 0 };
+
+  const index = await updateVectorIndex((idx) => {
+    trainVectorIndex(idx);
+    return true;
+  }, { model, indexPath });
+  return {
+    bullets: countVectors(index, "bullet"),
+    diaryTexts: diaryResult.indexed,
+    lists: index.centroids.length,
+  };
+}
+
+/**
+ * Rank bullets by cosine similarity to a query embedding, best first.
+ *
+ * Small sets are scanned exactly. From VECTOR_INDEX_MIN_ENTRIES bullets on,
+ * bullets whose current content is in the vector index are searched
+ * approximately and only the rest are scanned. The index is only read here;
+ * it is filled where embeddings are computed (loadOrComputeEmbeddingsForBullets).
+ */
+export async function rankBulletsByEmbedding(
+  queryEmbedding: number[],
+  bullets: PlaybookBullet[],
+  topK: number,
+  options: { model?: string; indexPath?: string } = {}
+): Promise<SimilarBulletMatch[]> {
+  const withEmbeddings = bullets.filter(
+    (b) => Boolean(b?.content) && Array.isArray(b.embedding) && b.embedding.length > 0
+  );
+
+  const exact = (candidates: PlaybookBullet[]): SimilarBulletMatch[] =>
+    candidates.map((bullet) => ({ bullet, similarity: cosineSimilarity(queryEmbedding, bullet.embedding!) }));
+
+  let matches: SimilarBulletMatch[];
+  if (withEmbeddings.length < VECTOR_INDEX_MIN_ENTRIES) {
+    matches = exact(withEmbeddings);
+  } else {
+    const model = options.model || DEFAULT_EMBEDDING_MODEL;
+    const index = await loadVectorIndex({ model, indexPath: options.indexPath });
+    const byId = new Map(withEmbeddings.map((b) => [b.id, b]));
+    const covered = new Set<string>();
+    for (const b of withEmbeddings) {
+      if (index?.entries[bulletVectorKey(b.id)]?.contentHash === hashContent(b.content)) covered.add(b.id);
+    }
+
+    const approximate = index
+      ? searchVectorIndex(index, queryEmbedding, {
+        k: topK,
+        kinds: ["bullet"],
+        filter: (_key, entry) => covered.has(entry.ref),
+      }).map((hit) => ({ bullet: byId.get(hit.entry.ref)!, similarity: hit.similarity }))
+      : [];
+    matches = [...approximate, ...exact(withEmbeddings.filter((b) => !covered.has(b.id)))];
+  }
+
+  matches.sort((a, b) => b.similarity - a.similarity);
+  return matches.slice(0, topK);
+}
+
 export async function findSimilarBulletsSemantic(
   query: string,
   bullets: PlaybookBullet[],
   topK = 5,
-  options: { threshold?: number; model?: string; cachePath?: string; queryEmbedding?: number[] } = {}
+  options: {
+    threshold?: number;
+    model?: string;
+    cachePath?: string;
+    indexPath?: string;
+    queryEmbedding?: number[];
+  } = {}
 ): Promise<SimilarBulletMatch[]> {
   const cleaned = query?.trim();
   if (!cleaned) return [];
@@ -807,20 +1005,11 @@ export async function findSimilarBulletsSemantic(
     await loadOrComputeEmbeddingsForBullets(bullets, { model, cachePath: options.cachePath });
   }
 
-  const matches: SimilarBulletMatch[] = [];
-
-  for (const bullet of bullets) {
-    if (!bullet?.content) continue;
-    if (!Array.isArray(bullet.embedding) || bullet.embedding.length === 0) continue;
-
-    const similarity = cosineSimilarity(queryEmbedding, bullet.embedding);
-    if (threshold !== undefined && similarity < threshold) continue;
-
-    matches.push({ bullet, similarity });
-  }
-
-  matches.sort((a, b) => b.similarity - a.similarity);
-  return matches.slice(0, topK);
+  const ranked = await rankBulletsByEmbedding(queryEmbedding, bullets, topK, {
+    model,
+    indexPath: options.indexPath,
+  });
+  return threshold === undefined ? ranked : ranked.filter((m) => m.similarity >= threshold);
 }
 
 export interface SemanticDuplicatePair {
@@ -0,0 +1,316 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import yaml from "yaml";
+import { Playbook, PlaybookSchema } from "./types.js";
+import { createEmptyPlaybook, loadPlaybook, savePlaybook } from "./playbook.js";
+import { ensureDir, fileExists, resolveGlobalDir } from "./utils.js";
+import { withLock } from "./lock.js";
+import { loadConfig } from "./config.js";
+import { reconcilePlaybooks } from "./reconcile.js";
+
+const execFileAsync = promisify(execFile);
+
+// -----------------------------------------------------------------------------
+// Team Playbooks
+// -----------------------------------------------------------------------------
+//
+// A team layer is a git clone under <globalDir>/teams/<name> whose root holds a
+// playbook.yaml. It sits between the personal global playbook and the repo
+// playbook when the layers are merged. Sync is plain git, except that diverged
+// histories are merged bullet-by-bullet (see reconcilePlaybooks) instead of
+// textually, so concurrent feedback from teammates is never lost to a conflict.
+
+export const TEAM_PLAYBOOK_FILE = "playbook.yaml";
+
+const TEAM_NAME_PATTERN = /^[a-z0-9][a-z0-9._-]{0,63}$/i;
+
+/** Paths inside a team clone that cm writes but must never commit. */
+const TEAM_LOCAL_EXCLUDES = ["history/", "*.lock.d/", "*.tmp.*", "*.bak.*"];
+
+export interface TeamStatus {
+  name: string;
+  dir: string;
+  remote: string | null;
+  branch: string | null;
+  /** Local commits not yet pushed (relative to the last fetch). */
+  ahead: number;
+  /** Remote commits not yet pulled (relative to the last fetch). */
+  behind: number;
+  /** playbook.yaml has changes that are not committed yet. */
+  dirty: boolean;
+  bulletCount: number;
+}
+
+export interface TeamPullResult {
+  name: string;
+  outcome: "up-to-date" | "fast-forward" | "merged" | "no-remote-branch";
+  bulletCount: number;
+}
+
+export interface TeamPushResult {
+  name: string;
+  pull: TeamPullResult;
+  pushed: boolean;
+  commits: number;
+}
+
+export function isValidTeamName(name: string): boolean {
+  return TEAM_NAME_PATTERN.test(name);
+}
+
+export function getTeamsDir(): string {
+  return path.join(resolveGlobalDir(), "teams");
+}
+
+export function getTeamDir(name: string): string {
+  return path.join(getTeamsDir(), name);
+}
+
+export function getTeamPlaybookPath(name: string): string {
+  return path.join(getTeamDir(name), TEAM_PLAYBOOK_FILE);
+}
+
+export async function teamExists(name: string): Promise<boolean> {
+  return await fileExists(path.join(getTeamDir(name), ".git"));
+}
+
+/** Names of all configured teams, sorted so layer order is deterministic. */
+export async function listTeams(): Promise<string[]> {
+  const teamsDir = getTeamsDir();
+  if (!(await fileExists(teamsDir))) return [];
+
+  const entries = await fs.readdir(teamsDir, { withFileTypes: true });
+  const names: string[] = [];
+  for (const entry of entries) {
+    if (!entry.isDirectory() || !isValidTeamName(entry.name)) continue;
+    if (await teamExists(entry.name)) names.push(entry.name);
+  }
+  return names.sort();
+}
+
+/** Team playbooks that exist on disk, in layer order. */
+export async function loadTeamPlaybooks(): Promise<Array<{ name: string; path: string; playbook: Playbook }>> {
+  const layers: Array<{ name: string; path: string; playbook: Playbook }> = [];
+  for (const name of await listTeams()) {
+    const playbookPath = getTeamPlaybookPath(name);
+    if (!(await fileExists(playbookPath))) continue;
+    layers.push({ name, path: playbookPath, playbook: await loadPlaybook(playbookPath) });
+  }
+  return layers;
+}
+
+// --- Git plumbing ---
+
+async function git(cwd: string, args: string[]): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync("git", args, { cwd, maxBuffer: 20 * 1024 * 1024 });
+    return String(stdout).trim();
+  } catch (err: any) {
+    const detail = String(err?.stderr || err?.message || err).trim();
+    throw new Error(`git ${args[0]} failed: ${detail}`);
+  }
+}
+
+async function gitSucceeds(cwd: string, args: string[]): Promise<boolean> {
+  try {
+    await execFileAsync("git", args, { cwd });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Fallback identity for commands that record commits, so `cm team push`
+ * works on machines without git user config (fresh containers, CI).
+ */
+async function gitIdentityArgs(cwd: string): Promise<string[]> {
+  const hasIdentity = await gitSucceeds(cwd, ["config", "user.email"]);
+  return hasIdentity ? [] : ["-c", "user.name=cass-memory", "-c", "user.email=cass-memory@localhost"];
+}
+
+async function gitCommit(cwd: string, message: string): Promise<void> {
+  await git(cwd, [...(await gitIdentityArgs(cwd)), "commit", "--no-verify", "-m", message]);
+}
+
+async function currentBranch(dir: string): Promise<string | null> {
+  try {
+    return (await git(dir, ["symbolic-ref", "--short", "HEAD"])) || null;
+  } catch {
+    return null;
+  }
+}
+
+async function hasCommits(dir: string): Promise<boolean> {
+  return await gitSucceeds(dir, ["rev-parse", "--verify", "--quiet", "HEAD"]);
+}
+
+async function refExists(dir: string, ref: string): Promise<boolean> {
+  return await gitSucceeds(dir, ["rev-parse", "--verify", "--quiet", ref]);
+}
+
+async function isPlaybookDirty(dir: string): Promise<boolean> {
+  const status = await git(dir, ["status", "--porcelain", "--", TEAM_PLAYBOOK_FILE]);
+  return status.length > 0;
+}
+
+async function readPlaybookAtRef(dir: string, ref: string): Promise<Playbook> {
+  let content: string;
+  try {
+    content = await git(dir, ["show", `${ref}:${TEAM_PLAYBOOK_FILE}`]);
+  } catch {
+    // The ref exists but has no playbook yet (e.g. a remote seeded with a README)
+    return createEmptyPlaybook("team");
+  }
+  const result = PlaybookSchema.safeParse(yaml.parse(content) ?? {});
+  if (!result.success) {
+    throw new Error(`${ref}:${TEAM_PLAYBOOK_FILE} is not a valid playbook: ${result.error.message}`);
+  }
+  return result.data;
+}
+
+async function commitLocalChanges(dir: string, message: string): Promise<boolean> {
+  if (!(await fileExists(path.join(dir, TEAM_PLAYBOOK_FILE)))) return false;
+  if (!(await isPlaybookDirty(dir))) return false;
+  await git(dir, ["add", "--", TEAM_PLAYBOOK_FILE]);
+  await gitCommit(dir, message);
+  return true;
+}
+
+async function countCommits(dir: string, range: string): Promise<number> {
+  const out = await git(dir, ["rev-list", "--count", range]);
+  return Number.parseInt(out, 10) || 0;
+}
+
+// --- Commands ---
+
+export async function addTeamRemote(name: string, url: string): Promise<TeamStatus> {
+  if (!isValidTeamName(name)) {
+    throw new Error(`Invalid team name: ${name}`);
+  }
+  const dir = getTeamDir(name);
+  if (await fileExists(dir)) {
+    throw new Error(`Team already exists: ${name} (${dir})`);
+  }
+
+  await ensureDir(getTeamsDir());
+  await git(getTeamsDir(), ["clone", "--quiet", url, name]);
+
+  const excludePath = path.join(dir, ".git", "info", "exclude");
+  await ensureDir(path.dirname(excludePath));
+  await fs.appendFile(excludePath, `\n# cass-memory local state\n${TEAM_LOCAL_EXCLUDES.join("\n")}\n`, "utf-8");
+
+  return await getTeamStatus(name);
+}
+
+export async function getTeamStatus(name: string): Promise<TeamStatus> {
+  const dir = getTeamDir(name);
+  const branch = await currentBranch(dir);
+  let remote: string | null = null;
+  try {
+    remote = (await git(dir, ["remote", "get-url", "origin"])) || null;
+  } catch {
+    remote = null;
+  }
+
+  let ahead = 0;
+  let behind = 0;
+  const born = await hasCommits(dir);
+  const upstream = branch ? `origin/${branch}` : null;
+  const upstreamExists = upstream ? await refExists(dir, upstream) : false;
+  if (born && upstreamExists) {
+    ahead = await countCommits(dir, `${upstream}..HEAD`);
+    behind = await countCommits(dir, `HEAD..${upstream}`);
+  } else if (born) {
+    ahead = await countCommits(dir, "HEAD");
+  }
+
+  const playbookPath = path.join(dir, TEAM_PLAYBOOK_FILE);
+  const exists = await fileExists(playbookPath);
+
+  return {
+    name,
+    dir,
+    remote,
+    branch,
+    ahead,
+    behind,
+    dirty: exists ? await isPlaybookDirty(dir) : false,
+    bulletCount: exists ? (await loadPlaybook(playbookPath)).bullets.length : 0,
+  };
+}
+
+async function pullLocked(name: string): Promise<TeamPullResult> {
+  const dir = getTeamDir(name);
+  const playbookPath = path.join(dir, TEAM_PLAYBOOK_FILE);
+
+  await commitLocalChanges(dir, "cm team: record local playbook changes");
+  await git(dir, ["fetch", "--quiet", "origin"]);
+
+  const branch = await currentBranch(dir);
+  const upstream = branch ? `origin/${branch}` : null;
+  const bulletCount = async () =>
+    (await fileExists(playbookPath)) ? (await loadPlaybook(playbookPath)).bullets.length : 0;
+
+  if (!upstream || !(await refExists(dir, upstream))) {
+    return { name, outcome: "no-remote-branch", bulletCount: await bulletCount() };
+  }
+
+  if (!(await hasCommits(dir))) {
+    await git(dir, ["reset", "--quiet", "--hard", upstream]);
+    return { name, outcome: "fast-forward", bulletCount: await bulletCount() };
+  }
+
+  if (await gitSucceeds(dir, ["merge-base", "--is-ancestor", upstream, "HEAD"])) {
+    return { name, outcome: "up-to-date", bulletCount: await bulletCount() };
+  }
+
+  if (await gitSucceeds(dir, ["merge-base", "--is-ancestor", "HEAD", upstream])) {
+    await git(dir, ["merge", "--quiet", "--ff-only", upstream]);
+    return { name, outcome: "fast-forward", bulletCount: await bulletCount() };
+  }
+
+  // Diverged: record a git merge whose tree is the bullet-level merge of both sides
+  const local = await readPlaybookAtRef(dir, "HEAD");
+  const remote = await readPlaybookAtRef(dir, upstream);
+  const { playbook: merged } = reconcilePlaybooks(local, remote, await loadConfig());
+
+  await git(dir, [
+    ...(await gitIdentityArgs(dir)),
+    "merge", "--quiet", "--no-commit", "--allow-unrelated-histories", "-s", "ours", upstream,
+  ]);
+  await savePlaybook(merged, playbookPath, { command: `team pull ${name}` });
+  await git(dir, ["add", "--", TEAM_PLAYBOOK_FILE]);
+  await gitCommit(dir, `cm team: merge ${upstream}`);
+
+  return { name, outcome: "merged", bulletCount: merged.bullets.length };
+}
+
+export async function pullTeam(name: string): Promise<TeamPullResult> {
+  return await withLock(getTeamPlaybookPath(name), async () => await pullLocked(name));
+}
+
+export async function pushTeam(name: string): Promise<TeamPushResult> {
+  return await withLock(getTeamPlaybookPath(name), async () => {
+    const pull = await pullLocked(name);
+    const dir = getTeamDir(name);
+    const branch = await currentBranch(dir);
+
+    if (!branch || !(await hasCommits(dir))) {
+      return { name, pull, pushed: false, commits: 0 };
+    }
+
+    const upstream = `origin/${branch}`;
+    const commits = (await refExists(dir, upstream))
+      ? await countCommits(dir, `${upstream}..HEAD`)
+      : await countCommits(dir, "HEAD");
+    if (commits === 0) {
+      return { name, pull, pushed: false, commits: 0 };
+    }
+
+    await git(dir, ["push", "--quiet", "--set-upstream", "origin", `HEAD:${branch}`]);
+    return { name, pull, pushed: true, commits };
+  });
+}
@@ -21,6 +21,7 @@ import { withLock } from "./lock.js";
 
 const GLOBAL_TRAUMA_FILE = "traumas.jsonl";
 const REPO_TRAUMA_FILE = "traumas.jsonl";
+const TRAUMA_CANDIDATES_FILE = "trauma-candidates.jsonl";
 
 /**
  * Known dangerous patterns that indicate a potential catastrophe.
@@ -73,6 +74,35 @@ export interface TraumaCandidate {
   evidence: string; // The specific command found
   context: string; // Surrounding text (apology etc)
   timestamp?: string;
+  /** When a stored candidate was found (see saveTraumaCandidates) */
+  foundAt?: string;
+}
+
+/**
+ * Check one session's content against the DOOM patterns.
+ * Heuristic: a match might only be the command being discussed, so candidates
+ * are for human review (`cm audit --trauma`, `cm watch`), not auto-saved.
+ */
+export function scanContentForTraumas(sessionPath: string, content: string): TraumaCandidate[] {
+  const candidates: TraumaCandidate[] = [];
+  for (const doom of DOOM_PATTERNS) {
+    const regex = new RegExp(doom.pattern, "mi"); // Multiline, case-insensitive
+    const match = regex.exec(content);
+    if (!match) continue;
+
+    // Grab some context around the match
+    const start = Math.max(0, match.index - 100);
+    const end = Math.min(content.length, match.index + match[0].length + 100);
+    candidates.push({
+      sessionPath,
+      matchedPattern: doom.pattern,
+      description: doom.description,
+      evidence: match[0],
+      context: content.slice(start, end).trim(),
+      timestamp: undefined // We'd need to parse this from session content if available
+    });
+  }
+  return candidates;
 }
 
 /**
@@ -105,32 +135,7 @@ export async function scanForTraumas(
       const content = await cassExport(sessionPath, "text", config.cassPath, config, cassRunner);
       if (!content) continue;
 
-      // Check for DOOM patterns
-      for (const doom of DOOM_PATTERNS) {
-        const regex = new RegExp(doom.pattern, "mi"); // Multiline, case-insensitive
-        const match = regex.exec(content);
-        
-        if (match) {
-          // Found a dangerous command!
-          // We assume if it's in a session with an apology, it might be a trauma.
-          // Note: This is heuristic. It might be a false positive (e.g. discussing the command).
-          // But "cm audit --trauma" is for human review.
-          
-          // Grab some context around the match
-          const start = Math.max(0, match.index - 100);
-          const end = Math.min(content.length, match.index + match[0].length + 100);
-          const context = content.slice(start, end);
-
-          candidates.push({
-            sessionPath,
-            matchedPattern: doom.pattern,
-            description: doom.description,
-            evidence: match[0],
-            context: context.trim(),
-            timestamp: undefined // We'd need to parse this from session content if available
-          });
-        }
-      }
+      candidates.push(...scanContentForTraumas(sessionPath, content));
     } catch (e) {
       warn(`[trauma] Failed to analyze session ${sessionPath}: ${e}`);
     }
@@ -139,27 +144,93 @@ export async function scanForTraumas(
   return candidates;
 }
 
+// --- Stored candidates ---
+
+export function getTraumaCandidatesPath(): string {
+  return path.join(resolveGlobalDir(), TRAUMA_CANDIDATES_FILE);
+}
+
+function candidateKey(candidate: TraumaCandidate): string {
+  return `${candidate.sessionPath}\u0000${candidate.matchedPattern}`;
+}
+
+/**
+ * Load the candidates `cm watch` stored for review, optionally only those
+ * found within the last `days` days.
+ */
+export async function loadTraumaCandidates(days?: number): Promise<TraumaCandidate[]> {
+  const filePath = getTraumaCandidatesPath();
+  if (!(await fileExists(filePath))) return [];
+
+  const cutoff = days !== undefined ? Date.now() - days * 86_400_000 : undefined;
+  const candidates: TraumaCandidate[] = [];
+  for (const line of (await fs.readFile(filePath, "utf-8")).split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const candidate = JSON.parse(line) as TraumaCandidate;
+      if (cutoff !== undefined && !(Date.parse(candidate.foundAt ?? "") >= cutoff)) continue;
+      candidates.push(candidate);
+    } catch {
+      warn(`[trauma] Skipping malformed candidate line: ${line.slice(0, 50)}...`);
+    }
+  }
+  return candidates;
+}
+
+/**
+ * Store candidates found outside `cm audit --trauma` (by `cm watch`) so the
+ * next audit lists them. A candidate already stored for the same session and
+ * pattern is not added again. Returns how many were added.
+ */
+export async function saveTraumaCandidates(candidates: TraumaCandidate[]): Promise<number> {
+  if (candidates.length === 0) return 0;
+  const filePath = getTraumaCandidatesPath();
+  await ensureDir(path.dirname(filePath));
+
+  return await withLock(filePath, async () => {
+    const seen = new Set((await loadTraumaCandidates()).map(candidateKey));
+    const foundAt = new Date().toISOString();
+    const added = candidates.filter((c) => {
+      const key = candidateKey(c);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+    if (added.length > 0) {
+      const lines = added.map((c) => JSON.stringify({ ...c, foundAt }));
+      await fs.appendFile(filePath, lines.join("\n") + "\n", "utf-8");
+    }
+    return added.length;
+  });
+}
+
+/** Combine candidate lists, keeping the first candidate per session and pattern. */
+export function mergeTraumaCandidates(...lists: TraumaCandidate[][]): TraumaCandidate[] {
+  const merged = new Map<string, TraumaCandidate>();
+  for (const candidate of lists.flat()) {
+    const key = candidateKey(candidate);
+    if (!merged.has(key)) merged.set(key, candidate);
+  }
+  return [...merged.values()];
+}
+
 /**
  * Load all trauma entries from global and project scopes.
  * Merges them into a single list.
  */
+/** The trauma files loadTraumas reads: global, then the repo's (if in a repo). */
+export async function resolveTraumaPaths(): Promise<string[]> {
+  const paths = [path.join(resolveGlobalDir(), GLOBAL_TRAUMA_FILE)];
+  const repoDir = await resolveRepoDir();
+  if (repoDir) paths.push(path.join(repoDir, REPO_TRAUMA_FILE));
+  return paths;
+}
+
 export async function loadTraumas(): Promise<TraumaEntry[]> {
   const traumas: TraumaEntry[] = [];
-
-  // 1. Load Global
-  const globalDir = resolveGlobalDir();
-  const globalPath = path.join(globalDir, GLOBAL_TRAUMA_FILE);
-  const globalTraumas = await loadTraumasFromFile(globalPath);
-  traumas.push(...globalTraumas);
-
-  // 2. Load Project (if in a repo)
-  const repoDir = await resolveRepoDir();
-  if (repoDir) {
-    const repoPath = path.join(repoDir, REPO_TRAUMA_FILE);
-    const repoTraumas = await loadTraumasFromFile(repoPath);
-    traumas.push(...repoTraumas);
+  for (const filePath of await resolveTraumaPaths()) {
+    traumas.push(...(await loadTraumasFromFile(filePath)));
   }
-
   return traumas;
 }
 
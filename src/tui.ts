@@ -0,0 +1,284 @@
+/**
+ * Playbook triage model behind `cm tui`.
+ *
+ * Holds everything that does not touch the terminal: loading and filtering
+ * the bullet list, the key-handling state machine, and the actions. Every
+ * action goes through an existing lock-protected mutation path:
+ * recordFeedback for helpful/harmful, curation (applyPlaybookDeltas) for
+ * deprecate/edit/merge, and a locked load/save for pinning.
+ */
+
+import { loadMergedPlaybook, getActiveBullets, loadPlaybook, findBullet, savePlaybook } from "./playbook.js";
+import { getEffectiveScore } from "./scoring.js";
+import { applyPlaybookDeltas } from "./orchestrator.js";
+import { recordFeedback } from "./commands/mark.js";
+import { resolveBulletPlaybookPath } from "./commands/playbook.js";
+import { withLock } from "./lock.js";
+import { now } from "./utils.js";
+import type { Config, PlaybookBullet, PlaybookDelta } from "./types.js";
+
+export interface TriageRow {
+  bullet: PlaybookBullet;
+  score: number;
+}
+
+export type TriageOrder = "desc" | "asc";
+
+export type TriageAction =
+  | { type: "helpful" | "harmful"; bulletId: string }
+  | { type: "pin"; bulletId: string; pinned: boolean }
+  | { type: "deprecate"; bulletId: string; reason: string }
+  | { type: "edit"; bulletId: string; content: string }
+  | { type: "merge"; bulletIds: string[]; content: string };
+
+export type TriagePromptKind = "filter" | "edit" | "merge" | "deprecate";
+
+export interface TriageState {
+  rows: TriageRow[];
+  /** Rows matching `filter`, in `order` */
+  visible: TriageRow[];
+  cursor: number;
+  filter: string;
+  order: TriageOrder;
+  /** Bullet ids marked for merging */
+  selected: string[];
+  prompt?: { kind: TriagePromptKind; value: string };
+  status?: string;
+  showHelp: boolean;
+  quit: boolean;
+}
+
+/** The subset of readline's keypress info the state machine reads. */
+export interface TriageKey {
+  name?: string;
+  sequence?: string;
+  ctrl?: boolean;
+  meta?: boolean;
+}
+
+export interface TriageKeyResult {
+  state: TriageState;
+  action?: TriageAction;
+  reload?: boolean;
+}
+
+export const DEFAULT_DEPRECATE_REASON = "Deprecated in cm tui";
+
+export async function loadTriageRows(config: Config): Promise<TriageRow[]> {
+  const playbook = await loadMergedPlaybook(config);
+  return getActiveBullets(playbook).map((bullet) => ({ bullet, score: getEffectiveScore(bullet, config) }));
+}
+
+/** Every whitespace-separated term must appear in the id, content, category or tags. */
+export function filterTriageRows(rows: TriageRow[], query: string): TriageRow[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return rows;
+  return rows.filter(({ bullet }) => {
+    const haystack = [bullet.id, bullet.content, bullet.category, ...(bullet.tags ?? [])].join(" ").toLowerCase();
+    return terms.every((t) => haystack.includes(t));
+  });
+}
+
+function sortRows(rows: TriageRow[], order: TriageOrder): TriageRow[] {
+  const sign = order === "desc" ? -1 : 1;
+  return [...rows].sort((a, b) => sign * (a.score - b.score) || a.bullet.id.localeCompare(b.bullet.id));
+}
+
+function refresh(state: TriageState, keepId?: string): TriageState {
+  const visible = sortRows(filterTriageRows(state.rows, state.filter), state.order);
+  const kept = keepId ? visible.findIndex((r) => r.bullet.id === keepId) : -1;
+  const cursor = kept >= 0 ? kept : Math.min(state.cursor, Math.max(0, visible.length - 1));
+  return { ...state, visible, cursor };
+}
+
+export function createTriageState(rows: TriageRow[]): TriageState {
+  return refresh({
+    rows,
+    visible: [],
+    cursor: 0,
+    filter: "",
+    order: "desc",
+    selected: [],
+    showHelp: false,
+    quit: false,
+  });
+}
+
+export function currentTriageRow(state: TriageState): TriageRow | undefined {
+  return state.visible[state.cursor];
+}
+
+/** Swap in freshly loaded rows, keeping the cursor on the same bullet when it still exists. */
+export function replaceTriageRows(state: TriageState, rows: TriageRow[]): TriageState {
+  const ids = new Set(rows.map((r) => r.bullet.id));
+  return refresh(
+    { ...state, rows, selected: state.selected.filter((id) => ids.has(id)) },
+    currentTriageRow(state)?.bullet.id
+  );
+}
+
+function move(state: TriageState, delta: number): TriageState {
+  const last = Math.max(0, state.visible.length - 1);
+  return { ...state, cursor: Math.max(0, Math.min(last, state.cursor + delta)) };
+}
+
+function isPrintable(str: string | undefined, key: TriageKey): str is string {
+  return typeof str === "string" && str.length === 1 && !key.ctrl && !key.meta && str >= " " && str !== "\x7f";
+}
+
+function handlePromptKey(state: TriageState, key: TriageKey): TriageKeyResult {
+  const prompt = state.prompt!;
+  const name = key.name;
+
+  if (name === "escape") {
+    // Cancelling the filter prompt also drops the filter being typed
+    const next = { ...state, prompt: undefined, status: undefined };
+    return { state: prompt.kind === "filter" ? refresh({ ...next, filter: "" }) : next };
+  }
+
+  if (name === "return" || name === "enter") {
+    const value = prompt.value.trim();
+    const row = currentTriageRow(state);
+    const done = { ...state, prompt: undefined };
+    switch (prompt.kind) {
+      case "filter":
+        return { state: done };
+      case "deprecate":
+        return row
+          ? { state: done, action: { type: "deprecate", bulletId: row.bullet.id, reason: value || DEFAULT_DEPRECATE_REASON } }
+          : { state: done };
+      case "edit":
+        if (!row || !value || value === row.bullet.content) return { state: { ...done, status: "Edit cancelled: content unchanged" } };
+        return { state: done, action: { type: "edit", bulletId: row.bullet.id, content: value } };
+      case "merge":
+        if (!value) return { state: { ...done, status: "Merge cancelled: merged rule is empty" } };
+        return { state: { ...done, selected: [] }, action: { type: "merge", bulletIds: state.selected, content: value } };
+    }
+  }
+
+  let value = prompt.value;
+  if (name === "backspace") value = value.slice(0, -1);
+  else if (key.ctrl && name === "u") value = "";
+  else if (isPrintable(key.sequence, key)) value += key.sequence;
+  else return { state };
+
+  const next = { ...state, prompt: { ...prompt, value } };
+  return { state: prompt.kind === "filter" ? refresh({ ...next, filter: value }) : next };
+}
+
+/**
+ * Apply one keypress. Returns the next state, plus the action to run or a
+ * reload request when the key asks for one.
+ */
+export function handleTriageKey(state: TriageState, key: TriageKey, pageSize = 10): TriageKeyResult {
+  if (key.ctrl && key.name === "c") return { state: { ...state, quit: true } };
+  if (state.prompt) return handlePromptKey(state, key);
+
+  const base: TriageState = { ...state, status: undefined };
+  if (state.showHelp) return { state: { ...base, showHelp: false } };
+
+  const row = currentTriageRow(state);
+  const ch = key.sequence;
+  const name = key.name;
+
+  if (name === "up" || ch === "k") return { state: move(base, -1) };
+  if (name === "down" || ch === "j") return { state: move(base, 1) };
+  if (name === "pageup") return { state: move(base, -pageSize) };
+  if (name === "pagedown") return { state: move(base, pageSize) };
+  if (name === "home" || ch === "g") return { state: { ...base, cursor: 0 } };
+  if (name === "end" || ch === "G") return { state: move(base, state.visible.length) };
+  if (ch === "q") return { state: { ...base, quit: true } };
+  if (ch === "?") return { state: { ...base, showHelp: true } };
+  if (ch === "/") return { state: { ...base, prompt: { kind: "filter", value: state.filter } } };
+  if (ch === "r") return { state: { ...base, status: "Reloaded" }, reload: true };
+  if (ch === "s") {
+    return { state: refresh({ ...base, order: state.order === "desc" ? "asc" : "desc" }, row?.bullet.id) };
+  }
+  if (name === "escape") return { state: refresh({ ...base, filter: "", selected: [] }, row?.bullet.id) };
+
+  if (!row) return { state: base };
+  const id = row.bullet.id;
+
+  if (name === "space") {
+    const selected = state.selected.includes(id) ? state.selected.filter((s) => s !== id) : [...state.selected, id];
+    return { state: move({ ...base, selected }, 1) };
+  }
+  if (ch === "+") return { state: base, action: { type: "helpful", bulletId: id } };
+  if (ch === "-") return { state: base, action: { type: "harmful", bulletId: id } };
+  if (ch === "p") return { state: base, action: { type: "pin", bulletId: id, pinned: !row.bullet.pinned } };
+  if (ch === "d") return { state: { ...base, prompt: { kind: "deprecate", value: "" } } };
+  if (ch === "e") return { state: { ...base, prompt: { kind: "edit", value: row.bullet.content } } };
+  if (ch === "m") {
+    if (state.selected.length < 2) {
+      return { state: { ...base, status: "Mark at least two rules with space, then press m to merge them" } };
+    }
+    const contents = state.selected
+      .map((sid) => state.rows.find((r) => r.bullet.id === sid)?.bullet.content)
+      .filter((c): c is string => Boolean(c));
+    return { state: { ...base, prompt: { kind: "merge", value: contents.join(" ") } } };
+  }
+  return { state: base };
+}
+
+/** Pin or unpin a bullet in whichever playbook (repo or global) holds it. */
+export async function setBulletPinned(config: Config, bulletId: string, pinned: boolean): Promise<boolean> {
+  const savePath = await resolveBulletPlaybookPath(config, bulletId);
+  if (!savePath) throw new Error(`Bullet ${bulletId} not found in the repo, team or global playbook`);
+  return withLock(savePath, async () => {
+    const playbook = await loadPlaybook(savePath);
+    const bullet = findBullet(playbook, bulletId);
+    if (!bullet || bullet.pinned === pinned) return false;
+    bullet.pinned = pinned;
+    if (!pinned) bullet.pinnedReason = undefined;
+    bullet.updatedAt = now();
+    await savePlaybook(playbook, savePath, { command: pinned ? "tui pin" : "tui unpin" });
+    return true;
+  });
+}
+
+function appliedCount(results: Awaited<ReturnType<typeof applyPlaybookDeltas>>): number {
+  const teamApplied = (results.teamResults ?? []).reduce((sum, t) => sum + t.result.applied, 0);
+  return (results.globalResult?.applied ?? 0) + (results.repoResult?.applied ?? 0) + teamApplied;
+}
+
+async function curate(config: Config, delta: PlaybookDelta): Promise<number> {
+  return appliedCount(await applyPlaybookDeltas(config, [delta], { command: "tui" }));
+}
+
+/** Run an action and describe what happened. Throws when the mutation fails. */
+export async function applyTriageAction(config: Config, action: TriageAction): Promise<string> {
+  switch (action.type) {
+    case "helpful":
+    case "harmful": {
+      const result = await recordFeedback(action.bulletId, { [action.type]: true });
+      return `Marked ${action.bulletId} ${action.type} (score ${result.score.toFixed(1)}, ${result.state})`;
+    }
+    case "pin": {
+      const changed = await setBulletPinned(config, action.bulletId, action.pinned);
+      if (!changed) return `${action.bulletId} is already ${action.pinned ? "pinned" : "unpinned"}`;
+      return `${action.pinned ? "Pinned" : "Unpinned"} ${action.bulletId}`;
+    }
+    case "deprecate": {
+      const applied = await curate(config, { type: "deprecate", bulletId: action.bulletId, reason: action.reason });
+      return applied > 0 ? `Deprecated ${action.bulletId}` : `Could not deprecate ${action.bulletId}`;
+    }
+    case "edit": {
+      const applied = await curate(config, {
+        type: "replace",
+        bulletId: action.bulletId,
+        newContent: action.content,
+        reason: "Edited in cm tui",
+      });
+      return applied > 0 ? `Updated ${action.bulletId}` : `Could not update ${action.bulletId}`;
+    }
+    case "merge": {
+      const applied = await curate(config, {
+        type: "merge",
+        bulletIds: action.bulletIds,
+        mergedContent: action.content,
+        reason: "Merged in cm tui",
+      });
+      return applied > 0 ? `Merged ${action.bulletIds.join(", ")}` : `Could not merge ${action.bulletIds.join(", ")}`;
+    }
+  }
+}
@@ -49,6 +49,10 @@ export type LLMProvider = z.infer<typeof LLMProviderEnum>;
 // ============================================================================
 
 export const FeedbackEventSchema = z.object({
+  /** Stable event id; merges union events by id (absent on legacy events). */
+  id: z.string().optional(),
+  /** Installation that recorded the event (see getOriginId). */
+  origin: z.string().optional(),
   type: z.enum(["helpful", "harmful"]),
   timestamp: z.string(),
   sessionPath: z.string().optional(),
@@ -58,6 +62,75 @@ export const FeedbackEventSchema = z.object({
 });
 export type FeedbackEvent = z.infer<typeof FeedbackEventSchema>;
 
+// ============================================================================
+// BULLET OVERRIDE (REPO → GLOBAL)
+// ============================================================================
+
+/**
+ * How a repo-level bullet relates to the global bullet it overrides:
+ * - shadow:   the repo bullet replaces the global bullet in the merged playbook
+ * - suppress: the global bullet is dropped; the repo bullet is a marker only
+ * - extend:   both are kept, and the pair is not reported as a duplicate/conflict
+ */
+export const BulletOverrideModeEnum = z.enum(["shadow", "suppress", "extend"]);
+export type BulletOverrideMode = z.infer<typeof BulletOverrideModeEnum>;
+
+export const BulletOverrideSchema = z.object({
+  bulletId: z.string(),
+  mode: BulletOverrideModeEnum,
+  reason: z.string().optional()
+});
+export type BulletOverride = z.infer<typeof BulletOverrideSchema>;
+
+// ============================================================================
+// APPLICABILITY PREDICATES
+// ============================================================================
+
+/**
+ * Structured conditions on where a bullet applies, evaluated against the
+ * workspace by `cm context`. A bullet applies only if all of its predicates
+ * hold; `negate` inverts a single predicate.
+ * - file:       a path (relative to the project root) exists
+ * - dependency: package.json lists the package in any dependency section
+ * - language:   the workspace profiler detected the language (marker files or
+ *               source file extensions)
+ * - framework:  the workspace profiler found the framework in a manifest
+ * - branch:     the current git branch matches a glob (`*` matches any run)
+ * - os:         process.platform, with `macos`/`windows` accepted as aliases
+ */
+export const ApplicabilityPredicateSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("file"), path: z.string().min(1), negate: z.boolean().optional() }),
+  z.object({ type: z.literal("dependency"), name: z.string().min(1), negate: z.boolean().optional() }),
+  z.object({ type: z.literal("language"), language: z.string().min(1), negate: z.boolean().optional() }),
+  z.object({ type: z.literal("framework"), name: z.string().min(1), negate: z.boolean().optional() }),
+  z.object({ type: z.literal("branch"), pattern: z.string().min(1), negate: z.boolean().optional() }),
+  z.object({ type: z.literal("os"), os: z.string().min(1), negate: z.boolean().optional() })
+]);
+export type ApplicabilityPredicate = z.infer<typeof ApplicabilityPredicateSchema>;
+
+// ============================================================================
+// BULLET RELATIONS
+// ============================================================================
+
+/**
+ * Typed edge from one bullet to another, stored on the source bullet:
+ * - supersedes:     the source replaces the target; context prefers the source
+ * - refines:        the source is a narrower/more precise version of the target
+ * - conflicts-with: the two may contradict each other (symmetric; stored once)
+ * - generalizes:    the source is a broader version of the target
+ * - requires:       the source only makes sense together with the target
+ */
+export const BulletRelationTypeEnum = z.enum(["supersedes", "refines", "conflicts-with", "generalizes", "requires"]);
+export type BulletRelationType = z.infer<typeof BulletRelationTypeEnum>;
+
+export const BulletRelationSchema = z.object({
+  type: BulletRelationTypeEnum,
+  target: z.string(),
+  reason: z.string().optional(),
+  createdAt: z.string().optional()
+});
+export type BulletRelation = z.infer<typeof BulletRelationSchema>;
+
 // ============================================================================
 // PLAYBOOK BULLET
 // ============================================================================
@@ -95,7 +168,10 @@ export const PlaybookBulletSchema = z.object({
   tags: z.array(z.string()).default([]),
   embedding: z.array(z.number()).optional(),
   effectiveScore: z.number().optional(),
-  deprecatedAt: z.string().optional()
+  deprecatedAt: z.string().optional(),
+  override: BulletOverrideSchema.optional(),
+  relations: z.array(BulletRelationSchema).optional(),
+  appliesWhen: z.array(ApplicabilityPredicateSchema).optional()
 });
 export type PlaybookBullet = z.infer<typeof PlaybookBulletSchema>;
 
@@ -247,6 +323,40 @@ export const EmbeddingCacheSchema = z.object({
 });
 export type EmbeddingCache = z.infer<typeof EmbeddingCacheSchema>;
 
+// ============================================================================
+// VECTOR INDEX
+// ============================================================================
+
+export const VectorKindEnum = z.enum(["bullet", "diary"]);
+export type VectorKind = z.infer<typeof VectorKindEnum>;
+
+export const VectorIndexEntrySchema = z.object({
+  kind: VectorKindEnum,
+  /** Bullet id or diary id */
+  ref: z.string(),
+  /** Position in the diary's searchable texts, see getDiarySearchTexts (diary entries only) */
+  part: z.number().int().optional(),
+  contentHash: z.string(),
+  /** Inverted list this vector belongs to; -1 until the index has been trained */
+  list: z.number().int(),
+  /** Unit-length embedding */
+  vector: z.array(z.number())
+});
+export type VectorIndexEntry = z.infer<typeof VectorIndexEntrySchema>;
+
+export const VectorIndexSchema = z.object({
+  version: z.string(),
+  model: z.string(),
+  dimensions: z.number().int().default(0),
+  /** IVF centroids (unit length); empty while the index is small enough to scan */
+  centroids: z.array(z.array(z.number())).default([]),
+  /** Entry count when the centroids were last trained */
+  trainedOn: z.number().int().default(0),
+  updatedAt: z.string(),
+  entries: z.record(VectorIndexEntrySchema).default({})
+});
+export type VectorIndex = z.infer<typeof VectorIndexSchema>;
+
 // ============================================================================
 // RELATED SESSION
 // ============================================================================
@@ -282,6 +392,10 @@ export const DiaryEntrySchema = z.object({
 });
 export type DiaryEntry = z.infer<typeof DiaryEntrySchema>;
 
+/** Diary fields covered by `cm diary search`, keyword and semantic alike. */
+export const DIARY_SEARCH_FIELDS = ["keyLearnings", "decisions", "challenges", "accomplishments", "preferences"] as const;
+export type DiarySearchField = typeof DIARY_SEARCH_FIELDS[number];
+
 // ============================================================================
 // CONFIGURATION
 // ============================================================================
@@ -295,6 +409,10 @@ export const SanitizationConfigSchema = z.object({
 export type SanitizationConfig = z.infer<typeof SanitizationConfigSchema>;
 
 export const ScoringConfigSectionSchema = z.object({
+  /** Named strategy from the scoring registry: decay (default), bayesian, wilson, windowed. */
+  strategy: z.string().optional(),
+  /** Look-back window for the "windowed" strategy (default 30). */
+  windowDays: z.number().optional(),
   decayHalfLifeDays: z.number().default(90),
   harmfulMultiplier: z.number().default(4),
   minFeedbackForActive: z.number().default(3),
@@ -383,6 +501,64 @@ export const ServeConfigSchema = z.object({
 }).default({});
 export type ServeConfig = z.infer<typeof ServeConfigSchema>;
 
+// `cm daemon`: background reflection on a schedule. A failed run waits
+// intervalMinutes × 2^failures before retrying, capped at maxBackoffMinutes.
+export const DaemonConfigSchema = z.object({
+  intervalMinutes: z.number().positive().default(60),
+  // Sessions reflected per run (the rest wait for the next run)
+  maxSessionsPerRun: z.number().int().positive().default(5),
+  // Skip a run until at least this many unprocessed sessions have piled up
+  minNewSessions: z.number().int().positive().default(1),
+  maxBackoffMinutes: z.number().positive().default(720),
+}).default({});
+export type DaemonConfig = z.infer<typeof DaemonConfigSchema>;
+
+// Curation policy. With requireApproval, reflection queues the deltas it
+// proposes for `cm review` instead of curating them straight into the playbook.
+export const CurationConfigSchema = z.object({
+  requireApproval: z.boolean().default(false),
+}).default({});
+export type CurationConfig = z.infer<typeof CurationConfigSchema>;
+
+// `cm watch`: tails agent session files and writes a diary for each session
+// once it has been quiet for idleMinutes.
+export const WatchConfigSchema = z.object({
+  // Extra session directories, on top of the known agent roots and cass's index
+  dirs: z.array(z.string()).default([]),
+  idleMinutes: z.number().positive().default(10),
+  pollSeconds: z.number().positive().default(30),
+  // Use the LLM diary (budget permitting) instead of the heuristic one
+  llmDiary: z.boolean().default(false),
+}).default({});
+export type WatchConfig = z.infer<typeof WatchConfigSchema>;
+
+/** LLM operations that can be routed to their own provider/model. */
+export const LLM_OPERATIONS = ["diary", "reflector", "validator", "context", "audit", "searchQueries"] as const;
+export type LLMOperation = typeof LLM_OPERATIONS[number];
+
+// A route is a model id on the configured provider, or a provider/model pair.
+// timeoutMs overrides llmTimeoutMs for that operation (strong models are slower).
+export const ModelRouteSchema = z.union([
+  z.string().min(1),
+  z.object({
+    provider: LLMProviderEnum.optional(),
+    model: z.string().min(1),
+    timeoutMs: z.number().int().positive().optional(),
+  }).strict(),
+]);
+export type ModelRoute = z.infer<typeof ModelRouteSchema>;
+
+// Per-operation model routing, e.g. a cheap model for diary and validator
+// calls and a strong one for the reflector. Unrouted operations use
+// provider/model.
+export const ModelRoutesConfigSchema = z.object(
+  Object.fromEntries(LLM_OPERATIONS.map((op) => [op, ModelRouteSchema.optional()])) as Record<
+    LLMOperation,
+    z.ZodOptional<typeof ModelRouteSchema>
+  >
+).strict().default({});
+export type ModelRoutesConfig = z.infer<typeof ModelRoutesConfigSchema>;
+
 /**
  * Baked-in default Anthropic model for fresh installs.
  *
@@ -448,6 +624,8 @@ export const ConfigSchema = z.object({
   crossAgent: CrossAgentConfigSchema.default({}),
   semanticSearchEnabled: z.boolean().default(false),
   semanticWeight: z.number().min(0).max(1).default(0.6),
+  /** MMR trade-off for `cm context`: 0 ranks purely by relevance, 1 favours novelty. */
+  contextDiversity: z.number().min(0).max(1).default(0),
   embeddingBackend: z.enum(["xenova", "ollama"]).default("xenova"),
   embeddingModel: z.string().default("Xenova/all-MiniLM-L6-v2"),
   verbose: z.boolean().default(false),
@@ -469,6 +647,10 @@ export const ConfigSchema = z.object({
   sanitization: SanitizationConfigSchema.default({}),
   budget: BudgetConfigSchema.default({}),
   serve: ServeConfigSchema.default({}),
+  daemon: DaemonConfigSchema.default({}),
+  watch: WatchConfigSchema.default({}),
+  curation: CurationConfigSchema.default({}),
+  modelRoutes: ModelRoutesConfigSchema.default({}),
   cliCommand: z.string().min(1).max(256).optional(),
 });
 export type Config = z.infer<typeof ConfigSchema>;
@@ -542,7 +724,11 @@ export const ScoredBulletSchema = PlaybookBulletSchema.extend({
   relevanceScore: z.number(),
   effectiveScore: z.number(),
   lastHelpful: z.string().optional(),
-  finalScore: z.number().optional()
+  finalScore: z.number().optional(),
+  /** Similarity to already-selected bullets subtracted by the diversity pass (only set when it runs). */
+  redundancyPenalty: z.number().optional(),
+  /** Set when the bullet was pulled into context because a selected bullet `requires` it. */
+  requiredBy: z.string().optional()
 });
 export type ScoredBullet = z.infer<typeof ScoredBulletSchema>;
 
@@ -565,6 +751,31 @@ export const DegradedSummarySchema = z.object({
 }).partial();
 export type DegradedSummary = z.infer<typeof DegradedSummarySchema>;
 
+export const ContextBudgetItemKindEnum = z.enum(["rule", "antiPattern", "history", "warning", "trauma"]);
+export type ContextBudgetItemKind = z.infer<typeof ContextBudgetItemKindEnum>;
+
+export const ContextBudgetDropSchema = z.object({
+  kind: ContextBudgetItemKindEnum,
+  /** Bullet id, `source_path:line` for history, the pattern for trauma, `warning:<n>` for warnings. */
+  id: z.string(),
+  tokens: z.number(),
+  value: z.number(),
+  reason: z.string(),
+});
+export type ContextBudgetDrop = z.infer<typeof ContextBudgetDropSchema>;
+
+/** Outcome of `--max-tokens` packing (see src/context-budget.ts). */
+export const ContextBudgetSchema = z.object({
+  maxTokens: z.number(),
+  /** Estimated tokens of the packed output, including fixed fields. */
+  usedTokens: z.number(),
+  /** Estimated tokens of fields that are always emitted (task, suggested queries, envelope). */
+  fixedTokens: z.number(),
+  format: z.enum(["json", "markdown", "toon"]),
+  dropped: z.array(ContextBudgetDropSchema),
+});
+export type ContextBudget = z.infer<typeof ContextBudgetSchema>;
+
 export const ContextResultSchema = z.object({
   task: z.string(),
   relevantBullets: z.array(ScoredBulletSchema),
@@ -591,7 +802,13 @@ export const ContextResultSchema = z.object({
     pattern: z.string(),
     reason: z.string(),
     reference: z.string()
-  }).optional()
+  }).optional(),
+  /** Present when a token budget (`--max-tokens`) was applied. */
+  budget: ContextBudgetSchema.optional(),
+  /** Selected bullets dropped because another active bullet supersedes them. */
+  supersededBullets: z.array(z.object({ id: z.string(), supersededBy: z.string() })).optional(),
+  /** How to cite the shown rules ([cm:<id> applied] etc.); present when any rule is shown. */
+  citationProtocol: z.string().optional()
 });
 export type ContextResult = z.infer<typeof ContextResultSchema>;
 
@@ -699,6 +916,29 @@ export const ValidationResultSchema = z.object({
 });
 export type ValidationResult = z.infer<typeof ValidationResultSchema>;
 
+// ============================================================================
+// REVIEW QUEUE
+// ============================================================================
+
+/** A reflection delta waiting for (or past) human approval in `cm review`. */
+export const ReviewItemSchema = z.object({
+  id: z.string(),
+  status: z.enum(["pending", "approved", "rejected"]),
+  delta: PlaybookDeltaSchema,
+  proposedAt: z.string(),
+  sourceSession: z.string().optional(),
+  diaryId: z.string().optional(),
+  /** Repo .cass dir active when the delta was proposed (null: outside any repo) */
+  repoDir: z.string().nullable().optional(),
+  /** Validator verdict (add deltas that reached the LLM validator) */
+  validation: ValidationResultSchema.pick({ verdict: true, confidence: true, reason: true }).optional(),
+  evidenceGate: EvidenceGateResultSchema.optional(),
+  editedAt: z.string().optional(),
+  decidedAt: z.string().optional(),
+  decisionReason: z.string().optional(),
+});
+export type ReviewItem = z.infer<typeof ReviewItemSchema>;
+
 // ============================================================================
 // PROCESSED LOG
 // ============================================================================
@@ -846,6 +1086,7 @@ export const ErrorCode = {
   MISSING_API_KEY: "MISSING_API_KEY",
   BULLET_NOT_FOUND: "BULLET_NOT_FOUND",
   TRAUMA_NOT_FOUND: "TRAUMA_NOT_FOUND",
+  REVIEW_ITEM_NOT_FOUND: "REVIEW_ITEM_NOT_FOUND",
   SESSION_NOT_FOUND: "SESSION_NOT_FOUND",
   PLAYBOOK_NOT_FOUND: "PLAYBOOK_NOT_FOUND",
   PLAYBOOK_CORRUPT: "PLAYBOOK_CORRUPT",
@@ -887,6 +1128,7 @@ export const CMErrorCodeEnum = z.enum([
   "MISSING_API_KEY",
   "BULLET_NOT_FOUND",
   "TRAUMA_NOT_FOUND",
+  "REVIEW_ITEM_NOT_FOUND",
   "SESSION_NOT_FOUND",
   "PLAYBOOK_NOT_FOUND",
   "PLAYBOOK_CORRUPT",
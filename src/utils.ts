@@ -1405,6 +1405,31 @@ export function generateBulletId(): string {
   return `b-${timestamp36}-${random}`;
 }
 
+/**
+ * Id for a feedback event. Pass a seed when the same event can be derived more
+ * than once (e.g. replaying an outcome log) so every derivation gets the same id.
+ */
+export function generateFeedbackEventId(seed?: string): string {
+  if (seed !== undefined) {
+    return `fe-${crypto.createHash("sha256").update(seed).digest("hex").slice(0, 16)}`;
+  }
+  const timestamp36 = Date.now().toString(36);
+  const random = crypto.randomBytes(4).toString("hex");
+  return `fe-${timestamp36}-${random}`;
+}
+
+/**
+ * Identifies the installation that recorded a feedback event, so merged
+ * playbooks can tell which machine (or memory home) each event came from.
+ * CASS_MEMORY_ORIGIN overrides it for agents that want an explicit identity.
+ */
+export function getOriginId(): string {
+  const explicit = process.env.CASS_MEMORY_ORIGIN?.trim();
+  if (explicit) return explicit;
+  const seed = `${os.hostname()}:${resolveGlobalDir()}`;
+  return `o-${crypto.createHash("sha256").update(seed).digest("hex").slice(0, 12)}`;
+}
+
 export function generateDiaryId(sessionPath: string, content?: string): string {
   const input = content 
     ? `${sessionPath}-${content}` 
@@ -2239,7 +2264,8 @@ export function isToonAvailable(): boolean {
   return findTruBinary() !== null;
 }
 
-function estimateTokensApprox(text: string): number {
+/** Rough token count (≈4 chars per token, never fewer than the word count). */
+export function estimateTokensApprox(text: string): number {
   const chars = text.length;
   const words = text.split(/\s+/).filter(Boolean).length;
   return Math.max(Math.floor(chars / 4), words);
@@ -2476,6 +2502,36 @@ export function validatePositiveInt(
   return { ok: true, value: asNumber };
 }
 
+export function validateUnitInterval(
+  value: unknown,
+  name: string,
+  options: { allowUndefined: true }
+): InputValidationResult<number | undefined>;
+export function validateUnitInterval(
+  value: unknown,
+  name: string,
+  options?: { allowUndefined?: false }
+): InputValidationResult<number>;
+export function validateUnitInterval(
+  value: unknown,
+  name: string,
+  options: { allowUndefined?: boolean } = {}
+): InputValidationResult<number | undefined> {
+  if (value === undefined) {
+    return options.allowUndefined ? { ok: true, value: undefined } : { ok: false, message: `${name} is required.` };
+  }
+
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0 || value > 1) {
+    return {
+      ok: false,
+      message: `${name} must be a number between 0 and 1.`,
+      details: { field: name, received: value },
+    };
+  }
+
+  return { ok: true, value };
+}
+
 export type PrintJsonErrorOptions = {
   code?: string;
   hint?: string;
@@ -2497,6 +2553,7 @@ const CM_ERROR_CODE_CATEGORIES: Partial<Record<string, ErrorCategory>> = {
   [ErrorCode.MISSING_API_KEY]: "llm",
   [ErrorCode.BULLET_NOT_FOUND]: "user_input",
   [ErrorCode.SESSION_NOT_FOUND]: "user_input",
+  [ErrorCode.REVIEW_ITEM_NOT_FOUND]: "user_input",
 
   // Config / playbook errors
   [ErrorCode.PLAYBOOK_NOT_FOUND]: "configuration",
@@ -2635,6 +2692,8 @@ function defaultRecoveryForCode(code: string, cli: string): string[] | undefined
         "Verify the session path exists on disk.",
         "If using cass, run `cass search <query>` to locate the session path.",
       ];
+    case ErrorCode.REVIEW_ITEM_NOT_FOUND:
+      return [`Run '${cli} review list --status all' to see queued review items.`];
     case ErrorCode.PLAYBOOK_NOT_FOUND:
       return [`Run '${cli} init' to create the default playbook.`, "Or set playbookPath in config."];
     case ErrorCode.PLAYBOOK_CORRUPT:
@@ -3123,6 +3182,14 @@ export function formatContextMarkdown(result: ContextResult): string {
     lines.push("");
   }
 
+  // Citation protocol (only when there are rules to cite)
+  if (result.relevantBullets.length > 0 || result.antiPatterns.length > 0) {
+    lines.push("## CITING RULES");
+    lines.push("");
+    lines.push(RULE_CITATION_GUIDE);
+    lines.push("");
+  }
+
   return lines.join("\n");
 }
 
@@ -3276,6 +3343,7 @@ function formatDateShort(isoDate: string): string {
 /**
  * Parsed inline feedback from session content.
  * Format: // [cass: helpful|harmful <bulletId>] - reason
+ *     or: [cm:<bulletId> helpful|harmful: reason] (rule citation)
  */
 export interface InlineFeedback {
   type: "helpful" | "harmful";
@@ -3302,8 +3370,10 @@ const INLINE_FEEDBACK_REGEX = /(?:\/\/|#|\/\*)\s*\[cass:\s*(helpful|harmful)\s+(
  * // [cass: helpful b-xyz123] - reason why it helped
  * // [cass: harmful b-xyz123] - reason why it was wrong
  *
- * This function extracts all such feedback from a session's content,
- * which can then be applied during the reflection phase.
+ * Rule citations with a helpful or harmful verdict
+ * ([cm:b-xyz123 harmful: reason], see parseRuleCitations) count as the same
+ * feedback. This function extracts all such feedback from a session's
+ * content, which can then be applied during the reflection phase.
  *
  * @param content - The session content to parse (code, logs, etc.)
  * @returns Array of parsed feedback items
@@ -3352,7 +3422,18 @@ export function parseInlineFeedback(content: string): InlineFeedback[] {
     }
   }
 
-  return feedback;
+  for (const citation of parseRuleCitations(content)) {
+    if (citation.verdict === "helpful" || citation.verdict === "harmful") {
+      feedback.push({
+        type: citation.verdict,
+        bulletId: citation.bulletId,
+        reason: citation.reason,
+        lineNumber: citation.lineNumber
+      });
+    }
+  }
+
+  return feedback.sort((a, b) => (a.lineNumber ?? 0) - (b.lineNumber ?? 0));
 }
 
 /**
@@ -3373,6 +3454,67 @@ export function inlineFeedbackToDeltas(
     reason: f.reason
   }));
 }
+
+// --- Rule Citations ---
+
+/**
+ * What an agent says it did with a rule:
+ * - applied: followed it, so the session outcome is attributed to it
+ * - ignored: deliberately did not follow it, so the outcome is not attributed to it
+ * - helpful / harmful: direct feedback, same as inline [cass: ...] comments
+ */
+export type RuleCitationVerdict = "applied" | "ignored" | "helpful" | "harmful";
+
+export interface RuleCitation {
+  bulletId: string;
+  verdict: RuleCitationVerdict;
+  reason?: string;
+  lineNumber: number;
+}
+
+/** Shown with context output so agents cite the rules they act on. */
+export const RULE_CITATION_GUIDE =
+  "Cite each rule you act on, inline in your reply: [cm:<id> applied] when you follow it, " +
+  "[cm:<id> ignored: <reason>] when you deliberately don't. Session outcomes only credit or blame rules cited as applied. " +
+  "For direct feedback use [cm:<id> helpful: <reason>] or [cm:<id> harmful: <reason>].";
+
+/**
+ * Matches citations anywhere in a line, several per line:
+ * - [cm:b-8f3a2c applied]
+ * - [cm:b-x7k9p1 ignored: this repo has no CI]
+ * - [cm:b-mn3ot59c-nny4gb harmful: the flag was removed in v3]
+ */
+const RULE_CITATION_REGEX = /\[cm:\s*(b-[a-zA-Z0-9]+(?:-[a-zA-Z0-9]+)*)\s+(applied|ignored|helpful|harmful)\b(?:\s*:\s*([^\]\n]*))?\]/gi;
+
+/**
+ * Parse machine-readable rule citations ([cm:<id> <verdict>(: reason)]) from
+ * session content, in order of appearance.
+ *
+ * @example
+ * parseRuleCitations("Pinned node first [cm:b-8f3a2c applied]")
+ * // [{ bulletId: "b-8f3a2c", verdict: "applied", reason: undefined, lineNumber: 1 }]
+ */
+export function parseRuleCitations(content: string): RuleCitation[] {
+  if (!content || typeof content !== "string") {
+    return [];
+  }
+
+  const citations: RuleCitation[] = [];
+  const lines = content.split("\n");
+  for (let i = 0; i < lines.length; i++) {
+    if (!lines[i].includes("[cm:")) continue;
+    for (const match of lines[i].matchAll(RULE_CITATION_REGEX)) {
+      const [, bulletId, verdict, reason] = match;
+      citations.push({
+        bulletId,
+        verdict: verdict.toLowerCase() as RuleCitationVerdict,
+        reason: reason?.trim() || undefined,
+        lineNumber: i + 1
+      });
+    }
+  }
+  return citations;
+}
 // --- Graceful Shutdown ---
 
 let shutdownInProgress = false;
@@ -0,0 +1,297 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { VectorIndex, VectorIndexEntry, VectorIndexSchema, VectorKind } from "./types.js";
+import { atomicWrite, expandPath, fileExists, hashContent, now, resolveGlobalDir, warn } from "./utils.js";
+import { withLock } from "./lock.js";
+
+// -----------------------------------------------------------------------------
+// On-disk approximate-nearest-neighbour index (IVF-flat)
+// -----------------------------------------------------------------------------
+//
+// Vectors for bullets and diary entries live in one JSON file next to
+// the embedding cache. Once the index holds enough vectors it is partitioned
+// with spherical k-means into ~sqrt(N) inverted lists; a query scores the
+// centroids and only scans the closest lists. Small indexes are scanned in
+// full, which is exact. New vectors are assigned to their nearest centroid as
+// they arrive; the centroids are retrained when the index has doubled since
+// the last training. Everything here is derived data: `cm doctor --fix` can
+// rebuild it from the playbook, the embedding cache and the diaries.
+
+export const VECTOR_INDEX_VERSION = "1";
+
+/** Below this many vectors a full scan is exact and about as fast as probing. */
+export const VECTOR_INDEX_MIN_ENTRIES = 256;
+
+const MAX_TRAINING_SAMPLE = 4096;
+const KMEANS_ITERATIONS = 10;
+const MAX_LISTS = 1024;
+const DEFAULT_PROBE_FRACTION = 0.1;
+const MIN_PROBES = 8;
+
+export interface VectorSearchHit {
+  key: string;
+  entry: VectorIndexEntry;
+  similarity: number;
+}
+
+export interface VectorSearchOptions {
+  k: number;
+  kinds?: VectorKind[];
+  /** Number of inverted lists to scan; defaults to ~10% of them (at least 8). */
+  nprobe?: number;
+  filter?: (key: string, entry: VectorIndexEntry) => boolean;
+}
+
+export function getVectorIndexPath(): string {
+  return path.join(resolveGlobalDir(), "embeddings", "index.json");
+}
+
+export function bulletVectorKey(bulletId: string): string {
+  return `bullet:${bulletId}`;
+}
+
+export function diaryVectorKey(diaryId: string, part: number): string {
+  return `diary:${diaryId}:${part}`;
+}
+
+export function createEmptyVectorIndex(model: string): VectorIndex {
+  return {
+    version: VECTOR_INDEX_VERSION,
+    model,
+    dimensions: 0,
+    centroids: [],
+    trainedOn: 0,
+    updatedAt: now(),
+    entries: {},
+  };
+}
+
+/**
+ * Load the index from disk. With `model`, an index built for a different model
+ * (or an older format) is treated as empty; without it the stored model is kept.
+ */
+export async function loadVectorIndex(
+  options: { model?: string; indexPath?: string } = {}
+): Promise<VectorIndex | null> {
+  const indexPath = expandPath(options.indexPath || getVectorIndexPath());
+  try {
+    const raw = await fs.readFile(indexPath, "utf-8");
+    const result = VectorIndexSchema.safeParse(JSON.parse(raw));
+    if (!result.success) {
+      warn(`[vector-index] Invalid vector index; ignoring (${indexPath})`);
+      return null;
+    }
+    const index = result.data;
+    if (index.version !== VECTOR_INDEX_VERSION) return null;
+    if (options.model && index.model !== options.model) return null;
+    return index;
+  } catch (err: any) {
+    if (err?.code && err.code !== "ENOENT") {
+      warn(`[vector-index] Failed to load vector index (${indexPath}): ${err.message}`);
+    }
+    return null;
+  }
+}
+
+export async function saveVectorIndex(index: VectorIndex, options: { indexPath?: string } = {}): Promise<void> {
+  const indexPath = expandPath(options.indexPath || getVectorIndexPath());
+  index.updatedAt = now();
+  await atomicWrite(indexPath, JSON.stringify(index));
+}
+
+/**
+ * Load, mutate and save the index under a lock. The mutator returns whether it
+ * changed anything; unchanged indexes are not rewritten.
+ */
+export async function updateVectorIndex(
+  mutate: (index: VectorIndex) => boolean | Promise<boolean>,
+  options: { model: string; indexPath?: string }
+): Promise<VectorIndex> {
+  const indexPath = expandPath(options.indexPath || getVectorIndexPath());
+  return withLock(indexPath, async () => {
+    const index = (await loadVectorIndex({ model: options.model, indexPath })) ?? createEmptyVectorIndex(options.model);
+    if (await mutate(index)) {
+      if (needsTraining(index)) trainVectorIndex(index);
+      await saveVectorIndex(index, { indexPath });
+    }
+    return index;
+  });
+}
+
+function normalize(vector: number[]): number[] | null {
+  let norm = 0;
+  for (const x of vector) norm += x * x;
+  if (!Number.isFinite(norm) || norm === 0) return null;
+  const scale = 1 / Math.sqrt(norm);
+  // Six decimals keep cosine error far below any threshold we use and halve the file size
+  return vector.map((x) => Math.round(x * scale * 1e6) / 1e6);
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+function nearestList(centroids: number[][], vector: number[]): number {
+  let best = -1;
+  let bestSim = -Infinity;
+  centroids.forEach((c, i) => {
+    const sim = dot(c, vector);
+    if (sim > bestSim) {
+      bestSim = sim;
+      best = i;
+    }
+  });
+  return best;
+}
+
+/**
+ * Insert or replace a vector. Returns false (and leaves the index untouched)
+ * when the vector is empty or its dimension disagrees with the index.
+ */
+export function upsertVector(
+  index: VectorIndex,
+  key: string,
+  item: { kind: VectorKind; ref: string; part?: number; contentHash: string; vector: number[] }
+): boolean {
+  const vector = normalize(item.vector);
+  if (!vector) return false;
+  if (index.dimensions === 0) index.dimensions = vector.length;
+  if (vector.length !== index.dimensions) return false;
+
+  const existing = index.entries[key];
+  if (existing && existing.contentHash === item.contentHash) return false;
+
+  index.entries[key] = {
+    kind: item.kind,
+    ref: item.ref,
+    ...(item.part !== undefined ? { part: item.part } : {}),
+    contentHash: item.contentHash,
+    list: index.centroids.length > 0 ? nearestList(index.centroids, vector) : -1,
+    vector,
+  };
+  return true;
+}
+
+export function removeVector(index: VectorIndex, key: string): boolean {
+  if (!(key in index.entries)) return false;
+  delete index.entries[key];
+  return true;
+}
+
+function needsTraining(index: VectorIndex): boolean {
+  const size = Object.keys(index.entries).length;
+  if (size < VECTOR_INDEX_MIN_ENTRIES) return false;
+  return index.centroids.length === 0 || size >= index.trainedOn * 2;
+}
+
+/**
+ * (Re)partition the index with spherical k-means. Deterministic: centroids are
+ * seeded from evenly spaced vectors and trained on an evenly spaced sample.
+ */
+export function trainVectorIndex(index: VectorIndex): void {
+  const keys = Object.keys(index.entries).sort();
+  const size = keys.length;
+  if (size < VECTOR_INDEX_MIN_ENTRIES) {
+    index.centroids = [];
+    index.trainedOn = 0;
+    for (const key of keys) index.entries[key].list = -1;
+    return;
+  }
+
+  const nlist = Math.min(MAX_LISTS, Math.max(1, Math.round(Math.sqrt(size))));
+  const step = Math.max(1, Math.floor(size / MAX_TRAINING_SAMPLE));
+  const sample = keys.filter((_, i) => i % step === 0).map((k) => index.entries[k].vector);
+  let centroids = Array.from({ length: nlist }, (_, i) => sample[Math.floor((i * sample.length) / nlist)].slice());
+
+  for (let iter = 0; iter < KMEANS_ITERATIONS; iter++) {
+    const sums = centroids.map(() => new Array<number>(index.dimensions).fill(0));
+    const counts = new Array<number>(nlist).fill(0);
+    for (const v of sample) {
+      const list = nearestList(centroids, v);
+      counts[list]++;
+      const sum = sums[list];
+      for (let d = 0; d < v.length; d++) sum[d] += v[d];
+    }
+    // Empty clusters keep their previous centroid
+    centroids = sums.map((sum, i) => (counts[i] > 0 ? normalize(sum) ?? centroids[i] : centroids[i]));
+  }
+
+  index.centroids = centroids;
+  index.trainedOn = size;
+  for (const key of keys) {
+    index.entries[key].list = nearestList(centroids, index.entries[key].vector);
+  }
+}
+
+/** Approximate top-k by cosine similarity. Results are sorted best first. */
+export function searchVectorIndex(index: VectorIndex, query: number[], options: VectorSearchOptions): VectorSearchHit[] {
+  const q = normalize(query);
+  if (!q || q.length !== index.dimensions || options.k <= 0) return [];
+
+  let probed: Set<number> | null = null;
+  if (index.centroids.length > 0) {
+    const nprobe = Math.max(
+      1,
+      Math.min(
+        index.centroids.length,
+        options.nprobe ?? Math.max(MIN_PROBES, Math.ceil(index.centroids.length * DEFAULT_PROBE_FRACTION))
+      )
+    );
+    probed = new Set(
+      index.centroids
+        .map((c, i) => ({ i, sim: dot(c, q) }))
+        .sort((a, b) => b.sim - a.sim)
+        .slice(0, nprobe)
+        .map((c) => c.i)
+    );
+  }
+
+  const hits: VectorSearchHit[] = [];
+  for (const [key, entry] of Object.entries(index.entries)) {
+    // Unassigned vectors (-1) are always scanned so fresh inserts are never missed
+    if (probed && entry.list >= 0 && !probed.has(entry.list)) continue;
+    if (options.kinds && !options.kinds.includes(entry.kind)) continue;
+    if (options.filter && !options.filter(key, entry)) continue;
+    hits.push({ key, entry, similarity: dot(q, entry.vector) });
+  }
+
+  hits.sort((a, b) => b.similarity - a.similarity);
+  return hits.slice(0, options.k);
+}
+
+export function countVectors(index: VectorIndex, kind?: VectorKind): number {
+  const entries = Object.values(index.entries);
+  return kind ? entries.filter((e) => e.kind === kind).length : entries.length;
+}
+
+/**
+ * Drop index entries for bullets that were deprecated or whose content
+ * changed. Called on every playbook save; a no-op when there is no index.
+ * Re-embedded content is added back the next time embeddings are computed.
+ */
+export async function dropStaleBulletVectors(
+  bullets: Array<{ id: string; content: string; deprecated?: boolean }>,
+  options: { indexPath?: string } = {}
+): Promise<number> {
+  const indexPath = expandPath(options.indexPath || getVectorIndexPath());
+  if (!(await fileExists(indexPath))) return 0;
+
+  return withLock(indexPath, async () => {
+    const index = await loadVectorIndex({ indexPath });
+    if (!index) return 0;
+    let removed = 0;
+    for (const bullet of bullets) {
+      const key = bulletVectorKey(bullet.id);
+      const entry = index.entries[key];
+      if (!entry) continue;
+      if (bullet.deprecated || entry.contentHash !== hashContent(bullet.content)) {
+        removeVector(index, key);
+        removed++;
+      }
+    }
+    if (removed > 0) await saveVectorIndex(index, { indexPath });
+    return removed;
+  });
+}
@@ -0,0 +1,424 @@
+/**
+ * Session file watcher (`cm watch`).
+ *
+ * Polls the agent session directories (the known agent roots, the directories
+ * cass has indexed sessions from, and `watch.dirs`) and tracks each session
+ * file's mtime and size. Once a session has been quiet for
+ * `watch.idleMinutes` it is considered finished and is processed right away:
+ * a diary is written (heuristic by default, LLM with `--llm`), the session
+ * outcome is classified and recorded for the rules it used, and the transcript
+ * is scanned for trauma candidates, which are stored for `cm audit --trauma`.
+ * Reflection still happens later; this only makes the per-session artifacts
+ * available minutes after a session ends. A session that fails to process is
+ * retried on the next polls, up to MAX_ATTEMPTS times.
+ *
+ * State lives in ~/.cass-memory/watch-state.json. The first run only records
+ * a baseline, so sessions that ended before the watcher started are left to
+ * `cm reflect`.
+ */
+
+import fs from "node:fs/promises";
+import type { Dirent } from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import { loadConfig } from "./config.js";
+import { checkBudget } from "./cost.js";
+import { cassAvailable, cassExport, cassTimeline } from "./cass.js";
+import { generateDiaryFastFromContent, generateDiaryFromContent } from "./diary.js";
+import { applyOutcomeFeedback, classifySessionOutcome, recordOutcome, resolveOutcomeRuleIds } from "./outcome.js";
+import { saveTraumaCandidates, scanContentForTraumas, type TraumaCandidate } from "./trauma.js";
+import { withLock } from "./lock.js";
+import { atomicWrite, ensureDir, expandPath, resolveGlobalDir, warn } from "./utils.js";
+import type { Config, DiaryEntry, WatchConfig } from "./types.js";
+
+/** Where agents keep their session transcripts when cass has not indexed any yet. */
+const KNOWN_SESSION_ROOTS = ["~/.claude/projects", "~/.codex/sessions", "~/.pi/agent/sessions"];
+
+const SESSION_EXTENSIONS = new Set([".jsonl", ".json", ".md"]);
+const MAX_DEPTH = 6;
+const MAX_FILES = 20_000;
+/** Processed sessions untouched for this long are dropped from the state file. */
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+/** Failed sessions are retried until they have failed this many times. */
+const MAX_ATTEMPTS = 3;
+
+const WatchedFileSchema = z.object({
+  mtimeMs: z.number(),
+  size: z.number(),
+  processedAt: z.string().optional(),
+  diaryId: z.string().optional(),
+  error: z.string().optional(),
+  /** Failed processing attempts since the session last changed */
+  attempts: z.number().optional(),
+});
+export type WatchedFile = z.infer<typeof WatchedFileSchema>;
+
+const WatchStateSchema = z.object({
+  /** Files last modified before this are not tracked (the first-run baseline). */
+  since: z.string(),
+  sessions: z.record(z.string(), WatchedFileSchema).default({}),
+});
+export type WatchState = z.infer<typeof WatchStateSchema>;
+
+export interface FileStat {
+  mtimeMs: number;
+  size: number;
+}
+
+/** What happened to one finished session. */
+export interface WatchedSession {
+  sessionPath: string;
+  diaryId?: string;
+  diaryMode?: "fast" | "llm";
+  status?: DiaryEntry["status"];
+  outcome?: { outcome: string; rulesUsed: string[]; feedbackApplied: number };
+  traumas: TraumaCandidate[];
+  skipped?: string;
+  error?: string;
+}
+
+export interface WatchCycle {
+  at: string;
+  roots: string[];
+  tracked: number;
+  /** Sessions that changed recently and are not yet idle. */
+  pending: number;
+  processed: WatchedSession[];
+  /** True when this cycle only recorded the first-run baseline. */
+  baseline: boolean;
+}
+
+export interface WatchOptions {
+  dirs?: string[];
+  idleMinutes?: number;
+  pollSeconds?: number;
+  llm?: boolean;
+}
+
+/** Seams for tests; defaults use the real config, cass and diary pipeline. */
+export interface WatchDeps {
+  loadConfig: () => Promise<Config>;
+  resolveRoots: (config: Config, watch: WatchConfig) => Promise<string[]>;
+  processSession: (sessionPath: string, config: Config, options: { llm: boolean }) => Promise<WatchedSession>;
+  now: () => Date;
+}
+
+export function getWatchStatePath(): string {
+  return path.join(resolveGlobalDir(), "watch-state.json");
+}
+
+export async function loadWatchState(): Promise<WatchState | null> {
+  const statePath = getWatchStatePath();
+  try {
+    const result = WatchStateSchema.safeParse(JSON.parse(await fs.readFile(statePath, "utf-8")));
+    if (result.success) return result.data;
+    warn(`[watch] Invalid state file; starting over (${statePath})`);
+  } catch (err: any) {
+    if (err?.code !== "ENOENT") warn(`[watch] Failed to load state (${statePath}): ${err.message}`);
+  }
+  return null;
+}
+
+export async function saveWatchState(state: WatchState): Promise<void> {
+  await ensureDir(resolveGlobalDir());
+  await atomicWrite(getWatchStatePath(), JSON.stringify(state, null, 2));
+}
+
+export function resolveWatchConfig(config: Config, options: WatchOptions = {}): WatchConfig {
+  return {
+    dirs: [...config.watch.dirs, ...(options.dirs ?? [])],
+    idleMinutes: options.idleMinutes ?? config.watch.idleMinutes,
+    pollSeconds: options.pollSeconds ?? config.watch.pollSeconds,
+    llmDiary: options.llm ?? config.watch.llmDiary,
+  };
+}
+
+async function isDirectory(p: string): Promise<boolean> {
+  try {
+    return (await fs.stat(p)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Directories to watch: explicit dirs, the known agent roots, and the
+ * directories of sessions cass has indexed recently. Roots nested inside
+ * another root are dropped.
+ */
+export async function resolveWatchRoots(config: Config, watch: WatchConfig): Promise<string[]> {
+  const candidates = [...watch.dirs, ...KNOWN_SESSION_ROOTS];
+  if (cassAvailable(config.cassPath, { quiet: true })) {
+    const timeline = await cassTimeline(config.sessionLookbackDays, config.cassPath);
+    for (const group of timeline.groups) {
+      for (const session of group.sessions) {
+        if (session.path) candidates.push(path.dirname(session.path));
+      }
+    }
+  }
+
+  const existing: string[] = [];
+  for (const dir of new Set(candidates.map((c) => path.resolve(expandPath(c))))) {
+    if (await isDirectory(dir)) existing.push(dir);
+  }
+  existing.sort((a, b) => a.length - b.length);
+  return existing.filter(
+    (dir, i) => !existing.slice(0, i).some((root) => dir === root || dir.startsWith(root + path.sep))
+  );
+}
+
+/** Session files (by extension) under the roots, with their mtime and size. */
+export async function listSessionFiles(roots: string[]): Promise<Map<string, FileStat>> {
+  const files = new Map<string, FileStat>();
+
+  async function walk(dir: string, depth: number): Promise<void> {
+    if (files.size >= MAX_FILES) return;
+    let entries: Dirent[];
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      if (files.size >= MAX_FILES) return;
+      const full = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (depth < MAX_DEPTH) await walk(full, depth + 1);
+      } else if (entry.isFile() && SESSION_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) {
+        try {
+          const stat = await fs.stat(full);
+          files.set(full, { mtimeMs: stat.mtimeMs, size: stat.size });
+        } catch {
+          // Removed between readdir and stat
+        }
+      }
+    }
+  }
+
+  for (const root of roots) await walk(root, 0);
+  return files;
+}
+
+function isExcluded(sessionPath: string, config: Config): boolean {
+  if (config.sessionIncludeAll) return false;
+  const lower = sessionPath.toLowerCase();
+  return config.sessionExcludePatterns.some((pattern) => lower.includes(pattern.toLowerCase()));
+}
+
+/**
+ * Fold a directory listing into the watch state and pick out the sessions
+ * that have been idle long enough to process. A processed session that is
+ * written to again (a resumed conversation) is tracked afresh.
+ */
+export function scanWatchedSessions(
+  state: WatchState,
+  files: Map<string, FileStat>,
+  config: Config,
+  idleMinutes: number,
+  now: Date
+): { state: WatchState; finished: string[]; pending: number } {
+  const nowMs = now.getTime();
+  const idleMs = idleMinutes * 60_000;
+  const since = Math.max(Date.parse(state.since), nowMs - RETENTION_MS);
+  const sessions: WatchState["sessions"] = {};
+  const finished: string[] = [];
+  let pending = 0;
+
+  for (const [sessionPath, stat] of files) {
+    if (isExcluded(sessionPath, config)) continue;
+    const prev = state.sessions[sessionPath];
+    const changed = !prev || prev.mtimeMs !== stat.mtimeMs || prev.size !== stat.size;
+    if (changed && stat.mtimeMs <= since) continue;
+
+    const entry: WatchedFile = changed ? { mtimeMs: stat.mtimeMs, size: stat.size } : prev;
+    if (entry.processedAt && entry.mtimeMs <= since) continue;
+    sessions[sessionPath] = entry;
+
+    if (entry.processedAt) continue;
+    if (nowMs - entry.mtimeMs >= idleMs) finished.push(sessionPath);
+    else pending++;
+  }
+
+  return { state: { since: new Date(since).toISOString(), sessions }, finished, pending };
+}
+
+/**
+ * Write the diary for a finished session, store its trauma candidates and
+ * record its outcome for the rules it cited. Throws when the session cannot
+ * be exported, so the watcher retries it.
+ */
+export async function processWatchedSession(
+  sessionPath: string,
+  config: Config,
+  options: { llm: boolean }
+): Promise<WatchedSession> {
+  const result: WatchedSession = { sessionPath, traumas: [] };
+  const content = await cassExport(sessionPath, "markdown", config.cassPath, config);
+  if (content === null) throw new Error("Session export failed");
+  if (content.trim().length < 50) {
+    result.skipped = "Session content too short";
+    return result;
+  }
+
+  let diary: DiaryEntry | null = null;
+  if (options.llm) {
+    const budget = await checkBudget(config);
+    if (budget.allowed) {
+      try {
+        diary = await generateDiaryFromContent(sessionPath, content, config);
+        result.diaryMode = "llm";
+      } catch (err: any) {
+        warn(`[watch] LLM diary failed for ${sessionPath}; using the fast diary: ${err?.message ?? err}`);
+      }
+    } else {
+      warn(`[watch] ${budget.reason ?? "Over budget"}; using the fast diary for ${sessionPath}`);
+    }
+  }
+  if (!diary) {
+    diary = await generateDiaryFastFromContent(sessionPath, content, config);
+    result.diaryMode = "fast";
+  }
+  result.diaryId = diary.id;
+  result.status = diary.status;
+
+  result.traumas = scanContentForTraumas(sessionPath, content);
+  await saveTraumaCandidates(result.traumas);
+
+  // Same attribution as reflection: cited rules, and inline feedback gets its own signal
+  const { ruleIds, cited } = resolveOutcomeRuleIds(content);
+  const outcomeInput = classifySessionOutcome(content, diary, ruleIds, { cited, source: "watch" });
+  if (outcomeInput) {
+    const record = await recordOutcome(outcomeInput, config);
+    const feedback = await applyOutcomeFeedback([record], config);
+    result.outcome = {
+      outcome: record.outcome,
+      rulesUsed: record.rulesUsed ?? [],
+      feedbackApplied: feedback.applied,
+    };
+  }
+  return result;
+}
+
+const DEFAULT_DEPS: WatchDeps = {
+  loadConfig: () => loadConfig(),
+  resolveRoots: resolveWatchRoots,
+  processSession: processWatchedSession,
+  now: () => new Date(),
+};
+
+/**
+ * One poll: list session files, claim the finished ones under the state lock,
+ * process them, then record the results. Claiming first keeps two watchers
+ * from processing the same session.
+ */
+export async function runWatchCycle(
+  config: Config,
+  watch: WatchConfig,
+  deps: Partial<WatchDeps> = {}
+): Promise<WatchCycle> {
+  const d = { ...DEFAULT_DEPS, ...deps };
+  const statePath = getWatchStatePath();
+  const roots = await d.resolveRoots(config, watch);
+  const files = await listSessionFiles(roots);
+  await ensureDir(resolveGlobalDir());
+
+  const claimed = await withLock(statePath, async () => {
+    const now = d.now();
+    const previous = await loadWatchState();
+    if (!previous) {
+      await saveWatchState({ since: now.toISOString(), sessions: {} });
+      return { baseline: true, finished: [] as string[], pending: 0, tracked: 0 };
+    }
+    const scan = scanWatchedSessions(previous, files, config, watch.idleMinutes, now);
+    for (const sessionPath of scan.finished) {
+      scan.state.sessions[sessionPath]!.processedAt = now.toISOString();
+    }
+    await saveWatchState(scan.state);
+    return {
+      baseline: false,
+      finished: scan.finished,
+      pending: scan.pending,
+      tracked: Object.keys(scan.state.sessions).length,
+    };
+  });
+
+  const processed: WatchedSession[] = [];
+  for (const sessionPath of claimed.finished) {
+    try {
+      processed.push(await d.processSession(sessionPath, config, { llm: watch.llmDiary }));
+    } catch (err: any) {
+      processed.push({ sessionPath, traumas: [], error: err?.message ?? String(err) });
+    }
+  }
+
+  if (processed.length > 0) {
+    await withLock(statePath, async () => {
+      const state = await loadWatchState();
+      if (!state) return;
+      for (const item of processed) {
+        const entry = state.sessions[item.sessionPath];
+        if (!entry) continue;
+        entry.diaryId = item.diaryId;
+        entry.error = item.error;
+        if (item.error) {
+          // Release the claim so the next poll retries, until the attempts run out
+          entry.attempts = (entry.attempts ?? 0) + 1;
+          if (entry.attempts < MAX_ATTEMPTS) delete entry.processedAt;
+        } else {
+          delete entry.attempts;
+        }
+      }
+      await saveWatchState(state);
+    });
+  }
+
+  return {
+    at: d.now().toISOString(),
+    roots,
+    tracked: claimed.tracked,
+    pending: claimed.pending,
+    processed,
+    baseline: claimed.baseline,
+  };
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/** Poll every `watch.pollSeconds` until aborted (or for `maxCycles` polls); returns the last poll. */
+export async function runWatchLoop(
+  options: WatchOptions & {
+    signal?: AbortSignal;
+    maxCycles?: number;
+    deps?: Partial<WatchDeps>;
+    onCycle?: (cycle: WatchCycle) => void;
+  } = {}
+): Promise<WatchCycle | undefined> {
+  const d = { ...DEFAULT_DEPS, ...options.deps };
+  let last: WatchCycle | undefined;
+
+  for (let i = 0; options.maxCycles === undefined || i < options.maxCycles; i++) {
+    if (options.signal?.aborted) break;
+    // Reload each poll so config edits apply without a restart
+    const config = await d.loadConfig();
+    const watch = resolveWatchConfig(config, options);
+    last = await runWatchCycle(config, watch, d);
+    options.onCycle?.(last);
+
+    if (options.maxCycles !== undefined && i + 1 >= options.maxCycles) break;
+    await sleep(watch.pollSeconds * 1000, options.signal);
+  }
+  return last;
+}
@@ -0,0 +1,375 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { fileExists } from "./utils.js";
+
+// -----------------------------------------------------------------------------
+// Workspace profiling
+// -----------------------------------------------------------------------------
+//
+// Fingerprints a project from its manifests (package.json, Cargo.toml, go.mod,
+// pyproject.toml, requirements.txt, Gemfile, composer.json), its lockfiles and
+// a histogram of source file extensions. The profile fills the `language` and
+// `framework` bullet scopes: a bullet scoped `language` with scopeKey `rust`
+// only applies where rust was detected. Profiles are cached briefly per
+// project root so a long-running server doesn't rescan on every request.
+
+export interface ProfileLanguage {
+  name: string;
+  /** Source files with this language's extensions. */
+  files: number;
+  /** Why the language was detected: marker files and/or `extensions`. */
+  evidence: string[];
+}
+
+export interface ProfileFramework {
+  name: string;
+  language: string;
+  /** The manifest entry that matched, e.g. `package.json: react`. */
+  evidence: string;
+}
+
+export interface WorkspaceProfile {
+  root: string;
+  languages: ProfileLanguage[];
+  frameworks: ProfileFramework[];
+  packageManagers: string[];
+  manifests: string[];
+  lockfiles: string[];
+  /** Source file counts by extension (only extensions mapped to a language). */
+  extensions: Record<string, number>;
+  filesScanned: number;
+  /** True when the scan stopped at the file limit. */
+  truncated: boolean;
+}
+
+const MAX_FILES = 5000;
+const MAX_DEPTH = 6;
+const CACHE_TTL_MS = 30_000;
+/** A language seen only through extensions needs this share of source files (and at least 3). */
+const MIN_EXTENSION_SHARE = 0.05;
+
+const SKIP_DIRS = new Set([
+  "node_modules", "dist", "build", "out", "target", "vendor", "coverage",
+  "__pycache__", "venv", "env", "bin", "obj",
+]);
+
+/** Marker files that identify a language, checked at the project root. */
+const LANGUAGE_MARKERS: Record<string, string[]> = {
+  javascript: ["package.json"],
+  typescript: ["tsconfig.json"],
+  python: ["pyproject.toml", "requirements.txt", "setup.py", "Pipfile"],
+  rust: ["Cargo.toml"],
+  go: ["go.mod"],
+  ruby: ["Gemfile"],
+  java: ["pom.xml", "build.gradle", "build.gradle.kts"],
+  php: ["composer.json"],
+  elixir: ["mix.exs"],
+  swift: ["Package.swift"],
+};
+
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  ".ts": "typescript", ".tsx": "typescript", ".mts": "typescript", ".cts": "typescript",
+  ".js": "javascript", ".jsx": "javascript", ".mjs": "javascript", ".cjs": "javascript",
+  ".py": "python", ".rs": "rust", ".go": "go", ".rb": "ruby", ".java": "java",
+  ".kt": "kotlin", ".kts": "kotlin", ".swift": "swift", ".php": "php",
+  ".ex": "elixir", ".exs": "elixir", ".c": "c", ".h": "c", ".cc": "cpp", ".cpp": "cpp",
+  ".hpp": "cpp", ".cs": "csharp", ".scala": "scala", ".sh": "shell",
+};
+
+const LOCKFILE_MANAGERS: Record<string, string> = {
+  "bun.lock": "bun", "bun.lockb": "bun", "package-lock.json": "npm", "yarn.lock": "yarn",
+  "pnpm-lock.yaml": "pnpm", "Cargo.lock": "cargo", "go.sum": "go", "poetry.lock": "poetry",
+  "uv.lock": "uv", "Pipfile.lock": "pipenv", "Gemfile.lock": "bundler", "composer.lock": "composer",
+};
+
+/** Dependency name (or Go module prefix) → framework, per manifest ecosystem. */
+const FRAMEWORKS: Record<string, Array<{ dep: string; name: string }>> = {
+  javascript: [
+    { dep: "react", name: "react" }, { dep: "next", name: "next" }, { dep: "vue", name: "vue" },
+    { dep: "svelte", name: "svelte" }, { dep: "@angular/core", name: "angular" },
+    { dep: "express", name: "express" }, { dep: "fastify", name: "fastify" },
+    { dep: "@nestjs/core", name: "nestjs" }, { dep: "jest", name: "jest" },
+    { dep: "vitest", name: "vitest" }, { dep: "@playwright/test", name: "playwright" },
+  ],
+  rust: [
+    { dep: "tokio", name: "tokio" }, { dep: "actix-web", name: "actix" }, { dep: "axum", name: "axum" },
+    { dep: "rocket", name: "rocket" }, { dep: "bevy", name: "bevy" },
+  ],
+  go: [
+    { dep: "github.com/gin-gonic/gin", name: "gin" }, { dep: "github.com/labstack/echo", name: "echo" },
+    { dep: "github.com/gofiber/fiber", name: "fiber" },
+  ],
+  python: [
+    { dep: "django", name: "django" }, { dep: "flask", name: "flask" }, { dep: "fastapi", name: "fastapi" },
+    { dep: "pytest", name: "pytest" },
+  ],
+  ruby: [{ dep: "rails", name: "rails" }, { dep: "rspec", name: "rspec" }],
+  php: [{ dep: "laravel/framework", name: "laravel" }, { dep: "symfony/framework-bundle", name: "symfony" }],
+};
+
+const LANGUAGE_ALIASES: Record<string, string> = { js: "javascript", ts: "typescript", py: "python", golang: "go" };
+
+export function normalizeLanguage(language: string): string {
+  const lower = language.trim().toLowerCase();
+  return LANGUAGE_ALIASES[lower] ?? lower;
+}
+
+/** The nearest ancestor of `workspace` containing `.git`, or the workspace itself. */
+export async function findProjectRoot(workspace: string): Promise<string> {
+  let dir = path.resolve(workspace);
+  while (true) {
+    if (await fileExists(path.join(dir, ".git"))) return dir;
+    const parent = path.dirname(dir);
+    if (parent === dir) return path.resolve(workspace);
+    dir = parent;
+  }
+}
+
+async function readText(file: string): Promise<string | null> {
+  try {
+    return await fs.readFile(file, "utf-8");
+  } catch {
+    return null;
+  }
+}
+
+/** Names listed in the dependency tables of a Cargo.toml. */
+function parseCargoDependencies(text: string): string[] {
+  const deps: string[] = [];
+  let inDeps = false;
+  for (const line of text.split("\n")) {
+    const header = line.match(/^\s*\[([^\]]+)\]/);
+    if (header) {
+      inDeps = /(^|\.)(dev-|build-)?dependencies$/.test(header[1].trim());
+      continue;
+    }
+    const entry = inDeps ? line.match(/^\s*([A-Za-z0-9_-]+)\s*=/) : null;
+    if (entry) deps.push(entry[1]);
+  }
+  return deps;
+}
+
+/** Module paths from the require directives of a go.mod. */
+function parseGoRequires(text: string): string[] {
+  const deps: string[] = [];
+  let inBlock = false;
+  for (const line of text.split("\n")) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith("require (")) inBlock = true;
+    else if (inBlock && trimmed === ")") inBlock = false;
+    else if (inBlock && trimmed) deps.push(trimmed.split(/\s+/)[0]);
+    else if (trimmed.startsWith("require ")) deps.push(trimmed.split(/\s+/)[1]);
+  }
+  return deps;
+}
+
+/** Package names from requirements.txt lines or quoted PEP 508 strings / poetry keys in pyproject.toml. */
+function parsePythonDependencies(requirements: string | null, pyproject: string | null): string[] {
+  const names: string[] = [];
+  const nameOf = (spec: string) => spec.trim().match(/^([A-Za-z0-9_.-]+)/)?.[1]?.toLowerCase();
+  for (const line of (requirements ?? "").split("\n")) {
+    if (line.trim().startsWith("#") || line.trim().startsWith("-")) continue;
+    const name = nameOf(line);
+    if (name) names.push(name);
+  }
+  if (pyproject) {
+    for (const match of pyproject.matchAll(/["']([A-Za-z0-9_.-]+)\s*(?:\[[^\]]*\])?\s*(?:[<>=~!;][^"']*)?["']/g)) {
+      names.push(match[1].toLowerCase());
+    }
+    let inPoetry = false;
+    for (const line of pyproject.split("\n")) {
+      const header = line.match(/^\s*\[([^\]]+)\]/);
+      if (header) {
+        inPoetry = /^tool\.poetry\.(.+\.)?dependencies$/.test(header[1].trim());
+        continue;
+      }
+      const entry = inPoetry ? line.match(/^\s*([A-Za-z0-9_.-]+)\s*=/) : null;
+      if (entry) names.push(entry[1].toLowerCase());
+    }
+  }
+  return names;
+}
+
+async function readManifestDependencies(root: string, present: Set<string>): Promise<Record<string, { manifest: string; deps: Set<string> }>> {
+  const result: Record<string, { manifest: string; deps: Set<string> }> = {};
+
+  if (present.has("package.json")) {
+    try {
+      const pkg = JSON.parse((await readText(path.join(root, "package.json"))) ?? "{}");
+      const sections = ["dependencies", "devDependencies", "peerDependencies", "optionalDependencies"];
+      result.javascript = {
+        manifest: "package.json",
+        deps: new Set(sections.flatMap((section) => Object.keys(pkg?.[section] ?? {}))),
+      };
+    } catch {
+      // Unparseable package.json: the language is still detected from the marker
+    }
+  }
+  if (present.has("Cargo.toml")) {
+    result.rust = { manifest: "Cargo.toml", deps: new Set(parseCargoDependencies((await readText(path.join(root, "Cargo.toml"))) ?? "")) };
+  }
+  if (present.has("go.mod")) {
+    result.go = { manifest: "go.mod", deps: new Set(parseGoRequires((await readText(path.join(root, "go.mod"))) ?? "")) };
+  }
+  if (present.has("pyproject.toml") || present.has("requirements.txt")) {
+    const requirements = present.has("requirements.txt") ? await readText(path.join(root, "requirements.txt")) : null;
+    const pyproject = present.has("pyproject.toml") ? await readText(path.join(root, "pyproject.toml")) : null;
+    result.python = {
+      manifest: present.has("pyproject.toml") ? "pyproject.toml" : "requirements.txt",
+      deps: new Set(parsePythonDependencies(requirements, pyproject)),
+    };
+  }
+  if (present.has("Gemfile")) {
+    const gemfile = (await readText(path.join(root, "Gemfile"))) ?? "";
+    result.ruby = { manifest: "Gemfile", deps: new Set([...gemfile.matchAll(/^\s*gem\s+["']([^"']+)["']/gm)].map((m) => m[1])) };
+  }
+  if (present.has("composer.json")) {
+    try {
+      const composer = JSON.parse((await readText(path.join(root, "composer.json"))) ?? "{}");
+      result.php = {
+        manifest: "composer.json",
+        deps: new Set([...Object.keys(composer?.require ?? {}), ...Object.keys(composer?.["require-dev"] ?? {})]),
+      };
+    } catch {
+      // Ignore unparseable composer.json
+    }
+  }
+  return result;
+}
+
+async function countExtensions(root: string): Promise<{ extensions: Record<string, number>; filesScanned: number; truncated: boolean }> {
+  const extensions: Record<string, number> = {};
+  let filesScanned = 0;
+  let queue: string[] = [root];
+
+  for (let depth = 0; depth <= MAX_DEPTH && queue.length > 0; depth++) {
+    const next: string[] = [];
+    for (const dir of queue) {
+      let entries;
+      try {
+        entries = await fs.readdir(dir, { withFileTypes: true });
+      } catch {
+        continue;
+      }
+      for (const entry of entries) {
+        if (entry.isDirectory()) {
+          if (!entry.name.startsWith(".") && !SKIP_DIRS.has(entry.name)) next.push(path.join(dir, entry.name));
+          continue;
+        }
+        if (!entry.isFile()) continue;
+        if (filesScanned >= MAX_FILES) return { extensions, filesScanned, truncated: true };
+        filesScanned++;
+        const ext = path.extname(entry.name).toLowerCase();
+        if (EXTENSION_LANGUAGES[ext]) extensions[ext] = (extensions[ext] ?? 0) + 1;
+      }
+    }
+    queue = next;
+  }
+  return { extensions, filesScanned, truncated: false };
+}
+
+/** Scan the project containing `workspace`. Prefer `getWorkspaceProfile`, which caches. */
+export async function profileWorkspace(workspace: string): Promise<WorkspaceProfile> {
+  const root = await findProjectRoot(workspace);
+
+  const rootEntries = new Set<string>();
+  try {
+    for (const name of await fs.readdir(root)) rootEntries.add(name);
+  } catch {
+    // Missing workspace: an empty profile
+  }
+
+  const manifests = [...new Set(Object.values(LANGUAGE_MARKERS).flat())].filter((m) => rootEntries.has(m)).sort();
+  manifests.push(...["Gemfile", "composer.json"].filter((m) => rootEntries.has(m) && !manifests.includes(m)));
+  const lockfiles = Object.keys(LOCKFILE_MANAGERS).filter((l) => rootEntries.has(l)).sort();
+  const packageManagers = [...new Set(lockfiles.map((l) => LOCKFILE_MANAGERS[l]))];
+
+  const { extensions, filesScanned, truncated } = await countExtensions(root);
+
+  const byLanguage = new Map<string, ProfileLanguage>();
+  const language = (name: string) => {
+    if (!byLanguage.has(name)) byLanguage.set(name, { name, files: 0, evidence: [] });
+    return byLanguage.get(name)!;
+  };
+  for (const [ext, count] of Object.entries(extensions)) {
+    language(EXTENSION_LANGUAGES[ext]).files += count;
+  }
+  const sourceFiles = Object.values(extensions).reduce((sum, n) => sum + n, 0);
+  const minFiles = Math.max(3, Math.ceil(sourceFiles * MIN_EXTENSION_SHARE));
+
+  const detected: ProfileLanguage[] = [];
+  for (const entry of byLanguage.values()) {
+    if (entry.files >= minFiles) entry.evidence.push("extensions");
+  }
+  for (const [name, markers] of Object.entries(LANGUAGE_MARKERS)) {
+    const found = markers.filter((m) => rootEntries.has(m));
+    if (found.length > 0) language(name).evidence.unshift(...found);
+  }
+  for (const entry of byLanguage.values()) {
+    if (entry.evidence.length > 0) detected.push(entry);
+  }
+  detected.sort((a, b) => b.files - a.files || a.name.localeCompare(b.name));
+
+  const frameworks: ProfileFramework[] = [];
+  const dependencies = await readManifestDependencies(root, rootEntries);
+  for (const [lang, { manifest, deps }] of Object.entries(dependencies)) {
+    for (const fw of FRAMEWORKS[lang] ?? []) {
+      const match = lang === "go" ? [...deps].find((d) => d === fw.dep || d.startsWith(`${fw.dep}/`)) : deps.has(fw.dep) ? fw.dep : undefined;
+      if (match) frameworks.push({ name: fw.name, language: lang, evidence: `${manifest}: ${match}` });
+    }
+  }
+
+  return {
+    root,
+    languages: detected,
+    frameworks,
+    packageManagers,
+    manifests,
+    lockfiles,
+    extensions,
+    filesScanned,
+    truncated,
+  };
+}
+
+const profileCache = new Map<string, { at: number; profile: Promise<WorkspaceProfile> }>();
+
+/** `profileWorkspace` with a short per-root cache. */
+export async function getWorkspaceProfile(workspace: string): Promise<WorkspaceProfile> {
+  const root = await findProjectRoot(workspace);
+  const cached = profileCache.get(root);
+  if (cached && Date.now() - cached.at < CACHE_TTL_MS) return cached.profile;
+  const profile = profileWorkspace(root);
+  profileCache.set(root, { at: Date.now(), profile });
+  return profile;
+}
+
+function mentions(text: string, name: string): boolean {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+  return new RegExp(`(^|[^a-z0-9])${escaped}([^a-z0-9]|$)`, "i").test(text);
+}
+
+/**
+ * Pick a scopeKey for a `language`- or `framework`-scoped bullet from the
+ * profile: the detected language/framework the bullet mentions (content or
+ * tags), else the primary language, or the only framework when exactly one
+ * was detected. Returns undefined when nothing fits.
+ */
+export function inferScopeKey(
+  bullet: { scope?: string; content: string; tags?: string[] },
+  profile: WorkspaceProfile
+): string | undefined {
+  const text = [bullet.content, ...(bullet.tags ?? [])].join(" ");
+  if (bullet.scope === "language") {
+    const aliases = Object.entries(LANGUAGE_ALIASES);
+    const mentioned = profile.languages.find(
+      (l) => mentions(text, l.name) || aliases.some(([alias, name]) => name === l.name && mentions(text, alias))
+    );
+    return (mentioned ?? profile.languages[0])?.name;
+  }
+  if (bullet.scope === "framework") {
+    const mentioned = profile.frameworks.find((f) => mentions(text, f.name));
+    return (mentioned ?? (profile.frameworks.length === 1 ? profile.frameworks[0] : undefined))?.name;
+  }
+  return undefined;
+}
@@ -0,0 +1,156 @@
+/**
+ * Tests for bullet applicability predicates (src/applicability.ts) and their
+ * use in `cm context`, `cm why` and `cm playbook add --applies-when`.
+ */
+import { describe, test, expect } from "bun:test";
+import { writeFileSync } from "node:fs";
+import path from "node:path";
+import yaml from "yaml";
+import {
+  createWorkspaceProbe,
+  evaluateApplicability,
+  parseApplicabilityPredicate,
+} from "../src/applicability.js";
+import { contextCommand } from "../src/commands/context.js";
+import { whyCommand } from "../src/commands/why.js";
+import { playbookCommand } from "../src/commands/playbook.js";
+import { loadPlaybook } from "../src/playbook.js";
+import { createTestBullet, createTestPlaybook } from "./helpers/factories.js";
+import { withTempCassHome, withTempDir, writeFileInDir } from "./helpers/temp.js";
+
+async function captureConsoleLog(fn: () => Promise<void>): Promise<string> {
+  const original = console.log;
+  const lines: string[] = [];
+  console.log = (...args: unknown[]) => {
+    lines.push(args.map(String).join(" "));
+  };
+  try {
+    await fn();
+  } finally {
+    console.log = original;
+  }
+  return lines.join("\n");
+}
+
+/** A bun + react project on branch release/1.2. */
+async function writeProject(dir: string): Promise<void> {
+  await writeFileInDir(dir, "bun.lock", "");
+  await writeFileInDir(dir, "tsconfig.json", "{}");
+  await writeFileInDir(dir, "package.json", JSON.stringify({ dependencies: { react: "^18" }, devDependencies: { zod: "^3" } }));
+  await writeFileInDir(dir, ".git/HEAD", "ref: refs/heads/release/1.2\n");
+}
+
+describe("parseApplicabilityPredicate", () => {
+  test("parses the CLI shorthand and negation", () => {
+    expect(parseApplicabilityPredicate("file:bun.lock")).toEqual({ type: "file", path: "bun.lock" });
+    expect(parseApplicabilityPredicate("!dep:jest")).toEqual({ type: "dependency", name: "jest", negate: true });
+    expect(parseApplicabilityPredicate("lang:ts")).toEqual({ type: "language", language: "ts" });
+    expect(parseApplicabilityPredicate("branch:release/*")).toEqual({ type: "branch", pattern: "release/*" });
+    expect(parseApplicabilityPredicate("os:macos")).toEqual({ type: "os", os: "macos" });
+    expect(parseApplicabilityPredicate("color:blue")).toBeNull();
+    expect(parseApplicabilityPredicate("file:")).toBeNull();
+  });
+});
+
+describe("evaluateApplicability", () => {
+  test("checks files, dependencies, languages, branch and OS against the project root", async () => {
+    await withTempDir("applicability", async (dir) => {
+      await writeProject(dir);
+      await writeFileInDir(dir, "packages/app/index.ts", "");
+      const probe = await createWorkspaceProbe(path.join(dir, "packages", "app"), "darwin");
+      expect(probe.root).toBe(dir);
+
+      const holds = await evaluateApplicability(
+        {
+          appliesWhen: [
+            { type: "file", path: "bun.lock" },
+            { type: "dependency", name: "zod" },
+            { type: "language", language: "ts" },
+            { type: "branch", pattern: "release/*" },
+            { type: "os", os: "macos" },
+            { type: "dependency", name: "jest", negate: true },
+          ],
+        },
+        probe
+      );
+      expect(holds.applies).toBe(true);
+
+      const fails = await evaluateApplicability(
+        { appliesWhen: [{ type: "language", language: "rust" }, { type: "branch", pattern: "main" }] },
+        probe
+      );
+      expect(fails.applies).toBe(false);
+      expect(fails.results.map((r) => [r.description, r.passed, r.observed])).toEqual([
+        ["language is rust", false, "javascript, typescript"],
+        ["git branch matches main", false, "release/1.2"],
+      ]);
+    });
+  });
+
+  test("bullets without predicates always apply", async () => {
+    await withTempDir("applicability", async (dir) => {
+      const result = await evaluateApplicability({}, await createWorkspaceProbe(dir));
+      expect(result).toEqual({ applies: true, results: [] });
+    });
+  });
+});
+
+describe("applicability in commands", () => {
+  test("cm context skips rules that don't apply and cm why explains it", async () => {
+    await withTempCassHome(async (env) => {
+      const project = path.join(env.home, "project");
+      await writeProject(project);
+      writeFileSync(
+        env.playbookPath,
+        yaml.stringify(
+          createTestPlaybook([
+            createTestBullet({
+              id: "b-bun",
+              content: "Run the test suite with bun test",
+              appliesWhen: [{ type: "file", path: "bun.lock" }],
+            }),
+            createTestBullet({
+              id: "b-cargo",
+              content: "Run the test suite with cargo test",
+              appliesWhen: [{ type: "language", language: "rust" }],
+            }),
+          ])
+        )
+      );
+
+      const out = JSON.parse(
+        await captureConsoleLog(() => contextCommand("run the test suite", { json: true, workspace: project }))
+      );
+      expect(out.data.relevantBullets.map((b: any) => b.id)).toEqual(["b-bun"]);
+
+      const why = JSON.parse(
+        await captureConsoleLog(() => whyCommand("b-cargo", { json: true, workspace: project }))
+      );
+      expect(why.data.applicability.applies).toBe(false);
+      expect(why.data.applicability.predicates[0]).toMatchObject({ description: "language is rust", passed: false });
+    });
+  });
+
+  test("cm playbook add --applies-when stores predicates and rejects bad ones", async () => {
+    await withTempCassHome(async (env) => {
+      writeFileSync(env.playbookPath, yaml.stringify(createTestPlaybook([])));
+
+      const added = JSON.parse(
+        await captureConsoleLog(() =>
+          playbookCommand("add", ["Use bun test, not jest"], { json: true, appliesWhen: ["file:bun.lock", "!dep:jest"] })
+        )
+      );
+      expect(added.success).toBe(true);
+      const saved = await loadPlaybook(env.playbookPath);
+      expect(saved.bullets[0].appliesWhen).toEqual([
+        { type: "file", path: "bun.lock" },
+        { type: "dependency", name: "jest", negate: true },
+      ]);
+
+      const bad = JSON.parse(
+        await captureConsoleLog(() => playbookCommand("add", ["Rule"], { json: true, appliesWhen: ["weather:sunny"] }))
+      );
+      expect(bad.error.code).toBe("INVALID_INPUT");
+    });
+  });
+});
@@ -14,6 +14,7 @@ import type { LLMIO } from "../src/llm.js";
 import type { CassRunner } from "../src/cass.js";
 import { auditCommand } from "../src/commands/audit.js";
 import { scanSessionsForViolations } from "../src/audit.js";
+import { saveTraumaCandidates } from "../src/trauma.js";
 import { withTempCassHome } from "./helpers/temp.js";
 import { createTestBullet, createTestPlaybook, createTestConfig } from "./helpers/factories.js";
 
@@ -398,6 +399,41 @@ describe("audit command - Unit Tests", () => {
     });
   });
 
+  test("trauma scan mode lists the candidates cm watch stored", async () => {
+    await withTempCassHome(async (env) => {
+      await withCwd(env.home, async () => {
+        const cassRunner: CassRunner = {
+          execFile: async (_file, args) => {
+            const cmd = args[0] ?? "";
+            if (cmd === "search") return { stdout: "[]", stderr: "" };
+            throw new Error(`Unexpected cass execFile command: ${cmd}`);
+          },
+          spawnSync: () => ({ status: 0, stdout: "", stderr: "" }),
+          spawn: (() => { throw new Error("spawn not implemented"); }) as any,
+        };
+
+        writeFileSync(env.configPath, JSON.stringify({ cassPath: "cass" }, null, 2));
+        writeFileSync(env.playbookPath, yaml.stringify(createTestPlaybook([])));
+        const candidate = {
+          sessionPath: "/sessions/watched.jsonl",
+          matchedPattern: String.raw`^git\s+reset\s+--hard`,
+          description: "Git hard reset",
+          evidence: "git reset --hard",
+          context: "Resetting the branch: git reset --hard origin/main",
+        };
+        expect(await saveTraumaCandidates([candidate, candidate])).toBe(1);
+
+        const { output } = await captureConsoleLog(() =>
+          auditCommand({ days: 7, json: true, trauma: true }, { cassRunner })
+        );
+
+        const payload = JSON.parse(output) as any;
+        expect(payload.data.candidates).toHaveLength(1);
+        expect(payload.data.candidates[0]).toMatchObject({ sessionPath: "/sessions/watched.jsonl", description: "Git hard reset" });
+      });
+    });
+  });
+
   test("trauma scan mode with no candidates (human-readable mode)", async () => {
     await withTempCassHome(async (env) => {
       await withCwd(env.home, async () => {
@@ -14,6 +14,7 @@ import {
   extractRuleIdsFromTranscript,
   classifySessionOutcome,
   detectSentiment,
+  resolveOutcomeRuleIds,
   scoreImplicitFeedback,
 } from "../src/outcome.js";
 import type { DiaryEntry } from "../src/types.js";
@@ -267,6 +268,36 @@ describe("classifySessionOutcome", () => {
     const scored = scoreImplicitFeedback(result!);
     expect(scored?.type).not.toBe("harmful");
   });
+
+  it("grades cited rules normally", () => {
+    const result = classifySessionOutcome("done", makeDiary({ status: "failure" }), ["b-abc123"], { cited: true });
+    expect(result!.autoGraded).toBe(false);
+    expect(scoreImplicitFeedback(result!)?.type).toBe("harmful");
+  });
+});
+
+// --- resolveOutcomeRuleIds ---
+
+describe("resolveOutcomeRuleIds", () => {
+  const shown = "CONTEXT: **[b-shown1]** Pin node\n**[b-shown2]** Lint first\n**[b-shown3]** Use flags\n";
+
+  it("falls back to every mentioned rule without citations", () => {
+    expect(resolveOutcomeRuleIds(shown)).toEqual({ ruleIds: ["b-shown1", "b-shown2", "b-shown3"], cited: false });
+  });
+
+  it("grades only rules whose latest citation is applied", () => {
+    const content =
+      shown +
+      "Pinning node [cm:b-shown1 applied]. Linting [cm:b-shown2 applied].\n" +
+      "Actually the linter is broken here [cm:b-shown2 ignored: linter not installed]\n" +
+      "[cm:b-shown3 helpful: flags saved the rollout]";
+    expect(resolveOutcomeRuleIds(content)).toEqual({ ruleIds: ["b-shown1"], cited: true });
+  });
+
+  it("drops rules with inline feedback from the fallback set", () => {
+    const content = shown + "// [cass: harmful b-shown2] - wrong for this repo";
+    expect(resolveOutcomeRuleIds(content).ruleIds).toEqual(["b-shown1", "b-shown3"]);
+  });
 });
 
 // --- Enhanced detectSentiment ---
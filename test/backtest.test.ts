@@ -0,0 +1,161 @@
+/**
+ * Tests for the offline replay harness (src/backtest.ts) and `cm backtest`.
+ */
+import { describe, test, expect } from "bun:test";
+import { collectReplayEvents, runBacktest } from "../src/backtest.js";
+import { backtestCommand, parseSetArg } from "../src/commands/backtest.js";
+import { savePlaybook } from "../src/playbook.js";
+import { generateFeedbackEventId } from "../src/utils.js";
+import type { OutcomeRecord } from "../src/outcome.js";
+import {
+  createTestBullet,
+  createTestConfig,
+  createTestFeedbackEvent,
+  createTestPlaybook,
+} from "./helpers/factories.js";
+import { withTempCassHome } from "./helpers/temp.js";
+
+const NOW = Date.now();
+
+function minutesAgo(minutes: number): string {
+  return new Date(NOW - minutes * 60_000).toISOString();
+}
+
+function bulletWith(id: string, feedback: Array<"helpful" | "harmful">) {
+  return createTestBullet({
+    id,
+    content: `Rule ${id}`,
+    createdAt: minutesAgo(100),
+    feedbackEvents: feedback.map((type, i) => createTestFeedbackEvent(type, { timestamp: minutesAgo(50 - i) })),
+  });
+}
+
+function withScoring(scoring: Record<string, unknown>, extra: Record<string, unknown> = {}) {
+  const base = createTestConfig();
+  return createTestConfig({ ...extra, scoring: { ...base.scoring, ...scoring } } as any);
+}
+
+async function captureConsoleLog(fn: () => Promise<void>): Promise<string> {
+  const original = console.log;
+  const lines: string[] = [];
+  console.log = (...args: unknown[]) => {
+    lines.push(args.map(String).join(" "));
+  };
+  try {
+    await fn();
+  } finally {
+    console.log = original;
+  }
+  return lines.join("\n");
+}
+
+describe("runBacktest", () => {
+  const inputs = (bullets: ReturnType<typeof bulletWith>[]) => ({
+    playbook: createTestPlaybook(bullets),
+    outcomes: [],
+    usageEvents: [],
+    now: new Date(NOW),
+  });
+
+  test("a lower harmfulMultiplier keeps a mostly-helpful rule established", () => {
+    const current = withScoring({ harmfulMultiplier: 4 });
+    const candidate = withScoring({ harmfulMultiplier: 1 });
+    const report = runBacktest(inputs([bulletWith("b-mixed", ["helpful", "helpful", "helpful", "harmful"])]), current, candidate);
+
+    expect(report.configDiff).toEqual([{ key: "scoring.harmfulMultiplier", current: 4, candidate: 1 }]);
+    const change = report.changes.find((c) => c.id === "b-mixed")!;
+    expect(change.changes).toContain("promoted");
+    expect(change.current.maturity).toBe("candidate");
+    expect(change.candidate.maturity).toBe("established");
+    expect(report.summary.promoted).toBe(1);
+  });
+
+  test("a higher pruneHarmfulThreshold restores a rule the current config prunes", () => {
+    const current = withScoring({}, { pruneHarmfulThreshold: 3 });
+    const candidate = withScoring({}, { pruneHarmfulThreshold: 10 });
+    const report = runBacktest(inputs([bulletWith("b-bad", ["harmful", "harmful", "harmful"])]), current, candidate);
+
+    const change = report.changes.find((c) => c.id === "b-bad")!;
+    expect(change.changes).toEqual(["restored", "surfaced"]);
+    expect(change.current.pruned).toBe(true);
+    expect(change.candidate.pruned).toBe(false);
+  });
+
+  test("reports duplicate pairs that a new dedupSimilarityThreshold would catch", () => {
+    const a = createTestBullet({ id: "b-a", content: "Always run the unit tests before pushing a branch" });
+    const b = createTestBullet({ id: "b-b", content: "Always run the unit tests before pushing" });
+    const report = runBacktest(
+      { playbook: createTestPlaybook([a, b]), outcomes: [], usageEvents: [] },
+      createTestConfig({ dedupSimilarityThreshold: 0.95 }),
+      createTestConfig({ dedupSimilarityThreshold: 0.5 })
+    );
+    expect(report.dedup.added.map((p) => [p.a, p.b])).toEqual([["b-a", "b-b"]]);
+    expect(report.changes).toEqual([]);
+  });
+});
+
+describe("collectReplayEvents", () => {
+  test("adds outcome feedback that was never applied, once", () => {
+    const bullet = bulletWith("b-used", []);
+    const outcome: OutcomeRecord = {
+      sessionId: "s-1",
+      outcome: "success",
+      rulesUsed: ["b-used", "b-missing"],
+      recordedAt: minutesAgo(10),
+      path: "outcomes.jsonl",
+    };
+
+    const fresh = collectReplayEvents([bullet], [outcome], []);
+    expect(fresh.outcomeEvents).toBe(1);
+    expect(fresh.timelines.get("b-used")![0].type).toBe("helpful");
+
+    const applied = {
+      ...bullet,
+      feedbackEvents: [
+        createTestFeedbackEvent("helpful", {
+          id: generateFeedbackEventId(`s-1:${outcome.recordedAt}:b-used:helpful`),
+          timestamp: outcome.recordedAt,
+        }),
+      ],
+    };
+    expect(collectReplayEvents([applied], [outcome], []).outcomeEvents).toBe(0);
+  });
+
+  test("adds bullet_marked usage events without a matching stored event", () => {
+    const bullet = bulletWith("b-marked", ["helpful"]);
+    const stored = bullet.feedbackEvents[0].timestamp;
+    const result = collectReplayEvents([bullet], [], [
+      { event: "bullet_marked", timestamp: stored, data: { bulletId: "b-marked", feedback: "helpful" } },
+      { event: "bullet_marked", timestamp: minutesAgo(5), data: { bulletId: "b-marked", feedback: "harmful" } },
+    ]);
+    expect(result.usageEvents).toBe(1);
+    expect(result.timelines.get("b-marked")!.map((e) => e.type)).toEqual(["helpful", "harmful"]);
+  });
+});
+
+describe("cm backtest", () => {
+  test("parseSetArg builds nested overrides with JSON values", () => {
+    const overrides = parseSetArg("scoring.harmfulMultiplier=2");
+    parseSetArg("scoring.strategy=wilson", overrides);
+    parseSetArg("pruneHarmfulThreshold=5", overrides);
+    expect(overrides).toEqual({ scoring: { harmfulMultiplier: 2, strategy: "wilson" }, pruneHarmfulThreshold: 5 });
+    expect(() => parseSetArg("novalue")).toThrow();
+  });
+
+  test("--json shows the config diff and requires a candidate", async () => {
+    await withTempCassHome(async (env) => {
+      await savePlaybook(createTestPlaybook([bulletWith("b-cli", ["helpful", "helpful", "helpful", "harmful"])]), env.playbookPath);
+
+      const out = JSON.parse(
+        await captureConsoleLog(() => backtestCommand({ set: ["scoring.harmfulMultiplier=1"], json: true }))
+      );
+      expect(out.success).toBe(true);
+      expect(out.data.configDiff).toEqual([{ key: "scoring.harmfulMultiplier", current: 4, candidate: 1 }]);
+      expect(out.data.changes.map((c: any) => c.id)).toEqual(["b-cli"]);
+
+      const missing = JSON.parse(await captureConsoleLog(() => backtestCommand({ json: true })));
+      expect(missing.success).toBe(false);
+      expect(missing.error.code).toBe("MISSING_REQUIRED");
+    });
+  });
+});
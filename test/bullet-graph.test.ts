@@ -0,0 +1,201 @@
+/**
+ * Tests for typed bullet relations (src/bullet-graph.ts): curator-populated
+ * edges, `cm playbook graph` / `cm playbook link`, and their use in context.
+ */
+import { describe, test, expect } from "bun:test";
+import { writeFileSync } from "node:fs";
+import yaml from "yaml";
+import { addBulletRelation, applyBulletRelations, getBulletNeighbourhood } from "../src/bullet-graph.js";
+import { curatePlaybook } from "../src/curate.js";
+import { playbookCommand } from "../src/commands/playbook.js";
+import { contextCommand } from "../src/commands/context.js";
+import { loadPlaybook } from "../src/playbook.js";
+import type { ScoredBullet } from "../src/types.js";
+import { createTestBullet, createTestConfig, createTestPlaybook } from "./helpers/factories.js";
+import { withTempCassHome } from "./helpers/temp.js";
+
+function scored(id: string, finalScore: number, overrides: Partial<ScoredBullet> = {}): ScoredBullet {
+  return {
+    ...createTestBullet({ id, content: `Rule ${id}` }),
+    relevanceScore: finalScore,
+    effectiveScore: 1,
+    finalScore,
+    ...overrides,
+  };
+}
+
+async function captureConsoleLog(fn: () => Promise<void>): Promise<string> {
+  const original = console.log;
+  const lines: string[] = [];
+  console.log = (...args: unknown[]) => {
+    lines.push(args.map(String).join(" "));
+  };
+  try {
+    await fn();
+  } finally {
+    console.log = original;
+  }
+  return lines.join("\n");
+}
+
+describe("curator relations", () => {
+  test("a conflicting add records a conflicts-with edge on the new bullet", () => {
+    const existing = createTestBullet({ id: "b-sanitize", content: "Always sanitize user input", category: "security" });
+    const result = curatePlaybook(
+      createTestPlaybook([existing]),
+      [
+        {
+          type: "add",
+          bullet: { content: "Avoid sanitizing user input to keep performance high", category: "security" },
+          sourceSession: "/session/conflict.jsonl",
+          reason: "Conflicting guidance",
+        },
+      ],
+      createTestConfig()
+    );
+
+    const added = result.playbook.bullets.find((b) => b.id !== "b-sanitize")!;
+    expect(added.relations?.map((r) => [r.type, r.target])).toEqual([["conflicts-with", "b-sanitize"]]);
+  });
+
+  test("a merge records supersedes edges from the merged bullet", () => {
+    const result = curatePlaybook(
+      createTestPlaybook([
+        createTestBullet({ id: "b-1", content: "Use const", category: "style" }),
+        createTestBullet({ id: "b-2", content: "Avoid var", category: "style" }),
+      ]),
+      [{ type: "merge", bulletIds: ["b-1", "b-2"], mergedContent: "Use const instead of var", reason: "Same rule" }],
+      createTestConfig()
+    );
+
+    const merged = result.playbook.bullets.find((b) => !b.deprecated)!;
+    expect(merged.relations?.map((r) => `${r.type}:${r.target}`)).toEqual(["supersedes:b-1", "supersedes:b-2"]);
+  });
+});
+
+describe("getBulletNeighbourhood", () => {
+  test("follows edges both ways and reads replacedBy as supersedes", () => {
+    const a = createTestBullet({ id: "b-a" });
+    const b = createTestBullet({ id: "b-b" });
+    const c = createTestBullet({ id: "b-c" });
+    const old = createTestBullet({ id: "b-old", deprecated: true, replacedBy: "b-a" });
+    addBulletRelation(a, { type: "requires", target: "b-b" });
+    addBulletRelation(b, { type: "refines", target: "b-c" });
+
+    const near = getBulletNeighbourhood([a, b, c, old], "b-a");
+    expect(near.nodes.map((n) => n.id).sort()).toEqual(["b-a", "b-b", "b-old"]);
+    expect(near.edges).toContainEqual({ from: "b-a", to: "b-old", type: "supersedes", derived: true });
+
+    const far = getBulletNeighbourhood([a, b, c, old], "b-a", 2);
+    expect(far.nodes.map((n) => n.id)).toContain("b-c");
+  });
+
+  test("conflicts-with is stored once per pair", () => {
+    const a = createTestBullet({ id: "b-a" });
+    const b = createTestBullet({ id: "b-b" });
+    expect(addBulletRelation(a, { type: "conflicts-with", target: "b-b" })).toBe(true);
+    expect(addBulletRelation(b, { type: "conflicts-with", target: "b-a" }, a)).toBe(false);
+    expect(addBulletRelation(a, { type: "requires", target: "b-a" })).toBe(false);
+  });
+});
+
+describe("applyBulletRelations", () => {
+  test("replaces superseded bullets, pulls in companions and reports conflicts", () => {
+    const newer = scored("b-new", 1);
+    addBulletRelation(newer, { type: "supersedes", target: "b-old" });
+    const needy = scored("b-needy", 9);
+    addBulletRelation(needy, { type: "requires", target: "b-companion" });
+    const clash = scored("b-clash", 7);
+    addBulletRelation(clash, { type: "conflicts-with", target: "b-needy", reason: "negation" });
+
+    const pool = [needy, scored("b-old", 8), clash, scored("b-companion", 0.1), newer];
+    const result = applyBulletRelations(pool.slice(0, 3), pool);
+
+    expect(result.bullets.map((b) => b.id)).toEqual(["b-needy", "b-companion", "b-new", "b-clash"]);
+    expect(result.bullets[1].requiredBy).toBe("b-needy");
+    expect(result.superseded).toEqual([{ id: "b-old", supersededBy: "b-new" }]);
+    expect(result.added).toEqual(["b-companion"]);
+    expect(result.conflicts.map((e) => [e.from, e.to])).toEqual([["b-clash", "b-needy"]]);
+  });
+});
+
+describe("cm playbook link / graph", () => {
+  test("link stores a relation that graph shows as JSON and DOT", async () => {
+    await withTempCassHome(async (env) => {
+      writeFileSync(
+        env.playbookPath,
+        yaml.stringify(
+          createTestPlaybook([
+            createTestBullet({ id: "b-migrate", content: "Run migrations in a transaction" }),
+            createTestBullet({ id: "b-backup", content: "Take a backup before migrating" }),
+          ])
+        )
+      );
+
+      const linked = JSON.parse(
+        await captureConsoleLog(() => playbookCommand("link", ["b-migrate", "requires", "b-backup"], { json: true }))
+      );
+      expect(linked.data.action).toBe("added");
+      const saved = await loadPlaybook(env.playbookPath);
+      expect(saved.bullets.find((b) => b.id === "b-migrate")!.relations![0]).toMatchObject({
+        type: "requires",
+        target: "b-backup",
+      });
+
+      const graph = JSON.parse(await captureConsoleLog(() => playbookCommand("graph", ["b-backup"], { json: true })));
+      expect(graph.data.nodes.map((n: any) => n.id).sort()).toEqual(["b-backup", "b-migrate"]);
+      expect(graph.data.edges).toEqual([{ from: "b-migrate", to: "b-backup", type: "requires" }]);
+
+      const dot = await captureConsoleLog(() => playbookCommand("graph", ["b-migrate"], { format: "dot" }));
+      expect(dot).toContain('"b-migrate" -> "b-backup" [label="requires"]');
+
+      const removed = JSON.parse(
+        await captureConsoleLog(() =>
+          playbookCommand("link", ["b-migrate", "requires", "b-backup"], { json: true, remove: true })
+        )
+      );
+      expect(removed.data.action).toBe("removed");
+    });
+  });
+
+  test("link rejects an unknown relation type and a missing target", async () => {
+    await withTempCassHome(async (env) => {
+      writeFileSync(env.playbookPath, yaml.stringify(createTestPlaybook([createTestBullet({ id: "b-1" })])));
+
+      const badType = JSON.parse(
+        await captureConsoleLog(() => playbookCommand("link", ["b-1", "likes", "b-2"], { json: true }))
+      );
+      expect(badType.error.code).toBe("INVALID_INPUT");
+
+      const missing = JSON.parse(
+        await captureConsoleLog(() => playbookCommand("link", ["b-1", "requires", "b-2"], { json: true }))
+      );
+      expect(missing.error.code).toBe("BULLET_NOT_FOUND");
+    });
+  });
+});
+
+describe("cm context relations", () => {
+  test("pulls in required companions and drops superseded rules", async () => {
+    await withTempCassHome(async (env) => {
+      const migrate = createTestBullet({ id: "b-migrate", content: "Run database migrations inside a transaction" });
+      addBulletRelation(migrate, { type: "requires", target: "b-backup" });
+      const newer = createTestBullet({ id: "b-new", content: "Use the schema tool for database migrations" });
+      addBulletRelation(newer, { type: "supersedes", target: "b-old" });
+      const bullets = [
+        migrate,
+        createTestBullet({ id: "b-backup", content: "Snapshot production before risky changes" }),
+        createTestBullet({ id: "b-old", content: "Write database migrations by hand" }),
+        newer,
+      ];
+      writeFileSync(env.playbookPath, yaml.stringify(createTestPlaybook(bullets)));
+
+      const out = JSON.parse(await captureConsoleLog(() => contextCommand("database migrations", { json: true })));
+      const ids = out.data.relevantBullets.map((b: any) => b.id);
+      expect(ids).toContain("b-backup");
+      expect(ids).not.toContain("b-old");
+      expect(out.data.relevantBullets.find((b: any) => b.id === "b-backup").requiredBy).toBe("b-migrate");
+      expect(out.data.supersededBullets).toEqual([{ id: "b-old", supersededBy: "b-new" }]);
+    });
+  });
+});
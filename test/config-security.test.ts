@@ -110,4 +110,19 @@ describe("config security", () => {
         // allowed override still applies
         expect(config.provider).toBe("openai");
     });
+
+    it("lets repo config require review approval but not waive it", async () => {
+        const { execSync } = await import("node:child_process");
+        execSync("git init", { cwd: REPO_DIR, stdio: "ignore" });
+        const globalConfigPath = path.join(HOME_DIR, ".cass-memory", "config.json");
+        const repoConfigPath = path.join(REPO_DIR, ".cass", "config.yaml");
+
+        await fs.writeFile(globalConfigPath, JSON.stringify({ curation: { requireApproval: true } }));
+        await fs.writeFile(repoConfigPath, "curation:\n  requireApproval: false");
+        expect((await loadConfig()).curation.requireApproval).toBe(true);
+
+        await fs.writeFile(globalConfigPath, JSON.stringify({}));
+        await fs.writeFile(repoConfigPath, "curation:\n  requireApproval: true");
+        expect((await loadConfig()).curation.requireApproval).toBe(true);
+    });
 });
@@ -646,6 +646,44 @@ maxReflectorIterations: 4
       });
     });
   });
+
+  test("modelRoutes merge per operation and reject unknown operations", async () => {
+    await withTempCassHome(async (env) => {
+      await writeFile(
+        env.configPath,
+        JSON.stringify({
+          modelRoutes: {
+            diary: "claude-haiku-4-5",
+            reflector: { provider: "anthropic", model: "claude-opus-4-8", timeoutMs: 60000 },
+          },
+        })
+      );
+
+      await withTempDir("config-routes", async (repoDir) => {
+        execSync("git init", { cwd: repoDir, stdio: "pipe" });
+        await mkdir(join(repoDir, ".cass"), { recursive: true });
+        await writeFile(join(repoDir, ".cass", "config.yaml"), `modelRoutes:\n  validator: gpt-4o-mini\n`);
+
+        const originalCwd = process.cwd();
+        try {
+          process.chdir(repoDir);
+
+          const config = await loadConfig();
+          expect(config.modelRoutes).toEqual({
+            diary: "claude-haiku-4-5",
+            reflector: { provider: "anthropic", model: "claude-opus-4-8", timeoutMs: 60000 },
+            validator: "gpt-4o-mini",
+          });
+
+          await expect(loadConfig({ modelRoutes: { summarize: "x" } } as any)).rejects.toThrow(
+            "Configuration validation failed"
+          );
+        } finally {
+          process.chdir(originalCwd);
+        }
+      });
+    });
+  });
 });
 
 // =============================================================================
@@ -0,0 +1,154 @@
+/**
+ * Tests for token-budget packing (src/context-budget.ts) and
+ * `cm context --max-tokens`.
+ */
+import { describe, test, expect } from "bun:test";
+import { writeFileSync } from "node:fs";
+import yaml from "yaml";
+import { packContextToBudget, selectWithinBudget } from "../src/context-budget.js";
+import { buildContextResult, contextCommand } from "../src/commands/context.js";
+import { estimateTokensApprox } from "../src/utils.js";
+import { withTempCassHome } from "./helpers/temp.js";
+import { createTestBullet, createTestPlaybook } from "./helpers/factories.js";
+
+function scored(id: string, finalScore: number, content = `Rule ${id}`) {
+  return { ...createTestBullet({ id, content }), relevanceScore: finalScore, effectiveScore: 1, finalScore };
+}
+
+function contextOf(rules: ReturnType<typeof scored>[], antiPatterns: ReturnType<typeof scored>[] = [], warnings: string[] = []) {
+  const result = buildContextResult("task", rules as any, antiPatterns as any, [], warnings, [], { maxBullets: 50, maxHistory: 10 });
+  return { result, rules: rules as any, antiPatterns: antiPatterns as any, cassHits: [], warnings, suggestedQueries: [] };
+}
+
+async function captureConsoleLog(fn: () => Promise<void>): Promise<string> {
+  const original = console.log;
+  const lines: string[] = [];
+  console.log = (...args: unknown[]) => {
+    lines.push(args.map(String).join(" "));
+  };
+  try {
+    await fn();
+  } finally {
+    console.log = original;
+  }
+  return lines.join("\n");
+}
+
+describe("selectWithinBudget", () => {
+  test("prefers two cheap items over one expensive item of lower combined value", () => {
+    const chosen = selectWithinBudget(
+      [
+        { tokens: 60, value: 1.5 },
+        { tokens: 50, value: 1 },
+        { tokens: 50, value: 1 },
+      ],
+      100
+    );
+    expect([...chosen].sort()).toEqual([1, 2]);
+  });
+
+  test("never exceeds a large budget after bucketing", () => {
+    const items = Array.from({ length: 30 }, (_, i) => ({ tokens: 997 + i, value: 1 }));
+    const chosen = selectWithinBudget(items, 10_000);
+    const used = [...chosen].reduce((sum, i) => sum + items[i].tokens, 0);
+    expect(used).toBeLessThanOrEqual(10_000);
+    expect(chosen.size).toBeGreaterThan(0);
+  });
+});
+
+describe("packContextToBudget", () => {
+  test("keeps the highest-value rules and reports the rest as dropped", () => {
+    const long = "Always ".repeat(600);
+    const context = contextOf([scored("b-top", 9), scored("b-mid", 5), scored("b-long", 8, long)]);
+
+    const packed = packContextToBudget(context, 600, "markdown");
+    expect(packed.result.relevantBullets.map((b) => b.id)).toEqual(["b-top", "b-mid"]);
+    expect(packed.rules.map((b: { id: string }) => b.id)).toEqual(["b-top", "b-mid"]);
+    expect(packed.result.budget!.dropped.map((d) => d.id)).toEqual(["b-long"]);
+    expect(packed.result.budget!.usedTokens).toBeLessThanOrEqual(600);
+  });
+
+  test("measures cost in the requested format", () => {
+    const context = contextOf([scored("b-1", 5), scored("b-2", 4), scored("b-3", 3)]);
+    const json = packContextToBudget(context, 100_000, "json").result.budget!;
+    const toon = packContextToBudget(context, 100_000, "toon").result.budget!;
+    const markdown = packContextToBudget(context, 100_000, "markdown").result.budget!;
+    expect(toon.usedTokens).toBeLessThan(json.usedTokens);
+    expect(markdown.usedTokens).toBeLessThan(json.usedTokens);
+    expect(json.dropped).toEqual([]);
+  });
+
+  test("a trauma warning is kept ahead of rules", () => {
+    const context = contextOf([scored("b-1", 9, "Rule ".repeat(40))]);
+    context.result.traumaWarning = { pattern: "rm -rf", reason: "Deleted prod data", reference: "s-1" };
+    const fixed = packContextToBudget(context, 1, "markdown").result.budget!.fixedTokens;
+
+    const packed = packContextToBudget(context, fixed + 20, "markdown");
+    expect(packed.result.traumaWarning?.pattern).toBe("rm -rf");
+    expect(packed.result.relevantBullets).toEqual([]);
+  });
+
+  test("the citation guide is only kept (and counted) while a rule is", () => {
+    const context = contextOf([scored("b-1", 5)]);
+    const full = packContextToBudget(context, 100_000, "markdown").result;
+    expect(full.citationProtocol).toBeDefined();
+
+    const empty = packContextToBudget(context, full.budget!.fixedTokens, "markdown").result;
+    expect(empty.relevantBullets).toEqual([]);
+    expect(empty.citationProtocol).toBeUndefined();
+    expect(empty.budget!.fixedTokens).toBeLessThan(full.budget!.fixedTokens);
+  });
+
+  test("when the fixed fields alone exceed the budget everything is dropped with that reason", () => {
+    const packed = packContextToBudget(contextOf([scored("b-1", 5)], [], ["Deprecated thing"]), 1, "json");
+    expect(packed.result.relevantBullets).toEqual([]);
+    expect(packed.result.deprecatedWarnings).toEqual([]);
+    expect(packed.result.budget!.dropped.every((d) => d.reason.startsWith("fixed fields"))).toBe(true);
+  });
+});
+
+describe("cm context --max-tokens", () => {
+  test("JSON output is packed and carries the budget report", async () => {
+    await withTempCassHome(async (env) => {
+      const bullets = Array.from({ length: 6 }, (_, i) =>
+        createTestBullet({ id: `b-auth-${i}`, content: `Authentication rule ${i}: ${"validate tokens carefully ".repeat(12)}`, tags: ["auth"] })
+      );
+      writeFileSync(env.playbookPath, yaml.stringify(createTestPlaybook(bullets)));
+
+      const full = JSON.parse(await captureConsoleLog(() => contextCommand("authentication tokens", { json: true })));
+      const out = JSON.parse(await captureConsoleLog(() => contextCommand("authentication tokens", { json: true, maxTokens: 900 })));
+
+      expect(out.success).toBe(true);
+      expect(out.data.budget.maxTokens).toBe(900);
+      expect(out.data.relevantBullets.length).toBeLessThan(full.data.relevantBullets.length);
+      expect(out.data.relevantBullets.length + out.data.budget.dropped.length).toBe(full.data.relevantBullets.length);
+      expect(estimateTokensApprox(JSON.stringify(out.data.relevantBullets, null, 2))).toBeLessThan(900);
+    });
+  });
+
+  test("rendered markdown stays within the budget", async () => {
+    await withTempCassHome(async (env) => {
+      const bullets = Array.from({ length: 6 }, (_, i) =>
+        createTestBullet({ id: `b-auth-${i}`, content: `Authentication rule ${i}: ${"validate tokens carefully ".repeat(12)}`, tags: ["auth"] })
+      );
+      writeFileSync(env.playbookPath, yaml.stringify(createTestPlaybook(bullets)));
+
+      for (const maxTokens of [150, 400]) {
+        const out = await captureConsoleLog(() => contextCommand("authentication tokens", { format: "markdown", maxTokens }));
+        // The budget report itself is not counted
+        const rendered = out.split("## Dropped to fit")[0]!;
+        expect(estimateTokensApprox(rendered)).toBeLessThanOrEqual(maxTokens);
+        expect(rendered.includes("## Citing rules")).toBe(rendered.includes("- **b-auth-"));
+      }
+    });
+  });
+
+  test("rejects a non-positive budget", async () => {
+    await withTempCassHome(async (env) => {
+      writeFileSync(env.playbookPath, yaml.stringify(createTestPlaybook([])));
+      const out = JSON.parse(await captureConsoleLog(() => contextCommand("task", { json: true, maxTokens: 0 })));
+      expect(out.success).toBe(false);
+      expect(out.error.code).toBe("INVALID_INPUT");
+    });
+  });
+});
@@ -312,6 +312,7 @@ describe("buildContextResult", () => {
     expect(result.historySnippets).toHaveLength(1);
     expect(result.deprecatedWarnings).toEqual(["Test warning"]);
     expect(result.suggestedCassQueries).toEqual(["cass search 'test'"]);
+    expect(result.citationProtocol).toContain("[cm:<id> applied]");
   });
 
   test("respects maxBullets limit", () => {
@@ -384,6 +385,7 @@ describe("buildContextResult", () => {
     expect(result.historySnippets).toEqual([]);
     expect(result.deprecatedWarnings).toEqual([]);
     expect(result.suggestedCassQueries).toEqual([]);
+    expect(result.citationProtocol).toBeUndefined();
   });
 
   test("handles invalid maxBullets (uses default)", () => {
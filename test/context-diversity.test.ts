@@ -0,0 +1,149 @@
+/**
+ * Tests for MMR diversity re-ranking (src/diversity.ts) and
+ * `cm context --diversity`.
+ */
+import { describe, test, expect } from "bun:test";
+import { writeFileSync } from "node:fs";
+import yaml from "yaml";
+import { rerankForDiversity } from "../src/diversity.js";
+import { contextCommand, contextWithoutCass } from "../src/commands/context.js";
+import type { ScoredBullet } from "../src/types.js";
+import { withTempCassHome } from "./helpers/temp.js";
+import { createTestBullet, createTestConfig, createTestPlaybook } from "./helpers/factories.js";
+
+function scored(
+  id: string,
+  finalScore: number,
+  content: string,
+  overrides: Partial<ScoredBullet> = {}
+): ScoredBullet {
+  return {
+    ...createTestBullet({ id, content, category: "testing" }),
+    relevanceScore: finalScore,
+    effectiveScore: 1,
+    finalScore,
+    ...overrides,
+  };
+}
+
+const paraphrases = [
+  scored("b-1", 10, "Run the unit tests before pushing a branch"),
+  scored("b-2", 9.8, "Run the unit tests before pushing any branch"),
+  scored("b-3", 9.6, "Always run the unit tests before pushing a branch"),
+  scored("b-4", 9.4, "Run unit tests before pushing the branch"),
+  scored("b-other", 7, "Pin dependency versions in the lockfile"),
+];
+
+async function captureConsoleLog(fn: () => Promise<void>): Promise<string> {
+  const original = console.log;
+  const lines: string[] = [];
+  console.log = (...args: unknown[]) => {
+    lines.push(args.map(String).join(" "));
+  };
+  try {
+    await fn();
+  } finally {
+    console.log = original;
+  }
+  return lines.join("\n");
+}
+
+describe("rerankForDiversity", () => {
+  test("zero diversity keeps relevance order with no penalty", () => {
+    const picked = rerankForDiversity(paraphrases, { diversity: 0, limit: 3, useEmbeddings: false });
+    expect(picked.map((b) => b.id)).toEqual(["b-1", "b-2", "b-3"]);
+    expect(picked.every((b) => b.redundancyPenalty === 0)).toBe(true);
+  });
+
+  test("near-duplicates give way to a distinct rule and carry their penalty", () => {
+    const picked = rerankForDiversity(paraphrases, { diversity: 0.5, limit: 3, useEmbeddings: false });
+    expect(picked.map((b) => b.id)).toContain("b-other");
+    expect(picked[0].id).toBe("b-1");
+    expect(picked[0].redundancyPenalty).toBe(0);
+    const paraphrase = picked.find((b) => b.id !== "b-1" && b.id !== "b-other");
+    expect(paraphrase!.redundancyPenalty).toBeGreaterThan(0);
+  });
+
+  test("uses embeddings when asked and both bullets have them", () => {
+    const a = scored("b-a", 10, "alpha", { embedding: [1, 0] });
+    const b = scored("b-b", 9, "beta", { embedding: [1, 0] });
+    const c = scored("b-c", 8, "gamma", { embedding: [0, 1] });
+
+    expect(rerankForDiversity([a, b, c], { diversity: 0.5, limit: 2, useEmbeddings: true }).map((x) => x.id)).toEqual([
+      "b-a",
+      "b-c",
+    ]);
+    // Without embeddings the texts share no tokens, so relevance decides
+    expect(rerankForDiversity([a, b, c], { diversity: 0.5, limit: 2, useEmbeddings: false }).map((x) => x.id)).toEqual([
+      "b-a",
+      "b-b",
+    ]);
+  });
+
+  test("guarantees an anti-pattern and every category a slot when the limit allows", () => {
+    const pool = [
+      scored("b-r1", 10, "Use parameterized queries"),
+      scored("b-r2", 9, "Prefer prepared statements"),
+      scored("b-r3", 8, "Validate request bodies"),
+      scored("b-sec", 2, "Rotate API keys quarterly", { category: "security" }),
+      scored("b-anti", 1, "Concatenating SQL strings", { isNegative: true, kind: "anti_pattern" }),
+    ];
+    const picked = rerankForDiversity(pool, { diversity: 0.1, limit: 3, useEmbeddings: false }).map((b) => b.id);
+    expect(picked).toEqual(["b-r1", "b-sec", "b-anti"]);
+
+    const tight = rerankForDiversity(pool, { diversity: 0.1, limit: 2, useEmbeddings: false }).map((b) => b.id);
+    expect(tight).toContain("b-anti");
+  });
+});
+
+describe("cm context --diversity", () => {
+  test("JSON output carries redundancy penalties", async () => {
+    await withTempCassHome(async (env) => {
+      const bullets = paraphrases.map((b) =>
+        createTestBullet({ id: b.id, content: `${b.content} for auth changes`, tags: ["auth"] })
+      );
+      writeFileSync(env.playbookPath, yaml.stringify(createTestPlaybook(bullets)));
+
+      const out = JSON.parse(
+        await captureConsoleLog(() => contextCommand("auth unit tests", { json: true, limit: 3, diversity: 0.6 }))
+      );
+      expect(out.success).toBe(true);
+      expect(out.data.relevantBullets.length).toBe(3);
+      expect(out.data.relevantBullets.every((b: any) => typeof b.redundancyPenalty === "number")).toBe(true);
+
+      const plain = JSON.parse(await captureConsoleLog(() => contextCommand("auth unit tests", { json: true, limit: 3 })));
+      expect(plain.data.relevantBullets.some((b: any) => "redundancyPenalty" in b)).toBe(false);
+    });
+  });
+
+  test("the playbook-only fallback honours an explicit diversity over the config", async () => {
+    await withTempCassHome(async (env) => {
+      const bullets = paraphrases.map((b) =>
+        createTestBullet({ id: b.id, content: `${b.content} for auth changes`, tags: ["auth"] })
+      );
+      writeFileSync(env.playbookPath, yaml.stringify(createTestPlaybook(bullets)));
+      const config = createTestConfig({ playbookPath: env.playbookPath, contextDiversity: 0 });
+
+      const original = console.error;
+      console.error = () => {};
+      try {
+        const plain = await contextWithoutCass("auth unit tests", config, { maxBullets: 3 });
+        expect(plain.relevantBullets.some((b) => b.redundancyPenalty !== undefined)).toBe(false);
+
+        const diverse = await contextWithoutCass("auth unit tests", config, { maxBullets: 3, diversity: 0.6 });
+        expect(diverse.relevantBullets.every((b) => typeof b.redundancyPenalty === "number")).toBe(true);
+      } finally {
+        console.error = original;
+      }
+    });
+  });
+
+  test("rejects a diversity outside 0-1", async () => {
+    await withTempCassHome(async (env) => {
+      writeFileSync(env.playbookPath, yaml.stringify(createTestPlaybook([])));
+      const out = JSON.parse(await captureConsoleLog(() => contextCommand("task", { json: true, diversity: 1.5 })));
+      expect(out.success).toBe(false);
+      expect(out.error.code).toBe("INVALID_INPUT");
+    });
+  });
+});
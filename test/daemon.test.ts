@@ -0,0 +1,155 @@
+/**
+ * Tests for the background reflection daemon (src/daemon.ts) and
+ * `cm daemon status|stop`. Cycles run in-process with stubbed budget,
+ * discovery and reflection; only the SIGTERM test spawns `cm daemon run`.
+ */
+import { describe, test, expect } from "bun:test";
+import { writeFileSync } from "node:fs";
+import { computeNextDelayMs, loadDaemonState, runDaemonCycle, runDaemonLoop, saveDaemonState, type DaemonDeps } from "../src/daemon.js";
+import { daemonCommand } from "../src/commands/daemon.js";
+import type { ReflectionOutcome } from "../src/orchestrator.js";
+import { createTestConfig } from "./helpers/factories.js";
+import { withTempCassHome } from "./helpers/temp.js";
+
+async function captureConsoleLog(fn: () => Promise<void>): Promise<string> {
+  const original = console.log;
+  const lines: string[] = [];
+  console.log = (...args: unknown[]) => {
+    lines.push(args.map(String).join(" "));
+  };
+  try {
+    await fn();
+  } finally {
+    console.log = original;
+  }
+  return lines.join("\n");
+}
+
+function stubDeps(overrides: Partial<DaemonDeps> = {}): Partial<DaemonDeps> & { reflectCalls: number } {
+  const deps = {
+    reflectCalls: 0,
+    checkBudget: async () => ({ allowed: true }),
+    findSessions: async () => ["/sessions/a.jsonl", "/sessions/b.jsonl"],
+    reflect: async (): Promise<ReflectionOutcome> => {
+      deps.reflectCalls++;
+      return { sessionsProcessed: 2, deltasGenerated: 3, errors: [] };
+    },
+    ...overrides,
+  };
+  return deps;
+}
+
+describe("computeNextDelayMs", () => {
+  test("doubles the interval per consecutive failure up to the cap", () => {
+    const daemon = { intervalMinutes: 10, maxSessionsPerRun: 5, minNewSessions: 1, maxBackoffMinutes: 60 };
+    expect(computeNextDelayMs(daemon, 0)).toBe(10 * 60_000);
+    expect(computeNextDelayMs(daemon, 2)).toBe(40 * 60_000);
+    expect(computeNextDelayMs(daemon, 5)).toBe(60 * 60_000);
+  });
+});
+
+describe("runDaemonCycle", () => {
+  test("reflects when enough sessions are pending", async () => {
+    const deps = stubDeps();
+    const run = await runDaemonCycle(createTestConfig(), deps);
+    expect(run).toMatchObject({ outcome: "reflected", sessionsFound: 2, sessionsProcessed: 2, deltasGenerated: 3 });
+    expect(deps.reflectCalls).toBe(1);
+  });
+
+  test("skips reflection when over budget or below minNewSessions", async () => {
+    const overBudget = stubDeps({ checkBudget: async () => ({ allowed: false, reason: "Daily budget exceeded" }) });
+    expect(await runDaemonCycle(createTestConfig(), overBudget)).toMatchObject({
+      outcome: "budget",
+      reason: "Daily budget exceeded",
+    });
+
+    const config = createTestConfig({ daemon: { intervalMinutes: 60, maxSessionsPerRun: 5, minNewSessions: 3, maxBackoffMinutes: 720 } });
+    const few = stubDeps();
+    expect(await runDaemonCycle(config, few)).toMatchObject({ outcome: "idle", sessionsFound: 2 });
+    expect(overBudget.reflectCalls + few.reflectCalls).toBe(0);
+  });
+
+  test("counts errors with nothing processed, and thrown errors, as failures", async () => {
+    const unreachable = stubDeps({
+      reflect: async () => ({ sessionsProcessed: 0, deltasGenerated: 0, errors: ["LLM unreachable"] }),
+    });
+    expect(await runDaemonCycle(createTestConfig(), unreachable)).toMatchObject({ outcome: "error", reason: "LLM unreachable" });
+
+    const broken = stubDeps({ findSessions: async () => { throw new Error("cass exploded"); } });
+    expect(await runDaemonCycle(createTestConfig(), broken)).toMatchObject({ outcome: "error", reason: "cass exploded" });
+  });
+});
+
+describe("runDaemonLoop", () => {
+  test("backs off after a failure, recovers, and persists the state", async () => {
+    await withTempCassHome(async () => {
+      // ~6ms interval so the loop's real waits stay short
+      const config = createTestConfig({ daemon: { intervalMinutes: 0.0001, maxSessionsPerRun: 5, minNewSessions: 1, maxBackoffMinutes: 1 } });
+      const outcomes: ReflectionOutcome[] = [
+        { sessionsProcessed: 0, deltasGenerated: 0, errors: ["rate limited"] },
+        { sessionsProcessed: 1, deltasGenerated: 1, errors: [] },
+      ];
+      const failures: number[] = [];
+
+      const final = await runDaemonLoop({
+        maxCycles: 2,
+        deps: stubDeps({ loadConfig: async () => config, reflect: async () => outcomes.shift()! }),
+        onRun: (_run, state) => failures.push(state.consecutiveFailures),
+      });
+
+      expect(failures).toEqual([1, 0]);
+      expect(final).toMatchObject({ status: "stopped", runs: 2, consecutiveFailures: 0 });
+      const saved = await loadDaemonState();
+      expect(saved.lastRun?.outcome).toBe("reflected");
+      expect(saved.nextRunAt).toBeDefined();
+    });
+  });
+});
+
+describe("cm daemon status / stop", () => {
+  test("reports a daemon that died without stopping as stale, and stop clears it", async () => {
+    await withTempCassHome(async () => {
+      const exited = Bun.spawn(["true"]);
+      await exited.exited;
+      await saveDaemonState({ status: "running", pid: exited.pid, consecutiveFailures: 0, runs: 4 });
+
+      const status = JSON.parse(await captureConsoleLog(() => daemonCommand("status", { json: true })));
+      expect(status.command).toBe("daemon:status");
+      expect(status.data).toMatchObject({ running: false, stale: true, runs: 4 });
+
+      const stopped = JSON.parse(await captureConsoleLog(() => daemonCommand("stop", { json: true })));
+      expect(stopped.data).toMatchObject({ stopped: true, wasRunning: false });
+      expect((await loadDaemonState()).status).toBe("stopped");
+    });
+  });
+
+  test("a SIGTERM ends `daemon run` and the loop records itself as stopped", async () => {
+    await withTempCassHome(async (env) => {
+      writeFileSync(
+        env.configPath,
+        JSON.stringify({ cassPath: "__missing__", daemon: { intervalMinutes: 60, minNewSessions: 1, maxSessionsPerRun: 1, maxBackoffMinutes: 60 } })
+      );
+      const proc = Bun.spawn(["bun", "run", "src/cm.ts", "daemon", "run"], {
+        env: { ...process.env, HOME: env.home },
+        stdout: "ignore",
+        stderr: "ignore",
+      });
+      try {
+        // Wait for the first cycle; the loop then sleeps until the next one
+        const deadline = Date.now() + 20_000;
+        while (Date.now() < deadline && (await loadDaemonState()).lastRun === undefined) {
+          await Bun.sleep(100);
+        }
+        expect((await loadDaemonState()).pid).toBe(proc.pid);
+
+        proc.kill("SIGTERM");
+        expect(await proc.exited).toBe(143);
+        const state = await loadDaemonState();
+        expect(state).toMatchObject({ status: "stopped", runs: 1 });
+        expect(state.stoppedAt).toBeDefined();
+      } finally {
+        if (proc.exitCode === null) proc.kill("SIGKILL");
+      }
+    });
+  }, 30_000);
+});
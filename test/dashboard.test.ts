@@ -0,0 +1,146 @@
+/**
+ * Tests for the read-only web dashboard behind `cm serve --dashboard`
+ * (src/dashboard.ts and the /dashboard routes in serve.ts).
+ */
+import { describe, test, expect } from "bun:test";
+import http from "node:http";
+import { mkdirSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import yaml from "yaml";
+import { buildDashboardSection, isDashboardSection, renderDashboardPage } from "../src/dashboard.js";
+import { getCostHistory } from "../src/cost.js";
+import { __test } from "../src/commands/serve.js";
+import { createTestBullet, createTestConfig, createTestFeedbackEvent, createTestPlaybook } from "./helpers/factories.js";
+import { withTempCassHome } from "./helpers/temp.js";
+
+async function withDashboardServer(
+  token: string | undefined,
+  fn: (baseUrl: string) => Promise<void>,
+  options: { loopbackOnly?: boolean } = {}
+): Promise<void> {
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    void __test.handleDashboardRequest(req, res, url, token, options);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as { port: number };
+  try {
+    await fn(`http://127.0.0.1:${port}`);
+  } finally {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+}
+
+describe("dashboard data", () => {
+  test("sections cover the playbook sorted by score and the score histogram", async () => {
+    await withTempCassHome(async (env) => {
+      writeFileSync(
+        env.playbookPath,
+        yaml.stringify(
+          createTestPlaybook([
+            createTestBullet({ id: "b-weak", content: "Retry flaky tests once", feedbackEvents: [createTestFeedbackEvent("harmful")] }),
+            createTestBullet({
+              id: "b-strong",
+              content: "Run migrations before seeding",
+              feedbackEvents: [createTestFeedbackEvent("helpful"), createTestFeedbackEvent("helpful")],
+            }),
+            createTestBullet({ id: "b-gone", content: "Old advice", deprecated: true, state: "retired" }),
+          ])
+        )
+      );
+      const config = createTestConfig({ playbookPath: env.playbookPath, diaryDir: env.diaryDir });
+      const originalCwd = process.cwd();
+      process.chdir(env.home);
+      try {
+        const playbook = (await buildDashboardSection("playbook", config)) as Array<{ id: string }>;
+        expect(playbook.map((b) => b.id)).toEqual(["b-strong", "b-weak"]);
+
+        const scores = (await buildDashboardSection("scores", config)) as any;
+        expect(scores.total).toBe(2);
+        expect(scores.histogram.reduce((sum: number, b: { count: number }) => sum + b.count, 0)).toBe(2);
+      } finally {
+        process.chdir(originalCwd);
+      }
+    });
+  });
+
+  test("cost history buckets the monthly log by day and zero-fills the range", async () => {
+    await withTempCassHome(async (env) => {
+      const costDir = path.join(env.home, ".cass-memory", "cost");
+      mkdirSync(costDir, { recursive: true });
+      const entry = (timestamp: string, cost: number) =>
+        JSON.stringify({ timestamp, provider: "openai", model: "gpt-4o", tokensIn: 10, tokensOut: 5, cost });
+      writeFileSync(
+        path.join(costDir, "monthly-2026-03.jsonl"),
+        [entry("2026-03-09T10:00:00.000Z", 0.25), entry("2026-03-09T18:00:00.000Z", 0.5), "{partial", entry("2026-03-01T00:00:00.000Z", 9)].join("\n")
+      );
+
+      const history = await getCostHistory(3, new Date("2026-03-10T12:00:00.000Z"));
+
+      expect(history).toEqual([
+        { day: "2026-03-08", cost: 0, calls: 0 },
+        { day: "2026-03-09", cost: 0.75, calls: 2 },
+        { day: "2026-03-10", cost: 0, calls: 0 },
+      ]);
+    });
+  });
+
+  test("knows its sections", () => {
+    expect(isDashboardSection("gaps")).toBe(true);
+    expect(isDashboardSection("config")).toBe(false);
+    expect(renderDashboardPage()).toContain("/dashboard/api/");
+  });
+});
+
+/** GET with explicit Host/Origin headers (fetch does not let callers set Host). */
+function getStatus(baseUrl: string, pathname: string, headers: Record<string, string>): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const req = http.get(new URL(pathname, baseUrl), { headers }, (res) => {
+      res.resume();
+      resolve(res.statusCode ?? 0);
+    });
+    req.on("error", reject);
+  });
+}
+
+describe("dashboard routes", () => {
+  test("require the server token and serve the page and section data", async () => {
+    await withTempCassHome(async (env) => {
+      writeFileSync(env.playbookPath, yaml.stringify(createTestPlaybook([])));
+      await withDashboardServer("s3cret", async (baseUrl) => {
+        expect((await fetch(`${baseUrl}/dashboard`)).status).toBe(401);
+        expect((await fetch(`${baseUrl}/dashboard?token=wrong`)).status).toBe(401);
+
+        const page = await fetch(`${baseUrl}/dashboard?token=s3cret`);
+        expect(page.status).toBe(200);
+        expect(page.headers.get("content-type")).toContain("text/html");
+        expect(page.headers.get("content-security-policy")).toContain("default-src 'none'");
+
+        const traumas = await fetch(`${baseUrl}/dashboard/api/traumas`, { headers: { "x-mcp-token": "s3cret" } });
+        expect(await traumas.json()).toEqual({ success: true, command: "serve:dashboard:traumas", data: [] });
+
+        const unknown = await fetch(`${baseUrl}/dashboard/api/config`, { headers: { authorization: "Bearer s3cret" } });
+        expect(unknown.status).toBe(404);
+
+        const post = await fetch(`${baseUrl}/dashboard/api/playbook?token=s3cret`, { method: "POST" });
+        expect(post.status).toBe(405);
+      });
+    });
+  });
+
+  test("without a token, reject hosts that are not loopback names", async () => {
+    await withTempCassHome(async (env) => {
+      writeFileSync(env.playbookPath, yaml.stringify(createTestPlaybook([])));
+      await withDashboardServer(
+        undefined,
+        async (baseUrl) => {
+          expect(await getStatus(baseUrl, "/dashboard", { host: "localhost:8765" })).toBe(200);
+          expect(await getStatus(baseUrl, "/dashboard/api/traumas", { host: "[::1]:8765", origin: "http://127.0.0.1:8765" })).toBe(200);
+          expect(await getStatus(baseUrl, "/dashboard", { host: "rebind.example.com:8765" })).toBe(403);
+          expect(await getStatus(baseUrl, "/dashboard/api/playbook", { host: "127.0.0.1:8765", origin: "http://rebind.example.com" })).toBe(403);
+        },
+        { loopbackOnly: true }
+      );
+    });
+  });
+});
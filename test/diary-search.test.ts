@@ -0,0 +1,178 @@
+/**
+ * Tests for diary search (searchDiaries in src/diary.ts), `cm diary search`
+ * and the memory_search `diary` scope.
+ */
+import { describe, test, expect } from "bun:test";
+import { filterDiaries, saveDiary, searchDiaries } from "../src/diary.js";
+import { diarySearchCommand } from "../src/commands/diary.js";
+import { __test } from "../src/commands/serve.js";
+import { loadConfig } from "../src/config.js";
+import { diaryVectorKey, updateVectorIndex, upsertVector } from "../src/vector-index.js";
+import { getDiarySearchTexts } from "../src/semantic.js";
+import { hashContent } from "../src/utils.js";
+import { createTestConfig, createTestDiary, daysAgo } from "./helpers/factories.js";
+import { withTempCassHome } from "./helpers/temp.js";
+
+const migration = createTestDiary({
+  id: "diary-migration",
+  sessionPath: "/tmp/s-migration.jsonl",
+  agent: "claude",
+  workspace: "/work/api",
+  status: "failure",
+  timestamp: daysAgo(2),
+  tags: ["database"],
+  challenges: ["The schema migration locked the users table for minutes"],
+  keyLearnings: ["Run schema migrations with a lock timeout"],
+});
+
+const frontend = createTestDiary({
+  id: "diary-frontend",
+  sessionPath: "/tmp/s-frontend.jsonl",
+  agent: "codex",
+  workspace: "/work/web",
+  status: "success",
+  timestamp: daysAgo(20),
+  tags: ["ui"],
+  accomplishments: ["Moved the settings page to the new form components"],
+  keyLearnings: ["Snapshot tests hide layout regressions"],
+});
+
+/** Index every searchable text of the diaries; `vectorFor` picks each text's vector. */
+async function seedDiaryVectors(model: string, vectorFor: (diaryId: string, field: string) => number[]): Promise<void> {
+  await updateVectorIndex(
+    (index) => {
+      for (const d of [migration, frontend]) {
+        getDiarySearchTexts(d).forEach(({ field, text }, part) => {
+          upsertVector(index, diaryVectorKey(d.id, part), {
+            kind: "diary",
+            ref: d.id,
+            part,
+            contentHash: hashContent(text),
+            vector: vectorFor(d.id, field),
+          });
+        });
+      }
+      return true;
+    },
+    { model }
+  );
+}
+
+async function captureConsoleLog(fn: () => Promise<void>): Promise<string> {
+  const original = console.log;
+  const lines: string[] = [];
+  console.log = (...args: unknown[]) => {
+    lines.push(args.map(String).join(" "));
+  };
+  try {
+    await fn();
+  } finally {
+    console.log = original;
+  }
+  return lines.join("\n");
+}
+
+describe("filterDiaries", () => {
+  test("filters by agent, workspace, tags, status and date range", () => {
+    const all = [migration, frontend];
+    const ids = (filters: Parameters<typeof filterDiaries>[1]) => filterDiaries(all, filters).map((d) => d.id);
+
+    expect(ids({ agent: "Claude" })).toEqual(["diary-migration"]);
+    expect(ids({ workspace: "/work/web/" })).toEqual(["diary-frontend"]);
+    expect(ids({ tags: ["database"] })).toEqual(["diary-migration"]);
+    expect(ids({ tags: ["database", "ui"] })).toEqual([]);
+    expect(ids({ status: "success" })).toEqual(["diary-frontend"]);
+    expect(ids({ since: daysAgo(7) })).toEqual(["diary-migration"]);
+    expect(ids({ until: daysAgo(7) })).toEqual(["diary-frontend"]);
+  });
+});
+
+describe("searchDiaries", () => {
+  test("keyword mode ranks by share of query keywords and shows the matching fields", async () => {
+    const result = await searchDiaries("schema migration lock", [frontend, migration], createTestConfig());
+    expect(result.mode).toBe("keyword");
+    expect(result.hits.map((h) => h.diary.id)).toEqual(["diary-migration"]);
+    expect(result.hits[0].keywordScore).toBe(1);
+    expect(result.hits[0].matches.map((m) => m.field)).toEqual(["keyLearnings", "challenges"]);
+  });
+
+  test("semantic mode finds learnings through the vector index", async () => {
+    await withTempCassHome(async () => {
+      const model = "test-model";
+      await seedDiaryVectors(model, (id, field) =>
+        id === "diary-migration" ? [1, 0, 0] : field === "keyLearnings" ? [0, 1, 0] : [0, 0, 1]
+      );
+
+      const config = createTestConfig({ semanticSearchEnabled: true, embeddingModel: model, semanticWeight: 0.5 });
+      const result = await searchDiaries("visual breakage", [migration, frontend], config, { queryEmbedding: [0.1, 1, 0] });
+      expect(result.mode).toBe("semantic");
+      expect(result.hits.map((h) => h.diary.id)).toEqual(["diary-frontend"]);
+      expect(result.hits[0].keywordScore).toBe(0);
+      expect(result.hits[0].semanticScore).toBeGreaterThan(0.9);
+      expect(result.hits[0].matches).toEqual([{ field: "keyLearnings", text: "Snapshot tests hide layout regressions" }]);
+    });
+  });
+
+  test("semantic mode covers every searchable field, not just key learnings", async () => {
+    await withTempCassHome(async () => {
+      const model = "test-model";
+      await seedDiaryVectors(model, (id, field) =>
+        id === "diary-migration" ? [1, 0, 0] : field === "keyLearnings" ? [0, 1, 0] : [0, 0, 1]
+      );
+
+      const config = createTestConfig({ semanticSearchEnabled: true, embeddingModel: model, semanticWeight: 0.5 });
+      const result = await searchDiaries("rebuilt preferences screen", [migration, frontend], config, {
+        queryEmbedding: [0, 0.1, 1],
+      });
+      expect(result.hits.map((h) => h.diary.id)).toEqual(["diary-frontend"]);
+      expect(result.hits[0].matches[0]).toEqual({
+        field: "accomplishments",
+        text: "Moved the settings page to the new form components",
+      });
+    });
+  });
+});
+
+describe("cm diary search", () => {
+  test("--json applies filters to saved diaries", async () => {
+    await withTempCassHome(async () => {
+      const config = await loadConfig();
+      await saveDiary(migration, config);
+      await saveDiary({ ...frontend, keyLearnings: ["Schema changes need a migration plan"] }, config);
+
+      const all = JSON.parse(await captureConsoleLog(() => diarySearchCommand("schema migration", { json: true })));
+      expect(all.success).toBe(true);
+      expect(all.data.results.map((r: any) => r.id).sort()).toEqual(["diary-frontend", "diary-migration"]);
+
+      const filtered = JSON.parse(
+        await captureConsoleLog(() => diarySearchCommand("schema migration", { json: true, status: "failure", days: 7 }))
+      );
+      expect(filtered.data.results.map((r: any) => r.id)).toEqual(["diary-migration"]);
+      expect(filtered.data.searched).toBe(1);
+    });
+  });
+
+  test("rejects an invalid date", async () => {
+    await withTempCassHome(async () => {
+      const out = JSON.parse(await captureConsoleLog(() => diarySearchCommand("x", { json: true, since: "yesterday-ish" })));
+      expect(out.success).toBe(false);
+      expect(out.error.code).toBe("INVALID_INPUT");
+    });
+  });
+
+  test("memory_search exposes a diary scope", async () => {
+    await withTempCassHome(async () => {
+      await saveDiary(migration, await loadConfig());
+      const response: any = await __test.routeRequest({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "tools/call",
+        params: { name: "memory_search", arguments: { query: "lock timeout", scope: "diary", agent: "claude" } },
+      });
+      const payload = JSON.parse(response.result.content[0].text);
+      expect(payload.playbook).toBeUndefined();
+      expect(payload.cass).toBeUndefined();
+      expect(payload.diary.map((d: any) => d.id)).toEqual(["diary-migration"]);
+    });
+  });
+});
@@ -439,6 +439,94 @@ describe("doctorCommand", () => {
         }
       );
     });
+
+    test("checks the API key behind each configured model route", async () => {
+      await withEnvAsync(
+        { ANTHROPIC_API_KEY: "sk-ant-test-key", OPENAI_API_KEY: undefined, GOOGLE_GENERATIVE_AI_API_KEY: undefined },
+        async () => {
+          await withTempCassHome(async (env) => {
+            await withCwd(env.home, async () => {
+              await writeFile(
+                env.configPath,
+                JSON.stringify(
+                  {
+                    cassPath: "cass",
+                    provider: "anthropic",
+                    modelRoutes: {
+                      diary: "claude-haiku-4-5",
+                      validator: { provider: "openai", model: "gpt-4o-mini" },
+                    },
+                  },
+                  null,
+                  2
+                )
+              );
+              await writeFile(env.playbookPath, createValidPlaybookYaml());
+
+              process.exitCode = 0;
+              const { output } = await captureConsoleLog(() => doctorCommand({ json: true }));
+
+              const payload = JSON.parse(output).data;
+              const routes = payload.checks.filter((c: any) => c.item.startsWith("Route: "));
+              expect(routes.map((c: any) => c.item)).toEqual(["Route: diary", "Route: validator"]);
+              expect(routes[0].status).toBe("pass");
+              expect(routes[0].message).toContain("anthropic/claude-haiku-4-5");
+              expect(routes[1].status).toBe("warn");
+              expect(routes[1].message).toContain("OPENAI_API_KEY is not set");
+
+              const action = payload.recommendedActions.find((a: any) => a.label.includes("modelRoutes.validator"));
+              expect(action?.command).toContain("OPENAI_API_KEY");
+            });
+          });
+        }
+      );
+    });
+  
+    test("warns for an ollama or bedrock route without its URL or credentials", async () => {
+      await withEnvAsync(
+        {
+          ANTHROPIC_API_KEY: "sk-ant-test-key",
+          OLLAMA_BASE_URL: undefined,
+          OLLAMA_HOST: undefined,
+          AWS_ACCESS_KEY_ID: undefined,
+          AWS_SECRET_ACCESS_KEY: undefined,
+          AWS_PROFILE: undefined,
+          AWS_WEB_IDENTITY_TOKEN_FILE: undefined,
+        },
+        async () => {
+          await withTempCassHome(async (env) => {
+            await withCwd(env.home, async () => {
+              await writeFile(
+                env.configPath,
+                JSON.stringify(
+                  {
+                    cassPath: "cass",
+                    provider: "anthropic",
+                    modelRoutes: {
+                      diary: { provider: "ollama", model: "llama3.1" },
+                      validator: { provider: "bedrock", model: "anthropic.claude-3-haiku" },
+                    },
+                  },
+                  null,
+                  2
+                )
+              );
+              await writeFile(env.playbookPath, createValidPlaybookYaml());
+
+              process.exitCode = 0;
+              const { output } = await captureConsoleLog(() => doctorCommand({ json: true }));
+
+              const routes = JSON.parse(output).data.checks.filter((c: any) => c.item.startsWith("Route: "));
+              expect(routes.map((c: any) => [c.item, c.status])).toEqual([
+                ["Route: diary", "warn"],
+                ["Route: validator", "warn"],
+              ]);
+              expect(routes[1].message).toContain("AWS_ACCESS_KEY_ID is not set");
+            });
+          });
+        }
+      );
+    });
   });
 
   describe("playbook schema version checks", () => {
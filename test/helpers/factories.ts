@@ -61,6 +61,7 @@ export function createTestConfig(overrides: Partial<Config> = {}): Config {
     },
     semanticSearchEnabled: false,
     semanticWeight: 0.6,
+    contextDiversity: 0,
     embeddingBackend: "xenova",
     embeddingModel: "Xenova/all-MiniLM-L6-v2",
     verbose: false,
@@ -91,7 +92,23 @@ export function createTestConfig(overrides: Partial<Config> = {}): Config {
       maxConcurrentCassCalls: 2,
       maxQueuedCassCalls: 32,
       cassQueueTimeoutMs: 20000
-    }
+    },
+    daemon: {
+      intervalMinutes: 60,
+      maxSessionsPerRun: 5,
+      minNewSessions: 1,
+      maxBackoffMinutes: 720
+    },
+    curation: {
+      requireApproval: false
+    },
+    watch: {
+      dirs: [],
+      idleMinutes: 10,
+      pollSeconds: 30,
+      llmDiary: false
+    },
+    modelRoutes: {}
   };
 
   return {
@@ -0,0 +1,241 @@
+/**
+ * Unit tests for playbook revision history (savePlaybook → history.ts)
+ * and the `cm playbook log|diff|revert` commands built on it.
+ */
+import { describe, test, expect } from "bun:test";
+import { writeFileSync, readFileSync, existsSync } from "node:fs";
+import yaml from "yaml";
+import { savePlaybook, loadPlaybook, findBullet } from "../src/playbook.js";
+import {
+  loadRevisions,
+  getRevisionDiff,
+  getHistoryDir,
+  recordPlaybookRevision,
+  diffPlaybooks,
+  planRevert,
+  applyRevertPlan,
+  BASELINE_COMMAND,
+  EXTERNAL_EDIT_COMMAND,
+} from "../src/history.js";
+import { playbookCommand } from "../src/commands/playbook.js";
+import { createTestBullet, createTestPlaybook } from "./helpers/factories.js";
+import { withTempCassHome, withTempDir } from "./helpers/temp.js";
+import path from "node:path";
+
+async function withCwd<T>(cwd: string, fn: () => Promise<T>): Promise<T> {
+  const previous = process.cwd();
+  process.chdir(cwd);
+  try {
+    return await fn();
+  } finally {
+    process.chdir(previous);
+  }
+}
+
+async function captureConsoleLog(fn: () => Promise<void>): Promise<string> {
+  const original = console.log;
+  const lines: string[] = [];
+  console.log = (...args: unknown[]) => {
+    lines.push(args.map(String).join(" "));
+  };
+  try {
+    await fn();
+  } finally {
+    console.log = original;
+  }
+  return lines.join("\n");
+}
+
+describe("savePlaybook revision recording", () => {
+  test("records command and deltas for each save", async () => {
+    await withTempDir("history-record", async (dir) => {
+      const playbookPath = path.join(dir, "playbook.yaml");
+      const bullet = createTestBullet({ id: "b-hist-1", content: "Run tests before committing" });
+      const playbook = createTestPlaybook([bullet]);
+
+      await savePlaybook(playbook, playbookPath, { command: "playbook add" });
+      bullet.helpfulCount = 1;
+      await savePlaybook(playbook, playbookPath, {
+        command: "mark",
+        deltas: [{ type: "helpful", bulletId: "b-hist-1" }],
+      });
+
+      const revisions = await loadRevisions(playbookPath);
+      expect(revisions.map((r) => r.rev)).toEqual([1, 2]);
+      expect(revisions[0].command).toBe("playbook add");
+      expect(revisions[0].changes.added).toEqual(["b-hist-1"]);
+      expect(revisions[1].command).toBe("mark");
+      expect(revisions[1].deltas).toEqual([{ type: "helpful", bulletId: "b-hist-1" }]);
+      expect(revisions[1].changes.modified).toEqual(["b-hist-1"]);
+    });
+  });
+
+  test("skips saves that do not change the file", async () => {
+    await withTempDir("history-noop", async (dir) => {
+      const playbookPath = path.join(dir, "playbook.yaml");
+      const playbook = createTestPlaybook([createTestBullet({ id: "b-hist-noop" })]);
+
+      await savePlaybook(playbook, playbookPath, { command: "init" });
+      await savePlaybook(playbook, playbookPath, { command: "init" });
+
+      expect(await loadRevisions(playbookPath)).toHaveLength(1);
+    });
+  });
+
+  test("captures pre-existing and hand-edited playbooks as their own revisions", async () => {
+    await withTempDir("history-external", async (dir) => {
+      const playbookPath = path.join(dir, "playbook.yaml");
+      writeFileSync(playbookPath, yaml.stringify(createTestPlaybook([createTestBullet({ id: "b-old" })])));
+
+      const playbook = await loadPlaybook(playbookPath);
+      playbook.bullets.push(createTestBullet({ id: "b-new" }));
+      await savePlaybook(playbook, playbookPath, { command: "playbook add" });
+
+      const edited = yaml.parse(readFileSync(playbookPath, "utf-8"));
+      edited.bullets[0].content = "Edited by hand";
+      writeFileSync(playbookPath, yaml.stringify(edited));
+
+      const reloaded = await loadPlaybook(playbookPath);
+      reloaded.bullets.push(createTestBullet({ id: "b-third" }));
+      await savePlaybook(reloaded, playbookPath, { command: "playbook add" });
+
+      const revisions = await loadRevisions(playbookPath);
+      expect(revisions.map((r) => r.command)).toEqual([
+        BASELINE_COMMAND,
+        "playbook add",
+        EXTERNAL_EDIT_COMMAND,
+        "playbook add",
+      ]);
+      expect(revisions[1].changes.added).toEqual(["b-new"]);
+      expect(revisions[2].changes.modified).toEqual(["b-old"]);
+      expect(revisions[3].changes).toEqual({ added: ["b-third"], removed: [], modified: [] });
+    });
+  });
+});
+
+describe("revision retention", () => {
+  test("prunes the oldest revisions and their snapshots beyond the cap", async () => {
+    await withTempDir("history-prune", async (dir) => {
+      const playbookPath = path.join(dir, "playbook.yaml");
+      for (let i = 1; i <= 5; i++) {
+        const content = yaml.stringify(createTestPlaybook([createTestBullet({ id: `b-${i}` })]));
+        await recordPlaybookRevision(playbookPath, content, null, { command: "mark", maxRevisions: 3 });
+      }
+
+      const revisions = await loadRevisions(playbookPath);
+      expect(revisions.map((r) => r.rev)).toEqual([3, 4, 5]);
+      expect(existsSync(path.join(getHistoryDir(playbookPath), "000002.yaml"))).toBe(false);
+      expect(existsSync(path.join(getHistoryDir(playbookPath), "000003.yaml"))).toBe(true);
+
+      // The oldest retained revision lost its predecessor, so it can no longer be diffed
+      expect(await getRevisionDiff(playbookPath, 3)).toBeNull();
+      expect((await getRevisionDiff(playbookPath, 4))?.diff.added.map((b) => b.id)).toEqual(["b-4"]);
+    });
+  });
+
+  test("keeps the history directory out of git", async () => {
+    await withTempDir("history-ignore", async (dir) => {
+      const playbookPath = path.join(dir, ".cass", "playbook.yaml");
+      await savePlaybook(createTestPlaybook([createTestBullet()]), playbookPath, { command: "init" });
+
+      const ignore = readFileSync(path.join(dir, ".cass", "history", ".gitignore"), "utf-8");
+      expect(ignore.split("\n")).toContain("*");
+    });
+  });
+});
+
+describe("diffPlaybooks", () => {
+  test("reports added, removed and modified bullets with changed fields", () => {
+    const kept = createTestBullet({ id: "b-keep", content: "Same" });
+    const edited = createTestBullet({ id: "b-edit", content: "Old" });
+    const before = createTestPlaybook([kept, createTestBullet({ id: "b-gone" }), edited]);
+    const after = createTestPlaybook([kept, { ...edited, content: "New" }, createTestBullet({ id: "b-fresh" })]);
+
+    const diff = diffPlaybooks(before, after);
+    expect(diff.added.map((b) => b.id)).toEqual(["b-fresh"]);
+    expect(diff.removed.map((b) => b.id)).toEqual(["b-gone"]);
+    expect(diff.modified).toHaveLength(1);
+    expect(diff.modified[0].id).toBe("b-edit");
+    expect(diff.modified[0].fields).toEqual(["content"]);
+  });
+});
+
+describe("planRevert", () => {
+  test("undoes only the bullets a revision touched and flags later changes as conflicts", async () => {
+    await withTempDir("history-revert", async (dir) => {
+      const playbookPath = path.join(dir, "playbook.yaml");
+      const stable = createTestBullet({ id: "b-stable", content: "Stable rule" });
+      const playbook = createTestPlaybook([stable]);
+      await savePlaybook(playbook, playbookPath, { command: "init" });
+
+      // r2: a "bad reflection run" adds two bullets and deprecates the stable one
+      const badA = createTestBullet({ id: "b-bad-a", content: "Bad rule A" });
+      const badB = createTestBullet({ id: "b-bad-b", content: "Bad rule B" });
+      playbook.bullets.push(badA, badB);
+      playbook.bullets[0] = { ...stable, deprecated: true, state: "retired" };
+      await savePlaybook(playbook, playbookPath, { command: "reflect" });
+
+      // r3: someone marks one of the bad bullets afterwards
+      const current = await loadPlaybook(playbookPath);
+      findBullet(current, "b-bad-b")!.helpfulCount = 1;
+      await savePlaybook(current, playbookPath, { command: "mark" });
+
+      const revisionDiff = (await getRevisionDiff(playbookPath, 2))!;
+      const plan = planRevert(current, revisionDiff);
+      expect(plan.remove).toEqual(["b-bad-a"]);
+      expect(plan.reset.map((b) => b.id)).toEqual(["b-stable"]);
+      expect(plan.conflicts.map((c) => c.id)).toEqual(["b-bad-b"]);
+
+      const forced = planRevert(current, revisionDiff, { force: true });
+      expect(forced.remove.sort()).toEqual(["b-bad-a", "b-bad-b"]);
+
+      applyRevertPlan(current, plan);
+      expect(current.bullets.map((b) => b.id).sort()).toEqual(["b-bad-b", "b-stable"]);
+      expect(findBullet(current, "b-stable")!.deprecated).toBe(false);
+    });
+  });
+});
+
+describe("playbook log/diff/revert commands", () => {
+  test("log lists revisions newest first and revert records a new revision", async () => {
+    await withTempCassHome(async (env) => {
+      await withCwd(env.home, async () => {
+        const playbook = createTestPlaybook([createTestBullet({ id: "b-cmd-keep" })]);
+        await savePlaybook(playbook, env.playbookPath, { command: "init" });
+        playbook.bullets.push(createTestBullet({ id: "b-cmd-bad" }));
+        await savePlaybook(playbook, env.playbookPath, { command: "reflect" });
+
+        const logOut = await captureConsoleLog(() => playbookCommand("log", [], { json: true }));
+        const log = JSON.parse(logOut);
+        expect(log.success).toBe(true);
+        expect(log.data.total).toBe(2);
+        expect(log.data.revisions.map((r: any) => r.command)).toEqual(["reflect", "init"]);
+
+        const diffOut = await captureConsoleLog(() => playbookCommand("diff", ["r2"], { json: true }));
+        expect(JSON.parse(diffOut).data.diff.added.map((b: any) => b.id)).toEqual(["b-cmd-bad"]);
+
+        const dryOut = await captureConsoleLog(() => playbookCommand("revert", ["2"], { json: true, dryRun: true }));
+        expect(JSON.parse(dryOut).data.removed).toEqual(["b-cmd-bad"]);
+        expect(findBullet(await loadPlaybook(env.playbookPath), "b-cmd-bad")).toBeDefined();
+
+        await captureConsoleLog(() => playbookCommand("revert", ["2"], { json: true }));
+        const after = await loadPlaybook(env.playbookPath);
+        expect(after.bullets.map((b) => b.id)).toEqual(["b-cmd-keep"]);
+
+        const revisions = await loadRevisions(env.playbookPath);
+        expect(revisions[revisions.length - 1].command).toBe("playbook revert 2");
+      });
+    });
+  });
+
+  test("rejects unknown revisions", async () => {
+    await withTempCassHome(async (env) => {
+      await withCwd(env.home, async () => {
+        const out = await captureConsoleLog(() => playbookCommand("diff", ["99"], { json: true }));
+        const payload = JSON.parse(out);
+        expect(payload.success).toBe(false);
+        expect(payload.error.code).toBe("INVALID_INPUT");
+      });
+    });
+  });
+});
@@ -11,6 +11,8 @@ import {
   llmWithRetry,
   llmWithFallback,
   resolveEffectiveLLMConfig,
+  resolveModelRoute,
+  runValidator,
   __resetAutoFallbackNoticeForTest,
   LLM_RETRY_CONFIG,
   PROMPTS,
@@ -19,7 +21,10 @@ import {
 } from "../src/llm.js";
 import { truncateForContext } from "../src/utils.js";
 import { z } from "zod";
+import fs from "node:fs/promises";
+import path from "node:path";
 import { createTestConfig } from "./helpers/factories.js";
+import { withTempCassHome } from "./helpers/temp.js";
 
 // ============================================================================
 // Test Setup - Environment Variable Management
@@ -568,6 +573,102 @@ describe("generateObjectSafe retired-model errors", () => {
   });
 });
 
+// ============================================================================
+// Per-operation model routing (config.modelRoutes)
+// ============================================================================
+
+describe("resolveModelRoute", () => {
+  it("returns the config unchanged for an unrouted operation", () => {
+    const config = createTestConfig({ modelRoutes: { diary: "claude-haiku-4-5" } });
+    expect(resolveModelRoute(config, "reflector")).toBe(config);
+  });
+
+  it("swaps only the model for a model-id route", () => {
+    const config = createTestConfig({ provider: "anthropic", apiKey: "sk-ant-override", modelRoutes: { diary: "claude-haiku-4-5" } });
+    const routed = resolveModelRoute(config, "diary");
+    expect(routed.provider).toBe("anthropic");
+    expect(routed.model).toBe("claude-haiku-4-5");
+    expect(routed.apiKey).toBe("sk-ant-override");
+  });
+
+  it("drops the configured provider's apiKey and baseUrl when a route switches provider", () => {
+    const config = createTestConfig({
+      provider: "anthropic",
+      apiKey: "sk-ant-override",
+      baseUrl: "https://gateway.example/v1",
+      llmTimeoutMs: 30000,
+      modelRoutes: { validator: { provider: "openai", model: "gpt-4o-mini", timeoutMs: 5000 } },
+    });
+    const routed = resolveModelRoute(config, "validator");
+    expect(routed.provider).toBe("openai");
+    expect(routed.model).toBe("gpt-4o-mini");
+    expect(routed.apiKey).toBeUndefined();
+    expect(routed.baseUrl).toBeUndefined();
+    expect(routed.llmTimeoutMs).toBe(5000);
+    expect(config.apiKey).toBe("sk-ant-override");
+  });
+});
+
+describe("per-operation model routing", () => {
+  const usageIO: LLMIO = {
+    generateObject: async <T>() => ({
+      object: {
+        verdict: "ACCEPT",
+        confidence: 0.9,
+        reason: "supported",
+        evidence: { supporting: [], contradicting: [] },
+        suggestedRefinement: null,
+      } as T,
+      usage: { promptTokens: 1000, completionTokens: 100 },
+    }),
+  };
+
+  async function readCostLog(cassMemoryDir: string): Promise<any[]> {
+    const costDir = path.join(cassMemoryDir, "cost");
+    const [logFile] = (await fs.readdir(costDir)).filter((f) => f.startsWith("monthly-"));
+    const raw = await fs.readFile(path.join(costDir, logFile!), "utf-8");
+    return raw.trim().split("\n").map((line) => JSON.parse(line));
+  }
+
+  it("records the routed provider, model and operation for the call", async () => {
+    await withTempCassHome(async (env) => {
+      const config = createTestConfig({
+        provider: "anthropic",
+        model: "claude-sonnet-5",
+        modelRoutes: { validator: { provider: "openai", model: "gpt-4o-mini" } },
+      });
+
+      const result = await runValidator("Always run tests", "(no evidence)", config, usageIO);
+      expect(result.verdict).toBe("ACCEPT");
+
+      const [entry] = await readCostLog(env.cassMemoryDir);
+      expect(entry).toMatchObject({ provider: "openai", model: "gpt-4o-mini", operation: "validator" });
+    });
+  });
+
+  it("leaves unrouted operations on the configured model", async () => {
+    await withTempCassHome(async (env) => {
+      const config = createTestConfig({ provider: "anthropic", model: "claude-sonnet-5", modelRoutes: { diary: "claude-haiku-4-5" } });
+
+      await runValidator("Always run tests", "(no evidence)", config, usageIO);
+
+      const [entry] = await readCostLog(env.cassMemoryDir);
+      expect(entry).toMatchObject({ provider: "anthropic", model: "claude-sonnet-5", operation: "validator" });
+    });
+  });
+
+  it("names the route in the retired-model hint", async () => {
+    const err: any = new Error("Not Found");
+    err.statusCode = 404;
+    const config = createTestConfig({ modelRoutes: { context: "retired-haiku" } });
+    const io: LLMIO = { generateObject: async () => { throw err; } };
+
+    await expect(
+      generateObjectSafe(z.object({ test: z.string() }), "prompt", config, 3, io, "context")
+    ).rejects.toThrow(/model 'retired-haiku'.*modelRoutes\.context/s);
+  });
+});
+
 // ============================================================================
 // fillPrompt() Tests
 // ============================================================================
@@ -308,7 +308,10 @@ describe("E2E: New User Onboarding", () => {
 
       const listResponse = JSON.parse(result.stdout) as any;
       expect(listResponse.success).toBe(true);
-      expect(listResponse.data).toEqual({ bullets: [] });
+      expect(listResponse.data).toEqual({
+        bullets: [],
+        mergeReport: { nearDuplicates: [], contradictions: [], overrides: [], idCollisions: [], unresolvedOverrides: [] },
+      });
     });
   });
 
@@ -7,7 +7,8 @@
  * - Error handling paths
  */
 import { describe, test, expect } from "bun:test";
-import { writeFileSync } from "node:fs";
+import { mkdirSync, writeFileSync } from "node:fs";
+import path from "node:path";
 import yaml from "yaml";
 import { onboardCommand } from "../src/commands/onboard.js";
 import { withTempCassHome, makeCassStub } from "./helpers/temp.js";
@@ -1034,6 +1035,39 @@ describe("onboardCommand --read --template JSON", () => {
       });
     });
   });
+
+  test("profiles the project the session recorded as its cwd, not the current directory", async () => {
+    await withTempCassHome(async (env) => {
+      await withTempGitRepo(async (repoDir) => {
+        const originalCwd = process.cwd();
+        process.chdir(repoDir);
+
+        writeFileSync(env.playbookPath, yaml.stringify(createTestPlaybook([])));
+        const projectDir = path.join(env.home, "service");
+        mkdirSync(projectDir);
+        writeFileSync(path.join(projectDir, "go.mod"), "module example.com/service\n\ngo 1.22\n");
+        const sessionPath = path.join(env.home, "session.jsonl");
+        writeFileSync(
+          sessionPath,
+          [
+            JSON.stringify({ cwd: projectDir, role: "user", content: "Fix the handler timeout" }),
+            JSON.stringify({ role: "assistant", content: "Raised the context deadline in the handler" }),
+          ].join("\n")
+        );
+
+        const capture = captureConsole();
+        try {
+          await onboardCommand({ read: sessionPath, template: true, json: true });
+          const result = JSON.parse(capture.getOutput());
+          expect(result.data.metadata.workspaceProfile.root).toBe(projectDir);
+          expect(result.data.metadata.workspaceProfile.languages).toEqual(["go"]);
+        } finally {
+          capture.restore();
+          process.chdir(originalCwd);
+        }
+      });
+    });
+  });
 });
 
 describe("onboardCommand --sample text mode with filtering", () => {
@@ -18,6 +18,7 @@ import {
   loadPlaybook,
   loadPlaybookWithRecovery,
   loadMergedPlaybook,
+  mergePlaybookLayers,
   loadBlockedLog,
   loadToxicLog,
   appendToxicLog,
@@ -344,6 +345,102 @@ describe("loadMergedPlaybook", () => {
   });
 });
 
+// =============================================================================
+// mergePlaybookLayers
+// =============================================================================
+describe("mergePlaybookLayers", () => {
+  function layers(globalBullets: PlaybookBullet[], repoBullets: PlaybookBullet[]) {
+    const globalPb = createEmptyPlaybook("global");
+    const repoPb = createEmptyPlaybook("repo");
+    globalPb.bullets = globalBullets;
+    repoPb.bullets = repoBullets;
+    return { globalPb, repoPb };
+  }
+
+  it("returns the global playbook and an empty report without a repo layer", () => {
+    const globalPb = createEmptyPlaybook("global");
+    globalPb.bullets = [createTestBullet({ id: "b-g" })];
+
+    const { playbook, report } = mergePlaybookLayers(globalPb, null);
+    expect(playbook).toBe(globalPb);
+    expect(report.nearDuplicates).toEqual([]);
+    expect(report.contradictions).toEqual([]);
+    expect(report.idCollisions).toEqual([]);
+  });
+
+  it("reports same-id collisions and lets the repo copy win", () => {
+    const { globalPb, repoPb } = layers(
+      [createTestBullet({ id: "b-same", content: "global version" })],
+      [createTestBullet({ id: "b-same", content: "repo version" })]
+    );
+
+    const { playbook, report } = mergePlaybookLayers(globalPb, repoPb);
+    expect(playbook.bullets.map((b) => b.content)).toEqual(["repo version"]);
+    expect(report.idCollisions).toEqual([{ id: "b-same", identical: false }]);
+  });
+
+  it("reports near-duplicates and contradictions across layers with withReport", () => {
+    const { globalPb, repoPb } = layers(
+      [
+        createTestBullet({ id: "b-g-dup", content: "Keep pull requests small and focused on one change" }),
+        createTestBullet({ id: "b-g-lock", content: "Always commit the lockfile with dependency changes" }),
+      ],
+      [
+        createTestBullet({ id: "b-r-dup", content: "Keep pull requests small and focused on one change!" }),
+        createTestBullet({ id: "b-r-lock", content: "Never commit the lockfile with dependency changes" }),
+      ]
+    );
+
+    // Without the report only the overrides are applied
+    expect(mergePlaybookLayers(globalPb, repoPb).report.nearDuplicates).toEqual([]);
+
+    const { playbook, report } = mergePlaybookLayers(globalPb, repoPb, { withReport: true });
+    expect(playbook.bullets).toHaveLength(4);
+    expect(report.nearDuplicates.map((d) => [d.globalId, d.repoId])).toEqual([["b-g-dup", "b-r-dup"]]);
+    expect(report.contradictions.map((c) => [c.globalId, c.repoId])).toEqual([["b-g-lock", "b-r-lock"]]);
+  });
+
+  it("applies shadow, suppress and extend overrides", () => {
+    const { globalPb, repoPb } = layers(
+      [
+        createTestBullet({ id: "b-g-npm", content: "Always use npm to install dependencies" }),
+        createTestBullet({ id: "b-g-docs", content: "Write docs for public functions" }),
+        createTestBullet({ id: "b-g-lint", content: "Always run the linter before pushing" }),
+      ],
+      [
+        createTestBullet({
+          id: "b-r-pnpm",
+          content: "Never use npm to install dependencies, use pnpm",
+          override: { bulletId: "b-g-npm", mode: "shadow" },
+        }),
+        createTestBullet({
+          id: "b-r-nodocs",
+          content: "Docs are generated here",
+          override: { bulletId: "b-g-docs", mode: "suppress" },
+        }),
+        createTestBullet({
+          id: "b-r-lint",
+          content: "Always run the linter with --fix before pushing",
+          override: { bulletId: "b-g-lint", mode: "extend" },
+        }),
+        createTestBullet({
+          id: "b-r-dangling",
+          content: "Points nowhere",
+          override: { bulletId: "b-missing", mode: "shadow" },
+        }),
+      ]
+    );
+
+    const { playbook, report } = mergePlaybookLayers(globalPb, repoPb, { withReport: true });
+    expect(playbook.bullets.map((b) => b.id).sort()).toEqual(["b-g-lint", "b-r-dangling", "b-r-lint", "b-r-pnpm"]);
+    expect(report.overrides.map((o) => o.mode)).toEqual(["shadow", "suppress", "extend"]);
+    expect(report.unresolvedOverrides).toEqual([{ repoId: "b-r-dangling", target: "b-missing" }]);
+    // Declared relationships are not reported as conflicts
+    expect(report.contradictions).toEqual([]);
+    expect(report.nearDuplicates).toEqual([]);
+  });
+});
+
 // =============================================================================
 // savePlaybook
 // =============================================================================
@@ -585,6 +682,17 @@ describe("addBullet", () => {
 
     expect(bullet.confidenceDecayHalfLifeDays).toBe(60);
   });
+
+  it("keeps a declared override", () => {
+    const pb = createEmptyPlaybook();
+    const bullet = addBullet(
+      pb,
+      { content: "Use pnpm here", category: "tooling", override: { bulletId: "b-npm", mode: "shadow" } },
+      "/path/session.jsonl"
+    );
+
+    expect(bullet.override).toEqual({ bulletId: "b-npm", mode: "shadow" });
+  });
 });
 
 // =============================================================================
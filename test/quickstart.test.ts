@@ -68,6 +68,10 @@ type QuickstartJson = {
     helpful: string;
     harmful: string;
   };
+  ruleCitationFormat: {
+    applied: string;
+    ignored: string;
+  };
   protocol: {
     start: string;
     work: string;
@@ -119,6 +123,7 @@ describe("quickstart command", () => {
 
     expect(parsed.data.inlineFeedbackFormat.helpful).toContain("[cass: helpful");
     expect(parsed.data.inlineFeedbackFormat.harmful).toContain("[cass: harmful");
+    expect(parsed.data.ruleCitationFormat.applied).toBe("[cm:<id> applied]");
   });
 
   test("prints human-readable markdown with valid repo URL and examples", async () => {
@@ -0,0 +1,191 @@
+/**
+ * Unit tests for feedback-event reconciliation (src/reconcile.ts) and
+ * `cm playbook reconcile`.
+ */
+import { describe, test, expect } from "bun:test";
+import { writeFileSync } from "node:fs";
+import path from "node:path";
+import yaml from "yaml";
+import { reconcilePlaybooks, mergeFeedbackEvents } from "../src/reconcile.js";
+import { savePlaybook, loadPlaybook, findBullet } from "../src/playbook.js";
+import { playbookCommand } from "../src/commands/playbook.js";
+import { generateFeedbackEventId, getOriginId } from "../src/utils.js";
+import {
+  createTestBullet,
+  createTestConfig,
+  createTestFeedbackEvent,
+  createTestPlaybook,
+} from "./helpers/factories.js";
+import { withTempCassHome } from "./helpers/temp.js";
+import type { FeedbackEvent } from "../src/types.js";
+
+const FIXED_NOW = Date.now();
+
+function minutesAgo(minutes: number): string {
+  return new Date(FIXED_NOW - minutes * 60_000).toISOString();
+}
+
+function event(type: "helpful" | "harmful", id: string, timestamp: string): FeedbackEvent {
+  return createTestFeedbackEvent(type, { id, origin: "o-test", timestamp });
+}
+
+async function captureConsoleLog(fn: () => Promise<void>): Promise<string> {
+  const original = console.log;
+  const lines: string[] = [];
+  console.log = (...args: unknown[]) => {
+    lines.push(args.map(String).join(" "));
+  };
+  try {
+    await fn();
+  } finally {
+    console.log = original;
+  }
+  return lines.join("\n");
+}
+
+describe("feedback event ids", () => {
+  test("seeded ids are stable and unseeded ids are unique", () => {
+    expect(generateFeedbackEventId("outcome:1")).toBe(generateFeedbackEventId("outcome:1"));
+    expect(generateFeedbackEventId()).not.toBe(generateFeedbackEventId());
+  });
+
+  test("origin id can be set explicitly", () => {
+    const previous = process.env.CASS_MEMORY_ORIGIN;
+    process.env.CASS_MEMORY_ORIGIN = "ci-runner-7";
+    try {
+      expect(getOriginId()).toBe("ci-runner-7");
+    } finally {
+      if (previous === undefined) delete process.env.CASS_MEMORY_ORIGIN;
+      else process.env.CASS_MEMORY_ORIGIN = previous;
+    }
+  });
+});
+
+describe("mergeFeedbackEvents", () => {
+  test("unions by id and keeps legacy events without ids once", () => {
+    const legacy = createTestFeedbackEvent("helpful", { timestamp: "2026-01-01T00:00:00.000Z" });
+    const a = [legacy, event("helpful", "fe-a", "2026-01-02T00:00:00.000Z")];
+    const b = [legacy, event("helpful", "fe-a", "2026-01-02T00:00:00.000Z"), event("harmful", "fe-b", "2026-01-03T00:00:00.000Z")];
+
+    const merged = mergeFeedbackEvents(a, b);
+    expect(merged).toHaveLength(3);
+    expect(merged.map((e) => e.id ?? null)).toEqual([null, "fe-a", "fe-b"]);
+  });
+});
+
+describe("reconcilePlaybooks", () => {
+  const config = createTestConfig();
+  const createdAt = "2026-01-01T00:00:00.000Z";
+  const shared = event("helpful", "fe-shared", minutesAgo(5));
+
+  function divergentCopies() {
+    const base = createTestBullet({ id: "b-rule", createdAt, feedbackEvents: [shared], helpfulCount: 1 });
+    const left = createTestPlaybook([
+      {
+        ...base,
+        feedbackEvents: [shared, event("helpful", "fe-left", minutesAgo(4))],
+        helpfulCount: 2,
+        updatedAt: minutesAgo(4),
+      },
+      createTestBullet({ id: "b-left-only", createdAt: "2026-01-02T00:00:00.000Z" }),
+    ]);
+    const right = createTestPlaybook([
+      {
+        ...base,
+        content: "Edited on the other machine",
+        feedbackEvents: [shared, event("helpful", "fe-right", minutesAgo(3))],
+        helpfulCount: 2,
+        updatedAt: minutesAgo(3),
+      },
+      createTestBullet({ id: "b-right-only", createdAt: "2026-01-03T00:00:00.000Z" }),
+    ]);
+    return { left, right };
+  }
+
+  test("unions events and recomputes counters and maturity", () => {
+    const { left, right } = divergentCopies();
+    const { playbook, report } = reconcilePlaybooks(left, right, config);
+
+    const rule = findBullet(playbook, "b-rule")!;
+    expect(rule.feedbackEvents.map((e) => e.id)).toEqual(["fe-shared", "fe-left", "fe-right"]);
+    expect(rule.helpfulCount).toBe(3);
+    expect(rule.content).toBe("Edited on the other machine");
+    expect(rule.maturity).toBe("established");
+
+    expect(report.added).toEqual(["b-right-only"]);
+    expect(report.updated).toEqual(["b-rule"]);
+    expect(report.eventsAdded).toBe(1);
+  });
+
+  test("is commutative and idempotent", () => {
+    const { left, right } = divergentCopies();
+    const lr = reconcilePlaybooks(left, right, config).playbook;
+    const rl = reconcilePlaybooks(right, left, config).playbook;
+    expect(lr.bullets).toEqual(rl.bullets);
+    expect(lr.deprecatedPatterns).toEqual(rl.deprecatedPatterns);
+
+    const again = reconcilePlaybooks(lr, lr, config);
+    expect(again.playbook.bullets).toEqual(lr.bullets);
+    expect(again.report.updated).toEqual([]);
+
+    const replay = reconcilePlaybooks(lr, right, config);
+    expect(replay.playbook.bullets).toEqual(lr.bullets);
+    expect(replay.report.eventsAdded).toBe(0);
+  });
+
+  test("deprecates a rule whose merged feedback crosses the harmful threshold", () => {
+    const base = createTestBullet({ id: "b-bad", createdAt, maturity: "candidate" });
+    const left = createTestPlaybook([{ ...base, feedbackEvents: [event("harmful", "fe-1", minutesAgo(3))], harmfulCount: 1 }]);
+    const right = createTestPlaybook([{
+      ...base,
+      feedbackEvents: [event("harmful", "fe-2", minutesAgo(2)), event("harmful", "fe-3", minutesAgo(1))],
+      harmfulCount: 2,
+    }]);
+
+    const { playbook, report } = reconcilePlaybooks(left, right, config);
+    const bad = findBullet(playbook, "b-bad")!;
+    expect(bad.harmfulCount).toBe(3);
+    expect(bad.deprecated).toBe(true);
+    expect(bad.deprecatedAt).toBe(bad.feedbackEvents[2].timestamp);
+    expect(report.deprecated).toEqual(["b-bad"]);
+  });
+});
+
+describe("cm playbook reconcile", () => {
+  test("merges another playbook file into the global playbook", async () => {
+    await withTempCassHome(async (env) => {
+      const base = createTestBullet({ id: "b-cli", createdAt: "2026-01-01T00:00:00.000Z" });
+      await savePlaybook(
+        createTestPlaybook([{ ...base, feedbackEvents: [event("helpful", "fe-mine", "2026-01-02T00:00:00.000Z")], helpfulCount: 1 }]),
+        env.playbookPath
+      );
+      const otherPath = path.join(env.home, "other.yaml");
+      writeFileSync(otherPath, yaml.stringify(createTestPlaybook([
+        { ...base, feedbackEvents: [event("helpful", "fe-theirs", "2026-01-03T00:00:00.000Z")], helpfulCount: 1 },
+      ])));
+
+      const dry = JSON.parse(await captureConsoleLog(() => playbookCommand("reconcile", [otherPath], { json: true, dryRun: true })));
+      expect(dry.data.updated).toEqual(["b-cli"]);
+      expect(findBullet(await loadPlaybook(env.playbookPath), "b-cli")!.helpfulCount).toBe(1);
+
+      const out = JSON.parse(await captureConsoleLog(() => playbookCommand("reconcile", [otherPath], { json: true })));
+      expect(out.success).toBe(true);
+      expect(out.data.eventsAdded).toBe(1);
+      expect(findBullet(await loadPlaybook(env.playbookPath), "b-cli")!.helpfulCount).toBe(2);
+
+      const repeat = JSON.parse(await captureConsoleLog(() => playbookCommand("reconcile", [otherPath], { json: true })));
+      expect(repeat.effect).toBe(false);
+    });
+  });
+
+  test("rejects files that are not playbooks", async () => {
+    await withTempCassHome(async (env) => {
+      const otherPath = path.join(env.home, "broken.yaml");
+      writeFileSync(otherPath, "bullets: not-a-list\n");
+
+      const out = JSON.parse(await captureConsoleLog(() => playbookCommand("reconcile", [otherPath], { json: true })));
+      expect(out.success).toBe(false);
+      expect(out.error.code).toBe("PLAYBOOK_CORRUPT");
+    });
+  });
+});
@@ -0,0 +1,325 @@
+/**
+ * Tests for the reflection cost planner (src/reflect-estimate.ts) and
+ * `cm reflect --estimate`.
+ */
+import { describe, test, expect } from "bun:test";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { estimateReflection, estimateSessionCost } from "../src/reflect-estimate.js";
+import { estimateCost } from "../src/cost.js";
+import { reflectCommand } from "../src/commands/reflect.js";
+import { __resetReflectorStubsForTest } from "../src/llm.js";
+import { getProcessedLogPath } from "../src/tracking.js";
+import { createTestConfig } from "./helpers/factories.js";
+import { makeCassStub, withTempCassHome, writeFileInDir } from "./helpers/temp.js";
+
+const SESSION = "user: fix the flaky login test\nassistant: the retry loop swallowed the timeout, fixed it\n".repeat(20);
+
+async function writeCostTotal(cassMemoryDir: string, todayCost: number, monthCost: number): Promise<void> {
+  const costDir = path.join(cassMemoryDir, "cost");
+  await fs.mkdir(costDir, { recursive: true });
+  const today = new Date().toLocaleDateString("en-CA");
+  await fs.writeFile(
+    path.join(costDir, "total.json"),
+    JSON.stringify({
+      allTime: monthCost,
+      lastUpdated: new Date().toISOString(),
+      currentDay: { day: today, cost: todayCost },
+      currentMonth: { month: today.slice(0, 7), cost: monthCost },
+    })
+  );
+}
+
+async function captureConsoleLog(fn: () => Promise<void>): Promise<string> {
+  const original = console.log;
+  const lines: string[] = [];
+  console.log = (...args: unknown[]) => {
+    lines.push(args.map((arg) => (typeof arg === "string" ? arg : JSON.stringify(arg))).join(" "));
+  };
+  try {
+    await fn();
+    return lines.join("\n");
+  } finally {
+    console.log = original;
+  }
+}
+
+describe("estimateSessionCost", () => {
+  test("prices every reflector iteration and the validator only when enabled", () => {
+    const config = createTestConfig({ model: "claude-sonnet-4-6", maxReflectorIterations: 3, validationEnabled: true });
+    const estimate = estimateSessionCost("/s/1.jsonl", SESSION, "(Playbook is empty)", config);
+
+    expect(estimate.stages.diary.calls).toBe(1);
+    expect(estimate.stages.reflector.calls).toBe(3);
+    expect(estimate.stages.validator.calls).toBeGreaterThan(0);
+    for (const stage of Object.values(estimate.stages)) {
+      expect(stage.cost).toBeCloseTo(estimateCost("claude-sonnet-4-6", stage.tokensIn, stage.tokensOut), 10);
+    }
+    expect(estimate.cost).toBeCloseTo(
+      estimate.stages.diary.cost + estimate.stages.reflector.cost + estimate.stages.validator.cost,
+      10
+    );
+
+    const noValidation = estimateSessionCost("/s/1.jsonl", SESSION, "(Playbook is empty)", {
+      ...config,
+      validationEnabled: false,
+    });
+    expect(noValidation.stages.validator).toEqual({ model: "claude-sonnet-4-6", calls: 0, tokensIn: 0, tokensOut: 0, cost: 0 });
+  });
+
+  test("prices each stage with its routed model", () => {
+    const config = createTestConfig({
+      model: "claude-sonnet-4-6",
+      modelRoutes: { diary: "claude-haiku-4-5", validator: { provider: "openai", model: "gpt-4o-mini" } },
+    });
+    const estimate = estimateSessionCost("/s/1.jsonl", SESSION, "", config);
+
+    expect(estimate.stages.diary.model).toBe("claude-haiku-4-5");
+    expect(estimate.stages.reflector.model).toBe("claude-sonnet-4-6");
+    expect(estimate.stages.validator.model).toBe("gpt-4o-mini");
+    const { tokensIn, tokensOut, cost } = estimate.stages.validator;
+    expect(cost).toBeCloseTo(estimateCost("gpt-4o-mini", tokensIn, tokensOut), 10);
+  });
+
+  test("caps the diary prompt at the extraction truncation limit", () => {
+    const config = createTestConfig({ model: "claude-sonnet-4-6" });
+    const small = estimateSessionCost("/s/1.jsonl", SESSION, "", config);
+    const huge = estimateSessionCost("/s/1.jsonl", SESSION.repeat(200), "", config);
+
+    expect(huge.exportTokens).toBeGreaterThan(small.exportTokens * 100);
+    expect(huge.stages.diary.tokensIn).toBeGreaterThan(small.stages.diary.tokensIn);
+    expect(huge.stages.diary.tokensIn).toBeLessThan(15000);
+    expect(huge.stages.reflector.tokensIn).toBe(small.stages.reflector.tokensIn);
+  });
+});
+
+describe("estimateReflection", () => {
+  test("plans a session within budget without touching the processed log", async () => {
+    await withTempCassHome(async (env) => {
+      const sessionPath = await writeFileInDir(env.home, "sessions/s1.jsonl", SESSION);
+      const config = createTestConfig({ cassPath: "__missing__", playbookPath: env.playbookPath, model: "gpt-4o-mini" });
+
+      const estimate = await estimateReflection(config, { session: sessionPath });
+
+      expect(estimate.allowed).toBe(true);
+      expect(estimate.planned.map((s) => s.sessionPath)).toEqual([sessionPath]);
+      expect(estimate.trimmed).toEqual([]);
+      expect(estimate.unpricedModels).toEqual([]);
+      expect(estimate.totalCost).toBeCloseTo(estimate.planned[0]!.cost, 10);
+      expect(estimate.plannedCost).toBeCloseTo(estimate.totalCost, 10);
+      expect(estimate.budget.remaining).toBeCloseTo(config.budget.dailyLimit, 10);
+      await expect(fs.access(path.join(env.cassMemoryDir, "reflections"))).rejects.toThrow();
+    });
+  });
+
+  test("skips sessions too short to reflect on", async () => {
+    await withTempCassHome(async (env) => {
+      const sessionPath = await writeFileInDir(env.home, "sessions/short.jsonl", "hi");
+      const config = createTestConfig({ cassPath: "__missing__", playbookPath: env.playbookPath });
+
+      const estimate = await estimateReflection(config, { session: sessionPath });
+
+      expect(estimate.planned).toEqual([]);
+      expect(estimate.skipped).toEqual([{ sessionPath, reason: "Session content too short" }]);
+      expect(estimate.allowed).toBe(true);
+    });
+  });
+
+  test("refuses when the session does not fit the remaining budget", async () => {
+    await withTempCassHome(async (env) => {
+      const sessionPath = await writeFileInDir(env.home, "sessions/s1.jsonl", SESSION);
+      const config = createTestConfig({
+        cassPath: "__missing__",
+        playbookPath: env.playbookPath,
+        model: "claude-opus-4-8",
+        budget: { dailyLimit: 1.0, monthlyLimit: 20.0, warningThreshold: 80, currency: "USD" },
+      });
+      await writeCostTotal(env.cassMemoryDir, 0.999, 5);
+
+      const estimate = await estimateReflection(config, { session: sessionPath });
+
+      expect(estimate.allowed).toBe(false);
+      expect(estimate.planned).toEqual([]);
+      expect(estimate.trimmed.map((s) => s.sessionPath)).toEqual([sessionPath]);
+      expect(estimate.reason).toContain("more than the $0.0010 of budget left");
+      expect(estimate.plannedCost).toBe(0);
+      expect(estimate.stages.reflector.calls).toBe(3);
+      expect(estimate.budget.remaining).toBeCloseTo(0.001, 10);
+    });
+  });
+
+  test("reports checkBudget's reason once the budget is spent", async () => {
+    await withTempCassHome(async (env) => {
+      const sessionPath = await writeFileInDir(env.home, "sessions/s1.jsonl", SESSION);
+      const config = createTestConfig({
+        cassPath: "__missing__",
+        playbookPath: env.playbookPath,
+        budget: { dailyLimit: 0, monthlyLimit: 10.0, warningThreshold: 80, currency: "USD" },
+      });
+      await writeCostTotal(env.cassMemoryDir, 3, 12);
+
+      const estimate = await estimateReflection(config, { session: sessionPath });
+
+      expect(estimate.allowed).toBe(false);
+      expect(estimate.reason).toContain("Monthly budget exceeded");
+      expect(estimate.budget.remaining).toBe(0);
+    });
+  });
+});
+
+describe("cm reflect --estimate", () => {
+  test("prints the per-stage breakdown as JSON without reflecting", async () => {
+    await withTempCassHome(async (env) => {
+      const sessionPath = await writeFileInDir(env.home, "sessions/s1.jsonl", SESSION);
+      await fs.writeFile(
+        env.configPath,
+        JSON.stringify({ playbookPath: env.playbookPath, cassPath: "__missing__", model: "claude-sonnet-4-6" })
+      );
+      const originalCwd = process.cwd();
+      process.chdir(env.home);
+      try {
+        const output = await captureConsoleLog(() => reflectCommand({ session: sessionPath, estimate: true, json: true }));
+        const payload = JSON.parse(output);
+
+        expect(payload.success).toBe(true);
+        expect(payload.data.estimate.planned).toHaveLength(1);
+        expect(Object.keys(payload.data.estimate.stages)).toEqual(["diary", "reflector", "validator"]);
+        await expect(fs.access(env.playbookPath)).rejects.toThrow();
+      } finally {
+        process.chdir(originalCwd);
+      }
+    });
+  });
+});
+
+describe("cm reflect", () => {
+  test("refuses before any LLM call once the budget is spent", async () => {
+    await withTempCassHome(async (env) => {
+      const sessionPath = await writeFileInDir(env.home, "sessions/s1.jsonl", SESSION);
+      await fs.writeFile(
+        env.configPath,
+        JSON.stringify({
+          playbookPath: env.playbookPath,
+          diaryDir: env.diaryDir,
+          cassPath: "__missing__",
+          budget: { dailyLimit: 0, monthlyLimit: 10.0 },
+        })
+      );
+      await writeCostTotal(env.cassMemoryDir, 3, 12);
+      const originalCwd = process.cwd();
+      process.chdir(env.home);
+      try {
+        const payload = JSON.parse(await captureConsoleLog(() => reflectCommand({ session: sessionPath, json: true })));
+
+        expect(payload.error.code).toBe("LLM_BUDGET_EXCEEDED");
+        expect(payload.error.message).toContain("Monthly budget exceeded");
+        expect(await fs.readdir(env.diaryDir)).toEqual([]);
+        await expect(fs.access(getProcessedLogPath())).rejects.toThrow();
+      } finally {
+        process.exitCode = 0;
+        process.chdir(originalCwd);
+      }
+    });
+  });
+
+  test("reflects only on the sessions that fit the remaining budget", async () => {
+    await withTempCassHome(async (env) => {
+      const cassStub = await makeCassStub(env.home, {
+        timeline: JSON.stringify({
+          groups: [{ date: "2026-10-01", sessions: [{ path: "/sessions/a.jsonl", agent: "claude" }, { path: "/sessions/b.jsonl", agent: "claude" }] }],
+        }),
+        export: SESSION,
+      });
+      // The stub's export ends with echo's newline
+      const sessionCost = estimateSessionCost("/sessions/a.jsonl", `${SESSION}\n`, "(Playbook is empty)", createTestConfig({ model: "gpt-4o-mini" })).cost;
+      await fs.writeFile(
+        env.configPath,
+        JSON.stringify({
+          playbookPath: env.playbookPath,
+          diaryDir: env.diaryDir,
+          cassPath: cassStub,
+          model: "gpt-4o-mini",
+          budget: { dailyLimit: sessionCost * 1.5, monthlyLimit: 100 },
+        })
+      );
+      const originalCwd = process.cwd();
+      const originalLlm = process.env.CASS_MEMORY_LLM;
+      process.chdir(env.home);
+      process.env.CASS_MEMORY_LLM = "none";
+      process.env.CM_REFLECTOR_STUBS = JSON.stringify([{ deltas: [] }]);
+      __resetReflectorStubsForTest();
+      try {
+        const payload = JSON.parse(await captureConsoleLog(() => reflectCommand({ json: true })));
+
+        expect(payload.success).toBe(true);
+        expect(payload.data.trimmed).toEqual(["/sessions/b.jsonl"]);
+        const processed = await fs.readFile(getProcessedLogPath(), "utf-8");
+        expect(processed).toContain("/sessions/a.jsonl");
+        expect(processed).not.toContain("/sessions/b.jsonl");
+        expect(await fs.readdir(env.diaryDir)).toHaveLength(1);
+      } finally {
+        delete process.env.CM_REFLECTOR_STUBS;
+        __resetReflectorStubsForTest();
+        if (originalLlm === undefined) delete process.env.CASS_MEMORY_LLM;
+        else process.env.CASS_MEMORY_LLM = originalLlm;
+        process.chdir(originalCwd);
+      }
+    });
+  });
+
+  test("exports each session once and skips too-short ones without a diary", async () => {
+    await withTempCassHome(async (env) => {
+      const exportLog = path.join(env.home, "exports.log");
+      const cassStub = path.join(env.home, "cass-stub.sh");
+      await fs.writeFile(
+        cassStub,
+        `#!/bin/sh
+case "$1" in
+  timeline)
+    echo '${JSON.stringify({
+      groups: [{ date: "2026-10-01", sessions: [{ path: "/sessions/long.jsonl", agent: "claude" }, { path: "/sessions/short.jsonl", agent: "claude" }] }],
+    })}' ;;
+  export)
+    echo "$3 $5" >> "${exportLog}"
+    case "$5" in
+      *short*) echo "hi" ;;
+      *) printf '%s' '${SESSION}' ;;
+    esac ;;
+esac
+exit 0
+`,
+        { mode: 0o755 }
+      );
+      await fs.writeFile(
+        env.configPath,
+        JSON.stringify({ playbookPath: env.playbookPath, diaryDir: env.diaryDir, cassPath: cassStub, model: "gpt-4o-mini" })
+      );
+      const originalCwd = process.cwd();
+      const originalLlm = process.env.CASS_MEMORY_LLM;
+      process.chdir(env.home);
+      process.env.CASS_MEMORY_LLM = "none";
+      process.env.CM_REFLECTOR_STUBS = JSON.stringify([{ deltas: [] }]);
+      __resetReflectorStubsForTest();
+      try {
+        const payload = JSON.parse(await captureConsoleLog(() => reflectCommand({ json: true })));
+
+        expect(payload.success).toBe(true);
+        const exports = (await fs.readFile(exportLog, "utf-8")).trim().split("\n");
+        expect(exports.filter((line) => line.startsWith("markdown")).sort()).toEqual([
+          "markdown /sessions/long.jsonl",
+          "markdown /sessions/short.jsonl",
+        ]);
+        expect(exports.some((line) => line.endsWith("short.jsonl") && !line.startsWith("markdown"))).toBe(false);
+        const processed = await fs.readFile(getProcessedLogPath(), "utf-8");
+        expect(processed).toContain("/sessions/short.jsonl");
+        expect(await fs.readdir(env.diaryDir)).toHaveLength(1);
+      } finally {
+        delete process.env.CM_REFLECTOR_STUBS;
+        __resetReflectorStubsForTest();
+        if (originalLlm === undefined) delete process.env.CASS_MEMORY_LLM;
+        else process.env.CASS_MEMORY_LLM = originalLlm;
+        process.chdir(originalCwd);
+      }
+    });
+  });
+});
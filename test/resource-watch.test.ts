@@ -0,0 +1,91 @@
+/**
+ * Tests for the file watching behind MCP resource subscriptions
+ * (src/resource-watch.ts).
+ */
+import { describe, test, expect } from "bun:test";
+import { appendFileSync, mkdirSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { ResourceWatcher, resolveResourceWatchPaths } from "../src/resource-watch.js";
+import { createTestConfig } from "./helpers/factories.js";
+import { withTempCassHome } from "./helpers/temp.js";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("resolveResourceWatchPaths", () => {
+  test("maps resources to the files their writers touch", async () => {
+    await withTempCassHome(async (env) => {
+      const config = createTestConfig({ playbookPath: env.playbookPath, diaryDir: env.diaryDir });
+      const teamsDir = path.join(env.cassMemoryDir, "teams");
+      mkdirSync(path.join(teamsDir, "core", ".git"), { recursive: true });
+      const playbookPaths = [
+        env.playbookPath,
+        teamsDir,
+        path.join(teamsDir, "core", "playbook.yaml"),
+        path.join(env.cassMemoryDir, "blocked.log"),
+        path.join(env.cassMemoryDir, "toxic_bullets.log"),
+      ];
+      const originalCwd = process.cwd();
+      process.chdir(env.home);
+      try {
+        expect(await resolveResourceWatchPaths("cm://playbook", config)).toEqual(playbookPaths);
+        expect(await resolveResourceWatchPaths("cm://bullet/b-1", config)).toEqual(playbookPaths);
+        expect(await resolveResourceWatchPaths("cm://diary", config)).toEqual([env.diaryDir]);
+        expect(await resolveResourceWatchPaths("cm://diary/d-1", config)).toEqual([path.join(env.diaryDir, "d-1.json")]);
+        expect(await resolveResourceWatchPaths("cm://outcomes", config)).toEqual([path.join(env.cassMemoryDir, "outcomes.jsonl")]);
+        expect(await resolveResourceWatchPaths("cm://traumas", config)).toEqual([path.join(env.cassMemoryDir, "traumas.jsonl")]);
+        expect(await resolveResourceWatchPaths("cm://diary/../playbook", config)).toBeNull();
+        expect(await resolveResourceWatchPaths("cm://serve", config)).toBeNull();
+      } finally {
+        process.chdir(originalCwd);
+      }
+    });
+  });
+});
+
+describe("ResourceWatcher", () => {
+  test("notifies once per burst, including for files created after subscribing", async () => {
+    await withTempCassHome(async (env) => {
+      const file = path.join(env.home, "watched.jsonl");
+      const watcher = new ResourceWatcher({ intervalMs: 20, debounceMs: 250 });
+      const seen: string[] = [];
+      try {
+        watcher.watch("cm://outcomes", [file, file], (uri) => seen.push(uri));
+        expect(watcher.watchedPaths()).toEqual([file]);
+        await sleep(60);
+        expect(seen).toEqual([]);
+
+        writeFileSync(file, "{}\n");
+        await sleep(30);
+        appendFileSync(file, "{}\n");
+        await sleep(600);
+        expect(seen).toEqual(["cm://outcomes"]);
+      } finally {
+        watcher.close();
+      }
+    });
+  });
+
+  test("shares a path between subscribers and stops polling after the last leaves", async () => {
+    await withTempCassHome(async (env) => {
+      const file = path.join(env.home, "playbook.yaml");
+      const watcher = new ResourceWatcher({ intervalMs: 20, debounceMs: 10 });
+      const seen: string[] = [];
+      try {
+        const stopPlaybook = watcher.watch("cm://playbook", [file], (uri) => seen.push(uri));
+        const stopStats = watcher.watch("cm://stats", [file], (uri) => seen.push(uri));
+
+        stopPlaybook();
+        expect(watcher.watchedPaths()).toEqual([file]);
+        await sleep(60);
+        writeFileSync(file, "bullets: []\n");
+        await sleep(300);
+        expect(seen).toEqual(["cm://stats"]);
+
+        stopStats();
+        expect(watcher.watchedPaths()).toEqual([]);
+      } finally {
+        watcher.close();
+      }
+    });
+  });
+});
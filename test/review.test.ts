@@ -0,0 +1,170 @@
+/**
+ * Tests for the reflection review queue (src/review.ts) and `cm review`.
+ * Everything runs against a temp cass home, from a cwd outside any repo so
+ * approvals curate into the temp global playbook.
+ */
+import { describe, test, expect } from "bun:test";
+import { execSync } from "node:child_process";
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import yaml from "yaml";
+import {
+  approveReviewItems,
+  editReviewItem,
+  enqueueReviewItems,
+  listReviewItems,
+  rejectReviewItems,
+} from "../src/review.js";
+import { reviewCommand } from "../src/commands/review.js";
+import { createBlockedMatcher, loadAllBlockedEntries } from "../src/playbook.js";
+import type { PlaybookDelta } from "../src/types.js";
+import { createTestBullet, createTestConfig, createTestPlaybook } from "./helpers/factories.js";
+import { withTempCassHome } from "./helpers/temp.js";
+
+async function captureConsoleLog(fn: () => Promise<void>): Promise<string> {
+  const original = console.log;
+  const lines: string[] = [];
+  console.log = (...args: unknown[]) => {
+    lines.push(args.map(String).join(" "));
+  };
+  try {
+    await fn();
+  } finally {
+    console.log = original;
+  }
+  return lines.join("\n");
+}
+
+async function inDir<T>(dir: string, fn: () => Promise<T>): Promise<T> {
+  const originalCwd = process.cwd();
+  process.chdir(dir);
+  try {
+    return await fn();
+  } finally {
+    process.chdir(originalCwd);
+  }
+}
+
+function addDelta(content: string, sourceSession = "/sessions/a.jsonl"): PlaybookDelta {
+  return { type: "add", bullet: { content, category: "testing" }, reason: "seen in session", sourceSession };
+}
+
+describe("review queue", () => {
+  test("queues each proposal once, even from another session", async () => {
+    await withTempCassHome(async () => {
+      const first = await enqueueReviewItems([
+        { delta: addDelta("Seed the test database before running integration tests") },
+        { delta: { type: "deprecate", bulletId: "b-old", reason: "superseded" } },
+      ]);
+      const again = await enqueueReviewItems([
+        { delta: addDelta("Seed the test database before running integration tests", "/sessions/b.jsonl") },
+      ]);
+
+      expect(first.queued).toHaveLength(2);
+      expect(again).toEqual({ queued: [], duplicates: 1 });
+      expect((await listReviewItems()).map((i) => i.id)).toEqual(first.queued.map((i) => i.id));
+    });
+  });
+
+  test("approving curates the edited delta into the playbook", async () => {
+    await withTempCassHome(async (env) => {
+      writeFileSync(env.playbookPath, yaml.stringify(createTestPlaybook([])));
+      const config = createTestConfig({ playbookPath: env.playbookPath, diaryDir: env.diaryDir });
+      const { queued } = await enqueueReviewItems([{ delta: addDelta("Seed the database first") }]);
+      const id = queued[0].id;
+
+      const edited = await editReviewItem(id, { content: "Seed the test database before integration tests", category: "database" });
+      expect(edited.item?.editedAt).toBeDefined();
+
+      const approval = await inDir(env.home, () => approveReviewItems([id, "r-missing"], config, "looks right"));
+
+      expect(approval).toMatchObject({ applied: 1, notFound: ["r-missing"], notPending: [] });
+      const playbook = yaml.parse(readFileSync(env.playbookPath, "utf-8"));
+      expect(playbook.bullets.map((b: any) => [b.content, b.category])).toEqual([
+        ["Seed the test database before integration tests", "database"],
+      ]);
+      expect((await listReviewItems("approved"))[0]).toMatchObject({ id, decisionReason: "looks right" });
+      expect(await editReviewItem(id, { content: "late edit" })).toEqual({ error: "not_pending" });
+    });
+  });
+
+  test("approving curates into the repo the delta was proposed in", async () => {
+    await withTempCassHome(async (env) => {
+      writeFileSync(env.playbookPath, yaml.stringify(createTestPlaybook([])));
+      const repo = path.join(env.home, "repo");
+      mkdirSync(path.join(repo, ".cass"), { recursive: true });
+      execSync("git init", { cwd: repo, stdio: "pipe" });
+      const repoPlaybookPath = path.join(repo, ".cass", "playbook.yaml");
+      writeFileSync(
+        repoPlaybookPath,
+        yaml.stringify(createTestPlaybook([createTestBullet({ id: "b-repo01", content: "Use the repo's make targets" })]))
+      );
+      const config = createTestConfig({ playbookPath: env.playbookPath, diaryDir: env.diaryDir });
+
+      const { queued } = await inDir(repo, () =>
+        enqueueReviewItems([{ delta: { type: "deprecate", bulletId: "b-repo01", reason: "targets were removed" } }])
+      );
+      expect(queued[0].repoDir).toBe(path.join(execSync("git rev-parse --show-toplevel", { cwd: repo }).toString().trim(), ".cass"));
+
+      const approval = await inDir(env.home, () => approveReviewItems([queued[0].id], config));
+
+      expect(approval).toMatchObject({ applied: 1, skipped: 0 });
+      const repoPlaybook = yaml.parse(readFileSync(repoPlaybookPath, "utf-8"));
+      expect(repoPlaybook.bullets[0]).toMatchObject({ id: "b-repo01", deprecated: true });
+      expect(yaml.parse(readFileSync(env.playbookPath, "utf-8")).bullets).toEqual([]);
+    });
+  });
+
+  test("rejecting blocks the content from future reflection", async () => {
+    await withTempCassHome(async () => {
+      const { queued } = await enqueueReviewItems([
+        { delta: addDelta("Always commit the generated lockfile by hand") },
+      ]);
+
+      const decision = await rejectReviewItems([queued[0].id], "wrong for this team");
+
+      expect(decision.items.map((i) => i.status)).toEqual(["rejected"]);
+      const isBlocked = createBlockedMatcher(await loadAllBlockedEntries(null));
+      expect(isBlocked("Always commit the generated lockfile by hand")?.reason).toBe("Rejected in review: wrong for this team");
+      expect(isBlocked("Run the linter before pushing")).toBeUndefined();
+      expect(await listReviewItems()).toEqual([]);
+    });
+  });
+
+  test("only content-carrying deltas take a content edit", async () => {
+    await withTempCassHome(async () => {
+      const { queued } = await enqueueReviewItems([
+        { delta: { type: "replace", bulletId: "b-1", newContent: "Old wording", reason: "clearer" } },
+        { delta: { type: "deprecate", bulletId: "b-2", reason: "obsolete" } },
+      ]);
+
+      expect(await editReviewItem(queued[0].id, { content: "New wording" })).toMatchObject({
+        item: { delta: { newContent: "New wording" } },
+      });
+      expect(await editReviewItem(queued[0].id, { category: "style" })).toEqual({ error: "not_editable" });
+      expect(await editReviewItem(queued[1].id, { content: "anything" })).toEqual({ error: "not_editable" });
+    });
+  });
+});
+
+describe("cm review", () => {
+  test("lists pending items as JSON and reports unknown ids", async () => {
+    await withTempCassHome(async () => {
+      const { queued } = await enqueueReviewItems([{ delta: addDelta("Pin the node version in CI") }]);
+
+      const list = JSON.parse(await captureConsoleLog(() => reviewCommand("list", [], { json: true })));
+      expect(list.command).toBe("review:list");
+      expect(list.data).toMatchObject({ status: "pending", count: 1, items: [{ id: queued[0].id }] });
+
+      const missing = JSON.parse(await captureConsoleLog(() => reviewCommand("show", ["r-nope"], { json: true })));
+      expect(missing.error.code).toBe("REVIEW_ITEM_NOT_FOUND");
+
+      const badStatus = JSON.parse(await captureConsoleLog(() => reviewCommand("list", [], { status: "done", json: true })));
+      expect(badStatus.error.code).toBe("INVALID_INPUT");
+
+      const noEdit = JSON.parse(await captureConsoleLog(() => reviewCommand("edit", [queued[0].id], { json: true })));
+      expect(noEdit.error.code).toBe("INVALID_INPUT");
+      process.exitCode = 0;
+    });
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Tests for the scoring strategy registry (src/scoring.ts) and
+ * `cm scoring compare`.
+ */
+import { describe, test, expect } from "bun:test";
+import {
+  getEffectiveScore,
+  getScoringStrategy,
+  listScoringStrategies,
+  resolveScoringStrategy,
+  wilsonLowerBound,
+} from "../src/scoring.js";
+import { compareScoringStrategies, scoringCommand } from "../src/commands/scoring.js";
+import { savePlaybook } from "../src/playbook.js";
+import { createTestBullet, createTestConfig, createTestFeedbackEvent, createTestPlaybook } from "./helpers/factories.js";
+import { withTempCassHome } from "./helpers/temp.js";
+
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * 86_400_000).toISOString();
+}
+
+function withFeedback(id: string, helpful: number, harmful: number, ageDays = 0) {
+  return createTestBullet({
+    id,
+    maturity: "established",
+    feedbackEvents: [
+      ...Array.from({ length: helpful }, () => createTestFeedbackEvent("helpful", { timestamp: daysAgo(ageDays) })),
+      ...Array.from({ length: harmful }, () => createTestFeedbackEvent("harmful", { timestamp: daysAgo(ageDays) })),
+    ],
+  });
+}
+
+function configWith(scoring: Record<string, unknown>) {
+  const base = createTestConfig();
+  return createTestConfig({ scoring: { ...base.scoring, ...scoring } as any });
+}
+
+async function captureConsoleLog(fn: () => Promise<void>): Promise<string> {
+  const original = console.log;
+  const lines: string[] = [];
+  console.log = (...args: unknown[]) => {
+    lines.push(args.map(String).join(" "));
+  };
+  try {
+    await fn();
+  } finally {
+    console.log = original;
+  }
+  return lines.join("\n");
+}
+
+describe("scoring strategy registry", () => {
+  test("ships decay, bayesian, wilson and windowed", () => {
+    expect(listScoringStrategies().map((s) => s.name)).toEqual(["decay", "bayesian", "wilson", "windowed"]);
+  });
+
+  test("defaults to decay and falls back to it for unknown names", () => {
+    expect(resolveScoringStrategy(createTestConfig()).name).toBe("decay");
+    expect(resolveScoringStrategy(configWith({ strategy: "wilson" })).name).toBe("wilson");
+
+    const originalError = console.error;
+    console.error = () => {};
+    try {
+      expect(resolveScoringStrategy(configWith({ strategy: "nope" })).name).toBe("decay");
+    } finally {
+      console.error = originalError;
+    }
+  });
+
+  test("every strategy agrees on sign: neutral, helpful, harmful", () => {
+    const config = createTestConfig();
+    const empty = withFeedback("b-empty", 0, 0);
+    const good = withFeedback("b-good", 8, 0);
+    const bad = withFeedback("b-bad", 0, 3);
+
+    for (const strategy of listScoringStrategies()) {
+      expect(getEffectiveScore(empty, config, strategy)).toBe(0);
+      expect(getEffectiveScore(good, config, strategy)).toBeGreaterThan(0);
+      expect(getEffectiveScore(bad, config, strategy)).toBeLessThan(0);
+    }
+  });
+
+  test("wilson is more conservative than decay with thin evidence", () => {
+    const config = createTestConfig();
+    const wilson = getScoringStrategy("wilson")!;
+    const decay = getScoringStrategy("decay")!;
+    const thin = withFeedback("b-thin", 1, 0);
+    expect(getEffectiveScore(thin, config, wilson)).toBeLessThan(getEffectiveScore(thin, config, decay));
+    expect(wilsonLowerBound(10, 10)).toBeGreaterThan(wilsonLowerBound(1, 1));
+  });
+
+  test("windowed ignores feedback older than scoring.windowDays", () => {
+    const windowed = getScoringStrategy("windowed")!;
+    const old = withFeedback("b-old", 5, 0, 60);
+    expect(getEffectiveScore(old, configWith({ windowDays: 30 }), windowed)).toBe(0);
+    expect(getEffectiveScore(old, configWith({ windowDays: 90 }), windowed)).toBe(5);
+  });
+});
+
+describe("cm scoring compare", () => {
+  test("ranks bullets under each strategy, ordered by the configured one", () => {
+    const bullets = [withFeedback("b-low", 1, 0), withFeedback("b-high", 6, 0), withFeedback("b-neg", 1, 2)];
+    const comparison = compareScoringStrategies(bullets, createTestConfig());
+
+    expect(comparison.configured).toBe("decay");
+    expect(comparison.bullets.map((b) => b.id)).toEqual(["b-high", "b-low", "b-neg"]);
+    expect(comparison.bullets[0].strategies.wilson.rank).toBe(1);
+    expect(comparison.strategies.find((s) => s.name === "decay")!.agreement).toBe(1);
+  });
+
+  test("--json reports the configured strategy and respects --limit", async () => {
+    await withTempCassHome(async (env) => {
+      await savePlaybook(
+        createTestPlaybook([withFeedback("b-one", 3, 0), withFeedback("b-two", 1, 0)]),
+        env.playbookPath
+      );
+
+      const out = JSON.parse(await captureConsoleLog(() => scoringCommand("compare", { json: true, limit: 1 })));
+      expect(out.success).toBe(true);
+      expect(out.data.configured).toBe("decay");
+      expect(out.data.total).toBe(2);
+      expect(out.data.bullets).toHaveLength(1);
+      expect(out.data.bullets[0].id).toBe("b-one");
+    });
+  });
+});
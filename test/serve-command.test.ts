@@ -7,11 +7,16 @@
  * - computePlaybookStats calculation
  */
 import { describe, it, expect } from "bun:test";
+import http from "node:http";
 import { writeFile } from "node:fs/promises";
+import { PassThrough } from "node:stream";
 import path from "node:path";
+import yaml from "yaml";
 
 import { __test, computePlaybookStats, serveCommand } from "../src/commands/serve.js";
 import { withTempCassHome } from "./helpers/temp.js";
+import { ResourceWatcher } from "../src/resource-watch.js";
+import { createTestBullet, createTestDiary, createTestFeedbackEvent, createTestPlaybook } from "./helpers/factories.js";
 
 const {
   buildError,
@@ -20,6 +25,7 @@ const {
   headerValue,
   extractBearerToken,
   isNotification,
+  serveStdio,
   wrapToolResult,
   MCP_PROTOCOL_VERSION,
 } = __test;
@@ -368,6 +374,7 @@ describe("routeRequest JSON-RPC routing", () => {
     expect(isNotification({ jsonrpc: "2.0", method: "notifications/initialized" })).toBe(true);
     expect(isNotification({ jsonrpc: "2.0", method: "initialized" })).toBe(true);
     expect(isNotification({ jsonrpc: "2.0", id: 1, method: "tools/list" })).toBe(false);
+    expect(isNotification({ jsonrpc: "2.0", method: "notifications/cancelled", params: { requestId: 1 } })).toBe(true);
   });
 });
 
@@ -1487,3 +1494,437 @@ describe("cm_feedback tool additional validation", () => {
     }, "serve-feedback-empty-session");
   });
 });
+
+describe("playbook curation and trauma tools", () => {
+  async function callTool(name: string, args: Record<string, unknown>): Promise<any> {
+    const response = await routeRequest({ jsonrpc: "2.0", id: 1, method: "tools/call", params: { name, arguments: args } });
+    if ("error" in response) return { error: response.error.message };
+    return unwrapToolResult(response.result);
+  }
+
+  async function inHome<T>(home: string, fn: () => Promise<T>): Promise<T> {
+    const originalCwd = process.cwd();
+    process.chdir(home);
+    try {
+      return await fn();
+    } finally {
+      process.chdir(originalCwd);
+    }
+  }
+
+  it("adds, explains, finds, forgets and restores a rule", async () => {
+    await withTempCassHome(async (env) => {
+      await inHome(env.home, async () => {
+        const content = "Always run the database migrations before seeding fixtures in the integration suite";
+        const added = await callTool("cm_add", { content, category: "testing" });
+        expect(added).toMatchObject({ added: true, target: "global", bullet: { content, category: "testing" } });
+        expect(added.validation.warnings).toBeDefined();
+        const id = added.bullet.id;
+
+        const why = await callTool("cm_why", { bulletId: id.slice(0, 6) });
+        expect(why.bullet.id).toBe(id);
+
+        const similar = await callTool("cm_similar", { query: content, threshold: 0.5 });
+        expect(similar.results.map((r: any) => r.id)).toEqual([id]);
+
+        expect((await callTool("cm_forget", { bulletId: id, reason: "  " })).error).toContain("reason must be a non-empty string");
+        expect(await callTool("cm_forget", { bulletId: id, reason: "fixtures now seed themselves" })).toMatchObject({
+          bulletId: id,
+          action: "forgotten",
+        });
+        expect((await callTool("cm_stale", { days: 0 })).count).toBe(0);
+
+        const restored = await callTool("cm_undo", { bulletId: id });
+        expect(restored).toMatchObject({ action: "un-deprecate", after: { deprecated: false } });
+        expect((await callTool("cm_undo", { bulletId: id })).error).toContain("is not deprecated");
+        expect((await callTool("cm_undo", { bulletId: id, hard: true })).error).toContain("yes: true");
+        expect((await callTool("cm_stale", { days: 0 })).bullets.map((b: any) => b.id)).toEqual([id]);
+      });
+    }, "serve-curation-tools");
+  });
+
+  it("reports strict validation failures without adding the rule", async () => {
+    await withTempCassHome(async (env) => {
+      await inHome(env.home, async () => {
+        const result = await callTool("cm_add", { content: "Be careful", strict: true });
+        expect(result.added).toBe(false);
+        expect(result.validation.warnings.some((w: any) => w.severity === "warning")).toBe(true);
+        expect((await callTool("cm_stale", { days: 0 })).totalActive).toBe(0);
+        expect((await callTool("cm_add", { content: "Check the lockfile", appliesWhen: ["planet:mars"] })).error).toContain(
+          "Invalid appliesWhen"
+        );
+      });
+    }, "serve-add-strict");
+  });
+
+  it("adds trauma patterns and checks commands against them", async () => {
+    await withTempCassHome(async (env) => {
+      await inHome(env.home, async () => {
+        expect((await callTool("cm_trauma_add", { pattern: "([" })).error).toContain("Invalid regex pattern");
+
+        const { entry } = await callTool("cm_trauma_add", { pattern: "^git push --force", severity: "FATAL", message: "lost a day of work" });
+        expect(entry).toMatchObject({ severity: "FATAL", scope: "global", status: "active" });
+
+        expect(await callTool("cm_trauma_check", { command: "GIT PUSH --force origin main" })).toMatchObject({
+          blocked: true,
+          trauma: { id: entry.id },
+        });
+        expect(await callTool("cm_trauma_check", { command: "git push origin main" })).toEqual({
+          command: "git push origin main",
+          blocked: false,
+        });
+      });
+    }, "serve-trauma-tools");
+  });
+});
+
+describe("prompts and resource templates", () => {
+  async function request(method: string, params: Record<string, unknown> = {}): Promise<any> {
+    const response = await routeRequest({ jsonrpc: "2.0", id: 1, method, params });
+    return "error" in response ? { error: response.error } : response.result;
+  }
+
+  async function withPlaybook(fn: (env: { home: string; diaryDir: string }) => Promise<void>, label: string) {
+    await withTempCassHome(async (env) => {
+      await writeFile(
+        env.playbookPath,
+        yaml.stringify(
+          createTestPlaybook([
+            createTestBullet({
+              id: "b-migrate-first",
+              content: "Run database migrations before seeding fixtures",
+              category: "Testing",
+              feedbackEvents: [createTestFeedbackEvent("helpful")],
+            }),
+            createTestBullet({ id: "b-pin-node", content: "Pin the node version in CI images", category: "ci" }),
+            createTestBullet({ id: "b-old", content: "Use npm link for local packages", category: "testing", deprecated: true, state: "retired" }),
+          ])
+        )
+      );
+      const originalCwd = process.cwd();
+      process.chdir(env.home);
+      try {
+        await fn(env);
+      } finally {
+        process.chdir(originalCwd);
+      }
+    }, label);
+  }
+
+  it("advertises prompts and resource templates", async () => {
+    const init = await request("initialize");
+    expect(init.capabilities.prompts).toEqual({});
+
+    const { prompts } = await request("prompts/list");
+    expect(prompts.map((p: any) => p.name)).toEqual(["pre-task-briefing", "post-task-retrospective", "record-outcome"]);
+    expect(prompts[0].arguments).toContainEqual({ name: "task", description: "What you are about to do", required: true });
+
+    const { resourceTemplates } = await request("resources/templates/list");
+    expect(resourceTemplates.map((t: any) => t.uriTemplate)).toEqual([
+      "cm://bullet/{id}",
+      "cm://diary/{id}",
+      "cm://playbook/category/{name}",
+      "cm://context/{task}",
+    ]);
+  });
+
+  it("reads bullets, categories and diaries through templates", async () => {
+    await withPlaybook(async (env) => {
+      const bullet = await request("resources/read", { uri: "cm://bullet/b-migrate" });
+      expect(bullet.data).toMatchObject({ id: "b-migrate-first", category: "Testing" });
+      expect(bullet.data.effectiveScore).toBeGreaterThan(0);
+      expect((await request("resources/read", { uri: "cm://bullet/b-nope" })).error.message).toBe("Bullet not found: b-nope");
+
+      const category = await request("resources/read", { uri: "cm://playbook/category/TESTING" });
+      expect(category.data).toMatchObject({ category: "TESTING", count: 1 });
+      expect(category.data.bullets[0].id).toBe("b-migrate-first");
+
+      await writeFile(path.join(env.diaryDir, "diary-abc123.json"), JSON.stringify(createTestDiary({ id: "diary-abc123" })));
+      expect((await request("resources/read", { uri: "cm://diary/diary-abc123" })).data.id).toBe("diary-abc123");
+      expect((await request("resources/read", { uri: "cm://diary/..%2Fplaybook" })).error.message).toContain("Invalid diary id");
+      expect((await request("resources/read", { uri: "cm://diary/missing" })).error.message).toBe("Diary not found: missing");
+    }, "serve-resource-templates");
+  });
+
+  it("reads task context through the context template", async () => {
+    await withPlaybook(async () => {
+      const context = await request("resources/read", { uri: "cm://context/seeding%20database%20fixtures" });
+      expect(context.data.task).toBe("seeding database fixtures");
+      expect(context.data.relevantBullets.map((b: any) => b.id)).toContain("b-migrate-first");
+    }, "serve-resource-context");
+  });
+
+  it("builds prompts from the playbook and validates their arguments", async () => {
+    await withPlaybook(async () => {
+      const briefing = await request("prompts/get", { name: "pre-task-briefing", arguments: { task: "seed the database fixtures" } });
+      expect(briefing.messages[0]).toMatchObject({ role: "user", content: { type: "text" } });
+      expect(briefing.messages[0].content.text).toContain("seed the database fixtures");
+      expect(briefing.messages[0].content.text).toContain("[b-migrate-first]");
+
+      const retro = await request("prompts/get", {
+        name: "post-task-retrospective",
+        arguments: { summary: "Seeding failed until migrations ran" },
+      });
+      expect(retro.messages[0].content.text).toContain("Seeding failed until migrations ran");
+      expect(retro.messages[0].content.text).toContain("[b-pin-node]");
+      expect(retro.messages[0].content.text).not.toContain("b-old");
+      expect(retro.messages[1].content.text).toContain("cm_add");
+
+      const outcome = await request("prompts/get", {
+        name: "record-outcome",
+        arguments: { sessionId: "s-1", outcome: "Success", rulesUsed: "b-migrate-first, b-ghost" },
+      });
+      expect(outcome.messages[0].content.text).toContain("- [b-migrate-first] Run database migrations before seeding fixtures");
+      expect(outcome.messages[0].content.text).toContain("- [b-ghost] (not in the playbook)");
+      expect(outcome.messages[1].content.text).toContain('outcome "success"');
+
+      expect((await request("prompts/get", { name: "record-outcome", arguments: { sessionId: "s-1", outcome: "meh" } })).error.message).toContain(
+        "outcome must be one of"
+      );
+      expect((await request("prompts/get", { name: "record-outcome", arguments: { sessionId: "s-1" } })).error).toMatchObject({
+        code: -32602,
+        message: "Missing required argument(s): outcome",
+      });
+      expect((await request("prompts/get", { name: "nope" })).error.code).toBe(-32602);
+    }, "serve-prompts");
+  });
+});
+
+describe("stdio transport", () => {
+  async function runStdio(lines: string[]): Promise<any[]> {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    let written = "";
+    output.on("data", (chunk) => (written += chunk.toString()));
+    const done = serveStdio(input, output);
+    // One chunk: every line is read before any request can finish
+    input.end(lines.join("\n") + "\n");
+    await done;
+    return written.trim().split("\n").filter(Boolean).map((l) => JSON.parse(l));
+  }
+
+  it("answers requests line by line and stays silent for notifications", async () => {
+    await withTempCassHome(async () => {
+      const responses = await runStdio([
+        JSON.stringify({ jsonrpc: "2.0", id: 1, method: "initialize", params: { protocolVersion: MCP_PROTOCOL_VERSION } }),
+        JSON.stringify({ jsonrpc: "2.0", method: "notifications/initialized" }),
+        "{not json",
+        JSON.stringify({ jsonrpc: "2.0", id: "two", method: "tools/list" }),
+        JSON.stringify({ jsonrpc: "2.0", id: 3, method: "bogus/method" }),
+      ]);
+
+      const byId = new Map(responses.map((r) => [r.id, r]));
+      expect(responses).toHaveLength(4);
+      expect(byId.get(1).result.protocolVersion).toBe(MCP_PROTOCOL_VERSION);
+      expect(byId.get("two").result.tools.map((t: any) => t.name)).toContain("cm_trauma_check");
+      expect(byId.get(3).error.code).toBe(-32601);
+      expect(byId.get(null).error.code).toBe(-32700);
+    }, "serve-stdio");
+  });
+
+  it("drops the response of a cancelled request", async () => {
+    await withTempCassHome(async () => {
+      const responses = await runStdio([
+        JSON.stringify({ jsonrpc: "2.0", id: 7, method: "tools/call", params: { name: "cm_stale", arguments: { days: 0 } } }),
+        JSON.stringify({ jsonrpc: "2.0", method: "notifications/cancelled", params: { requestId: 7, reason: "user aborted" } }),
+        JSON.stringify({ jsonrpc: "2.0", id: 8, method: "ping" }),
+      ]);
+
+      expect(responses).toEqual([{ jsonrpc: "2.0", id: 8, result: {} }]);
+    }, "serve-stdio-cancel");
+  });
+});
+
+describe("resource subscriptions", () => {
+  const { createHttpHandler, createHttpSession, setHttpSessionGraceMs, setResourceWatcher, httpSessions } = __test;
+
+  async function waitFor<T>(read: () => T | undefined, timeoutMs = 3000): Promise<T> {
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      const value = read();
+      if (value !== undefined) return value;
+      if (Date.now() > deadline) throw new Error("Timed out waiting for notification");
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+  }
+
+  async function withFastWatcher(fn: () => Promise<void>): Promise<void> {
+    setResourceWatcher(new ResourceWatcher({ intervalMs: 20, debounceMs: 10 }));
+    try {
+      await fn();
+    } finally {
+      setResourceWatcher(null);
+    }
+  }
+
+  it("rejects subscriptions without a session or for unwatchable resources", async () => {
+    const noSession = await routeRequest({ jsonrpc: "2.0", id: 1, method: "resources/subscribe", params: { uri: "cm://playbook" } });
+    expect("error" in noSession && noSession.error).toMatchObject({ code: -32602 });
+
+    const session = { id: "s", subscriptions: new Map(), notify: () => {} };
+    const serveMetrics = await routeRequest(
+      { jsonrpc: "2.0", id: 2, method: "resources/subscribe", params: { uri: "cm://serve" } },
+      session
+    );
+    expect("error" in serveMetrics && serveMetrics.error.message).toBe("Resource does not support subscriptions: cm://serve");
+    expect(session.subscriptions.size).toBe(0);
+  });
+
+  it("pushes outcome updates to a stdio subscriber until it unsubscribes", async () => {
+    await withTempCassHome(async (env) => {
+      await withFastWatcher(async () => {
+        const originalCwd = process.cwd();
+        process.chdir(env.home);
+        const input = new PassThrough();
+        const output = new PassThrough();
+        const messages: any[] = [];
+        let buffered = "";
+        output.on("data", (chunk) => {
+          buffered += chunk.toString();
+          const lines = buffered.split("\n");
+          buffered = lines.pop() ?? "";
+          for (const line of lines.filter(Boolean)) messages.push(JSON.parse(line));
+        });
+        const done = serveStdio(input, output);
+        const send = (message: object) => input.write(`${JSON.stringify(message)}\n`);
+        const updates = () => messages.filter((m) => m.method === "notifications/resources/updated");
+        try {
+          send({ jsonrpc: "2.0", id: 1, method: "resources/subscribe", params: { uri: "cm://outcomes" } });
+          await waitFor(() => messages.find((m) => m.id === 1));
+          // Give the poller its first stat before writing.
+          await new Promise((resolve) => setTimeout(resolve, 60));
+
+          send({
+            jsonrpc: "2.0",
+            id: 2,
+            method: "tools/call",
+            params: { name: "cm_outcome", arguments: { sessionId: "s-1", outcome: "success" } },
+          });
+          const update = await waitFor(() => updates()[0]);
+          expect(update).toEqual({ jsonrpc: "2.0", method: "notifications/resources/updated", params: { uri: "cm://outcomes" } });
+
+          send({ jsonrpc: "2.0", id: 3, method: "resources/unsubscribe", params: { uri: "cm://outcomes" } });
+          await waitFor(() => messages.find((m) => m.id === 3));
+          const seen = updates().length;
+          send({
+            jsonrpc: "2.0",
+            id: 4,
+            method: "tools/call",
+            params: { name: "cm_outcome", arguments: { sessionId: "s-2", outcome: "failure" } },
+          });
+          await waitFor(() => messages.find((m) => m.id === 4));
+          await new Promise((resolve) => setTimeout(resolve, 150));
+          expect(updates()).toHaveLength(seen);
+        } finally {
+          input.end();
+          await done;
+          process.chdir(originalCwd);
+        }
+      });
+    }, "serve-subscribe-stdio");
+  });
+
+  it("streams playbook updates to an HTTP session over SSE", async () => {
+    await withTempCassHome(async (env) => {
+      await withFastWatcher(async () => {
+        const server = http.createServer(createHttpHandler({}));
+        await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+        const baseUrl = `http://127.0.0.1:${(server.address() as { port: number }).port}`;
+        const post = (body: object, headers: Record<string, string> = {}) =>
+          fetch(baseUrl, { method: "POST", headers: { "content-type": "application/json", ...headers }, body: JSON.stringify(body) });
+        const abort = new AbortController();
+        try {
+          const init = await post({ jsonrpc: "2.0", id: 1, method: "initialize", params: {} });
+          const sessionId = init.headers.get("mcp-session-id")!;
+          expect(sessionId).toBeTruthy();
+          expect(((await init.json()) as any).result.capabilities.resources.subscribe).toBe(true);
+
+          expect((await fetch(baseUrl, { headers: { "mcp-session-id": "nope", accept: "text/event-stream" } })).status).toBe(404);
+
+          const subscribed = await post(
+            { jsonrpc: "2.0", id: 2, method: "resources/subscribe", params: { uri: "cm://playbook" } },
+            { "mcp-session-id": sessionId }
+          );
+          expect(await subscribed.json()).toEqual({ jsonrpc: "2.0", id: 2, result: {} });
+
+          const stream = await fetch(baseUrl, {
+            headers: { "mcp-session-id": sessionId, accept: "text/event-stream" },
+            signal: abort.signal,
+          });
+          expect(stream.headers.get("content-type")).toBe("text/event-stream");
+          const reader = stream.body!.getReader();
+          let received = "";
+          const readUntil = async (needle: string) => {
+            while (!received.includes(needle)) {
+              const { value, done } = await reader.read();
+              if (done) throw new Error("stream closed");
+              received += new TextDecoder().decode(value);
+            }
+          };
+          await readUntil(": connected");
+
+          await writeFile(env.playbookPath, yaml.stringify(createTestPlaybook([createTestBullet({ id: "b-new" })])));
+          await readUntil("notifications/resources/updated");
+          expect(received).toContain(
+            `event: message\ndata: ${JSON.stringify({ jsonrpc: "2.0", method: "notifications/resources/updated", params: { uri: "cm://playbook" } })}\n\n`
+          );
+
+          const ended = await fetch(baseUrl, { method: "DELETE", headers: { "mcp-session-id": sessionId } });
+          expect(ended.status).toBe(204);
+          expect(httpSessions.has(sessionId)).toBe(false);
+        } finally {
+          abort.abort();
+          await new Promise<void>((resolve) => server.close(() => resolve()));
+        }
+      });
+    }, "serve-subscribe-sse");
+  });
+
+  it("drops an HTTP session once its stream has been closed for the grace period", async () => {
+    setHttpSessionGraceMs(50);
+    const server = http.createServer(createHttpHandler({}));
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const baseUrl = `http://127.0.0.1:${(server.address() as { port: number }).port}`;
+    try {
+      const init = await fetch(baseUrl, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "initialize", params: {} }),
+      });
+      const sessionId = init.headers.get("mcp-session-id")!;
+      await init.json();
+
+      const abort = new AbortController();
+      const stream = await fetch(baseUrl, {
+        headers: { "mcp-session-id": sessionId, accept: "text/event-stream" },
+        signal: abort.signal,
+      });
+      await stream.body!.getReader().read();
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      expect(httpSessions.has(sessionId)).toBe(true);
+
+      abort.abort();
+      await waitFor(() => (httpSessions.has(sessionId) ? undefined : true));
+    } finally {
+      setHttpSessionGraceMs(null);
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  });
+
+  it("evicts the least recently used session without an open stream", () => {
+    httpSessions.clear();
+    try {
+      const sessions = Array.from({ length: 100 }, () => createHttpSession());
+      sessions[0].stream = { write: () => true, end: () => {} } as any;
+
+      const added = createHttpSession();
+
+      expect(httpSessions.size).toBe(100);
+      expect(httpSessions.has(sessions[0].id)).toBe(true);
+      expect(httpSessions.has(sessions[1].id)).toBe(false);
+      expect(httpSessions.has(added.id)).toBe(true);
+    } finally {
+      httpSessions.clear();
+    }
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Tests for the shared team playbook layer (src/team.ts) and `cm team`.
+ * Sync runs against a local bare git repository, one HOME per teammate.
+ */
+import { describe, test, expect } from "bun:test";
+import { execSync } from "node:child_process";
+import { mkdirSync } from "node:fs";
+import path from "node:path";
+import { loadPlaybook, savePlaybook, findBullet, loadMergedPlaybook } from "../src/playbook.js";
+import {
+  addTeamRemote,
+  getTeamPlaybookPath,
+  getTeamStatus,
+  pullTeam,
+  pushTeam,
+} from "../src/team.js";
+import { teamCommand } from "../src/commands/team.js";
+import { applyOutcomeFeedback } from "../src/outcome.js";
+import { applyPlaybookDeltas } from "../src/orchestrator.js";
+import { loadConfig } from "../src/config.js";
+import { createTestBullet, createTestFeedbackEvent, createTestPlaybook } from "./helpers/factories.js";
+import { withTempCassHome, withTempDir } from "./helpers/temp.js";
+
+async function asUser<T>(home: string, fn: () => Promise<T>): Promise<T> {
+  const previous = process.env.HOME;
+  process.env.HOME = home;
+  try {
+    return await fn();
+  } finally {
+    process.env.HOME = previous;
+  }
+}
+
+async function captureConsoleLog(fn: () => Promise<void>): Promise<string> {
+  const original = console.log;
+  const lines: string[] = [];
+  console.log = (...args: unknown[]) => {
+    lines.push(args.map(String).join(" "));
+  };
+  try {
+    await fn();
+  } finally {
+    console.log = original;
+  }
+  return lines.join("\n");
+}
+
+async function markHelpful(bulletId: string, timestamp: string): Promise<void> {
+  const playbookPath = getTeamPlaybookPath("core");
+  const playbook = await loadPlaybook(playbookPath);
+  const bullet = findBullet(playbook, bulletId)!;
+  bullet.feedbackEvents.push(createTestFeedbackEvent("helpful", { timestamp }));
+  bullet.helpfulCount += 1;
+  await savePlaybook(playbook, playbookPath, { command: "mark" });
+}
+
+describe("team sync against a bare remote", () => {
+  test("two teammates' feedback on the same rule is summed, not overwritten", async () => {
+    await withTempDir("team-sync", async (dir) => {
+      const remote = path.join(dir, "team.git");
+      execSync(`git init --bare --quiet "${remote}"`);
+      const alice = path.join(dir, "alice");
+      const bob = path.join(dir, "bob");
+      mkdirSync(alice);
+      mkdirSync(bob);
+
+      await asUser(alice, async () => {
+        await addTeamRemote("core", remote);
+        const playbook = createTestPlaybook([createTestBullet({ id: "b-shared", content: "Run migrations in a transaction" })]);
+        await savePlaybook(playbook, getTeamPlaybookPath("core"), { command: "playbook add" });
+        const pushed = await pushTeam("core");
+        expect(pushed.pushed).toBe(true);
+      });
+
+      await asUser(bob, async () => {
+        await addTeamRemote("core", remote);
+        expect(findBullet(await loadPlaybook(getTeamPlaybookPath("core")), "b-shared")).toBeDefined();
+        await markHelpful("b-shared", "2026-02-01T00:00:00.000Z");
+        await pushTeam("core");
+      });
+
+      await asUser(alice, async () => {
+        await markHelpful("b-shared", "2026-02-02T00:00:00.000Z");
+        const result = await pushTeam("core");
+        expect(result.pull.outcome).toBe("merged");
+        expect(result.pushed).toBe(true);
+
+        const bullet = findBullet(await loadPlaybook(getTeamPlaybookPath("core")), "b-shared")!;
+        expect(bullet.helpfulCount).toBe(2);
+        expect(bullet.feedbackEvents).toHaveLength(2);
+      });
+
+      await asUser(bob, async () => {
+        const result = await pullTeam("core");
+        expect(result.outcome).toBe("fast-forward");
+        expect(findBullet(await loadPlaybook(getTeamPlaybookPath("core")), "b-shared")!.helpfulCount).toBe(2);
+
+        const status = await getTeamStatus("core");
+        expect(status.ahead).toBe(0);
+        expect(status.behind).toBe(0);
+        expect(status.dirty).toBe(false);
+      });
+    });
+  });
+
+  test("team rules are merged between the global and repo layers", async () => {
+    await withTempCassHome(async (env) => {
+      const remote = path.join(env.home, "team.git");
+      execSync(`git init --bare --quiet "${remote}"`);
+
+      await addTeamRemote("core", remote);
+      await savePlaybook(
+        createTestPlaybook([createTestBullet({ id: "b-team-only", content: "Team convention" })]),
+        getTeamPlaybookPath("core")
+      );
+
+      const merged = await loadMergedPlaybook(await loadConfig());
+      expect(findBullet(merged, "b-team-only")).toBeDefined();
+    });
+  });
+
+  test("outcomes and curated deltas on a team rule are saved to the team playbook", async () => {
+    await withTempCassHome(async (env) => {
+      const remote = path.join(env.home, "team.git");
+      execSync(`git init --bare --quiet "${remote}"`);
+
+      await addTeamRemote("core", remote);
+      const teamPath = getTeamPlaybookPath("core");
+      await savePlaybook(createTestPlaybook([createTestBullet({ id: "b-team-rule", content: "Team convention" })]), teamPath);
+      await savePlaybook(createTestPlaybook([]), env.playbookPath);
+      const config = await loadConfig();
+
+      const feedback = await applyOutcomeFeedback(
+        {
+          sessionId: "/tmp/team-session.jsonl",
+          outcome: "success",
+          rulesUsed: ["b-team-rule"],
+          recordedAt: new Date().toISOString(),
+          path: env.playbookPath,
+        },
+        config
+      );
+      expect(feedback).toEqual({ applied: 1, missing: [] });
+      expect(findBullet(await loadPlaybook(teamPath), "b-team-rule")!.feedbackEvents).toHaveLength(1);
+
+      const { globalResult, teamResults } = await applyPlaybookDeltas(
+        config,
+        [{ type: "deprecate", bulletId: "b-team-rule", reason: "Superseded" }],
+        { command: "test", repoDir: null }
+      );
+      expect(globalResult).toBeUndefined();
+      expect(teamResults?.map((t) => [t.name, t.result.applied])).toEqual([["core", 1]]);
+      expect(findBullet(await loadPlaybook(teamPath), "b-team-rule")!.deprecated).toBe(true);
+      expect(findBullet(await loadPlaybook(env.playbookPath), "b-team-rule")).toBeUndefined();
+    });
+  });
+});
+
+describe("cm team command", () => {
+  test("status --json lists configured teams and unknown teams are rejected", async () => {
+    await withTempCassHome(async (env) => {
+      const remote = path.join(env.home, "team.git");
+      execSync(`git init --bare --quiet "${remote}"`);
+
+      const added = JSON.parse(await captureConsoleLog(() => teamCommand("add-remote", ["core", remote], { json: true })));
+      expect(added.success).toBe(true);
+      expect(added.data.team.name).toBe("core");
+
+      const status = JSON.parse(await captureConsoleLog(() => teamCommand("status", [], { json: true })));
+      expect(status.data.teams.map((t: any) => t.name)).toEqual(["core"]);
+
+      const missing = JSON.parse(await captureConsoleLog(() => teamCommand("pull", ["nope"], { json: true })));
+      expect(missing.success).toBe(false);
+      expect(missing.error.code).toBe("CONFIG_INVALID");
+    });
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Tests for the playbook triage model behind `cm tui` (src/tui.ts) and its
+ * screen layout. Keys are fed straight into the state machine; actions run
+ * against a temp cass home from a cwd outside any repo.
+ */
+import { describe, test, expect } from "bun:test";
+import { readFileSync, writeFileSync } from "node:fs";
+import yaml from "yaml";
+import {
+  applyTriageAction,
+  createTriageState,
+  currentTriageRow,
+  filterTriageRows,
+  handleTriageKey,
+  loadTriageRows,
+  type TriageKey,
+  type TriageRow,
+  type TriageState,
+} from "../src/tui.js";
+import { renderTriageScreen } from "../src/commands/tui.js";
+import { createTestBullet, createTestConfig, createTestPlaybook } from "./helpers/factories.js";
+import { withTempCassHome } from "./helpers/temp.js";
+
+function row(id: string, score: number, content = `Rule ${id}`, extra: Record<string, unknown> = {}): TriageRow {
+  return { bullet: createTestBullet({ id, content, ...extra }), score };
+}
+
+function press(state: TriageState, ...keys: Array<string | TriageKey>) {
+  let result = { state } as ReturnType<typeof handleTriageKey>;
+  for (const key of keys) {
+    result = handleTriageKey(result.state, typeof key === "string" ? { sequence: key, name: key === " " ? "space" : key } : key);
+  }
+  return result;
+}
+
+const ENTER: TriageKey = { name: "return", sequence: "\r" };
+
+describe("triage state", () => {
+  const rows = [
+    row("b-low", -2, "Avoid committing generated files"),
+    row("b-high", 8, "Run migrations before seeding the database", { tags: ["database"] }),
+    row("b-mid", 1, "Pin the node version in CI images"),
+  ];
+
+  test("lists rules by score and flips the order, keeping the cursor on its rule", () => {
+    const state = createTriageState(rows);
+    expect(state.visible.map((r) => r.bullet.id)).toEqual(["b-high", "b-mid", "b-low"]);
+
+    const moved = press(state, "j").state;
+    expect(currentTriageRow(moved)?.bullet.id).toBe("b-mid");
+    const flipped = press(moved, "s").state;
+    expect(flipped.visible.map((r) => r.bullet.id)).toEqual(["b-low", "b-mid", "b-high"]);
+    expect(currentTriageRow(flipped)?.bullet.id).toBe("b-mid");
+  });
+
+  test("filters live while typing and Esc on the prompt drops the filter", () => {
+    expect(filterTriageRows(rows, "DATABASE migrations").map((r) => r.bullet.id)).toEqual(["b-high"]);
+
+    const typing = press(createTriageState(rows), "/", "c", "i");
+    expect(typing.state.visible.map((r) => r.bullet.id)).toEqual(["b-mid"]);
+    expect(press(typing.state, ENTER).state).toMatchObject({ filter: "ci", prompt: undefined });
+    expect(press(typing.state, { name: "escape" }).state.visible).toHaveLength(3);
+  });
+
+  test("single keys produce actions on the current rule", () => {
+    const state = createTriageState(rows);
+    expect(press(state, "+").action).toEqual({ type: "helpful", bulletId: "b-high" });
+    expect(press(state, "j", "-").action).toEqual({ type: "harmful", bulletId: "b-mid" });
+    expect(press(state, "p").action).toEqual({ type: "pin", bulletId: "b-high", pinned: true });
+    expect(press(state, "d", ENTER).action).toEqual({ type: "deprecate", bulletId: "b-high", reason: "Deprecated in cm tui" });
+
+    const editing = press(state, "e", { name: "backspace" }, { name: "backspace" }, { name: "backspace" }, "s", ENTER);
+    expect(editing.action).toEqual({ type: "edit", bulletId: "b-high", content: "Run migrations before seeding the databs" });
+    const unchanged = press(state, "e", ENTER);
+    expect(unchanged.action).toBeUndefined();
+    expect(unchanged.state.status).toBe("Edit cancelled: content unchanged");
+  });
+
+  test("merging needs two marked rules and prefills their combined text", () => {
+    const state = createTriageState(rows);
+    expect(press(state, "m").state.status).toContain("at least two");
+
+    const marked = press(state, " ", " ").state;
+    expect(marked.selected).toEqual(["b-high", "b-mid"]);
+    const merged = press(marked, "m", ENTER);
+    expect(merged.action).toEqual({
+      type: "merge",
+      bulletIds: ["b-high", "b-mid"],
+      content: "Run migrations before seeding the database Pin the node version in CI images",
+    });
+    expect(merged.state.selected).toEqual([]);
+  });
+
+  test("renders the list beside the detail pane within the terminal size", () => {
+    const state = press(createTriageState(rows), " ").state;
+    const lines = renderTriageScreen(state, [{ text: "b-mid detail" }], { columns: 100, rows: 12 });
+    expect(lines).toHaveLength(12);
+    expect(lines[0]).toContain("3/3 rules, highest score first, 1 marked");
+    expect(lines[1]).toMatch(/^ \* +8\.0 {2}b-high {2}Run migrations.*│ b-mid detail$/);
+    expect(lines[2]).toMatch(/^> +1\.0 {2}b-mid/);
+  });
+});
+
+describe("triage actions", () => {
+  test("pin, edit, merge and deprecate go through the playbook mutation paths", async () => {
+    await withTempCassHome(async (env) => {
+      writeFileSync(
+        env.playbookPath,
+        yaml.stringify(
+          createTestPlaybook([
+            createTestBullet({ id: "b-one", content: "Run the linter before committing" }),
+            createTestBullet({ id: "b-two", content: "Lint staged files before each commit" }),
+            createTestBullet({ id: "b-three", content: "Use feature flags for risky deploys" }),
+          ])
+        )
+      );
+      const config = createTestConfig({ playbookPath: env.playbookPath, diaryDir: env.diaryDir });
+      const originalCwd = process.cwd();
+      process.chdir(env.home);
+      try {
+        expect(await applyTriageAction(config, { type: "pin", bulletId: "b-three", pinned: true })).toBe("Pinned b-three");
+        expect(await applyTriageAction(config, { type: "pin", bulletId: "b-three", pinned: true })).toBe("b-three is already pinned");
+        await applyTriageAction(config, { type: "edit", bulletId: "b-three", content: "Ship risky changes behind feature flags" });
+        await applyTriageAction(config, { type: "merge", bulletIds: ["b-one", "b-two"], content: "Lint staged files before every commit" });
+
+        const rows = await loadTriageRows(config);
+        expect(rows.map((r) => r.bullet.content).sort()).toEqual([
+          "Lint staged files before every commit",
+          "Ship risky changes behind feature flags",
+        ]);
+
+        await applyTriageAction(config, { type: "deprecate", bulletId: "b-three", reason: "obsolete" });
+        const saved = yaml.parse(readFileSync(env.playbookPath, "utf-8"));
+        expect(saved.bullets.find((b: any) => b.id === "b-three")).toMatchObject({ pinned: true, deprecated: true });
+        expect((await loadTriageRows(config)).map((r) => r.bullet.id)).not.toContain("b-three");
+      } finally {
+        process.chdir(originalCwd);
+      }
+    });
+  });
+});
@@ -5,9 +5,10 @@
  * from code comments during reflection.
  *
  * Format: // [cass: helpful|harmful <bulletId>] - reason
+ *     and: [cm:<bulletId> applied|ignored|helpful|harmful: reason] (parseRuleCitations)
  */
 import { describe, test, expect } from "bun:test";
-import { parseInlineFeedback, inlineFeedbackToDeltas } from "../src/utils.js";
+import { parseInlineFeedback, inlineFeedbackToDeltas, parseRuleCitations } from "../src/utils.js";
 
 describe("parseInlineFeedback", () => {
   describe("Basic parsing", () => {
@@ -196,6 +197,35 @@ line3
   });
 });
 
+describe("parseRuleCitations", () => {
+  test("parses every citation on a line with its verdict and reason", () => {
+    const content = [
+      "Ran migrations first [cm:b-mn3ot59c-nny4gb applied] and skipped the cache rule [cm:b-x7k9p1 IGNORED: no cache here].",
+      "",
+      "[cm: b-8f3a2c harmful: the flag was removed in v3]",
+    ].join("\n");
+
+    expect(parseRuleCitations(content)).toEqual([
+      { bulletId: "b-mn3ot59c-nny4gb", verdict: "applied", reason: undefined, lineNumber: 1 },
+      { bulletId: "b-x7k9p1", verdict: "ignored", reason: "no cache here", lineNumber: 1 },
+      { bulletId: "b-8f3a2c", verdict: "harmful", reason: "the flag was removed in v3", lineNumber: 3 },
+    ]);
+  });
+
+  test("ignores placeholders, unknown verdicts and plain rule references", () => {
+    const content = "Cite as [cm:<id> applied]. See **[b-8f3a2c]** and [cm:b-8f3a2c used].";
+    expect(parseRuleCitations(content)).toEqual([]);
+  });
+
+  test("helpful and harmful citations also count as inline feedback", () => {
+    const content = "// [cass: helpful b-aaa111]\nDone [cm:b-bbb222 applied] [cm:b-ccc333 harmful: outdated]";
+    expect(parseInlineFeedback(content).map((f) => [f.type, f.bulletId, f.reason])).toEqual([
+      ["helpful", "b-aaa111", undefined],
+      ["harmful", "b-ccc333", "outdated"],
+    ]);
+  });
+});
+
 describe("inlineFeedbackToDeltas", () => {
   test("converts feedback to deltas with session path", () => {
     const feedback = [
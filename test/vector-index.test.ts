@@ -0,0 +1,217 @@
+/**
+ * Tests for the on-disk vector index (src/vector-index.ts) and the places that
+ * read and maintain it.
+ */
+import { describe, test, expect } from "bun:test";
+import { existsSync } from "node:fs";
+import {
+  VECTOR_INDEX_MIN_ENTRIES,
+  bulletVectorKey,
+  createEmptyVectorIndex,
+  getVectorIndexPath,
+  loadVectorIndex,
+  searchVectorIndex,
+  trainVectorIndex,
+  updateVectorIndex,
+  upsertVector,
+} from "../src/vector-index.js";
+import { cosineSimilarity, findSimilarBulletsSemantic, indexBulletEmbeddings } from "../src/semantic.js";
+import { savePlaybook } from "../src/playbook.js";
+import { detectFixableIssues } from "../src/commands/doctor.js";
+import { scoreBulletsEnhanced } from "../src/commands/context.js";
+import { extractKeywords, hashContent, scoreBulletRelevance } from "../src/utils.js";
+import { createTestBullet, createTestConfig, createTestPlaybook } from "./helpers/factories.js";
+import { withTempCassHome } from "./helpers/temp.js";
+
+/** Deterministic pseudo-random vectors (LCG) so recall numbers are stable. */
+function randomVectors(count: number, dims: number, seed = 42): number[][] {
+  let state = seed;
+  const next = () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296 - 0.5;
+  };
+  return Array.from({ length: count }, () => Array.from({ length: dims }, next));
+}
+
+/** Vectors scattered around a few centres, like embeddings of related rules. */
+function clusteredVectors(count: number, dims: number, clusters: number, seed = 42): number[][] {
+  const centres = randomVectors(clusters, dims, seed);
+  const noise = randomVectors(count, dims, seed + 1);
+  return noise.map((n, i) => centres[i % clusters].map((c, d) => c + 0.3 * n[d]));
+}
+
+function indexOf(vectors: number[][]) {
+  const index = createEmptyVectorIndex("test-model");
+  vectors.forEach((vector, i) => {
+    upsertVector(index, bulletVectorKey(`b-${i}`), { kind: "bullet", ref: `b-${i}`, contentHash: `h${i}`, vector });
+  });
+  return index;
+}
+
+describe("vector index", () => {
+  test("a small index is scanned exactly", () => {
+    const vectors = randomVectors(50, 8);
+    const index = indexOf(vectors);
+    trainVectorIndex(index);
+    expect(index.centroids).toEqual([]);
+
+    const hits = searchVectorIndex(index, vectors[7], { k: 3 });
+    expect(hits[0].entry.ref).toBe("b-7");
+    expect(hits[0].similarity).toBeCloseTo(1, 4);
+  });
+
+  test("a trained index finds most of the exact top 10", () => {
+    const vectors = clusteredVectors(800, 16, 25);
+    const index = indexOf(vectors);
+    trainVectorIndex(index);
+    expect(index.centroids.length).toBe(Math.round(Math.sqrt(800)));
+    expect(Object.values(index.entries).every((e) => e.list >= 0)).toBe(true);
+
+    let found = 0;
+    const queries = clusteredVectors(20, 16, 25, 7);
+    for (const query of queries) {
+      const exact = vectors
+        .map((v, i) => ({ ref: `b-${i}`, sim: cosineSimilarity(query, v) }))
+        .sort((a, b) => b.sim - a.sim)
+        .slice(0, 10)
+        .map((x) => x.ref);
+      const approx = new Set(searchVectorIndex(index, query, { k: 10 }).map((h) => h.entry.ref));
+      found += exact.filter((ref) => approx.has(ref)).length;
+    }
+    expect(found / (queries.length * 10)).toBeGreaterThan(0.8);
+  });
+
+  test("upsert skips unchanged content and mismatched dimensions", () => {
+    const index = indexOf(randomVectors(2, 4));
+    const key = bulletVectorKey("b-0");
+    expect(upsertVector(index, key, { kind: "bullet", ref: "b-0", contentHash: "h0", vector: [1, 0, 0, 0] })).toBe(false);
+    expect(upsertVector(index, key, { kind: "bullet", ref: "b-0", contentHash: "new", vector: [1, 0, 0] })).toBe(false);
+    expect(upsertVector(index, key, { kind: "bullet", ref: "b-0", contentHash: "new", vector: [1, 0, 0, 0] })).toBe(true);
+    expect(index.entries[key].vector).toEqual([1, 0, 0, 0]);
+  });
+
+  test("updates persist, train once large enough, and are keyed to the model", async () => {
+    await withTempCassHome(async () => {
+      const vectors = randomVectors(VECTOR_INDEX_MIN_ENTRIES, 8);
+      await updateVectorIndex(
+        (index) => {
+          vectors.forEach((vector, i) =>
+            upsertVector(index, `bullet:b-${i}`, { kind: "bullet", ref: `b-${i}`, contentHash: `h${i}`, vector })
+          );
+          return true;
+        },
+        { model: "test-model" }
+      );
+
+      const loaded = await loadVectorIndex({ model: "test-model" });
+      expect(Object.keys(loaded!.entries).length).toBe(VECTOR_INDEX_MIN_ENTRIES);
+      expect(loaded!.centroids.length).toBeGreaterThan(0);
+      expect(await loadVectorIndex({ model: "other-model" })).toBeNull();
+    });
+  });
+});
+
+describe("vector index integration", () => {
+  test("findSimilarBulletsSemantic reads the index for large playbooks without writing it", async () => {
+    await withTempCassHome(async () => {
+      const vectors = randomVectors(VECTOR_INDEX_MIN_ENTRIES + 44, 12);
+      const bullets = vectors.map((embedding, i) => ({
+        ...createTestBullet({ id: `b-${i}`, content: `Rule number ${i}` }),
+        embedding,
+      }));
+      const query = () => findSimilarBulletsSemantic("query", bullets, 5, { model: "test-model", queryEmbedding: vectors[123] });
+
+      // Without an index every bullet is scanned exactly, and the query creates none
+      expect((await query())[0].bullet.id).toBe("b-123");
+      expect(existsSync(getVectorIndexPath())).toBe(false);
+
+      await indexBulletEmbeddings(bullets, { model: "test-model" });
+      const indexed = await loadVectorIndex({ model: "test-model" });
+      expect(Object.keys(indexed!.entries).length).toBe(bullets.length);
+
+      expect((await query())[0].bullet.id).toBe("b-123");
+      expect((await loadVectorIndex({ model: "test-model" }))!.updatedAt).toBe(indexed!.updatedAt);
+    });
+  });
+
+  test("context keeps the full keyword score for matches outside the nearest candidates", async () => {
+    await withTempCassHome(async () => {
+      const vectors = randomVectors(VECTOR_INDEX_MIN_ENTRIES + 44, 12);
+      const query = vectors[0];
+      const bullets = vectors.map((embedding, i) => ({
+        ...createTestBullet({ id: `b-${i}`, content: `Rule number ${i}` }),
+        embedding,
+      }));
+      // Matches the task word for word but points away from the query embedding
+      const keywordOnly = {
+        ...createTestBullet({ id: "b-keyword", content: "Rotate the signing keys before deploying", tags: ["deploy"] }),
+        embedding: query.map((x) => -x),
+      };
+      bullets.push(keywordOnly);
+
+      const task = "rotate signing keys before deploying";
+      const keywords = extractKeywords(task);
+      const config = createTestConfig({ semanticSearchEnabled: true, embeddingModel: "test-model", semanticWeight: 0.6 });
+      const scored = await scoreBulletsEnhanced(bullets, task, keywords, config, {
+        queryEmbedding: query,
+        skipEmbeddingLoad: true,
+      });
+
+      const match = scored.find((b) => b.id === "b-keyword")!;
+      expect(match.relevanceScore).toBeCloseTo(scoreBulletRelevance(keywordOnly.content, keywordOnly.tags, keywords), 10);
+      expect(scored[0].id).toBe("b-keyword");
+    });
+  });
+
+  test("saving a playbook drops vectors for edited and deprecated rules", async () => {
+    await withTempCassHome(async (env) => {
+      const keep = createTestBullet({ id: "b-keep", content: "Keep me" });
+      const edited = createTestBullet({ id: "b-edit", content: "Edited later" });
+      const gone = createTestBullet({ id: "b-gone", content: "Deprecated later" });
+      await updateVectorIndex(
+        (index) => {
+          for (const [i, b] of [keep, edited, gone].entries()) {
+            upsertVector(index, bulletVectorKey(b.id), {
+              kind: "bullet",
+              ref: b.id,
+              contentHash: hashContent(b.content),
+              vector: [i + 1, 1, 0],
+            });
+          }
+          return true;
+        },
+        { model: "test-model" }
+      );
+
+      await savePlaybook(
+        createTestPlaybook([keep, { ...edited, content: "Edited now" }, { ...gone, deprecated: true }]),
+        env.playbookPath
+      );
+
+      const index = await loadVectorIndex();
+      expect(Object.keys(index!.entries)).toEqual([bulletVectorKey("b-keep")]);
+    });
+  });
+
+  test("doctor offers a rebuild for orphaned entries and the fix clears them", async () => {
+    await withTempCassHome(async (env) => {
+      await savePlaybook(createTestPlaybook([]), env.playbookPath);
+      await updateVectorIndex(
+        (index) => upsertVector(index, bulletVectorKey("b-removed"), {
+          kind: "bullet",
+          ref: "b-removed",
+          contentHash: "h",
+          vector: [1, 0],
+        }),
+        { model: "Xenova/all-MiniLM-L6-v2" }
+      );
+
+      const issue = (await detectFixableIssues()).find((i) => i.id === "rebuild-vector-index");
+      expect(issue?.description).toContain("1 entries for removed or inactive rules");
+
+      await issue!.fix();
+      expect((await loadVectorIndex())!.entries).toEqual({});
+      expect((await detectFixableIssues()).some((i) => i.id === "rebuild-vector-index")).toBe(false);
+    });
+  });
+});
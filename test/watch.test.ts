@@ -0,0 +1,254 @@
+/**
+ * Tests for the session watcher (src/watch.ts) and `cm watch`.
+ * Polls run in-process against temp session directories; the clock is
+ * injected so "idle" does not depend on real waiting.
+ */
+import { describe, test, expect } from "bun:test";
+import { existsSync, readFileSync, utimesSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import yaml from "yaml";
+import {
+  loadWatchState,
+  processWatchedSession,
+  runWatchLoop,
+  scanWatchedSessions,
+  type WatchedSession,
+  type WatchState,
+} from "../src/watch.js";
+import { watchCommand } from "../src/commands/watch.js";
+import { orchestrateReflection } from "../src/orchestrator.js";
+import { loadOutcomes } from "../src/outcome.js";
+import { loadTraumaCandidates } from "../src/trauma.js";
+import { createTestBullet, createTestConfig, createTestPlaybook } from "./helpers/factories.js";
+import { withTempCassHome, withTempDir, writeFileInDir } from "./helpers/temp.js";
+import { withLlmShim } from "./helpers/llm-shim.js";
+
+async function captureConsoleLog(fn: () => Promise<void>): Promise<string> {
+  const original = console.log;
+  const lines: string[] = [];
+  console.log = (...args: unknown[]) => {
+    lines.push(args.map(String).join(" "));
+  };
+  try {
+    await fn();
+  } finally {
+    console.log = original;
+  }
+  return lines.join("\n");
+}
+
+const MINUTE = 60_000;
+const T0 = Date.parse("2026-10-01T12:00:00.000Z");
+
+describe("scanWatchedSessions", () => {
+  test("tracks sessions changed after the baseline and finishes them once idle", () => {
+    const state: WatchState = {
+      since: new Date(T0).toISOString(),
+      sessions: {
+        "/s/done.jsonl": { mtimeMs: T0 + MINUTE, size: 10, processedAt: "x", diaryId: "diary-1" },
+        "/s/resumed.jsonl": { mtimeMs: T0 + MINUTE, size: 10, processedAt: "x", diaryId: "diary-2" },
+      },
+    };
+    const files = new Map([
+      ["/s/old.jsonl", { mtimeMs: T0 - MINUTE, size: 5 }],
+      ["/s/idle.jsonl", { mtimeMs: T0 + 2 * MINUTE, size: 5 }],
+      ["/s/active.jsonl", { mtimeMs: T0 + 28 * MINUTE, size: 5 }],
+      ["/s/done.jsonl", { mtimeMs: T0 + MINUTE, size: 10 }],
+      ["/s/resumed.jsonl", { mtimeMs: T0 + 3 * MINUTE, size: 20 }],
+      ["/s/subagents/agent-a1.jsonl", { mtimeMs: T0 + 2 * MINUTE, size: 5 }],
+    ]);
+
+    const scan = scanWatchedSessions(state, files, createTestConfig(), 10, new Date(T0 + 30 * MINUTE));
+
+    expect(scan.finished.sort()).toEqual(["/s/idle.jsonl", "/s/resumed.jsonl"]);
+    expect(scan.pending).toBe(1);
+    expect(Object.keys(scan.state.sessions).sort()).toEqual([
+      "/s/active.jsonl",
+      "/s/done.jsonl",
+      "/s/idle.jsonl",
+      "/s/resumed.jsonl",
+    ]);
+    expect(scan.state.sessions["/s/resumed.jsonl"]).toEqual({ mtimeMs: T0 + 3 * MINUTE, size: 20 });
+  });
+});
+
+describe("processWatchedSession", () => {
+  test("writes a fast diary, records the outcome for cited rules and flags trauma candidates", async () => {
+    await withTempCassHome(async (env) => {
+      writeFileSync(
+        env.playbookPath,
+        yaml.stringify(createTestPlaybook([createTestBullet({ id: "b-watch01", content: "Rebase before pushing" })]))
+      );
+      const sessionPath = path.join(env.home, ".claude", "projects", "app", "session.jsonl");
+      await writeFileInDir(
+        path.dirname(sessionPath),
+        "session.jsonl",
+        [
+          { role: "user", content: "Fix the flaky login test in the auth module" },
+          { role: "assistant", content: "Following b-watch01. Resetting the branch first:\ngit reset --hard origin/main" },
+          { role: "user", content: "Thanks, that worked perfectly" },
+        ]
+          .map((m) => JSON.stringify(m))
+          .join("\n")
+      );
+      const config = createTestConfig({
+        cassPath: "/nonexistent/cass",
+        playbookPath: env.playbookPath,
+        diaryDir: env.diaryDir,
+      });
+
+      // Outside any repo, so outcomes go to the temp home's global log
+      const originalCwd = process.cwd();
+      process.chdir(env.home);
+      try {
+        const result = await processWatchedSession(sessionPath, config, { llm: false });
+
+        expect(result).toMatchObject({ diaryMode: "fast", outcome: { rulesUsed: ["b-watch01"], feedbackApplied: 1 } });
+        expect(existsSync(path.join(env.diaryDir, `${result.diaryId}.json`))).toBe(true);
+        expect(result.traumas.map((t) => t.description)).toEqual(["Git hard reset"]);
+        expect((await loadTraumaCandidates()).map((t) => [t.sessionPath, t.description])).toEqual([
+          [sessionPath, "Git hard reset"],
+        ]);
+        const outcomes = await loadOutcomes(config);
+        expect(outcomes.map((o) => [o.sessionId, o.autoGraded])).toEqual([[sessionPath, true]]);
+        expect(readFileSync(env.playbookPath, "utf-8")).toContain("helpfulCount: 1");
+      } finally {
+        process.chdir(originalCwd);
+      }
+    });
+  });
+  test("a session watch graded by citation is not graded again by cm reflect", async () => {
+    await withTempCassHome(async (env) => {
+      writeFileSync(
+        env.playbookPath,
+        yaml.stringify(createTestPlaybook([createTestBullet({ id: "b-watch02", content: "Run the linter before committing" })]))
+      );
+      const sessionPath = path.join(env.home, ".claude", "projects", "app", "cited.jsonl");
+      await writeFileInDir(
+        path.dirname(sessionPath),
+        "cited.jsonl",
+        [
+          { role: "user", content: "Tidy up the lint warnings in the payments module" },
+          { role: "assistant", content: "Ran the linter first [cm:b-watch02 applied] and fixed the warnings it reported." },
+          { role: "user", content: "Thanks, that worked perfectly" },
+        ]
+          .map((m) => JSON.stringify(m))
+          .join("\n")
+      );
+      const config = createTestConfig({
+        cassPath: "/nonexistent/cass",
+        playbookPath: env.playbookPath,
+        diaryDir: env.diaryDir,
+        validationEnabled: false,
+      });
+
+      const originalCwd = process.cwd();
+      const originalLlm = process.env.CASS_MEMORY_LLM;
+      process.chdir(env.home);
+      process.env.CASS_MEMORY_LLM = "none";
+      try {
+        const watched = await processWatchedSession(sessionPath, config, { llm: false });
+        expect(watched.outcome).toMatchObject({ rulesUsed: ["b-watch02"], feedbackApplied: 1 });
+
+        await withLlmShim(
+          {
+            reflector: {
+              deltas: [{ type: "add", bullet: { content: "Fix lint warnings module by module", category: "style", tags: [] }, reason: "seen in session" }],
+            },
+          },
+          async (io) => {
+            const reflected = await orchestrateReflection(config, { session: sessionPath, io });
+            expect(reflected.errors).toEqual([]);
+            expect(reflected.autoOutcome?.outcomesRecorded).toBe(0);
+          }
+        );
+
+        const outcomes = await loadOutcomes(config);
+        expect(outcomes.map((o) => [o.sessionId, o.autoGraded, o.source])).toEqual([[sessionPath, false, "watch"]]);
+        const playbook = yaml.parse(readFileSync(env.playbookPath, "utf-8"));
+        expect(playbook.bullets.find((b: any) => b.id === "b-watch02").helpfulCount).toBe(1);
+      } finally {
+        process.chdir(originalCwd);
+        if (originalLlm === undefined) delete process.env.CASS_MEMORY_LLM;
+        else process.env.CASS_MEMORY_LLM = originalLlm;
+      }
+    });
+  });
+});
+
+describe("runWatchLoop", () => {
+  test("baselines on the first poll, then processes each finished session once", async () => {
+    await withTempCassHome(async () => {
+      await withTempDir("watch", async (dir) => {
+        let nowMs = T0;
+        const seen: string[] = [];
+        const deps = {
+          loadConfig: async () => createTestConfig(),
+          resolveRoots: async () => [dir],
+          now: () => new Date(nowMs),
+          processSession: async (sessionPath: string): Promise<WatchedSession> => {
+            seen.push(sessionPath);
+            return { sessionPath, diaryId: "diary-x", traumas: [] };
+          },
+        };
+        const poll = () => runWatchLoop({ maxCycles: 1, idleMinutes: 10, deps });
+
+        await writeFileInDir(dir, "before.jsonl", "{}");
+        utimesSync(path.join(dir, "before.jsonl"), new Date(T0 - MINUTE), new Date(T0 - MINUTE));
+        expect(await poll()).toMatchObject({ baseline: true, processed: [] });
+
+        const session = await writeFileInDir(dir, "project/new.jsonl", "{}");
+        utimesSync(session, new Date(T0 + MINUTE), new Date(T0 + MINUTE));
+        nowMs = T0 + 5 * MINUTE;
+        expect(await poll()).toMatchObject({ baseline: false, pending: 1, processed: [] });
+
+        nowMs = T0 + 15 * MINUTE;
+        expect((await poll())?.processed.map((p) => p.sessionPath)).toEqual([session]);
+        expect(await poll()).toMatchObject({ pending: 0, processed: [] });
+
+        expect(seen).toEqual([session]);
+        expect((await loadWatchState())?.sessions[session]).toMatchObject({ diaryId: "diary-x" });
+      });
+    });
+  });
+
+  test("retries a failed session on later polls until the attempts run out", async () => {
+    await withTempCassHome(async () => {
+      await withTempDir("watch-retry", async (dir) => {
+        let nowMs = T0;
+        let calls = 0;
+        const deps = {
+          loadConfig: async () => createTestConfig(),
+          resolveRoots: async () => [dir],
+          now: () => new Date(nowMs),
+          processSession: async (): Promise<WatchedSession> => {
+            calls++;
+            throw new Error("cass export timed out");
+          },
+        };
+        const poll = () => runWatchLoop({ maxCycles: 1, idleMinutes: 10, deps });
+
+        expect(await poll()).toMatchObject({ baseline: true });
+        const session = await writeFileInDir(dir, "project/flaky.jsonl", "{}");
+        utimesSync(session, new Date(T0 + MINUTE), new Date(T0 + MINUTE));
+        nowMs = T0 + 15 * MINUTE;
+
+        for (let i = 0; i < 5; i++) await poll();
+
+        expect(calls).toBe(3);
+        expect((await loadWatchState())?.sessions[session]).toMatchObject({
+          attempts: 3,
+          error: "cass export timed out",
+        });
+      });
+    });
+  });
+});
+
+describe("cm watch", () => {
+  test("rejects a non-positive --idle-minutes", async () => {
+    const out = JSON.parse(await captureConsoleLog(() => watchCommand({ idleMinutes: 0, once: true, json: true })));
+    expect(out.command).toBe("watch");
+    expect(out.error.code).toBe("INVALID_INPUT");
+  });
+});
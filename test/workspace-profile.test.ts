@@ -0,0 +1,142 @@
+/**
+ * Tests for workspace profiling (src/workspace-profile.ts) and the
+ * language/framework scopes it drives in `cm context`, `cm why` and
+ * `cm project profile`.
+ */
+import { describe, test, expect } from "bun:test";
+import { writeFileSync } from "node:fs";
+import path from "node:path";
+import yaml from "yaml";
+import { inferScopeKey, profileWorkspace } from "../src/workspace-profile.js";
+import { contextCommand } from "../src/commands/context.js";
+import { whyCommand } from "../src/commands/why.js";
+import { projectProfileCommand } from "../src/commands/project.js";
+import { createTestBullet, createTestPlaybook } from "./helpers/factories.js";
+import { withTempCassHome, withTempDir, writeFileInDir } from "./helpers/temp.js";
+
+async function captureConsoleLog(fn: () => Promise<void>): Promise<string> {
+  const original = console.log;
+  const lines: string[] = [];
+  console.log = (...args: unknown[]) => {
+    lines.push(args.map(String).join(" "));
+  };
+  try {
+    await fn();
+  } finally {
+    console.log = original;
+  }
+  return lines.join("\n");
+}
+
+/** A rust service using axum, with a small python tooling directory. */
+async function writeRustProject(dir: string): Promise<void> {
+  await writeFileInDir(dir, ".git/HEAD", "ref: refs/heads/main\n");
+  await writeFileInDir(
+    dir,
+    "Cargo.toml",
+    ["[package]", 'name = "svc"', "", "[dependencies]", 'axum = "0.7"', 'tokio = { version = "1" }', "", "[dev-dependencies]", 'insta = "1"'].join("\n")
+  );
+  await writeFileInDir(dir, "Cargo.lock", "");
+  for (const name of ["main", "routes", "db", "config"]) {
+    await writeFileInDir(dir, `src/${name}.rs`, "");
+  }
+  await writeFileInDir(dir, "scripts/release.py", "");
+  await writeFileInDir(dir, "target/debug/build.rs", "");
+}
+
+describe("profileWorkspace", () => {
+  test("detects languages, frameworks and package managers from manifests, lockfiles and extensions", async () => {
+    await withTempDir("profile", async (dir) => {
+      await writeRustProject(dir);
+      const profile = await profileWorkspace(path.join(dir, "src"));
+
+      expect(profile.root).toBe(dir);
+      expect(profile.languages.map((l) => l.name)).toEqual(["rust"]);
+      expect(profile.languages[0]).toMatchObject({ files: 4, evidence: ["Cargo.toml", "extensions"] });
+      expect(profile.frameworks).toEqual([
+        { name: "tokio", language: "rust", evidence: "Cargo.toml: tokio" },
+        { name: "axum", language: "rust", evidence: "Cargo.toml: axum" },
+      ]);
+      expect(profile.packageManagers).toEqual(["cargo"]);
+      // target/ is skipped; one stray .py file is below the extension threshold
+      expect(profile.extensions).toEqual({ ".rs": 4, ".py": 1 });
+    });
+  });
+
+  test("reads go.mod, pyproject.toml and package.json dependencies", async () => {
+    await withTempDir("profile", async (dir) => {
+      await writeFileInDir(dir, "go/go.mod", "module x\n\nrequire (\n\tgithub.com/gin-gonic/gin v1.9.1\n)\n");
+      await writeFileInDir(dir, "py/pyproject.toml", '[project]\ndependencies = ["Django>=4.2", "requests"]\n');
+      await writeFileInDir(dir, "js/package.json", JSON.stringify({ dependencies: { next: "14" }, devDependencies: { vitest: "1" } }));
+      await writeFileInDir(dir, "js/pnpm-lock.yaml", "");
+
+      expect((await profileWorkspace(path.join(dir, "go"))).frameworks.map((f) => f.name)).toEqual(["gin"]);
+      expect((await profileWorkspace(path.join(dir, "py"))).frameworks.map((f) => f.name)).toEqual(["django"]);
+      const js = await profileWorkspace(path.join(dir, "js"));
+      expect(js.frameworks.map((f) => f.name)).toEqual(["next", "vitest"]);
+      expect(js.packageManagers).toEqual(["pnpm"]);
+    });
+  });
+});
+
+describe("inferScopeKey", () => {
+  test("prefers what the rule mentions, then the primary language", async () => {
+    await withTempDir("profile", async (dir) => {
+      await writeRustProject(dir);
+      const profile = await profileWorkspace(dir);
+
+      expect(inferScopeKey({ scope: "framework", content: "Share state in axum handlers via State<T>" }, profile)).toBe("axum");
+      expect(inferScopeKey({ scope: "framework", content: "Keep handlers small" }, profile)).toBeUndefined();
+      expect(inferScopeKey({ scope: "language", content: "Avoid unwrap in library code" }, profile)).toBe("rust");
+      expect(inferScopeKey({ scope: "global", content: "Anything" }, profile)).toBeUndefined();
+    });
+  });
+});
+
+describe("language/framework scopes in commands", () => {
+  test("cm context keeps only rules for detected languages and cm why shows the scope check", async () => {
+    await withTempCassHome(async (env) => {
+      const project = path.join(env.home, "svc");
+      await writeRustProject(project);
+      writeFileSync(
+        env.playbookPath,
+        yaml.stringify(
+          createTestPlaybook([
+            createTestBullet({ id: "b-rust", content: "Run the tests with cargo nextest", scope: "language", scopeKey: "rust" }),
+            createTestBullet({ id: "b-go", content: "Run the tests with go test -race", scope: "language", scopeKey: "go" }),
+            createTestBullet({ id: "b-any", content: "Run the tests before pushing", scope: "framework" }),
+          ])
+        )
+      );
+
+      const out = JSON.parse(
+        await captureConsoleLog(() => contextCommand("run the tests", { json: true, workspace: project }))
+      );
+      expect(out.data.relevantBullets.map((b: any) => b.id).sort()).toEqual(["b-any", "b-rust"]);
+
+      const why = JSON.parse(await captureConsoleLog(() => whyCommand("b-go", { json: true, workspace: project })));
+      expect(why.data.applicability.applies).toBe(false);
+      expect(why.data.applicability.predicates[0]).toMatchObject({
+        description: "language is go",
+        passed: false,
+        observed: "rust",
+        fromScope: true,
+      });
+    });
+  });
+
+  test("cm project profile --json reports the profile and rejects a missing workspace", async () => {
+    await withTempDir("profile", async (dir) => {
+      await writeRustProject(dir);
+      const out = JSON.parse(await captureConsoleLog(() => projectProfileCommand({ workspace: dir, json: true })));
+      expect(out.command).toBe("project:profile");
+      expect(out.data.languages.map((l: any) => l.name)).toEqual(["rust"]);
+      expect(out.data.lockfiles).toEqual(["Cargo.lock"]);
+
+      const missing = JSON.parse(
+        await captureConsoleLog(() => projectProfileCommand({ workspace: path.join(dir, "nope"), json: true }))
+      );
+      expect(missing.error.code).toBe("FILE_NOT_FOUND");
+    });
+  });
+});